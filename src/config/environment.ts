@@ -37,7 +37,45 @@ export const ENV = {
   PORT: process.env.PORT || 3000,
   NODE_ENV: process.env.NODE_ENV || 'development',
   AUTH_TOKEN: process.env.AUTH_TOKEN, // Opcional: para autenticación simple
+  // Opcional: habilita las herramientas de administración (overrides de tokens)
+  ADMIN_TOKEN: process.env.ADMIN_TOKEN,
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
+  // Intervalo de refresco del repositorio y las listas de tokens (ms)
+  RESOURCE_REFRESH_INTERVAL_MS:
+    Number(process.env.RESOURCE_REFRESH_INTERVAL_MS) || 5 * 60 * 1000,
+  // Almacenamiento persistente del caché: "memory" (solo memoria) o "filesystem"
+  CACHE_BACKEND: process.env.CACHE_BACKEND || 'memory',
+  CACHE_DIR: process.env.CACHE_DIR || '.cache',
+  // Tiempo durante el que los datos cacheados se consideran frescos, por tipo (ms)
+  CACHE_TTL_REPOSITORY_MS:
+    Number(process.env.CACHE_TTL_REPOSITORY_MS) || 5 * 60 * 1000,
+  CACHE_TTL_TOKEN_LISTS_MS:
+    Number(process.env.CACHE_TTL_TOKEN_LISTS_MS) || 30 * 60 * 1000,
+  CACHE_TTL_METADATA_MS:
+    Number(process.env.CACHE_TTL_METADATA_MS) || 30 * 60 * 1000,
+  CACHE_TTL_PRICES_MS: Number(process.env.CACHE_TTL_PRICES_MS) || 60 * 1000,
+  // Tiempo adicional durante el que se sirven datos caducados mientras se revalidan (ms)
+  CACHE_STALE_MS: Number(process.env.CACHE_STALE_MS) || 60 * 60 * 1000,
+  // Directorio de un snapshot exportado: si se indica, todos los datos se sirven desde él
+  SNAPSHOT_DIR: process.env.SNAPSHOT_DIR,
+  // Directorio donde `snapshot:export` crea los snapshots
+  SNAPSHOT_EXPORT_DIR: process.env.SNAPSHOT_EXPORT_DIR || 'snapshots',
+  // Orígenes de datos (ver config/sources.ts): archivo JSON, JSON en línea y variables individuales
+  SOURCES_CONFIG_FILE: process.env.SOURCES_CONFIG_FILE,
+  SOURCES_CONFIG: process.env.SOURCES_CONFIG,
+  REPOSITORY_URL: process.env.REPOSITORY_URL,
+  TEMPLATES_BASE_URL: process.env.TEMPLATES_BASE_URL,
+  TOKEN_LISTS: process.env.TOKEN_LISTS,
+  POPULAR_TOKEN_LISTS: process.env.POPULAR_TOKEN_LISTS,
+  TOKEN_CURATED_RANKS: process.env.TOKEN_CURATED_RANKS,
+  TEMPLATES_FALLBACK_URL: process.env.TEMPLATES_FALLBACK_URL,
+  TEMPLATES_FALLBACK_ENABLED: process.env.TEMPLATES_FALLBACK_ENABLED,
+  PRICE_FEED_FILE: process.env.PRICE_FEED_FILE,
+  PRICE_FEED_URL: process.env.PRICE_FEED_URL,
+  // Registro local de overrides de tokens (solo Node.js): añade, oculta o corrige tokens
+  TOKEN_OVERRIDES_FILE: process.env.TOKEN_OVERRIDES_FILE,
+  // Antigüedad a partir de la cual un precio se considera desactualizado (ms)
+  PRICE_MAX_AGE_MS: Number(process.env.PRICE_MAX_AGE_MS) || 15 * 60 * 1000,
 
   /**
    * @method isDevelopment
@@ -0,0 +1,412 @@
+import type { PriceFeedSource } from '../types/prices'
+import type {
+  SourcesConfig,
+  SourcesConfigOverrides,
+  SourcesVariables
+} from '../types/sources'
+import { readFile } from 'node:fs/promises'
+import {
+  REPOSITORY_BASE_URL,
+  TEMPLATES_BASE_URL,
+  TEMPLATES_FALLBACK_URL
+} from '../constants/url'
+import { TOKEN_LIST_PROVIDERS, resolveProtocolName } from '../providers/registry'
+
+/**
+ * Clase de error para configuraciones de orígenes inválidas
+ */
+export class SourcesConfigError extends Error {
+  constructor (origin: string, message: string) {
+    super(`Configuración de orígenes inválida (${origin}): ${message}`)
+    this.name = 'SourcesConfigError'
+  }
+}
+
+/**
+ * @description Nombres de protocolo admitidos para las listas de tokens
+ */
+const PROTOCOL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+let sources: SourcesConfig = {
+  repositoryUrl: REPOSITORY_BASE_URL,
+  templatesBaseUrl: TEMPLATES_BASE_URL,
+  tokenLists: Object.fromEntries(
+    TOKEN_LIST_PROVIDERS.map(provider => [provider.name, provider.tokenListUrl])
+  ),
+  popularTokenLists: Object.fromEntries(
+    TOKEN_LIST_PROVIDERS.filter(provider => provider.popularTokenListUrl).map(
+      provider => [provider.name, provider.popularTokenListUrl as string]
+    )
+  ),
+  curatedTokenRanks: {},
+  fallbackEndpointUrl: TEMPLATES_FALLBACK_URL,
+  priceFeed: null
+}
+
+/**
+ * @function getSources
+ * @description Obtiene la configuración de orígenes vigente
+ * @returns {SourcesConfig} Configuración de orígenes
+ */
+export function getSources (): SourcesConfig {
+  return sources
+}
+
+/**
+ * @function configureSources
+ * @description Valida y aplica cambios sobre la configuración de orígenes. Las listas de tokens
+ * (y las de tokens populares) se combinan con las existentes: se añaden protocolos nuevos, se
+ * reemplazan los existentes y se eliminan los que tienen valor null; los alias de un proveedor
+ * (ej: "traderjoe") se refieren a su nombre canónico ("lfj"). Los rangos curados reemplazan a
+ * los anteriores. El origen de precios reemplaza al anterior y null lo desactiva.
+ * @param {SourcesConfigOverrides} overrides - Cambios a aplicar
+ * @param {string} origin - Procedencia de los cambios, para los mensajes de error
+ * @returns {SourcesConfig} Configuración resultante
+ * @throws {SourcesConfigError} Si algún valor no es válido; en ese caso no se aplica ningún cambio
+ */
+export function configureSources (
+  overrides: SourcesConfigOverrides,
+  origin: string
+): SourcesConfig {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new SourcesConfigError(origin, 'se esperaba un objeto')
+  }
+
+  const nextSources: SourcesConfig = {
+    ...sources,
+    tokenLists: { ...sources.tokenLists },
+    popularTokenLists: { ...sources.popularTokenLists }
+  }
+
+  if (overrides.repositoryUrl !== undefined) {
+    nextSources.repositoryUrl = validateUrl(
+      overrides.repositoryUrl,
+      'repositoryUrl',
+      origin
+    )
+  }
+
+  if (overrides.templatesBaseUrl !== undefined) {
+    nextSources.templatesBaseUrl = validateUrl(
+      overrides.templatesBaseUrl,
+      'templatesBaseUrl',
+      origin
+    ).replace(/\/+$/, '')
+  }
+
+  if (overrides.fallbackEndpointUrl !== undefined) {
+    nextSources.fallbackEndpointUrl =
+      overrides.fallbackEndpointUrl === null
+        ? null
+        : validateUrl(
+            overrides.fallbackEndpointUrl,
+            'fallbackEndpointUrl',
+            origin
+          )
+  }
+
+  if (overrides.tokenLists !== undefined) {
+    mergeProtocolUrls(
+      nextSources.tokenLists,
+      overrides.tokenLists,
+      'tokenLists',
+      origin
+    )
+  }
+
+  if (overrides.popularTokenLists !== undefined) {
+    mergeProtocolUrls(
+      nextSources.popularTokenLists,
+      overrides.popularTokenLists,
+      'popularTokenLists',
+      origin
+    )
+  }
+
+  if (overrides.curatedTokenRanks !== undefined) {
+    nextSources.curatedTokenRanks = validateCuratedRanks(
+      overrides.curatedTokenRanks,
+      origin
+    )
+  }
+
+  if (overrides.priceFeed !== undefined) {
+    nextSources.priceFeed =
+      overrides.priceFeed === null
+        ? null
+        : validatePriceFeed(overrides.priceFeed, origin)
+  }
+
+  sources = nextSources
+  return sources
+}
+
+/**
+ * @function configureSourcesFromVariables
+ * @description Aplica la configuración de orígenes de las variables de entorno o de los
+ * bindings de Cloudflare Workers: primero SOURCES_CONFIG (JSON) y después las variables
+ * individuales, que tienen prioridad
+ * @param {SourcesVariables} variables - Variables de configuración
+ * @returns {SourcesConfig} Configuración resultante
+ * @throws {SourcesConfigError} Si alguna variable no es válida
+ */
+export function configureSourcesFromVariables (
+  variables: SourcesVariables
+): SourcesConfig {
+  if (variables.SOURCES_CONFIG) {
+    configureSources(
+      parseJson(variables.SOURCES_CONFIG, 'SOURCES_CONFIG'),
+      'SOURCES_CONFIG'
+    )
+  }
+
+  const overrides: SourcesConfigOverrides = {}
+
+  if (variables.REPOSITORY_URL) {
+    overrides.repositoryUrl = variables.REPOSITORY_URL
+  }
+  if (variables.TEMPLATES_BASE_URL) {
+    overrides.templatesBaseUrl = variables.TEMPLATES_BASE_URL
+  }
+  if (variables.TOKEN_LISTS) {
+    overrides.tokenLists = parseJson(variables.TOKEN_LISTS, 'TOKEN_LISTS')
+  }
+  if (variables.POPULAR_TOKEN_LISTS) {
+    overrides.popularTokenLists = parseJson(
+      variables.POPULAR_TOKEN_LISTS,
+      'POPULAR_TOKEN_LISTS'
+    )
+  }
+  if (variables.TOKEN_CURATED_RANKS) {
+    overrides.curatedTokenRanks = parseJson(
+      variables.TOKEN_CURATED_RANKS,
+      'TOKEN_CURATED_RANKS'
+    )
+  }
+  if (variables.TEMPLATES_FALLBACK_URL) {
+    overrides.fallbackEndpointUrl = variables.TEMPLATES_FALLBACK_URL
+  }
+  if (variables.TEMPLATES_FALLBACK_ENABLED !== undefined) {
+    const enabled = variables.TEMPLATES_FALLBACK_ENABLED.trim().toLowerCase()
+
+    if (!['true', 'false', '1', '0'].includes(enabled)) {
+      throw new SourcesConfigError(
+        'TEMPLATES_FALLBACK_ENABLED',
+        `se esperaba "true" o "false" y se recibió "${variables.TEMPLATES_FALLBACK_ENABLED}"`
+      )
+    }
+
+    if (enabled === 'false' || enabled === '0') {
+      overrides.fallbackEndpointUrl = null
+    }
+  }
+
+  if (variables.PRICE_FEED_FILE && variables.PRICE_FEED_URL) {
+    throw new SourcesConfigError(
+      'PRICE_FEED_FILE',
+      'indica PRICE_FEED_FILE o PRICE_FEED_URL, no ambas'
+    )
+  }
+  if (variables.PRICE_FEED_FILE) {
+    overrides.priceFeed = { type: 'file', path: variables.PRICE_FEED_FILE }
+  }
+  if (variables.PRICE_FEED_URL) {
+    overrides.priceFeed = { type: 'http', url: variables.PRICE_FEED_URL }
+  }
+
+  return configureSources(overrides, 'variables de entorno')
+}
+
+/**
+ * @function initializeSources
+ * @description Configura los orígenes en Node.js: primero el archivo indicado en
+ * SOURCES_CONFIG_FILE y después las variables de entorno, que tienen prioridad
+ * @param {SourcesVariables} variables - Variables de entorno
+ * @returns {Promise<SourcesConfig>} Configuración resultante
+ * @throws {SourcesConfigError} Si el archivo o alguna variable no es válida
+ */
+export async function initializeSources (
+  variables: SourcesVariables
+): Promise<SourcesConfig> {
+  const configFile = variables.SOURCES_CONFIG_FILE
+
+  if (configFile) {
+    let content: string
+
+    try {
+      content = await readFile(configFile, 'utf8')
+    } catch (error) {
+      throw new SourcesConfigError(
+        configFile,
+        `no se pudo leer el archivo: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+
+    configureSources(parseJson(content, configFile), configFile)
+  }
+
+  const configured = configureSourcesFromVariables(variables)
+
+  console.error(
+    `Orígenes: repositorio ${configured.repositoryUrl}, plantillas ${
+      configured.templatesBaseUrl
+    }, listas de tokens [${Object.keys(configured.tokenLists).join(
+      ', '
+    )}], respaldo de plantillas ${
+      configured.fallbackEndpointUrl ?? 'desactivado'
+    }`
+  )
+
+  return configured
+}
+
+/**
+ * @description Combina un mapa { protocolo: url } con los cambios indicados (null elimina),
+ * usando el nombre canónico de los protocolos con proveedor
+ */
+function mergeProtocolUrls (
+  target: Record<string, string>,
+  overrides: Record<string, string | null>,
+  field: string,
+  origin: string
+): void {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new SourcesConfigError(
+      origin,
+      `${field} debe ser un objeto { protocolo: url }`
+    )
+  }
+
+  for (const [name, url] of Object.entries(overrides)) {
+    const protocol = name.trim().toLowerCase()
+
+    if (!PROTOCOL_NAME_PATTERN.test(protocol)) {
+      throw new SourcesConfigError(
+        origin,
+        `nombre de protocolo inválido en ${field}: "${name}" (solo letras, números y guiones)`
+      )
+    }
+
+    const canonicalName = resolveProtocolName(protocol)
+
+    if (url === null) {
+      delete target[canonicalName]
+    } else {
+      target[canonicalName] = validateUrl(url, `${field}.${protocol}`, origin)
+    }
+  }
+}
+
+/**
+ * @description Valida los rangos curados: claves "<chainId>:<dirección>" o "<SÍMBOLO>" y
+ * rangos enteros positivos. Normaliza las direcciones a minúsculas y los símbolos a mayúsculas.
+ */
+function validateCuratedRanks (
+  ranks: Record<string, number>,
+  origin: string
+): Record<string, number> {
+  if (!ranks || typeof ranks !== 'object' || Array.isArray(ranks)) {
+    throw new SourcesConfigError(
+      origin,
+      'curatedTokenRanks debe ser un objeto { "<chainId>:<dirección>" | "<SÍMBOLO>": rango }'
+    )
+  }
+
+  const normalizedRanks: Record<string, number> = {}
+
+  for (const [key, rank] of Object.entries(ranks)) {
+    if (!Number.isInteger(rank) || rank < 1) {
+      throw new SourcesConfigError(
+        origin,
+        `rango inválido para "${key}" en curatedTokenRanks: debe ser un entero mayor que 0`
+      )
+    }
+
+    const trimmedKey = key.trim()
+    if (!trimmedKey) {
+      throw new SourcesConfigError(origin, 'clave vacía en curatedTokenRanks')
+    }
+
+    normalizedRanks[
+      trimmedKey.includes(':')
+        ? trimmedKey.toLowerCase()
+        : trimmedKey.toUpperCase()
+    ] = rank
+  }
+
+  return normalizedRanks
+}
+
+/**
+ * @description Valida el origen de precios: { type: "file", path } o { type: "http", url }
+ */
+function validatePriceFeed (value: unknown, origin: string): PriceFeedSource {
+  const feed =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null
+
+  if (feed?.type === 'file') {
+    if (typeof feed.path !== 'string' || !feed.path.trim()) {
+      throw new SourcesConfigError(
+        origin,
+        'priceFeed.path debe ser la ruta de un archivo JSON'
+      )
+    }
+
+    return { type: 'file', path: feed.path.trim() }
+  }
+
+  if (feed?.type === 'http') {
+    return {
+      type: 'http',
+      url: validateUrl(feed.url, 'priceFeed.url', origin)
+    }
+  }
+
+  throw new SourcesConfigError(
+    origin,
+    'priceFeed debe ser { "type": "file", "path": "..." }, { "type": "http", "url": "..." } o null'
+  )
+}
+
+/**
+ * @description Comprueba que un valor sea una URL http(s) y la devuelve sin espacios
+ */
+function validateUrl (value: unknown, field: string, origin: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new SourcesConfigError(origin, `${field} debe ser una URL`)
+  }
+
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    throw new SourcesConfigError(origin, `${field} no es una URL válida: ${value}`)
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new SourcesConfigError(
+      origin,
+      `${field} debe usar http o https: ${value}`
+    )
+  }
+
+  return value.trim()
+}
+
+/**
+ * @description Analiza un JSON de configuración
+ */
+function parseJson<T = any> (content: string, origin: string): T {
+  try {
+    return JSON.parse(content) as T
+  } catch (error) {
+    throw new SourcesConfigError(
+      origin,
+      `JSON inválido: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
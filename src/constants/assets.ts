@@ -0,0 +1,311 @@
+import type { CuratedAsset } from '../types/tokens'
+
+/**
+ * @constant {CuratedAsset[]} CURATED_ASSETS
+ * @description Registro curado de activos presentes en varias cadenas, con sus despliegues
+ * canónicos, sus variantes puenteadas (ej: USDC.e) y sus despliegues en redes de pruebas. Es la
+ * fuente de mayor confianza para relacionar tokens equivalentes.
+ */
+export const CURATED_ASSETS: CuratedAsset[] = [
+  {
+    id: 'usdc',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    deployments: [
+      {
+        chainId: '1',
+        address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0x7F5c764cBc14f9669B88837ca1490cCa17c31607',
+        symbol: 'USDC.e',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Optimism Bridge'
+      },
+      {
+        chainId: '56',
+        address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+        symbol: 'USDC',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Binance-Peg'
+      },
+      {
+        chainId: '137',
+        address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '137',
+        address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+        symbol: 'USDC.e',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Polygon PoS Bridge'
+      },
+      {
+        chainId: '42161',
+        address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '42161',
+        address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+        symbol: 'USDC.e',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Arbitrum Bridge'
+      },
+      {
+        chainId: '43114',
+        address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '43114',
+        address: '0xA7D7079b0FEaD91F3e65f86E8915Cb59c1a4C664',
+        symbol: 'USDC.e',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Avalanche Bridge'
+      },
+      {
+        chainId: '43113',
+        address: '0x5425890298aed601595a70AB815c96711a31Bc65',
+        symbol: 'USDC',
+        decimals: 6,
+        kind: 'testnet'
+      }
+    ]
+  },
+  {
+    id: 'usdt',
+    symbol: 'USDT',
+    name: 'Tether USD',
+    deployments: [
+      {
+        chainId: '1',
+        address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        symbol: 'USDT',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+        symbol: 'USDT',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Optimism Bridge'
+      },
+      {
+        chainId: '56',
+        address: '0x55d398326f99059fF775485246999027B3197955',
+        symbol: 'USDT',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Binance-Peg'
+      },
+      {
+        chainId: '137',
+        address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+        symbol: 'USDT',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Polygon PoS Bridge'
+      },
+      {
+        chainId: '42161',
+        address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+        symbol: 'USDT',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '43114',
+        address: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7',
+        symbol: 'USDt',
+        decimals: 6,
+        kind: 'canonical'
+      },
+      {
+        chainId: '43114',
+        address: '0xc7198437980c041c805A1EDcbA50c1Ce5db95118',
+        symbol: 'USDT.e',
+        decimals: 6,
+        kind: 'bridged',
+        bridge: 'Avalanche Bridge'
+      }
+    ]
+  },
+  {
+    id: 'weth',
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    deployments: [
+      {
+        chainId: '1',
+        address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+        symbol: 'WETH',
+        decimals: 18,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0x4200000000000000000000000000000000000006',
+        symbol: 'WETH',
+        decimals: 18,
+        kind: 'canonical'
+      },
+      {
+        chainId: '56',
+        address: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8',
+        symbol: 'ETH',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Binance-Peg'
+      },
+      {
+        chainId: '137',
+        address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+        symbol: 'WETH',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Polygon PoS Bridge'
+      },
+      {
+        chainId: '42161',
+        address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+        symbol: 'WETH',
+        decimals: 18,
+        kind: 'canonical'
+      },
+      {
+        chainId: '43114',
+        address: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB',
+        symbol: 'WETH.e',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Avalanche Bridge'
+      }
+    ]
+  },
+  {
+    id: 'wbtc',
+    symbol: 'WBTC',
+    name: 'Wrapped BTC',
+    deployments: [
+      {
+        chainId: '1',
+        address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+        symbol: 'WBTC',
+        decimals: 8,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0x68f180fcCe6836688e9084f035309E29Bf0A2095',
+        symbol: 'WBTC',
+        decimals: 8,
+        kind: 'bridged',
+        bridge: 'Optimism Bridge'
+      },
+      {
+        chainId: '137',
+        address: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6',
+        symbol: 'WBTC',
+        decimals: 8,
+        kind: 'bridged',
+        bridge: 'Polygon PoS Bridge'
+      },
+      {
+        chainId: '42161',
+        address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f',
+        symbol: 'WBTC',
+        decimals: 8,
+        kind: 'bridged',
+        bridge: 'Arbitrum Bridge'
+      },
+      {
+        chainId: '43114',
+        address: '0x50b7545627a5162F82A992c33b87aDc75187B218',
+        symbol: 'WBTC.e',
+        decimals: 8,
+        kind: 'bridged',
+        bridge: 'Avalanche Bridge'
+      }
+    ]
+  },
+  {
+    id: 'dai',
+    symbol: 'DAI',
+    name: 'Dai Stablecoin',
+    deployments: [
+      {
+        chainId: '1',
+        address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+        symbol: 'DAI',
+        decimals: 18,
+        kind: 'canonical'
+      },
+      {
+        chainId: '10',
+        address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+        symbol: 'DAI',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Optimism Bridge'
+      },
+      {
+        chainId: '56',
+        address: '0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3',
+        symbol: 'DAI',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Binance-Peg'
+      },
+      {
+        chainId: '137',
+        address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+        symbol: 'DAI',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Polygon PoS Bridge'
+      },
+      {
+        chainId: '42161',
+        address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+        symbol: 'DAI',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Arbitrum Bridge'
+      },
+      {
+        chainId: '43114',
+        address: '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70',
+        symbol: 'DAI.e',
+        decimals: 18,
+        kind: 'bridged',
+        bridge: 'Avalanche Bridge'
+      }
+    ]
+  }
+]
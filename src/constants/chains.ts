@@ -0,0 +1,250 @@
+import type { ChainInfo } from '../types/chains'
+
+/**
+ * @constant {ChainInfo[]} CHAINS
+ * @description Registro de cadenas soportadas con sus identificadores, alias,
+ * moneda nativa (y su token envuelto) y patrones de URL del explorador de bloques.
+ */
+export const CHAINS: ChainInfo[] = [
+  {
+    id: 1,
+    name: 'Ethereum',
+    aliases: ['ethereum', 'eth', 'mainnet', 'ethereum-mainnet'],
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped Ether',
+        symbol: 'WETH',
+        address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Etherscan',
+      url: 'https://etherscan.io',
+      tokenUrl: 'https://etherscan.io/token/{address}',
+      addressUrl: 'https://etherscan.io/address/{address}',
+      txUrl: 'https://etherscan.io/tx/{hash}'
+    }
+  },
+  {
+    id: 10,
+    name: 'Optimism',
+    aliases: ['optimism', 'op', 'op-mainnet'],
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped Ether',
+        symbol: 'WETH',
+        address: '0x4200000000000000000000000000000000000006',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Optimistic Etherscan',
+      url: 'https://optimistic.etherscan.io',
+      tokenUrl: 'https://optimistic.etherscan.io/token/{address}',
+      addressUrl: 'https://optimistic.etherscan.io/address/{address}',
+      txUrl: 'https://optimistic.etherscan.io/tx/{hash}'
+    }
+  },
+  {
+    id: 56,
+    name: 'BNB Chain',
+    aliases: ['bnb', 'bsc', 'binance', 'bnb-chain', 'binance-smart-chain'],
+    nativeCurrency: {
+      name: 'BNB',
+      symbol: 'BNB',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped BNB',
+        symbol: 'WBNB',
+        address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'BscScan',
+      url: 'https://bscscan.com',
+      tokenUrl: 'https://bscscan.com/token/{address}',
+      addressUrl: 'https://bscscan.com/address/{address}',
+      txUrl: 'https://bscscan.com/tx/{hash}'
+    }
+  },
+  {
+    id: 100,
+    name: 'Gnosis',
+    aliases: ['gnosis', 'gnosis-chain', 'xdai'],
+    nativeCurrency: {
+      name: 'xDAI',
+      symbol: 'XDAI',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped XDAI',
+        symbol: 'WXDAI',
+        address: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Gnosisscan',
+      url: 'https://gnosisscan.io',
+      tokenUrl: 'https://gnosisscan.io/token/{address}',
+      addressUrl: 'https://gnosisscan.io/address/{address}',
+      txUrl: 'https://gnosisscan.io/tx/{hash}'
+    }
+  },
+  {
+    id: 137,
+    name: 'Polygon',
+    aliases: ['polygon', 'matic', 'polygon-pos'],
+    nativeCurrency: {
+      name: 'POL',
+      symbol: 'POL',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped POL',
+        symbol: 'WPOL',
+        address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'PolygonScan',
+      url: 'https://polygonscan.com',
+      tokenUrl: 'https://polygonscan.com/token/{address}',
+      addressUrl: 'https://polygonscan.com/address/{address}',
+      txUrl: 'https://polygonscan.com/tx/{hash}'
+    }
+  },
+  {
+    id: 8453,
+    name: 'Base',
+    aliases: ['base', 'base-mainnet'],
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped Ether',
+        symbol: 'WETH',
+        address: '0x4200000000000000000000000000000000000006',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'BaseScan',
+      url: 'https://basescan.org',
+      tokenUrl: 'https://basescan.org/token/{address}',
+      addressUrl: 'https://basescan.org/address/{address}',
+      txUrl: 'https://basescan.org/tx/{hash}'
+    }
+  },
+  {
+    id: 42161,
+    name: 'Arbitrum',
+    aliases: ['arbitrum', 'arb', 'arbitrum-one'],
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped Ether',
+        symbol: 'WETH',
+        address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Arbiscan',
+      url: 'https://arbiscan.io',
+      tokenUrl: 'https://arbiscan.io/token/{address}',
+      addressUrl: 'https://arbiscan.io/address/{address}',
+      txUrl: 'https://arbiscan.io/tx/{hash}'
+    }
+  },
+  {
+    id: 42220,
+    name: 'Celo',
+    aliases: ['celo', 'celo-mainnet'],
+    // CELO es a la vez moneda nativa y token ERC-20: su propio contrato hace de token envuelto
+    nativeCurrency: {
+      name: 'Celo',
+      symbol: 'CELO',
+      decimals: 18,
+      wrapped: {
+        name: 'Celo native asset',
+        symbol: 'CELO',
+        address: '0x471EcE3750Da237f93B8E339c536989b8978a438',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Celoscan',
+      url: 'https://celoscan.io',
+      tokenUrl: 'https://celoscan.io/token/{address}',
+      addressUrl: 'https://celoscan.io/address/{address}',
+      txUrl: 'https://celoscan.io/tx/{hash}'
+    }
+  },
+  {
+    id: 43114,
+    name: 'Avalanche',
+    aliases: ['avalanche', 'avax', 'avalanche-c', 'avalanche-mainnet'],
+    nativeCurrency: {
+      name: 'Avalanche',
+      symbol: 'AVAX',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped AVAX',
+        symbol: 'WAVAX',
+        address: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7',
+        decimals: 18
+      }
+    },
+    testnet: false,
+    explorer: {
+      name: 'Snowtrace',
+      url: 'https://snowtrace.io',
+      tokenUrl: 'https://snowtrace.io/token/{address}',
+      addressUrl: 'https://snowtrace.io/address/{address}',
+      txUrl: 'https://snowtrace.io/tx/{hash}'
+    }
+  },
+  {
+    id: 43113,
+    name: 'Avalanche Fuji',
+    aliases: ['fuji', 'fuji-c', 'avalanche-fuji', 'avalanche-testnet'],
+    nativeCurrency: {
+      name: 'Avalanche',
+      symbol: 'AVAX',
+      decimals: 18,
+      wrapped: {
+        name: 'Wrapped AVAX',
+        symbol: 'WAVAX',
+        address: '0xd00ae08403B9bbb9124bB305C09058E32C39A48c',
+        decimals: 18
+      }
+    },
+    testnet: true,
+    explorer: {
+      name: 'Snowtrace Testnet',
+      url: 'https://testnet.snowtrace.io',
+      tokenUrl: 'https://testnet.snowtrace.io/token/{address}',
+      addressUrl: 'https://testnet.snowtrace.io/address/{address}',
+      txUrl: 'https://testnet.snowtrace.io/tx/{hash}'
+    }
+  }
+]
@@ -1,36 +1,52 @@
 /**
  * @constant {string} REPOSITORY_BASE_URL
- * @description URL base para acceder a la API del repositorio de metadatos blockchain.
+ * @description URL base para acceder a la API del repositorio de metadatos blockchain (por defecto).
  */
 export const REPOSITORY_BASE_URL = 'https://api.sherry.social/v1/repository/v1'
 
 /**
  * @constant {string} TEMPLATES_BASE_URL
- * @description URL base para acceder a las plantillas de mini aplicaciones.
+ * @description URL base para acceder a las plantillas de mini aplicaciones (por defecto).
  */
 export const TEMPLATES_BASE_URL = 'https://api.sherry.social/templates/v1'
 
 /**
  * @constant {string} LFJ_VERIFIED_TOKENLIST_URL
- * @description URL al listado de tokens verificados de Trader Joe en GitHub.
+ * @description URL al listado de tokens verificados de Trader Joe en GitHub (contenido en bruto).
  */
 export const LFJ_VERIFIED_TOKENLIST_URL =
-  'https://github.com/traderjoe-xyz/joe-tokenlists-v2/blob/main/verified_tokenlist.json'
+  'https://raw.githubusercontent.com/traderjoe-xyz/joe-tokenlists-v2/main/verified_tokenlist.json'
 
 /**
  * @constant {string} LFJ_POPULAR_TOKENLIST_URL
- * @description URL al listado de tokens populares de Trader Joe en GitHub.
+ * @description URL al listado de tokens populares de Trader Joe en GitHub (contenido en bruto).
  */
 export const LFJ_POPULAR_TOKENLIST_URL =
-  'https://github.com/traderjoe-xyz/joe-tokenlists-v2/blob/main/popular_tokenlist.json'
+  'https://raw.githubusercontent.com/traderjoe-xyz/joe-tokenlists-v2/main/popular_tokenlist.json'
 
 /**
- * @constant {Record<string, string>} PROTOCOL_TOKENLIST_URLS
- * @description Mapeo de protocolos a sus URLs de tokenlists oficiales.
- * Actualmente incluye los listados para LiquidityForJoe (lfj) y TraderJoe.
+ * @constant {string} UNISWAP_DEFAULT_TOKENLIST_URL
+ * @description URL a la lista de tokens por defecto de Uniswap (varias cadenas).
  */
-export const PROTOCOL_TOKENLIST_URLS: Record<string, string> = {
-  lfj: 'https://raw.githubusercontent.com/traderjoe-xyz/joe-tokenlists-v2/main/verified_tokenlist.json',
-  traderjoe:
-    'https://raw.githubusercontent.com/traderjoe-xyz/joe-tokenlists-v2/main/verified_tokenlist.json'
-}
+export const UNISWAP_DEFAULT_TOKENLIST_URL = 'https://tokens.uniswap.org'
+
+/**
+ * @constant {string} PANCAKESWAP_EXTENDED_TOKENLIST_URL
+ * @description URL a la lista extendida de tokens de PancakeSwap en BNB Smart Chain.
+ */
+export const PANCAKESWAP_EXTENDED_TOKENLIST_URL =
+  'https://tokens.pancakeswap.finance/pancakeswap-extended.json'
+
+/**
+ * @constant {string} AAVE_TOKENLIST_URL
+ * @description URL a la lista de tokens del Aave Address Book (activos y aTokens de Aave v3).
+ */
+export const AAVE_TOKENLIST_URL =
+  'https://raw.githubusercontent.com/bgd-labs/aave-address-book/main/tokenlist.json'
+
+/**
+ * @constant {string} TEMPLATES_FALLBACK_URL
+ * @description Endpoint de respaldo para plantillas cuyo endpoint devuelve 404 (por defecto).
+ */
+export const TEMPLATES_FALLBACK_URL =
+  'https://staging.sherry.social/api/examples/token-mill-swap'
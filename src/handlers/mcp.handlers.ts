@@ -3,10 +3,17 @@ import { randomUUID } from 'crypto'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
 import { ServerResponse, IncomingMessage } from 'http'
 import { createErrorResponse, ErrorCode } from '../utils/error.handler'
 import { SessionManager } from '../utils/session.manager'
+import { enableResourceSubscriptions } from '../utils/resource.subscriptions'
 import { logger } from '../utils/logger'
+import type {
+  McpPromptRegistration,
+  McpResourceRegistration,
+  McpToolRegistration
+} from '../types/mcp'
 
 // Obtener la instancia singleton del gestor de sesiones
 const sessionManager = SessionManager.getInstance()
@@ -14,26 +21,42 @@ const sessionManager = SessionManager.getInstance()
 /**
  * @function createMcpServer
  * @description Crea una instancia del servidor MCP con la configuración predeterminada
- * y registra todas las herramientas necesarias.
+ * y registra todas las herramientas, recursos y prompts necesarios.
  * @param {Array<Function>} tools - Funciones para registrar herramientas en el servidor
+ * @param {Array<Function>} [resources] - Funciones para registrar recursos en el servidor
+ * @param {Array<Function>} [prompts] - Funciones para registrar prompts en el servidor
  * @returns {McpServer} Instancia configurada del servidor MCP
  */
 export function createMcpServer (
-  tools: Array<(server: McpServer) => void>
+  tools: McpToolRegistration[],
+  resources: McpResourceRegistration[] = [],
+  prompts: McpPromptRegistration[] = []
 ): McpServer {
-  const server = new McpServer({
-    name: 'mcp-blockchain-metadata',
-    version: '1.0.0',
-    description: 'MCP Blockchain Metadata',
-    author: 'Franco Carballar',
-    repository:
-      'https://github.com/francocarballar/mcp-blockchain-metadata.git',
-    homepage: 'https://www.francocarballar.com/'
-  })
+  const server = new McpServer(
+    {
+      name: 'mcp-blockchain-metadata',
+      version: '1.0.0',
+      description: 'MCP Blockchain Metadata',
+      author: 'Franco Carballar',
+      repository:
+        'https://github.com/francocarballar/mcp-blockchain-metadata.git',
+      homepage: 'https://www.francocarballar.com/'
+    },
+    {
+      // Completado de argumentos de prompts y plantillas de recursos
+      capabilities: { completions: {} }
+    }
+  )
 
   // Registrar herramientas
   tools.forEach(register => register(server))
 
+  // Registrar recursos
+  resources.forEach(register => register(server))
+
+  // Registrar prompts
+  prompts.forEach(register => register(server))
+
   return server
 }
 
@@ -78,18 +101,17 @@ function createStreamResponse (
           return customRes
         }
 
+        // El transporte entrega la autenticación de la petición (authInfo) a las herramientas
+        const request = c.req.raw as unknown as IncomingMessage & {
+          auth?: AuthInfo
+        }
+        request.auth = c.get('authInfo')
+
         // Determinar qué método de transporte usar según existe el cuerpo de solicitud
         const handleRequest = () => {
           return requestBody
-            ? transport.handleRequest(
-                c.req.raw as unknown as IncomingMessage,
-                customRes,
-                requestBody
-              )
-            : transport.handleRequest(
-                c.req.raw as unknown as IncomingMessage,
-                customRes
-              )
+            ? transport.handleRequest(request, customRes, requestBody)
+            : transport.handleRequest(request, customRes)
         }
 
         // Manejar la solicitud y capturar posibles errores
@@ -123,9 +145,15 @@ function createStreamResponse (
  * @description Maneja solicitudes POST para comunicación cliente-servidor
  * Gestiona inicialización de sesiones y procesamiento de mensajes JSON-RPC
  * @param {Array<Function>} tools - Funciones para registrar herramientas en el servidor
+ * @param {Array<Function>} [resources] - Funciones para registrar recursos en el servidor
+ * @param {Array<Function>} [prompts] - Funciones para registrar prompts en el servidor
  * @returns {Function} Handler para ruta POST de MCP
  */
-export function handlePostRequest (tools: Array<(server: McpServer) => void>) {
+export function handlePostRequest (
+  tools: McpToolRegistration[],
+  resources: McpResourceRegistration[] = [],
+  prompts: McpPromptRegistration[] = []
+) {
   return async (c: Context) => {
     try {
       const requestBody = await c.req.json()
@@ -143,7 +171,7 @@ export function handlePostRequest (tools: Array<(server: McpServer) => void>) {
       // Caso 2: Nueva solicitud de inicialización
       if (!sessionId && isInitializeRequest(requestBody)) {
         logger.info('Inicializando nueva sesión MCP')
-        const transport = await initializeSession(tools)
+        const transport = await initializeSession(tools, resources, prompts)
         return createStreamResponse(c, transport, requestBody)
       }
 
@@ -173,15 +201,32 @@ export function handlePostRequest (tools: Array<(server: McpServer) => void>) {
  * @function initializeSession
  * @description Inicializa una nueva sesión con su transporte
  * @param {Array<Function>} tools - Funciones para registrar herramientas
+ * @param {Array<Function>} resources - Funciones para registrar recursos
+ * @param {Array<Function>} prompts - Funciones para registrar prompts
  * @returns {Promise<StreamableHTTPServerTransport>} Transporte inicializado
  */
 async function initializeSession (
-  tools: Array<(server: McpServer) => void>
+  tools: McpToolRegistration[],
+  resources: McpResourceRegistration[],
+  prompts: McpPromptRegistration[]
 ): Promise<StreamableHTTPServerTransport> {
+  const server = createMcpServer(tools, resources, prompts)
+
+  // Permitir que el cliente se suscriba a cambios de los recursos
+  enableResourceSubscriptions(server, {
+    onSubscribe: (uri, sessionId) => {
+      if (sessionId) sessionManager.subscribe(sessionId, uri)
+    },
+    onUnsubscribe: (uri, sessionId) => {
+      if (sessionId) sessionManager.unsubscribe(sessionId, uri)
+    }
+  })
+
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: () => randomUUID(),
     onsessioninitialized: sessionId => {
       sessionManager.addTransport(sessionId, transport)
+      sessionManager.addServer(sessionId, server)
       logger.info('Nueva sesión inicializada', { sessionId })
     }
   })
@@ -194,7 +239,6 @@ async function initializeSession (
     }
   }
 
-  const server = createMcpServer(tools)
   await server.connect(transport)
 
   return transport
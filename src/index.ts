@@ -1,8 +1,34 @@
 import { Hono } from 'hono'
 import { setupMcpRoutes } from './mcp-http'
+import { setCacheBackend } from './services/cache'
+import { KvCacheBackend } from './services/cache.kv'
+import { configureSourcesFromVariables } from './config/sources'
 
 const app = new Hono<{ Bindings: CloudflareBindings }>()
 
+// Usar el KV del binding CACHE, si está configurado, como almacenamiento persistente del caché
+let cacheConfigured = false
+app.use('*', async (c, next) => {
+  if (!cacheConfigured) {
+    cacheConfigured = true
+    if (c.env.CACHE) {
+      setCacheBackend(new KvCacheBackend(c.env.CACHE))
+    }
+  }
+  await next()
+})
+
+// Aplicar la configuración de orígenes de los bindings (vars) antes de atender peticiones.
+// Si no es válida, todas las peticiones fallan con el error hasta que se corrija.
+let sourcesConfigured = false
+app.use('*', async (c, next) => {
+  if (!sourcesConfigured) {
+    configureSourcesFromVariables(c.env)
+    sourcesConfigured = true
+  }
+  await next()
+})
+
 // Configurar las rutas MCP reutilizando la lógica existente
 setupMcpRoutes(app)
 
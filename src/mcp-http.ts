@@ -12,20 +12,58 @@ import {
   handleDeleteRequest
 } from './handlers/mcp.handlers'
 
+// Services
+import {
+  onResourceChange,
+  startRepositoryWatcher
+} from './services/repository.watcher'
+import { setCacheBackend } from './services/cache'
+import { FileSystemCacheBackend } from './services/cache.fs'
+import { loadSnapshot, setActiveSnapshot } from './services/snapshot'
+
 // Utils
 import { setupErrorHandlers } from './utils/error.handler'
 import { logger } from './utils/logger'
+import { SessionManager } from './utils/session.manager'
 
 // Config
 import { ENV } from './config/environment'
+import { initializeSources } from './config/sources'
 
 // Tools
 import { registerGetMiniAppEndpointsTool } from './tools/getMiniAppEndpoints.tool'
 import { registerGetProtocolTokensTool } from './tools/getProtocolTokens.tool'
 import { registerGetMetadataOfTemplateTool } from './tools/getMetadataOfTemplate.tool'
+import { registerCheckDomainSafetyTool } from './tools/checkDomainSafety.tool'
+import { registerCustomizeMiniAppTool } from './tools/customizeMiniApp.tool'
+import { registerSearchMiniAppsTool } from './tools/searchMiniApps.tool'
+import { registerSearchTokensTool } from './tools/searchTokens.tool'
+import { registerGetTokenListReportTool } from './tools/getTokenListReport.tool'
+import { registerGetTokenListChangesTool } from './tools/getTokenListChanges.tool'
+import { registerConvertTokenAmountTool } from './tools/convertTokenAmount.tool'
+import { registerGetChainInfoTool } from './tools/getChainInfo.tool'
+import { registerGetNativeTokenTool } from './tools/getNativeToken.tool'
+import { registerGetTokenEquivalentsTool } from './tools/getTokenEquivalents.tool'
+import { registerListTokenOverridesTool } from './tools/listTokenOverrides.tool'
+import { registerSetTokenOverrideTool } from './tools/setTokenOverride.tool'
+import { registerRemoveTokenOverrideTool } from './tools/removeTokenOverride.tool'
+
+// Resources
+import { registerTemplateResources } from './resources/templates.resource'
+import { registerTokenResources } from './resources/tokens.resource'
+import { registerRepositoryResources } from './resources/repository.resource'
+
+// Prompts
+import { registerMiniAppPrompts } from './prompts/miniapps.prompt'
+import { registerTokenSelectionPrompt } from './prompts/tokens.prompt'
+import { registerDomainVettingPrompt } from './prompts/domain.prompt'
 
 // Types
-import { McpToolRegistration } from './types/mcp'
+import {
+  McpPromptRegistration,
+  McpResourceRegistration,
+  McpToolRegistration
+} from './types/mcp'
 
 /**
  * Configures MCP routes on the provided Hono app instance
@@ -37,17 +75,46 @@ export function setupMcpRoutes<T extends object = {}> (app: Hono<T>) {
   const mcpTools: McpToolRegistration[] = [
     registerGetMiniAppEndpointsTool,
     registerGetProtocolTokensTool,
-    registerGetMetadataOfTemplateTool
+    registerGetMetadataOfTemplateTool,
+    registerCheckDomainSafetyTool,
+    registerCustomizeMiniAppTool,
+    registerSearchMiniAppsTool,
+    registerSearchTokensTool,
+    registerGetTokenListReportTool,
+    registerGetTokenListChangesTool,
+    registerConvertTokenAmountTool,
+    registerGetChainInfoTool,
+    registerGetNativeTokenTool,
+    registerGetTokenEquivalentsTool,
+    registerListTokenOverridesTool,
+    // Herramientas de administración: solo se registran con ADMIN_TOKEN y solo las pueden usar
+    // las peticiones autenticadas con ese token (Authorization: Bearer)
+    registerSetTokenOverrideTool,
+    registerRemoveTokenOverrideTool
+  ]
+
+  // Recursos a registrar en el servidor MCP
+  const mcpResources: McpResourceRegistration[] = [
+    registerTemplateResources,
+    registerTokenResources,
+    registerRepositoryResources
+  ]
+
+  // Prompts a registrar en el servidor MCP
+  const mcpPrompts: McpPromptRegistration[] = [
+    registerMiniAppPrompts,
+    registerTokenSelectionPrompt,
+    registerDomainVettingPrompt
   ]
 
   // Crear middleware de autenticación
-  const authMiddleware = createAuthMiddleware(ENV.AUTH_TOKEN)
+  const authMiddleware = createAuthMiddleware(ENV.AUTH_TOKEN, ENV.ADMIN_TOKEN)
 
   // Aplicar middleware de autenticación a endpoints MCP
   app.use('/sse', authMiddleware)
 
   // Configurar rutas MCP
-  app.post('/sse', handlePostRequest(mcpTools))
+  app.post('/sse', handlePostRequest(mcpTools, mcpResources, mcpPrompts))
   app.get('/sse', handleGetRequest())
   app.delete('/sse', handleDeleteRequest())
 
@@ -73,11 +140,32 @@ async function main () {
       auth: ENV.AUTH_TOKEN ? 'configurado' : 'no configurado'
     })
 
+    // Orígenes de datos: archivo de configuración y variables de entorno
+    await initializeSources(ENV)
+
+    // Conservar el caché en disco entre reinicios si así se configura
+    if (ENV.CACHE_BACKEND === 'filesystem') {
+      setCacheBackend(new FileSystemCacheBackend(ENV.CACHE_DIR))
+    }
+
+    // Servir todos los datos desde un snapshot exportado, sin acceso a los orígenes
+    if (ENV.SNAPSHOT_DIR) {
+      setActiveSnapshot(await loadSnapshot(ENV.SNAPSHOT_DIR))
+    }
+
     const app = new Hono()
 
     // Configurar rutas MCP
     setupMcpRoutes(app)
 
+    // Refrescar periódicamente el repositorio y notificar cambios a las sesiones suscritas
+    // (un snapshot no cambia, así que en modo snapshot no hay nada que refrescar)
+    if (!ENV.SNAPSHOT_DIR) {
+      const sessionManager = SessionManager.getInstance()
+      onResourceChange(change => sessionManager.notifyResourceChange(change))
+      startRepositoryWatcher(ENV.RESOURCE_REFRESH_INTERVAL_MS)
+    }
+
     // Iniciar el servidor con el adaptador de servidor node de Hono
     serve(
       {
@@ -3,23 +3,108 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { registerGetMiniAppEndpointsTool } from './tools/getMiniAppEndpoints.tool'
 import { registerGetProtocolTokensTool } from './tools/getProtocolTokens.tool'
 import { registerGetMetadataOfTemplateTool } from './tools/getMetadataOfTemplate.tool'
+import { registerCheckDomainSafetyTool } from './tools/checkDomainSafety.tool'
+import { registerCustomizeMiniAppTool } from './tools/customizeMiniApp.tool'
+import { registerSearchMiniAppsTool } from './tools/searchMiniApps.tool'
+import { registerSearchTokensTool } from './tools/searchTokens.tool'
+import { registerGetTokenListReportTool } from './tools/getTokenListReport.tool'
+import { registerGetTokenListChangesTool } from './tools/getTokenListChanges.tool'
+import { registerConvertTokenAmountTool } from './tools/convertTokenAmount.tool'
+import { registerGetChainInfoTool } from './tools/getChainInfo.tool'
+import { registerGetNativeTokenTool } from './tools/getNativeToken.tool'
+import { registerGetTokenEquivalentsTool } from './tools/getTokenEquivalents.tool'
+import { registerListTokenOverridesTool } from './tools/listTokenOverrides.tool'
+import { registerSetTokenOverrideTool } from './tools/setTokenOverride.tool'
+import { registerRemoveTokenOverrideTool } from './tools/removeTokenOverride.tool'
+import { registerTemplateResources } from './resources/templates.resource'
+import { registerTokenResources } from './resources/tokens.resource'
+import { registerRepositoryResources } from './resources/repository.resource'
+import { registerMiniAppPrompts } from './prompts/miniapps.prompt'
+import { registerTokenSelectionPrompt } from './prompts/tokens.prompt'
+import { registerDomainVettingPrompt } from './prompts/domain.prompt'
+import {
+  onResourceChange,
+  startRepositoryWatcher
+} from './services/repository.watcher'
+import { setCacheBackend } from './services/cache'
+import { FileSystemCacheBackend } from './services/cache.fs'
+import { loadSnapshot, setActiveSnapshot } from './services/snapshot'
+import {
+  enableResourceSubscriptions,
+  notifyResourceChange
+} from './utils/resource.subscriptions'
+import { enableLocalAdminAccess } from './utils/admin'
+import { ENV } from './config/environment'
+import { initializeSources } from './config/sources'
 
 async function main () {
+  // Orígenes de datos: archivo de configuración y variables de entorno
+  await initializeSources(ENV)
+
+  // Conservar el caché en disco entre ejecuciones si así se configura
+  if (ENV.CACHE_BACKEND === 'filesystem') {
+    setCacheBackend(new FileSystemCacheBackend(ENV.CACHE_DIR))
+  }
+
+  // Servir todos los datos desde un snapshot exportado, sin acceso a los orígenes
+  if (ENV.SNAPSHOT_DIR) {
+    setActiveSnapshot(await loadSnapshot(ENV.SNAPSHOT_DIR))
+  }
+
   // Crear instancia del servidor MCP
-  const server = new McpServer({
-    name: 'mcp-blockchain-metadata',
-    version: '1.0.0',
-    description: 'MCP Blockchain Metadata',
-    author: 'Franco Carballar',
-    repository:
-      'https://github.com/francocarballar/mcp-blockchain-metadata.git',
-    homepage: 'https://www.francocarballar.com/'
-  })
+  const server = new McpServer(
+    {
+      name: 'mcp-blockchain-metadata',
+      version: '1.0.0',
+      description: 'MCP Blockchain Metadata',
+      author: 'Franco Carballar',
+      repository:
+        'https://github.com/francocarballar/mcp-blockchain-metadata.git',
+      homepage: 'https://www.francocarballar.com/'
+    },
+    {
+      // Completado de argumentos de prompts y plantillas de recursos
+      capabilities: { completions: {} }
+    }
+  )
 
   // Registrar las herramientas pasando la instancia del servidor
   registerGetMiniAppEndpointsTool(server)
   registerGetProtocolTokensTool(server)
   registerGetMetadataOfTemplateTool(server)
+  registerCheckDomainSafetyTool(server)
+  registerCustomizeMiniAppTool(server)
+  registerSearchMiniAppsTool(server)
+  registerSearchTokensTool(server)
+  registerGetTokenListReportTool(server)
+  registerGetTokenListChangesTool(server)
+  registerConvertTokenAmountTool(server)
+  registerGetChainInfoTool(server)
+  registerGetNativeTokenTool(server)
+  registerGetTokenEquivalentsTool(server)
+  registerListTokenOverridesTool(server)
+  // Herramientas de administración: solo se registran con ADMIN_TOKEN. El cliente stdio es el
+  // proceso que lanzó el servidor con ese token en su entorno, por lo que tiene acceso.
+  enableLocalAdminAccess()
+  registerSetTokenOverrideTool(server)
+  registerRemoveTokenOverrideTool(server)
+
+  // Registrar los recursos del repositorio
+  registerTemplateResources(server)
+  registerTokenResources(server)
+  registerRepositoryResources(server)
+
+  // Registrar los prompts de flujos de trabajo habituales
+  registerMiniAppPrompts(server)
+  registerTokenSelectionPrompt(server)
+  registerDomainVettingPrompt(server)
+
+  // Permitir que el cliente se suscriba a cambios de los recursos
+  const subscriptions = new Set<string>()
+  enableResourceSubscriptions(server, {
+    onSubscribe: uri => subscriptions.add(uri),
+    onUnsubscribe: uri => subscriptions.delete(uri)
+  })
 
   // Crear un transporte stdio para la comunicación con el inspector
   const transport = new StdioServerTransport()
@@ -27,6 +112,15 @@ async function main () {
   // Conectar el servidor al transporte
   await server.connect(transport)
 
+  // Refrescar periódicamente el repositorio y notificar los cambios al cliente
+  // (un snapshot no cambia, así que en modo snapshot no hay nada que refrescar)
+  if (!ENV.SNAPSHOT_DIR) {
+    onResourceChange(async change => {
+      await notifyResourceChange(server, subscriptions, change)
+    })
+    startRepositoryWatcher(ENV.RESOURCE_REFRESH_INTERVAL_MS)
+  }
+
   // El transporte maneja automáticamente stdin/stdout
   console.error('MCP server ready with stdio transport')
 }
@@ -1,15 +1,22 @@
 import { Context } from 'hono'
 import { createErrorResponse, ErrorCode } from '../utils/error.handler'
 import { logger } from '../utils/logger'
+import { createAdminAuthInfo, tokensMatch } from '../utils/admin'
 
 /**
  * @function createAuthMiddleware
  * @description Middleware de autenticación para proteger endpoints MCP
- * Verifica que el token de autorización sea válido antes de permitir el acceso
+ * Verifica que el token de autorización sea válido antes de permitir el acceso. Las peticiones
+ * autenticadas con el token de administración se admiten siempre y llevan su authInfo (variable
+ * 'authInfo' del contexto), que habilita las herramientas de administración.
  * @param {string} authToken - Token de autorización para validar solicitudes
+ * @param {string} [adminToken] - Token de administración
  * @returns {Function} Middleware para usar con Hono
  */
-export const createAuthMiddleware = (authToken?: string) => {
+export const createAuthMiddleware = (
+  authToken?: string,
+  adminToken?: string
+) => {
   if (!authToken) {
     logger.warn(
       'Auth middleware configurado sin token de autenticación. Todas las solicitudes serán permitidas.'
@@ -26,13 +33,28 @@ export const createAuthMiddleware = (authToken?: string) => {
    * @returns {Promise<Response>} Respuesta de error o continúa al siguiente middleware
    */
   return async (c: Context, next: () => Promise<void>) => {
+    const authHeader = c.req.header('authorization')
+
+    // El token de administración da acceso y habilita las herramientas de administración
+    if (
+      adminToken &&
+      authHeader?.startsWith('Bearer ') &&
+      tokensMatch(authHeader.slice(7), adminToken)
+    ) {
+      c.set('authInfo', createAdminAuthInfo(authHeader.slice(7)))
+      logger.debug('Solicitud autenticada como administrador', {
+        path: c.req.path,
+        method: c.req.method
+      })
+      return next()
+    }
+
     // Si no hay token configurado, permitir todas las solicitudes
     if (!authToken) {
       logger.debug('Solicitud permitida (sin autenticación requerida)')
       return next()
     }
 
-    const authHeader = c.req.header('authorization')
     const requestInfo = {
       path: c.req.path,
       method: c.req.method,
@@ -0,0 +1,251 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import { getChainName, normalizeChainId } from '../services/chains'
+import { getTemplates } from '../services/repository'
+import { filterTemplates } from '../services/templates'
+import { getTokensByProtocol } from '../services/tokens'
+import { getTokenListProvider } from '../services/providers'
+import { TEMPLATES_URI } from '../resources/templates.resource'
+import { TOKENS_URI } from '../resources/tokens.resource'
+import { ErrorCode } from '../utils/error.handler'
+
+/**
+ * @description Número máximo de tokens incrustados en un prompt para no saturar el contexto
+ */
+export const MAX_PROMPT_TOKENS = 50
+
+/**
+ * @interface TemplatesContext
+ * @description Plantillas de una categoría incrustadas en un prompt
+ * @property {string} uri - URI del recurso de la categoría
+ * @property {Array} templates - Plantillas encontradas
+ * @property {string} [note] - Aclaración sobre los datos (filtro relajado, error, etc.)
+ */
+export interface TemplatesContext {
+  uri: string
+  templates: Array<{
+    id: string
+    name: string
+    protocol: string
+    categoryId: string
+    metadataUrl: string
+  }>
+  note?: string
+}
+
+/**
+ * @interface TokensContext
+ * @description Tokens de un protocolo incrustados en un prompt
+ * @property {string} uri - URI del recurso de tokens
+ * @property {Array} tokens - Tokens incluidos (como máximo MAX_PROMPT_TOKENS)
+ * @property {number} total - Total de tokens disponibles antes de recortar
+ * @property {string} [note] - Aclaración sobre los datos (recorte, error, etc.)
+ */
+export interface TokensContext {
+  uri: string
+  tokens: Array<{
+    symbol: string
+    name: string
+    address: string
+    decimals: number
+    chainId: string
+    tags: any[]
+  }>
+  total: number
+  note?: string
+}
+
+/**
+ * @description Crea un mensaje de prompt con texto
+ * @param {string} text - Texto del mensaje
+ * @returns {PromptMessage} Mensaje del usuario
+ */
+export function createTextMessage (text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } }
+}
+
+/**
+ * @description Crea un mensaje de prompt que incrusta datos JSON como recurso
+ * @param {string} uri - URI del recurso incrustado
+ * @param {unknown} data - Datos a incrustar
+ * @returns {PromptMessage} Mensaje del usuario con el recurso
+ */
+export function createResourceMessage (
+  uri: string,
+  data: unknown
+): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2)
+      }
+    }
+  }
+}
+
+/**
+ * @description Normaliza la cadena recibida como argumento de un prompt
+ * @param {string} [chain] - ID numérico o alias de la cadena
+ * @returns {string | undefined} ID de cadena normalizado
+ * @throws {McpError} Si la cadena no es reconocida
+ */
+export function resolvePromptChain (chain?: string): string | undefined {
+  if (!chain?.trim()) return undefined
+
+  try {
+    return normalizeChainId(chain.trim())
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.INVALID_PARAMS,
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * @description Describe una cadena para los textos de los prompts (ej: "Avalanche (43114)")
+ * @param {string} [chainId] - ID de cadena normalizado
+ * @returns {string} Descripción de la cadena
+ */
+export function describeChain (chainId?: string): string {
+  if (!chainId) return 'la cadena que prefiera el usuario'
+  const name = getChainName(chainId)
+  return name ? `${name} (${chainId})` : `la cadena ${chainId}`
+}
+
+/**
+ * @description Obtiene las plantillas de una categoría, filtradas por protocolo si se indica.
+ * Si ninguna plantilla coincide con el protocolo se devuelven todas las de la categoría.
+ * @param {string} category - ID de la categoría (ej: 'swap')
+ * @param {string} [protocol] - Protocolo preferido
+ * @returns {Promise<TemplatesContext>} Plantillas a incrustar en el prompt
+ */
+export async function loadTemplatesContext (
+  category: string,
+  protocol?: string
+): Promise<TemplatesContext> {
+  const uri = `${TEMPLATES_URI}/${category}`
+
+  try {
+    const repositories = await getTemplates()
+    let matches = filterTemplates(repositories, category, protocol)
+    let note: string | undefined
+
+    if (matches.length === 0 && protocol) {
+      matches = filterTemplates(repositories, category)
+      note = `No hay plantillas de ${category} para el protocolo ${protocol}; se incluyen todas las de la categoría`
+    }
+
+    if (matches.length === 0) {
+      note = `No hay plantillas disponibles en la categoría ${category}`
+    }
+
+    return {
+      uri,
+      templates: matches.map(({ template, baseUrl, categoryId }) => ({
+        id: template.id,
+        name: template.name,
+        protocol: template.protocol,
+        categoryId,
+        metadataUrl: `${baseUrl}${template.endpoint}`
+      })),
+      note
+    }
+  } catch (error) {
+    return {
+      uri,
+      templates: [],
+      note: `No se pudieron obtener las plantillas: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    }
+  }
+}
+
+/**
+ * @description Obtiene los tokens de un protocolo en una cadena para incrustarlos en un prompt
+ * @param {string} protocol - Protocolo con lista de tokens (ej: 'lfj')
+ * @param {string} [chainId] - ID de cadena normalizado
+ * @param {string[]} [symbols] - Símbolos a los que limitar la lista
+ * @returns {Promise<TokensContext | null>} Tokens a incrustar o null si el protocolo no tiene lista
+ */
+export async function loadTokensContext (
+  protocol: string,
+  chainId?: string,
+  symbols: string[] = []
+): Promise<TokensContext | null> {
+  const provider = getTokenListProvider(protocol)
+  if (!provider) return null
+
+  const lowerCaseProtocol = provider.name
+
+  const uri = chainId
+    ? `${TOKENS_URI}/${lowerCaseProtocol}/${chainId}`
+    : `${TOKENS_URI}/${lowerCaseProtocol}`
+
+  try {
+    let tokens = await getTokensByProtocol(lowerCaseProtocol, chainId)
+    const notes: string[] = []
+
+    if (symbols.length > 0) {
+      const wanted = new Set(symbols.map(symbol => symbol.toUpperCase()))
+      const selected = tokens.filter(token =>
+        wanted.has(token.symbol.toUpperCase())
+      )
+      const missing = Array.from(wanted).filter(
+        symbol => !selected.some(token => token.symbol.toUpperCase() === symbol)
+      )
+
+      if (missing.length > 0) {
+        notes.push(`Símbolos no encontrados en la lista: ${missing.join(', ')}`)
+      }
+      tokens = selected
+    }
+
+    const total = tokens.length
+    if (total > MAX_PROMPT_TOKENS) {
+      notes.push(
+        `Se incluyen ${MAX_PROMPT_TOKENS} de ${total} tokens; usa get_protocol_tokens para consultar el resto`
+      )
+    }
+
+    return {
+      uri,
+      tokens: tokens.slice(0, MAX_PROMPT_TOKENS).map(token => ({
+        symbol: token.symbol,
+        name: token.name,
+        address: token.address,
+        decimals: token.decimals,
+        chainId: token.chainId,
+        tags: token.tags ?? []
+      })),
+      total,
+      note: notes.length > 0 ? notes.join('. ') : undefined
+    }
+  } catch (error) {
+    return {
+      uri,
+      tokens: [],
+      total: 0,
+      note: `No se pudieron obtener los tokens: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    }
+  }
+}
+
+/**
+ * @description Convierte una lista separada por comas en un array de valores no vacíos
+ * @param {string} [value] - Lista separada por comas (ej: "AVAX, USDC")
+ * @returns {string[]} Valores encontrados
+ */
+export function parseList (value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
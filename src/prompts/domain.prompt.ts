@@ -0,0 +1,114 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { getRepository } from '../services/repository'
+import {
+  extractHostname,
+  getRegistrableDomain,
+  isSameOrSubdomain,
+  normalizeDomain
+} from '../utils/domain'
+import { ErrorCode } from '../utils/error.handler'
+import {
+  INTEGRATOR_DOMAINS_URI,
+  MINIAPP_ENDPOINTS_URI
+} from '../resources/repository.resource'
+import { createResourceMessage, createTextMessage } from './context'
+
+/**
+ * @description Registra el prompt de verificación de dominios de mini aplicaciones en el
+ * servidor MCP. Incrusta los registros del repositorio (integradores, endpoints y dominios
+ * reportados) que corresponden al dominio de la URL.
+ */
+export function registerDomainVettingPrompt (server: McpServer) {
+  server.prompt(
+    'vet_miniapp_domain',
+    'Guía para auditar la URL de una mini aplicación antes de confiar en ella. Incluye los registros del repositorio (integradores, endpoints de mini aplicaciones y dominios reportados) asociados a su dominio.',
+    {
+      url: z
+        .string()
+        .describe('URL o hostname de la mini aplicación a verificar'),
+      purpose: z
+        .string()
+        .optional()
+        .describe(
+          'Qué se pretende hacer con la mini aplicación (ej: "firmar un swap de 1000 USDC")'
+        )
+    },
+    async ({ url, purpose }) => {
+      let hostname: string
+      try {
+        hostname = extractHostname(url)
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.INVALID_PARAMS,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+
+      const registrableDomain = getRegistrableDomain(hostname)
+      const matchesDomain = (value: string) =>
+        isSameOrSubdomain(normalizeDomain(value), registrableDomain)
+
+      const lines = [
+        `Audita la mini aplicación ${url} (dominio ${registrableDomain}) antes de confiar en ella${
+          purpose?.trim() ? ` para: ${purpose.trim()}` : ''
+        }.`,
+        '',
+        'Sigue estos pasos:',
+        '1. Ejecuta la herramienta check_domain_safety con la URL y revisa el veredicto, los motivos y el dominio suplantado si lo hay.',
+        '2. Compara el resultado con los registros del repositorio incluidos a continuación.',
+        '3. Si la URL corresponde a un endpoint de mini aplicación, comprueba su estado con get_miniapp_endpoints.',
+        '',
+        'Responde con:',
+        '- Un veredicto claro: seguro, sospechoso o malicioso.',
+        '- Los motivos concretos en los que se basa.',
+        '- Una recomendación: abrir, abrir con precaución o no abrir y no firmar transacciones.',
+        '',
+        'Si el dominio está reportado, es un posible typosquatting u homógrafo, o su estado es "rejected", recomienda no interactuar con él aunque el resto de señales parezcan correctas.'
+      ]
+
+      const messages: PromptMessage[] = []
+
+      try {
+        const repository = await getRepository()
+
+        messages.push(
+          createResourceMessage(INTEGRATOR_DOMAINS_URI, {
+            repositoryVersion: repository.version,
+            domain: registrableDomain,
+            integrators: repository.integratorDomains.filter(integrator =>
+              matchesDomain(integrator.domain)
+            ),
+            reportedDomains: repository.maliciousDomains.filter(
+              malicious =>
+                matchesDomain(malicious.domain) ||
+                (malicious.similarTo !== undefined &&
+                  matchesDomain(malicious.similarTo))
+            )
+          }),
+          createResourceMessage(MINIAPP_ENDPOINTS_URI, {
+            repositoryVersion: repository.version,
+            domain: registrableDomain,
+            endpoints: repository.miniAppEndpoints.filter(endpoint =>
+              matchesDomain(endpoint.host)
+            )
+          })
+        )
+      } catch (error) {
+        lines.push(
+          '',
+          `No se pudieron obtener los registros del repositorio (${
+            error instanceof Error ? error.message : String(error)
+          }); basa la auditoría en check_domain_safety.`
+        )
+      }
+
+      return {
+        description: `Verificación del dominio ${registrableDomain}`,
+        messages: [createTextMessage(lines.join('\n')), ...messages]
+      }
+    }
+  )
+}
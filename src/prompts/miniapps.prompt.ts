@@ -0,0 +1,178 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+import { completeChains, completeProtocols } from '../services/completions'
+import { getNativeToken } from '../services/tokens.native'
+import {
+  createResourceMessage,
+  createTextMessage,
+  describeChain,
+  loadTemplatesContext,
+  loadTokensContext,
+  resolvePromptChain
+} from './context'
+
+/**
+ * @description Prompts de creación de mini aplicaciones por categoría de plantilla
+ */
+const MINIAPP_PROMPTS = [
+  {
+    name: 'create_swap_miniapp',
+    category: 'swap',
+    title: 'swap',
+    description:
+      'Guía para crear una mini aplicación de intercambio (swap) a partir de las plantillas del repositorio. Incluye las plantillas de swap y los tokens del protocolo en la cadena indicada.',
+    guidelines: [
+      'Define el par de tokens de entrada y salida usando únicamente direcciones de la lista de tokens incluida.',
+      'Respeta los decimales de cada token al convertir importes.',
+      'Configura una tolerancia de slippage razonable (por defecto 0.5%) y explícala al usuario.'
+    ]
+  },
+  {
+    name: 'create_staking_miniapp',
+    category: 'staking',
+    title: 'staking',
+    description:
+      'Guía para crear una mini aplicación de staking a partir de las plantillas del repositorio. Incluye las plantillas de staking y los tokens del protocolo en la cadena indicada.',
+    guidelines: [
+      'Identifica el token a depositar y, si aplica, el token de recompensa, usando direcciones de la lista de tokens incluida.',
+      'Indica al usuario los periodos de bloqueo o penalizaciones de retiro si la plantilla los define.',
+      'No prometas rendimientos (APR/APY) que no provengan de los metadatos de la plantilla.'
+    ]
+  },
+  {
+    name: 'create_lending_miniapp',
+    category: 'lending',
+    title: 'préstamos (lending)',
+    description:
+      'Guía para crear una mini aplicación de préstamos (lending) a partir de las plantillas del repositorio. Incluye las plantillas de lending y los tokens del protocolo en la cadena indicada.',
+    guidelines: [
+      'Distingue el activo usado como colateral del activo prestado y toma sus direcciones de la lista de tokens incluida.',
+      'Advierte al usuario sobre el riesgo de liquidación y el ratio préstamo/valor (LTV) si la plantilla lo expone.',
+      'Respeta los decimales de cada token al convertir importes.'
+    ]
+  }
+]
+
+/**
+ * @description Registra los prompts de creación de mini aplicaciones (swap, staking y lending)
+ * en el servidor MCP. Cada prompt incrusta las plantillas de su categoría y, si el protocolo
+ * tiene lista de tokens, los tokens disponibles en la cadena indicada.
+ */
+export function registerMiniAppPrompts (server: McpServer) {
+  for (const prompt of MINIAPP_PROMPTS) {
+    server.prompt(
+      prompt.name,
+      prompt.description,
+      {
+        protocol: completable(
+          z
+            .string()
+            .describe(
+              'Protocolo con el que operará la mini aplicación (ej: "traderjoe", "lfj")'
+            ),
+          completeProtocols
+        ),
+        chain: completable(
+          z
+            .string()
+            .describe(
+              'Cadena de destino: ID numérico o alias (ej: "43114", "avalanche", "fuji")'
+            ),
+          completeChains
+        ),
+        requirements: z
+          .string()
+          .optional()
+          .describe(
+            'Requisitos adicionales del usuario (tokens concretos, textos, límites, etc.)'
+          )
+      },
+      async ({ protocol, chain, requirements }) => {
+        const chainId = resolvePromptChain(chain)
+        const normalizedProtocol = protocol.trim().toLowerCase() || undefined
+
+        const [templatesContext, tokensContext] = await Promise.all([
+          loadTemplatesContext(prompt.category, normalizedProtocol),
+          normalizedProtocol
+            ? loadTokensContext(normalizedProtocol, chainId)
+            : Promise.resolve(null)
+        ])
+
+        const lines = [
+          `Quiero crear una mini aplicación de ${prompt.title}${
+            normalizedProtocol ? ` para el protocolo ${normalizedProtocol}` : ''
+          } en ${describeChain(chainId)}.`,
+          '',
+          'Sigue estos pasos:',
+          `1. Elige la plantilla más adecuada de la categoría "${prompt.category}" entre las incluidas a continuación.`,
+          '2. Consulta sus metadatos completos con la herramienta get_metadata_of_template.',
+          '3. Personaliza la plantilla con la herramienta customize_miniapp (type "template") y revisa los campos de unsetFields hasta que readyToPublish sea true.',
+          '4. Si la mini aplicación enlaza a un dominio externo, verifícalo con check_domain_safety antes de publicarla.',
+          '',
+          'Ten en cuenta:',
+          ...prompt.guidelines.map(guideline => `- ${guideline}`)
+        ]
+
+        if (chainId) {
+          lines.push(
+            `- Todos los tokens y contratos deben pertenecer a la cadena ${chainId}.`
+          )
+
+          const native = getNativeToken(chainId)
+          if (native) {
+            lines.push(
+              `- La moneda nativa es ${native.symbol} (${native.decimals} decimales, sin contrato: las listas la representan con ${native.sentinelAddresses.join(
+                ' o '
+              )}). Los contratos que solo aceptan tokens ERC-20 usan su token envuelto ${
+                native.wrapped.symbol
+              } (${native.wrapped.address}); consulta get_native_token para envolverla o desenvolverla.`
+            )
+          }
+        }
+
+        if (templatesContext.note) {
+          lines.push('', `Nota sobre las plantillas: ${templatesContext.note}.`)
+        }
+
+        if (normalizedProtocol && !tokensContext) {
+          lines.push(
+            '',
+            `El protocolo ${normalizedProtocol} no tiene lista de tokens publicada; confirma con el usuario las direcciones de los tokens antes de usarlas.`
+          )
+        } else if (tokensContext?.note) {
+          lines.push('', `Nota sobre los tokens: ${tokensContext.note}.`)
+        }
+
+        if (requirements?.trim()) {
+          lines.push('', `Requisitos adicionales: ${requirements.trim()}`)
+        }
+
+        const messages: PromptMessage[] = [
+          createTextMessage(lines.join('\n')),
+          createResourceMessage(templatesContext.uri, {
+            category: prompt.category,
+            templates: templatesContext.templates
+          })
+        ]
+
+        if (tokensContext && tokensContext.tokens.length > 0) {
+          messages.push(
+            createResourceMessage(tokensContext.uri, {
+              protocol: normalizedProtocol,
+              chainId: chainId ?? null,
+              totalTokens: tokensContext.total,
+              tokens: tokensContext.tokens
+            })
+          )
+        }
+
+        return {
+          description: `Creación de una mini aplicación de ${prompt.title}`,
+          messages
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+import {
+  completeChains,
+  completeTokenListProtocols
+} from '../services/completions'
+import { getTokenListProtocols } from '../services/providers'
+import { ErrorCode } from '../utils/error.handler'
+import {
+  createResourceMessage,
+  createTextMessage,
+  describeChain,
+  loadTokensContext,
+  parseList,
+  resolvePromptChain
+} from './context'
+
+/**
+ * @description Registra el prompt de selección de tokens en el servidor MCP.
+ * Incrusta la lista de tokens del protocolo en la cadena indicada para que el modelo
+ * elija direcciones y decimales verificados en lugar de inventarlos.
+ */
+export function registerTokenSelectionPrompt (server: McpServer) {
+  server.prompt(
+    'select_tokens',
+    'Guía para elegir los tokens de una mini aplicación a partir de la lista oficial de un protocolo. Incluye los tokens del protocolo en la cadena indicada, con dirección, decimales y etiquetas.',
+    {
+      protocol: completable(
+        z
+          .string()
+          .describe(
+            `Protocolo con lista de tokens. Disponibles: ${getTokenListProtocols().join(
+              ', '
+            )}`
+          ),
+        completeTokenListProtocols
+      ),
+      chain: completable(
+        z
+          .string()
+          .describe(
+            'Cadena: ID numérico o alias (ej: "43114", "avalanche", "fuji")'
+          ),
+        completeChains
+      ),
+      symbols: z
+        .string()
+        .optional()
+        .describe(
+          'Símbolos separados por comas a los que limitar la lista (ej: "AVAX,USDC,JOE")'
+        ),
+      goal: z
+        .string()
+        .optional()
+        .describe(
+          'Para qué se usarán los tokens (ej: "par de swap entre stablecoins")'
+        )
+    },
+    async ({ protocol, chain, symbols, goal }) => {
+      const chainId = resolvePromptChain(chain)
+      const normalizedProtocol = protocol.trim().toLowerCase()
+      const tokensContext = await loadTokensContext(
+        normalizedProtocol,
+        chainId,
+        parseList(symbols)
+      )
+
+      if (!tokensContext) {
+        throw new McpError(
+          ErrorCode.INVALID_PARAMS,
+          `Protocolo no soportado para listas de tokens: ${normalizedProtocol}. Protocolos disponibles: ${getTokenListProtocols().join(
+            ', '
+          )}`
+        )
+      }
+
+      const lines = [
+        `Necesito elegir tokens del protocolo ${normalizedProtocol} en ${describeChain(
+          chainId
+        )}${goal?.trim() ? ` para: ${goal.trim()}` : ''}.`,
+        '',
+        'Reglas:',
+        '- Elige solo tokens de la lista incluida a continuación; no inventes ni completes direcciones.',
+        '- Usa siempre la dirección y los decimales exactos de la lista.',
+        '- Si hay varios tokens con el mismo símbolo, muéstraselos al usuario con su dirección y pide confirmación.',
+        '- Distingue el token nativo de su versión envuelta (wrapped) y explica cuál se usa.',
+        '- Si un token no aparece, dilo claramente y sugiere consultar get_protocol_tokens.',
+        '',
+        'Devuelve para cada token elegido: símbolo, nombre, dirección, decimales y chainId.'
+      ]
+
+      if (tokensContext.note) {
+        lines.push('', `Nota sobre los tokens: ${tokensContext.note}.`)
+      }
+
+      return {
+        description: `Selección de tokens de ${normalizedProtocol}`,
+        messages: [
+          createTextMessage(lines.join('\n')),
+          createResourceMessage(tokensContext.uri, {
+            protocol: normalizedProtocol,
+            chainId: chainId ?? null,
+            totalTokens: tokensContext.total,
+            tokens: tokensContext.tokens
+          })
+        ]
+      }
+    }
+  )
+}
@@ -0,0 +1,19 @@
+import type { TokenListProvider } from '../types/providers'
+import { AAVE_TOKENLIST_URL } from '../constants/url'
+
+/**
+ * @description Proveedor de tokens de Aave: lista del Aave Address Book con los activos
+ * subyacentes, aTokens y tokens de deuda de Aave v3. Los tokens de deuda no son transferibles,
+ * por lo que se descartan.
+ */
+export const aaveProvider: TokenListProvider = {
+  name: 'aave',
+  displayName: 'Aave',
+  aliases: ['aave-v3'],
+  tokenListUrl: AAVE_TOKENLIST_URL,
+  chainIds: ['1', '10', '56', '100', '137', '8453', '42161', '43114'],
+  normalizeToken: token =>
+    token.tags?.some(tag => typeof tag === 'string' && /debt/i.test(tag))
+      ? null
+      : token
+}
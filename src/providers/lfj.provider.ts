@@ -0,0 +1,18 @@
+import type { TokenListProvider } from '../types/providers'
+import {
+  LFJ_POPULAR_TOKENLIST_URL,
+  LFJ_VERIFIED_TOKENLIST_URL
+} from '../constants/url'
+
+/**
+ * @description Proveedor de tokens de LFJ (antes Trader Joe): lista de tokens verificados y
+ * lista de tokens populares. El token nativo aparece con la dirección cero.
+ */
+export const lfjProvider: TokenListProvider = {
+  name: 'lfj',
+  displayName: 'LFJ (Trader Joe)',
+  aliases: ['traderjoe', 'trader-joe', 'joe'],
+  tokenListUrl: LFJ_VERIFIED_TOKENLIST_URL,
+  popularTokenListUrl: LFJ_POPULAR_TOKENLIST_URL,
+  chainIds: ['43114', '43113', '42161', '56']
+}
@@ -0,0 +1,13 @@
+import type { TokenListProvider } from '../types/providers'
+import { PANCAKESWAP_EXTENDED_TOKENLIST_URL } from '../constants/url'
+
+/**
+ * @description Proveedor de tokens de PancakeSwap: lista extendida de BNB Smart Chain
+ */
+export const pancakeswapProvider: TokenListProvider = {
+  name: 'pancakeswap',
+  displayName: 'PancakeSwap',
+  aliases: ['pancake', 'cake'],
+  tokenListUrl: PANCAKESWAP_EXTENDED_TOKENLIST_URL,
+  chainIds: ['56']
+}
@@ -0,0 +1,66 @@
+import type { PriceProvider, PriceQuote } from '../types/prices'
+import { readFile } from 'node:fs/promises'
+import { ENV } from '../config/environment'
+import { getPriceKey, parsePriceFeed } from '../utils/prices'
+
+/**
+ * @function createFilePriceProvider
+ * @description Crea un proveedor de precios que lee un feed JSON local (solo Node.js/Bun). El
+ * archivo se vuelve a leer cuando pasan CACHE_TTL_PRICES_MS desde la última lectura; si entonces
+ * no se puede leer o no es válido, se siguen usando los últimos precios leídos.
+ * @param {string} path - Ruta del archivo del feed
+ * @returns {PriceProvider} Proveedor de precios
+ */
+export function createFilePriceProvider (path: string): PriceProvider {
+  let cached: { quotes: Map<string, PriceQuote>; readAt: number } | null = null
+
+  const loadQuotes = async (): Promise<Map<string, PriceQuote>> => {
+    if (cached && Date.now() - cached.readAt < ENV.CACHE_TTL_PRICES_MS) {
+      return cached.quotes
+    }
+
+    try {
+      const { quotes, discarded } = parsePriceFeed(
+        JSON.parse(await readFile(path, 'utf8')),
+        path
+      )
+
+      if (discarded > 0) {
+        console.error(
+          `Feed de precios ${path}: ${discarded} entradas inválidas descartadas`
+        )
+      }
+
+      cached = { quotes, readAt: Date.now() }
+      return quotes
+    } catch (error) {
+      if (!cached) throw error
+
+      console.error(
+        `Usando los precios leídos de ${path} (${new Date(
+          cached.readAt
+        ).toISOString()}): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return cached.quotes
+    }
+  }
+
+  return {
+    name: 'file',
+    location: path,
+    async getPrices (tokens) {
+      const quotes = await loadQuotes()
+      const prices = new Map<string, PriceQuote>()
+
+      for (const token of tokens) {
+        const key = getPriceKey(token.chainId, token.address)
+        const quote = quotes.get(key)
+        if (quote) prices.set(key, quote)
+      }
+
+      return prices
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { PriceProvider, PriceQuote } from '../types/prices'
+import { getCachedJson } from '../services/cache'
+import { getPriceKey, parsePriceFeed } from '../utils/prices'
+
+/**
+ * @function createHttpPriceProvider
+ * @description Crea un proveedor de precios que obtiene el feed JSON de una URL, con el mismo
+ * formato que el archivo local (un servidor local puede servir el archivo para pruebas). El feed
+ * pasa por el caché compartido con la política de los precios (CACHE_TTL_PRICES_MS).
+ * @param {string} url - URL del feed
+ * @returns {PriceProvider} Proveedor de precios
+ */
+export function createHttpPriceProvider (url: string): PriceProvider {
+  // El análisis del feed se reutiliza mientras el caché devuelva el mismo documento
+  let parsed: { data: unknown; quotes: Map<string, PriceQuote> } | null = null
+
+  return {
+    name: 'http',
+    location: url,
+    async getPrices (tokens) {
+      const data = await getCachedJson<unknown>('prices', url)
+      let quotes = parsed && parsed.data === data ? parsed.quotes : null
+
+      if (!quotes) {
+        const feed = parsePriceFeed(data, url)
+
+        if (feed.discarded > 0) {
+          console.error(
+            `Feed de precios ${url}: ${feed.discarded} entradas inválidas descartadas`
+          )
+        }
+
+        quotes = feed.quotes
+        parsed = { data, quotes }
+      }
+
+      const prices = new Map<string, PriceQuote>()
+
+      for (const token of tokens) {
+        const key = getPriceKey(token.chainId, token.address)
+        const quote = quotes.get(key)
+        if (quote) prices.set(key, quote)
+      }
+
+      return prices
+    }
+  }
+}
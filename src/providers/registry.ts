@@ -0,0 +1,42 @@
+import type { TokenListProvider } from '../types/providers'
+import { lfjProvider } from './lfj.provider'
+import { uniswapProvider } from './uniswap.provider'
+import { pancakeswapProvider } from './pancakeswap.provider'
+import { aaveProvider } from './aave.provider'
+
+/**
+ * @description Proveedores de listas de tokens incluidos. Para añadir un protocolo basta con
+ * crear su proveedor en este directorio y añadirlo aquí.
+ */
+export const TOKEN_LIST_PROVIDERS: TokenListProvider[] = [
+  lfjProvider,
+  uniswapProvider,
+  pancakeswapProvider,
+  aaveProvider
+]
+
+/**
+ * @function findTokenListProvider
+ * @description Busca un proveedor incluido por su nombre o por uno de sus alias
+ * @param {string} name - Nombre o alias del protocolo (no distingue mayúsculas)
+ * @returns {TokenListProvider | undefined} Proveedor o undefined si no existe
+ */
+export function findTokenListProvider (
+  name: string
+): TokenListProvider | undefined {
+  const key = name.trim().toLowerCase()
+  return TOKEN_LIST_PROVIDERS.find(
+    provider => provider.name === key || provider.aliases.includes(key)
+  )
+}
+
+/**
+ * @function resolveProtocolName
+ * @description Obtiene el nombre canónico de un protocolo: el del proveedor si el nombre es uno
+ * de sus alias, o el propio nombre en minúsculas
+ * @param {string} name - Nombre o alias del protocolo
+ * @returns {string} Nombre canónico
+ */
+export function resolveProtocolName (name: string): string {
+  return findTokenListProvider(name)?.name ?? name.trim().toLowerCase()
+}
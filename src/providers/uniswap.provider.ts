@@ -0,0 +1,14 @@
+import type { TokenListProvider } from '../types/providers'
+import { UNISWAP_DEFAULT_TOKENLIST_URL } from '../constants/url'
+
+/**
+ * @description Proveedor de tokens de Uniswap: lista por defecto de Uniswap Labs, con tokens de
+ * varias cadenas en formato estándar
+ */
+export const uniswapProvider: TokenListProvider = {
+  name: 'uniswap',
+  displayName: 'Uniswap',
+  aliases: ['uniswap-v3', 'uni'],
+  tokenListUrl: UNISWAP_DEFAULT_TOKENLIST_URL,
+  chainIds: ['1', '10', '56', '137', '8453', '42161', '42220', '43114']
+}
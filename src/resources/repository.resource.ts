@@ -0,0 +1,156 @@
+import {
+  McpServer,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { MiniAppEndpoint } from '../types/repository'
+import { getRepository } from '../services/repository'
+import { completeMiniAppCategories } from '../services/completions'
+import { ErrorCode } from '../utils/error.handler'
+
+/**
+ * @description URI de los endpoints de mini aplicaciones
+ */
+export const MINIAPP_ENDPOINTS_URI = 'blockchain://miniapps/endpoints'
+
+/**
+ * @description URI de los dominios de integradores
+ */
+export const INTEGRATOR_DOMAINS_URI = 'blockchain://integrators/domains'
+
+/**
+ * @description Registra los recursos del repositorio en el servidor MCP:
+ * - blockchain://miniapps/endpoints: endpoints de mini aplicaciones
+ * - blockchain://miniapps/endpoints/{category}: endpoints de una categoría o subcategoría
+ * - blockchain://integrators/domains: dominios de integradores
+ */
+export function registerRepositoryResources (server: McpServer) {
+  server.resource(
+    'miniapp-endpoints',
+    MINIAPP_ENDPOINTS_URI,
+    {
+      description:
+        'Endpoints de mini aplicaciones registrados en el repositorio, con su estado de verificación, categoría y protocolo',
+      mimeType: 'application/json'
+    },
+    async uri => {
+      const repository = await getRepository()
+
+      return createJsonContents(uri, {
+        version: repository.version,
+        lastUpdated: repository.lastUpdated,
+        totalEndpoints: repository.miniAppEndpoints.length,
+        endpoints: repository.miniAppEndpoints.map(withFullUrl)
+      })
+    }
+  )
+
+  server.resource(
+    'miniapp-endpoints-by-category',
+    new ResourceTemplate(`${MINIAPP_ENDPOINTS_URI}/{category}`, {
+      list: async () => {
+        const repository = await getRepository().catch(() => null)
+        const categories = new Set(
+          (repository?.miniAppEndpoints ?? []).map(endpoint =>
+            endpoint.category.toLowerCase()
+          )
+        )
+
+        return {
+          resources: Array.from(categories).map(category => ({
+            uri: `${MINIAPP_ENDPOINTS_URI}/${category}`,
+            name: `Endpoints de mini aplicaciones: ${category}`,
+            mimeType: 'application/json'
+          }))
+        }
+      },
+      complete: {
+        category: completeMiniAppCategories
+      }
+    }),
+    {
+      description:
+        'Endpoints de mini aplicaciones de una categoría o subcategoría (ej: "swap", "defi")',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const category = getVariable(variables, 'category').toLowerCase()
+      const repository = await getRepository()
+
+      const endpoints = repository.miniAppEndpoints.filter(
+        endpoint =>
+          endpoint.category.toLowerCase() === category ||
+          endpoint.subcategory?.toLowerCase() === category
+      )
+
+      if (endpoints.length === 0) {
+        throw new McpError(
+          ErrorCode.RESOURCE_NOT_FOUND,
+          `No hay endpoints de mini aplicaciones en la categoría: ${category}`
+        )
+      }
+
+      return createJsonContents(uri, {
+        version: repository.version,
+        lastUpdated: repository.lastUpdated,
+        category,
+        totalEndpoints: endpoints.length,
+        endpoints: endpoints.map(withFullUrl)
+      })
+    }
+  )
+
+  server.resource(
+    'integrator-domains',
+    INTEGRATOR_DOMAINS_URI,
+    {
+      description:
+        'Dominios de integradores registrados en el repositorio y su estado (trusted, pending, rejected)',
+      mimeType: 'application/json'
+    },
+    async uri => {
+      const repository = await getRepository()
+
+      return createJsonContents(uri, {
+        version: repository.version,
+        lastUpdated: repository.lastUpdated,
+        totalDomains: repository.integratorDomains.length,
+        domains: repository.integratorDomains
+      })
+    }
+  )
+}
+
+/**
+ * @description Obtiene el valor de una variable de la plantilla de URI
+ */
+function getVariable (variables: Variables, name: string): string {
+  const value = variables[name]
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value ?? '')
+}
+
+/**
+ * @description Añade la URL completa a un endpoint de mini aplicación
+ */
+function withFullUrl (endpoint: MiniAppEndpoint) {
+  return {
+    ...endpoint,
+    fullUrl: `${endpoint.protocol}://${endpoint.host}${endpoint.endpoint}`
+  }
+}
+
+/**
+ * @description Crea el contenido JSON de un recurso
+ */
+function createJsonContents (uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2)
+      }
+    ]
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  McpServer,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { getTemplates } from '../services/repository'
+import { fetchTemplatesMetadata, filterTemplates } from '../services/templates'
+import {
+  completeTemplateCategories,
+  completeTemplateIds
+} from '../services/completions'
+import { ErrorCode } from '../utils/error.handler'
+
+/**
+ * @description URI del catálogo de categorías de plantillas
+ */
+export const TEMPLATES_URI = 'blockchain://templates'
+
+/**
+ * @description Registra los recursos de plantillas en el servidor MCP:
+ * - blockchain://templates: catálogo de categorías
+ * - blockchain://templates/{categoryId}: una categoría con sus plantillas
+ * - blockchain://templates/{categoryId}/{templateId}: una plantilla con sus metadatos
+ */
+export function registerTemplateResources (server: McpServer) {
+  server.resource(
+    'template-categories',
+    TEMPLATES_URI,
+    {
+      description:
+        'Catálogo de categorías de plantillas de mini aplicaciones (swap, staking, lending) con sus plantillas disponibles',
+      mimeType: 'application/json'
+    },
+    async uri => {
+      const repositories = await getTemplates()
+
+      return createJsonContents(uri, {
+        categories: repositories.flatMap(repo =>
+          repo.categories.map(category => ({
+            id: category.id,
+            name: category.name,
+            baseUrl: repo.baseUrl,
+            uri: `${TEMPLATES_URI}/${category.id}`,
+            templates: category.templates.map(template => ({
+              ...template,
+              uri: `${TEMPLATES_URI}/${category.id}/${template.id}`
+            }))
+          }))
+        )
+      })
+    }
+  )
+
+  server.resource(
+    'template-category',
+    new ResourceTemplate(`${TEMPLATES_URI}/{categoryId}`, {
+      list: async () => {
+        const repositories = await getTemplates().catch(() => [])
+
+        return {
+          resources: repositories.flatMap(repo =>
+            repo.categories.map(category => ({
+              uri: `${TEMPLATES_URI}/${category.id}`,
+              name: `Plantillas: ${category.name}`,
+              mimeType: 'application/json'
+            }))
+          )
+        }
+      },
+      complete: {
+        categoryId: completeTemplateCategories
+      }
+    }),
+    {
+      description: 'Categoría de plantillas con la lista de sus plantillas',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const categoryId = getVariable(variables, 'categoryId').toLowerCase()
+      const repositories = await getTemplates()
+
+      for (const repo of repositories) {
+        const category = repo.categories.find(
+          item => item.id.toLowerCase() === categoryId
+        )
+
+        if (category) {
+          return createJsonContents(uri, {
+            ...category,
+            baseUrl: repo.baseUrl
+          })
+        }
+      }
+
+      throw new McpError(
+        ErrorCode.RESOURCE_NOT_FOUND,
+        `Categoría de plantillas no encontrada: ${categoryId}`
+      )
+    }
+  )
+
+  server.resource(
+    'template',
+    new ResourceTemplate(`${TEMPLATES_URI}/{categoryId}/{templateId}`, {
+      list: async () => {
+        const repositories = await getTemplates().catch(() => [])
+
+        return {
+          resources: filterTemplates(repositories).map(
+            ({ template, categoryId }) => ({
+              uri: `${TEMPLATES_URI}/${categoryId}/${template.id}`,
+              name: `Plantilla: ${template.name}`,
+              description: `Plantilla ${template.name} del protocolo ${template.protocol}`,
+              mimeType: 'application/json'
+            })
+          )
+        }
+      },
+      complete: {
+        categoryId: completeTemplateCategories,
+        templateId: completeTemplateIds
+      }
+    }),
+    {
+      description:
+        'Plantilla de mini aplicación con los metadatos completos servidos por su endpoint',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const categoryId = getVariable(variables, 'categoryId')
+      const templateId = getVariable(variables, 'templateId').toLowerCase()
+      const repositories = await getTemplates()
+
+      const match = filterTemplates(repositories, categoryId).find(
+        ({ template }) => template.id.toLowerCase() === templateId
+      )
+
+      if (!match) {
+        throw new McpError(
+          ErrorCode.RESOURCE_NOT_FOUND,
+          `Plantilla no encontrada: ${categoryId}/${templateId}`
+        )
+      }
+
+      const [templateMetadata] = await fetchTemplatesMetadata([match], 'full')
+
+      return createJsonContents(uri, {
+        ...match.template,
+        category: match.categoryId,
+        metadataUrl: `${match.baseUrl}${match.template.endpoint}`,
+        metadata:
+          templateMetadata && templateMetadata.templateId !== 'error'
+            ? templateMetadata.metadata
+            : null
+      })
+    }
+  )
+}
+
+/**
+ * @description Obtiene el valor de una variable de la plantilla de URI
+ */
+function getVariable (variables: Variables, name: string): string {
+  const value = variables[name]
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value ?? '')
+}
+
+/**
+ * @description Crea el contenido JSON de un recurso
+ */
+function createJsonContents (uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2)
+      }
+    ]
+  }
+}
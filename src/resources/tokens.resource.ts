@@ -0,0 +1,127 @@
+import {
+  McpServer,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { getChainName, normalizeChainId } from '../services/chains'
+import { getTokensByProtocol } from '../services/tokens'
+import {
+  getTokenListProtocols,
+  getTokenListProvider
+} from '../services/providers'
+import {
+  completeChains,
+  completeTokenListProtocols
+} from '../services/completions'
+import { ErrorCode } from '../utils/error.handler'
+
+/**
+ * @description Prefijo de URI de las listas de tokens
+ */
+export const TOKENS_URI = 'blockchain://tokens'
+
+/**
+ * @description Registra el recurso de listas de tokens por protocolo y cadena:
+ * blockchain://tokens/{protocol}/{chainId}
+ */
+export function registerTokenResources (server: McpServer) {
+  server.resource(
+    'protocol-tokens',
+    new ResourceTemplate(`${TOKENS_URI}/{protocol}/{chainId}`, {
+      list: async () => {
+        const resources = []
+
+        for (const protocol of getTokenListProtocols()) {
+          try {
+            const tokens = await getTokensByProtocol(protocol)
+            const chainIds = Array.from(
+              new Set(tokens.map(token => token.chainId))
+            )
+
+            for (const chainId of chainIds) {
+              resources.push({
+                uri: `${TOKENS_URI}/${protocol}/${chainId}`,
+                name: `Tokens de ${protocol} en ${getChainName(chainId)}`,
+                mimeType: 'application/json'
+              })
+            }
+          } catch (error) {
+            console.error(
+              `Error al listar recursos de tokens para ${protocol}: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            )
+          }
+        }
+
+        return { resources }
+      },
+      complete: {
+        protocol: completeTokenListProtocols,
+        chainId: completeChains
+      }
+    }),
+    {
+      description:
+        'Lista de tokens de un protocolo en una cadena. chainId acepta el ID numérico o un alias (ej: "avax", "fuji")',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const requestedProtocol = getVariable(variables, 'protocol').toLowerCase()
+      const chain = getVariable(variables, 'chainId')
+
+      const provider = getTokenListProvider(requestedProtocol)
+      if (!provider) {
+        throw new McpError(
+          ErrorCode.RESOURCE_NOT_FOUND,
+          `Protocolo no soportado para listas de tokens: ${requestedProtocol}. Protocolos disponibles: ${getTokenListProtocols().join(
+            ', '
+          )}`
+        )
+      }
+
+      const protocol = provider.name
+
+      let chainId: string
+      try {
+        chainId = normalizeChainId(chain)
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.INVALID_PARAMS,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+
+      const tokens = await getTokensByProtocol(protocol, chainId)
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                protocol,
+                chainId,
+                chainName: getChainName(chainId),
+                totalTokens: tokens.length,
+                tokens
+              },
+              null,
+              2
+            )
+          }
+        ]
+      }
+    }
+  )
+}
+
+/**
+ * @description Obtiene el valor de una variable de la plantilla de URI
+ */
+function getVariable (variables: Variables, name: string): string {
+  const value = variables[name]
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value ?? '')
+}
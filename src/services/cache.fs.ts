@@ -0,0 +1,73 @@
+import type { CacheBackend, CacheEntry } from '../types/cache'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { hashString } from '../utils/hash'
+
+/**
+ * @class FileSystemCacheBackend
+ * @description Almacenamiento persistente del caché en archivos JSON, uno por entrada.
+ * Permite arrancar el servidor Node.js con los datos de la ejecución anterior.
+ */
+export class FileSystemCacheBackend implements CacheBackend {
+  public readonly name: string
+
+  /**
+   * @constructor
+   * @param {string} directory - Directorio donde se guardan las entradas
+   */
+  constructor (private directory: string) {
+    this.name = `filesystem (${directory})`
+  }
+
+  /**
+   * @method get
+   * @description Lee una entrada de su archivo
+   * @param {string} key - Clave de la entrada
+   * @returns {Promise<CacheEntry<T> | undefined>} Entrada encontrada o undefined
+   */
+  public async get<T> (key: string): Promise<CacheEntry<T> | undefined> {
+    let content: string
+
+    try {
+      content = await readFile(this.getFilePath(key), 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw error
+    }
+
+    const entry = JSON.parse(content) as CacheEntry<T>
+
+    // Descartar colisiones del hash usado en el nombre del archivo
+    return entry.key === key ? entry : undefined
+  }
+
+  /**
+   * @method set
+   * @description Guarda una entrada escribiendo un archivo temporal y renombrándolo,
+   * para no dejar archivos a medio escribir
+   * @param {CacheEntry<T>} entry - Entrada a guardar
+   */
+  public async set<T> (entry: CacheEntry<T>): Promise<void> {
+    const filePath = this.getFilePath(entry.key)
+    const temporaryPath = `${filePath}.${process.pid}.tmp`
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(temporaryPath, JSON.stringify(entry), 'utf8')
+    await rename(temporaryPath, filePath)
+  }
+
+  /**
+   * @description Obtiene el archivo de una clave: host de la URL más un hash de la clave
+   */
+  private getFilePath (key: string): string {
+    let prefix = 'entry'
+
+    try {
+      prefix = new URL(key).host.replace(/[^a-z0-9.-]/gi, '_')
+    } catch {
+      // La clave no es una URL: se usa solo el hash
+    }
+
+    return join(this.directory, `${prefix}-${hashString(key)}.json`)
+  }
+}
@@ -0,0 +1,59 @@
+import type { CacheBackend, CacheEntry, KeyValueStore } from '../types/cache'
+
+/**
+ * @description Prefijo de las claves del caché en KV
+ */
+const KEY_PREFIX = 'cache:'
+
+/**
+ * @description Tiempo que KV conserva una entrada después de dejar de poder servirse
+ * como stale-while-revalidate, para usarla si el origen falla (7 días)
+ */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * @description Expiración mínima admitida por Cloudflare KV (segundos)
+ */
+const MIN_EXPIRATION_TTL_S = 60
+
+/**
+ * @class KvCacheBackend
+ * @description Almacenamiento persistente del caché en un KV compatible con Cloudflare KV.
+ * Comparte los datos entre instancias del Worker y reduce las peticiones en arranques en frío.
+ */
+export class KvCacheBackend implements CacheBackend {
+  public readonly name = 'kv'
+
+  /**
+   * @constructor
+   * @param {KeyValueStore} store - Espacio KV (binding del Worker)
+   */
+  constructor (private store: KeyValueStore) {}
+
+  /**
+   * @method get
+   * @description Lee una entrada del KV
+   * @param {string} key - Clave de la entrada
+   * @returns {Promise<CacheEntry<T> | undefined>} Entrada encontrada o undefined
+   */
+  public async get<T> (key: string): Promise<CacheEntry<T> | undefined> {
+    const content = await this.store.get(`${KEY_PREFIX}${key}`)
+    return content ? (JSON.parse(content) as CacheEntry<T>) : undefined
+  }
+
+  /**
+   * @method set
+   * @description Guarda una entrada en el KV con expiración automática
+   * @param {CacheEntry<T>} entry - Entrada a guardar
+   */
+  public async set<T> (entry: CacheEntry<T>): Promise<void> {
+    const expirationTtl = Math.max(
+      MIN_EXPIRATION_TTL_S,
+      Math.ceil((entry.staleUntil + RETENTION_MS - Date.now()) / 1000)
+    )
+
+    await this.store.put(`${KEY_PREFIX}${entry.key}`, JSON.stringify(entry), {
+      expirationTtl
+    })
+  }
+}
@@ -0,0 +1,341 @@
+import type {
+  CacheBackend,
+  CacheEntry,
+  CacheKind,
+  CachePolicy
+} from '../types/cache'
+import { ENV } from '../config/environment'
+import { fetchUpstream, isClientError, parseUpstreamJson } from './upstream'
+import { getActiveSnapshot, getSnapshotDocument } from './snapshot'
+
+/**
+ * @description Número máximo de entradas en memoria
+ */
+const MAX_MEMORY_ENTRIES = 100
+
+/**
+ * @description Política de expiración por tipo de datos
+ */
+const CACHE_POLICIES: Record<CacheKind, CachePolicy> = {
+  repository: {
+    ttlMs: ENV.CACHE_TTL_REPOSITORY_MS,
+    staleMs: ENV.CACHE_STALE_MS
+  },
+  tokenList: {
+    ttlMs: ENV.CACHE_TTL_TOKEN_LISTS_MS,
+    staleMs: ENV.CACHE_STALE_MS
+  },
+  metadata: {
+    ttlMs: ENV.CACHE_TTL_METADATA_MS,
+    staleMs: ENV.CACHE_STALE_MS
+  },
+  prices: {
+    ttlMs: ENV.CACHE_TTL_PRICES_MS,
+    staleMs: ENV.CACHE_STALE_MS
+  }
+}
+
+/**
+ * @class MemoryCacheBackend
+ * @description Caché en memoria con expulsión de las entradas menos usadas (LRU)
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  public readonly name = 'memory'
+  private entries = new Map<string, CacheEntry>()
+
+  /**
+   * @constructor
+   * @param {number} maxEntries - Número máximo de entradas
+   */
+  constructor (private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+  /**
+   * @method get
+   * @description Obtiene una entrada y la marca como usada recientemente
+   * @param {string} key - Clave de la entrada
+   * @returns {Promise<CacheEntry<T> | undefined>} Entrada encontrada o undefined
+   */
+  public async get<T> (key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key)
+
+    if (entry) {
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+
+    return entry as CacheEntry<T> | undefined
+  }
+
+  /**
+   * @method set
+   * @description Guarda una entrada, expulsando la menos usada si se supera el máximo
+   * @param {CacheEntry<T>} entry - Entrada a guardar
+   */
+  public async set<T> (entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(entry.key)
+    this.entries.set(entry.key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+}
+
+const memoryCache = new MemoryCacheBackend()
+const pendingRevalidations = new Map<string, Promise<CacheEntry>>()
+let persistentCache: CacheBackend | null = null
+
+/**
+ * @function setCacheBackend
+ * @description Configura el almacenamiento persistente que respalda al caché en memoria
+ * (sistema de archivos en Node.js, KV en Cloudflare Workers). Sin almacenamiento persistente
+ * los datos solo se conservan en memoria.
+ * @param {CacheBackend | null} backend - Almacenamiento persistente o null para desactivarlo
+ */
+export function setCacheBackend (backend: CacheBackend | null): void {
+  persistentCache = backend
+  console.error(
+    `Caché persistente: ${backend ? backend.name : 'desactivado (solo memoria)'}`
+  )
+}
+
+/**
+ * @description Expresa una duración de la política de caché en la mayor unidad que la divide
+ * exactamente, para no redondear a la baja (ej: 65 min en lugar de "1 h")
+ */
+function formatPolicyDuration (ms: number): string {
+  const units: Array<[number, string]> = [
+    [24 * 60 * 60 * 1000, 'días'],
+    [60 * 60 * 1000, 'h'],
+    [60 * 1000, 'min']
+  ]
+
+  for (const [unitMs, label] of units) {
+    if (ms > 0 && ms % unitMs === 0) return `${ms / unitMs} ${label}`
+  }
+
+  return `${Math.ceil(ms / 1000)} s`
+}
+
+/**
+ * @function describeDataFreshness
+ * @description Describe la antigüedad máxima de los datos de un tipo según su política de caché
+ * (CACHE_TTL_*_MS y CACHE_STALE_MS) o, con un snapshot activo, la fecha del snapshot
+ * @param {CacheKind} kind - Tipo de datos
+ * @returns {string} Descripción de la antigüedad de los datos
+ */
+export function describeDataFreshness (kind: CacheKind): string {
+  const snapshot = getActiveSnapshot()
+  if (snapshot) {
+    return `Los datos proceden del snapshot creado el ${snapshot.manifest.createdAt}`
+  }
+
+  const policy = CACHE_POLICIES[kind]
+  return `Los datos se refrescan cada ${formatPolicyDuration(
+    policy.ttlMs
+  )}; mientras se revalidan pueden tener hasta ${formatPolicyDuration(
+    policy.ttlMs + policy.staleMs
+  )} de antigüedad, y si el origen no responde se sirven los últimos datos correctos disponibles`
+}
+
+/**
+ * @function getCachedJson
+ * @description Obtiene un documento JSON de un origen a través del caché. Los datos frescos se
+ * sirven desde el caché; los caducados dentro de la ventana de stale-while-revalidate se sirven
+ * mientras se revalidan en segundo plano; fuera de ella se revalidan antes de responder.
+ * Las revalidaciones usan If-None-Match / If-Modified-Since, y si el origen falla se sirven
+ * los últimos datos correctos disponibles. Con un snapshot activo los datos se sirven del snapshot.
+ * @param {CacheKind} kind - Tipo de datos, que determina la política de expiración
+ * @param {string} url - URL del origen, usada también como clave
+ * @param {Object} [options] - Opciones
+ * @param {boolean} [options.revalidate] - Revalidar con el origen aunque los datos estén frescos
+ * @returns {Promise<T>} Documento JSON
+ * @throws {UpstreamError} Si el origen falla y no hay datos cacheados, o responde con 4xx
+ * (404 si el documento no está en el snapshot activo)
+ */
+export async function getCachedJson<T> (
+  kind: CacheKind,
+  url: string,
+  options: { revalidate?: boolean } = {}
+): Promise<T> {
+  // En modo snapshot los datos se sirven siempre del snapshot, sin consultar el origen
+  const snapshot = getActiveSnapshot()
+  if (snapshot) {
+    return getSnapshotDocument<T>(snapshot, url)
+  }
+
+  const entry = await readEntry<T>(url)
+  const now = Date.now()
+
+  if (entry && !options.revalidate) {
+    if (now < entry.expiresAt) {
+      return entry.data
+    }
+
+    if (now < entry.staleUntil) {
+      revalidate(kind, url, entry).catch(error =>
+        console.error(
+          `Error al revalidar ${url} en segundo plano: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      )
+      return entry.data
+    }
+  }
+
+  try {
+    return (await revalidate(kind, url, entry)).data
+  } catch (error) {
+    // Los errores 4xx son definitivos; el resto se cubre con los últimos datos correctos
+    if (entry && !isClientError(error)) {
+      console.error(
+        `Usando datos cacheados de ${url} (${new Date(
+          entry.storedAt
+        ).toISOString()}): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return entry.data
+    }
+
+    throw error
+  }
+}
+
+/**
+ * @function readStoredData
+ * @description Lee datos generados por el propio servidor (no obtenidos de un origen) que se
+ * guardaron con storeData
+ * @param {string} key - Clave de los datos
+ * @returns {Promise<T | undefined>} Datos guardados o undefined si no existen
+ */
+export async function readStoredData<T> (key: string): Promise<T | undefined> {
+  return (await readEntry<T>(key))?.data
+}
+
+/**
+ * @function storeData
+ * @description Guarda datos generados por el propio servidor en memoria y en el almacenamiento
+ * persistente, si está configurado
+ * @param {string} key - Clave de los datos (no debe coincidir con la URL de un origen)
+ * @param {T} data - Datos a guardar
+ * @param {number} retentionMs - Tiempo durante el que deben conservarse
+ */
+export async function storeData<T> (
+  key: string,
+  data: T,
+  retentionMs: number
+): Promise<void> {
+  const now = Date.now()
+
+  await writeEntry<T>({
+    key,
+    data,
+    storedAt: now,
+    expiresAt: now + retentionMs,
+    staleUntil: now + retentionMs
+  })
+}
+
+/**
+ * @description Revalida una entrada con el origen, compartiendo la petición entre llamadas
+ * concurrentes a la misma URL
+ */
+function revalidate<T> (
+  kind: CacheKind,
+  url: string,
+  entry?: CacheEntry<T>
+): Promise<CacheEntry<T>> {
+  const pending = pendingRevalidations.get(url)
+  if (pending) return pending as Promise<CacheEntry<T>>
+
+  const promise = fetchEntry(kind, url, entry).finally(() =>
+    pendingRevalidations.delete(url)
+  )
+  pendingRevalidations.set(url, promise)
+
+  return promise
+}
+
+/**
+ * @description Obtiene los datos del origen con una petición condicional y guarda la entrada.
+ * Con un 304 se conservan los datos anteriores (el mismo objeto) y se renueva su vigencia.
+ */
+async function fetchEntry<T> (
+  kind: CacheKind,
+  url: string,
+  entry?: CacheEntry<T>
+): Promise<CacheEntry<T>> {
+  const headers: Record<string, string> = {}
+  if (entry?.etag) headers['If-None-Match'] = entry.etag
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified
+
+  const response = await fetchUpstream(url, { headers })
+  const notModified = response.status === 304 && entry !== undefined
+
+  const data = notModified
+    ? entry.data
+    : await parseUpstreamJson<T>(response, url)
+
+  const policy = CACHE_POLICIES[kind]
+  const now = Date.now()
+  const nextEntry: CacheEntry<T> = {
+    key: url,
+    data,
+    storedAt: now,
+    expiresAt: now + policy.ttlMs,
+    staleUntil: now + policy.ttlMs + policy.staleMs,
+    etag:
+      response.headers.get('etag') ?? (notModified ? entry.etag : undefined),
+    lastModified:
+      response.headers.get('last-modified') ??
+      (notModified ? entry.lastModified : undefined)
+  }
+
+  await writeEntry(nextEntry)
+  return nextEntry
+}
+
+/**
+ * @description Lee una entrada de memoria o, si no está, del almacenamiento persistente
+ */
+async function readEntry<T> (key: string): Promise<CacheEntry<T> | undefined> {
+  const entry = await memoryCache.get<T>(key)
+  if (entry || !persistentCache) return entry
+
+  try {
+    const storedEntry = await persistentCache.get<T>(key)
+    if (storedEntry) {
+      await memoryCache.set(storedEntry)
+    }
+    return storedEntry
+  } catch (error) {
+    console.error(
+      `Error al leer ${key} del caché ${persistentCache.name}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+    return undefined
+  }
+}
+
+/**
+ * @description Guarda una entrada en memoria y en el almacenamiento persistente
+ */
+async function writeEntry<T> (entry: CacheEntry<T>): Promise<void> {
+  await memoryCache.set(entry)
+  if (!persistentCache) return
+
+  try {
+    await persistentCache.set(entry)
+  } catch (error) {
+    console.error(
+      `Error al guardar ${entry.key} en el caché ${persistentCache.name}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import type { ChainInfo, ExplorerUrlType } from '../types/chains'
+import { CHAINS } from '../constants/chains'
+
+/**
+ * @description Índice de cadenas por identificador numérico y por alias
+ * @type {Map<string, ChainInfo>}
+ */
+const CHAIN_INDEX = new Map<string, ChainInfo>()
+
+for (const chain of CHAINS) {
+  CHAIN_INDEX.set(String(chain.id), chain)
+  for (const alias of chain.aliases) {
+    CHAIN_INDEX.set(alias, chain)
+  }
+}
+
+/**
+ * @description Resuelve una cadena a partir de su ID numérico, nombre o alias
+ * @param {string | number} chain - Identificador de cadena (ej: 43114, "43114", "avax", "fuji")
+ * @returns {ChainInfo | undefined} La cadena encontrada o undefined si no está registrada
+ */
+export function resolveChain (chain: string | number): ChainInfo | undefined {
+  const key = String(chain).trim().toLowerCase()
+  return CHAIN_INDEX.get(key) ?? CHAIN_INDEX.get(key.replace(/\s+/g, '-'))
+}
+
+/**
+ * @description Normaliza un identificador de cadena a su formato numérico estándar
+ * @param {string | number} chainId - Identificador de cadena (puede ser un nombre o un ID numérico)
+ * @returns {string} El identificador numérico normalizado
+ * @throws {Error} Si el nombre de la cadena no está reconocido en el registro
+ */
+export function normalizeChainId (chainId: string | number): string {
+  const value = String(chainId).trim()
+
+  // Si ya es un ID numérico, devolverlo directamente aunque no esté registrado
+  if (/^\d+$/.test(value)) {
+    return String(Number(value))
+  }
+
+  const chain = resolveChain(value)
+
+  if (!chain) {
+    throw new Error(`Cadena desconocida: ${chainId}`)
+  }
+
+  return String(chain.id)
+}
+
+/**
+ * @description Obtiene el nombre para mostrar de una cadena
+ * @param {string | number} [chainId] - Identificador de cadena
+ * @returns {string | undefined} Nombre de la cadena, un nombre genérico si no está registrada,
+ * o undefined si no se proporciona
+ */
+export function getChainName (chainId?: string | number): string | undefined {
+  if (chainId === undefined || chainId === null || chainId === '') {
+    return undefined
+  }
+
+  return resolveChain(chainId)?.name ?? `Chain ID ${chainId}`
+}
+
+/**
+ * @description Construye la URL del explorador de bloques para un token, dirección o transacción
+ * @param {string | number} [chainId] - Identificador de cadena
+ * @param {string} [value] - Dirección del token/cuenta o hash de la transacción
+ * @param {ExplorerUrlType} [type='token'] - Tipo de página del explorador
+ * @returns {string | undefined} URL del explorador o undefined si la cadena no está registrada
+ */
+export function getExplorerUrl (
+  chainId?: string | number,
+  value?: string,
+  type: ExplorerUrlType = 'token'
+): string | undefined {
+  if (chainId === undefined || !value) return undefined
+
+  const chain = resolveChain(chainId)
+  if (!chain) return undefined
+
+  const pattern =
+    type === 'tx'
+      ? chain.explorer.txUrl
+      : type === 'address'
+      ? chain.explorer.addressUrl
+      : chain.explorer.tokenUrl
+
+  return pattern.replace('{address}', value).replace('{hash}', value)
+}
+
+/**
+ * @description Obtiene la lista de cadenas soportadas
+ * @param {boolean} [includeTestnets=true] - Indica si se incluyen las redes de pruebas
+ * @returns {{ id: number, name: string, testnet: boolean }[]} Cadenas soportadas
+ */
+export function getSupportedChains (
+  includeTestnets: boolean = true
+): { id: number; name: string; testnet: boolean }[] {
+  return getChains(includeTestnets).map(({ id, name, testnet }) => ({
+    id,
+    name,
+    testnet
+  }))
+}
+
+/**
+ * @description Obtiene el registro completo de cadenas
+ * @param {boolean} [includeTestnets=true] - Indica si se incluyen las redes de pruebas
+ * @returns {ChainInfo[]} Cadenas registradas
+ */
+export function getChains (includeTestnets: boolean = true): ChainInfo[] {
+  return includeTestnets ? CHAINS : CHAINS.filter(chain => !chain.testnet)
+}
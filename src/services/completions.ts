@@ -0,0 +1,216 @@
+import type { Repository } from '../types/repository'
+import { getChains } from './chains'
+import { getRepository } from './repository'
+import { getTokenListProviders } from './providers'
+import { getMaxTypoDistance, typoDistance } from '../utils/similarity'
+
+/**
+ * @description Número máximo de sugerencias devueltas por completado
+ */
+const MAX_COMPLETIONS = 20
+
+/**
+ * @interface CompletionCandidate
+ * @description Valor candidato para el completado de argumentos
+ * @property {string} value - Valor que se sugiere al cliente
+ * @property {string[]} [keywords] - Textos alternativos con los que también coincide (nombre, alias, etc.)
+ */
+interface CompletionCandidate {
+  value: string
+  keywords?: string[]
+}
+
+/**
+ * @description Puntúa un texto frente al valor escrito por el usuario:
+ * 3 si empieza por él, 2 si lo contiene, 1 si su inicio es una variante con errores
+ * tipográficos (ej: "trdaer" → "traderjoe") y 0 si no coincide
+ */
+function scoreText (input: string, text: string): number {
+  const lowerCaseText = text.toLowerCase()
+
+  if (lowerCaseText.startsWith(input)) return 3
+  if (lowerCaseText.includes(input)) return 2
+
+  const maxDistance = getMaxTypoDistance(input)
+  if (maxDistance === 0) return 0
+
+  // Comparar con el inicio del texto permite sugerir mientras se escribe
+  const prefix = lowerCaseText.slice(0, input.length)
+  return typoDistance(input, prefix) <= maxDistance ||
+    typoDistance(input, lowerCaseText) <= maxDistance
+    ? 1
+    : 0
+}
+
+/**
+ * @description Ordena los candidatos que coinciden con el valor escrito por el usuario.
+ * Con un valor vacío devuelve todos los candidatos en orden alfabético.
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @param {CompletionCandidate[]} candidates - Valores posibles
+ * @returns {string[]} Sugerencias ordenadas por relevancia, sin duplicados
+ */
+export function rankCompletions (
+  value: string,
+  candidates: CompletionCandidate[]
+): string[] {
+  const input = (value ?? '').trim().toLowerCase()
+  const scores = new Map<string, number>()
+
+  for (const candidate of candidates) {
+    const score = input
+      ? Math.max(
+          ...[candidate.value, ...(candidate.keywords ?? [])].map(text =>
+            scoreText(input, text)
+          )
+        )
+      : 1
+
+    if (score > 0 && score > (scores.get(candidate.value) ?? 0)) {
+      scores.set(candidate.value, score)
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_COMPLETIONS)
+    .map(([candidate]) => candidate)
+}
+
+/**
+ * @description Candidatos de los protocolos con lista de tokens, que coinciden también por sus
+ * alias (ej: "trad" → "lfj", alias "traderjoe")
+ */
+function getTokenListProtocolCandidates (): CompletionCandidate[] {
+  return getTokenListProviders().map(provider => ({
+    value: provider.name,
+    keywords: provider.aliases
+  }))
+}
+
+/**
+ * @description Obtiene datos del repositorio para el completado sin propagar errores,
+ * de modo que un fallo de red solo reduzca las sugerencias
+ */
+async function fromRepository<T> (
+  select: (repository: Repository) => T[]
+): Promise<T[]> {
+  try {
+    return select(await getRepository())
+  } catch (error) {
+    console.error(
+      `Error al obtener datos del repositorio para completado: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+    return []
+  }
+}
+
+/**
+ * @description Sugiere protocolos conocidos: los de las listas de tokens (también por sus alias)
+ * y los de las plantillas. El protocolo de los endpoints del repositorio es el esquema de su URL
+ * (https), no un protocolo DeFi, por lo que no se sugiere
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {Promise<string[]>} Protocolos sugeridos
+ */
+export async function completeProtocols (value: string): Promise<string[]> {
+  const repositoryProtocols = await fromRepository(repository =>
+    repository.templates.flatMap(repo =>
+      repo.categories.flatMap(category =>
+        category.templates.map(template => template.protocol.toLowerCase())
+      )
+    )
+  )
+
+  return rankCompletions(value, [
+    ...getTokenListProtocolCandidates(),
+    ...repositoryProtocols.map(protocol => ({ value: protocol }))
+  ])
+}
+
+/**
+ * @description Sugiere protocolos que tienen lista de tokens publicada
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {string[]} Protocolos sugeridos
+ */
+export function completeTokenListProtocols (value: string): string[] {
+  return rankCompletions(value, getTokenListProtocolCandidates())
+}
+
+/**
+ * @description Sugiere cadenas del registro. Si el usuario escribe un número se sugiere el ID
+ * de la cadena; si escribe texto se sugiere su alias principal. Ambos coinciden por ID,
+ * nombre o cualquier alias (ej: "ava" → "avalanche", "431" → "43114").
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {string[]} Cadenas sugeridas
+ */
+export function completeChains (value: string): string[] {
+  const numericInput = /^\d+$/.test((value ?? '').trim())
+
+  return rankCompletions(
+    value,
+    getChains().map(chain => ({
+      value: numericInput ? String(chain.id) : chain.aliases[0],
+      keywords: [String(chain.id), chain.name, ...chain.aliases]
+    }))
+  )
+}
+
+/**
+ * @description Sugiere categorías de plantillas del repositorio
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {Promise<string[]>} Categorías de plantillas sugeridas
+ */
+export async function completeTemplateCategories (
+  value: string
+): Promise<string[]> {
+  const categories = await fromRepository(repository =>
+    repository.templates.flatMap(repo =>
+      repo.categories.map(category => ({
+        value: category.id,
+        keywords: [category.name]
+      }))
+    )
+  )
+
+  return rankCompletions(value, categories)
+}
+
+/**
+ * @description Sugiere IDs de plantillas del repositorio
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {Promise<string[]>} IDs de plantillas sugeridos
+ */
+export async function completeTemplateIds (value: string): Promise<string[]> {
+  const templates = await fromRepository(repository =>
+    repository.templates.flatMap(repo =>
+      repo.categories.flatMap(category =>
+        category.templates.map(template => ({
+          value: template.id,
+          keywords: [template.name, template.protocol]
+        }))
+      )
+    )
+  )
+
+  return rankCompletions(value, templates)
+}
+
+/**
+ * @description Sugiere categorías y subcategorías de los endpoints de mini aplicaciones
+ * @param {string} value - Valor parcial escrito por el usuario
+ * @returns {Promise<string[]>} Categorías sugeridas
+ */
+export async function completeMiniAppCategories (
+  value: string
+): Promise<string[]> {
+  const categories = await fromRepository(repository =>
+    repository.miniAppEndpoints.flatMap(endpoint =>
+      [endpoint.category, endpoint.subcategory]
+        .filter((category): category is string => Boolean(category))
+        .map(category => ({ value: category.toLowerCase() }))
+    )
+  )
+
+  return rankCompletions(value, categories)
+}
@@ -0,0 +1,246 @@
+import type {
+  MiniAppEndpoint,
+  MiniAppSearchParams,
+  MiniAppSearchResult
+} from '../types/repository'
+import { getMaxTypoDistance, typoDistance } from '../utils/similarity'
+
+/**
+ * @description Campos de un endpoint que participan en la búsqueda y su peso relativo
+ */
+const SEARCH_FIELDS: Array<{
+  field: 'host' | 'endpoint' | 'category' | 'subcategory'
+  label: string
+  weight: number
+}> = [
+  { field: 'host', label: 'host', weight: 3 },
+  { field: 'endpoint', label: 'ruta', weight: 2.5 },
+  { field: 'category', label: 'categoría', weight: 2 },
+  { field: 'subcategory', label: 'subcategoría', weight: 2 }
+]
+
+/**
+ * @description Factor aplicado según el tipo de coincidencia de un término
+ */
+const MATCH_FACTORS = {
+  exact: 1,
+  prefix: 0.75,
+  substring: 0.5,
+  typo: 0.4
+} as const
+
+/**
+ * @description Factor aplicado a la relevancia según el estado de verificación del endpoint
+ */
+const STATE_BOOST: Record<MiniAppEndpoint['state'], number> = {
+  trusted: 1.25,
+  pending: 1,
+  rejected: 0.5
+}
+
+/**
+ * @description Términos sin valor para la búsqueda (partes genéricas de URLs)
+ */
+const IGNORED_TOKENS = new Set(['http', 'https', 'www', 'api', 'com', 'app'])
+
+type MatchType = keyof typeof MATCH_FACTORS
+
+/**
+ * @description Mejor coincidencia encontrada para un término de la búsqueda
+ */
+interface TermMatch {
+  term: string
+  fieldLabel: string
+  type: MatchType
+  score: number
+}
+
+/**
+ * @description Divide un texto en términos normalizados para la búsqueda
+ * @param {string} text - Texto a dividir
+ * @returns {string[]} Términos en minúsculas sin duplicados
+ */
+export function tokenize (text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !IGNORED_TOKENS.has(token))
+
+  return Array.from(new Set(tokens))
+}
+
+/**
+ * @description Determina cómo coincide un término de búsqueda con los términos de un campo
+ * @returns {MatchType | null} Tipo de coincidencia o null si no coincide
+ */
+function matchTerm (term: string, fieldTokens: string[]): MatchType | null {
+  let best: MatchType | null = null
+
+  for (const fieldToken of fieldTokens) {
+    if (fieldToken === term) return 'exact'
+
+    if (fieldToken.startsWith(term)) {
+      best = 'prefix'
+    } else if (best !== 'prefix' && fieldToken.includes(term)) {
+      best = 'substring'
+    } else if (
+      !best &&
+      typoDistance(term, fieldToken) <= getMaxTypoDistance(term)
+    ) {
+      best = 'typo'
+    }
+  }
+
+  return best
+}
+
+/**
+ * @description Calcula la relevancia de un endpoint para los términos de búsqueda
+ * @returns {MiniAppSearchResult | null} Resultado puntuado o null si ningún término coincide
+ */
+function scoreEndpoint (
+  endpoint: MiniAppEndpoint,
+  terms: string[]
+): MiniAppSearchResult | null {
+  const fieldTokens = SEARCH_FIELDS.map(({ field, label, weight }) => ({
+    label,
+    weight,
+    tokens: tokenize(endpoint[field] ?? '')
+  }))
+
+  const matches: TermMatch[] = []
+
+  for (const term of terms) {
+    let bestMatch: TermMatch | null = null
+
+    for (const { label, weight, tokens } of fieldTokens) {
+      const type = matchTerm(term, tokens)
+      if (!type) continue
+
+      const score = weight * MATCH_FACTORS[type]
+      if (!bestMatch || score > bestMatch.score) {
+        bestMatch = { term, fieldLabel: label, type, score }
+      }
+    }
+
+    if (bestMatch) matches.push(bestMatch)
+  }
+
+  if (matches.length === 0) return null
+
+  const maxWeight = Math.max(...SEARCH_FIELDS.map(({ weight }) => weight))
+  const textScore =
+    matches.reduce((total, match) => total + match.score, 0) /
+    (terms.length * maxWeight)
+
+  const reasons = matches.map(match => describeMatch(match))
+  const unmatchedTerms = terms.filter(
+    term => !matches.some(match => match.term === term)
+  )
+  if (unmatchedTerms.length > 0) {
+    reasons.push(`sin coincidencias para "${unmatchedTerms.join('", "')}"`)
+  }
+  if (endpoint.state === 'trusted') {
+    reasons.push('endpoint verificado')
+  }
+
+  return {
+    endpoint,
+    relevance: roundRelevance(textScore * STATE_BOOST[endpoint.state]),
+    matchReason: reasons.join('; ')
+  }
+}
+
+/**
+ * @description Describe en texto la coincidencia de un término
+ */
+function describeMatch (match: TermMatch): string {
+  switch (match.type) {
+    case 'exact':
+      return `${match.fieldLabel} coincide con "${match.term}"`
+    case 'prefix':
+      return `${match.fieldLabel} empieza por "${match.term}"`
+    case 'substring':
+      return `${match.fieldLabel} contiene "${match.term}"`
+    case 'typo':
+    default:
+      return `${match.fieldLabel} coincide aproximadamente con "${match.term}"`
+  }
+}
+
+/**
+ * @description Redondea la relevancia a tres decimales
+ */
+function roundRelevance (value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * @description Indica si un endpoint cumple los filtros exactos de la búsqueda
+ */
+function matchesFilters (
+  endpoint: MiniAppEndpoint,
+  params: MiniAppSearchParams
+): boolean {
+  if (
+    params.category &&
+    endpoint.category.toLowerCase() !== params.category.toLowerCase()
+  ) {
+    return false
+  }
+
+  if (
+    params.subcategory &&
+    endpoint.subcategory?.toLowerCase() !== params.subcategory.toLowerCase()
+  ) {
+    return false
+  }
+
+  if (
+    params.protocol &&
+    endpoint.protocol.toLowerCase() !== params.protocol.toLowerCase()
+  ) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * @description Busca mini aplicaciones ordenadas por relevancia. Los términos de la búsqueda
+ * se comparan con el host, la ruta, la categoría y la subcategoría de cada endpoint, tolerando
+ * errores tipográficos, y los endpoints verificados reciben un impulso en la puntuación.
+ * @param {MiniAppEndpoint[]} endpoints - Endpoints sobre los que buscar
+ * @param {MiniAppSearchParams} params - Texto de búsqueda y filtros exactos
+ * @returns {MiniAppSearchResult[]} Resultados ordenados de mayor a menor relevancia
+ */
+export function searchMiniApps (
+  endpoints: MiniAppEndpoint[],
+  params: MiniAppSearchParams
+): MiniAppSearchResult[] {
+  const terms = tokenize(params.query ?? '')
+  const candidates = endpoints.filter(endpoint =>
+    matchesFilters(endpoint, params)
+  )
+
+  const results: MiniAppSearchResult[] =
+    terms.length === 0
+      ? candidates.map(endpoint => ({
+          endpoint,
+          relevance: roundRelevance(STATE_BOOST[endpoint.state] / 2),
+          matchReason:
+            endpoint.state === 'trusted'
+              ? 'coincide con los filtros; endpoint verificado'
+              : 'coincide con los filtros'
+        }))
+      : candidates
+          .map(endpoint => scoreEndpoint(endpoint, terms))
+          .filter((result): result is MiniAppSearchResult => result !== null)
+
+  return results.sort(
+    (a, b) =>
+      b.relevance - a.relevance ||
+      STATE_BOOST[b.endpoint.state] - STATE_BOOST[a.endpoint.state] ||
+      a.endpoint.host.localeCompare(b.endpoint.host)
+  )
+}
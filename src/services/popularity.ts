@@ -0,0 +1,182 @@
+import type { TokenInfo, TokenPopularity } from '../types/tokens'
+import { getSources } from '../config/sources'
+import { getCachedJson } from './cache'
+import { getTokenListProvider } from './providers'
+
+/**
+ * @description Peso de cada factor en la puntuación de popularidad. Los tokens con rango curado
+ * siempre quedan por delante del resto: su puntuación base supera la suma de los demás factores.
+ */
+const POPULARITY_WEIGHTS = {
+  popularList: 40,
+  native: 30,
+  wrapped: 15,
+  stablecoin: 20,
+  curatedBase: 200,
+  curatedMaxRank: 100
+}
+
+/**
+ * @description Etiquetas de las listas de tokens que identifican cada categoría
+ */
+const CATEGORY_TAGS: Record<TokenPopularity['inputs']['tags'][number], string[]> =
+  {
+    native: ['native'],
+    wrapped: ['wrapped', 'wrapped-native', 'wnative'],
+    stablecoin: ['stablecoin', 'stablecoins', 'stable']
+  }
+
+/**
+ * @description Tokens puntuados por lista de origen, junto con los datos usados para puntuarlos.
+ * Se reutilizan mientras no cambien, de modo que conservan la misma referencia.
+ */
+const rankedTokensCache = new WeakMap<
+  TokenInfo[],
+  { popularList: unknown; curatedRanks: object; ranked: TokenInfo[] }
+>()
+
+/**
+ * @function scoreTokensPopularity
+ * @description Añade a cada token su puntuación de popularidad a partir de su presencia en la
+ * lista de tokens populares del protocolo, sus categorías (nativo, wrapped, stablecoin) y los
+ * rangos curados configurados. Si la lista de populares no está disponible se puntúa sin ella.
+ * @param {string} protocolName - Protocolo de los tokens
+ * @param {TokenInfo[]} tokens - Tokens a puntuar
+ * @returns {Promise<TokenInfo[]>} Copia de los tokens con la propiedad popularity
+ */
+export async function scoreTokensPopularity (
+  protocolName: string,
+  tokens: TokenInfo[]
+): Promise<TokenInfo[]> {
+  const { curatedTokenRanks } = getSources()
+  const popularListUrl =
+    getTokenListProvider(protocolName)?.popularTokenListUrl
+  let popularList: unknown = null
+
+  if (popularListUrl) {
+    try {
+      popularList = await getCachedJson('tokenList', popularListUrl)
+    } catch (error) {
+      console.error(
+        `Lista de tokens populares de ${protocolName} no disponible, se puntúa sin ella: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
+  const cached = rankedTokensCache.get(tokens)
+  if (
+    cached &&
+    cached.popularList === popularList &&
+    cached.curatedRanks === curatedTokenRanks
+  ) {
+    return cached.ranked
+  }
+
+  const popularKeys = getPopularKeys(popularList)
+  const ranked = tokens.map(token => ({
+    ...token,
+    popularity: scoreToken(token, popularKeys, curatedTokenRanks)
+  }))
+
+  rankedTokensCache.set(tokens, {
+    popularList,
+    curatedRanks: curatedTokenRanks,
+    ranked
+  })
+
+  return ranked
+}
+
+/**
+ * @function compareByPopularity
+ * @description Compara dos tokens por puntuación de popularidad (descendente) y, a igualdad,
+ * por símbolo
+ * @param {TokenInfo} a - Primer token
+ * @param {TokenInfo} b - Segundo token
+ * @returns {number} Resultado de la comparación para Array.prototype.sort
+ */
+export function compareByPopularity (a: TokenInfo, b: TokenInfo): number {
+  return (
+    (b.popularity?.score ?? 0) - (a.popularity?.score ?? 0) ||
+    a.symbol.localeCompare(b.symbol)
+  )
+}
+
+/**
+ * @description Calcula la puntuación de popularidad de un token
+ */
+function scoreToken (
+  token: TokenInfo,
+  popularKeys: Set<string>,
+  curatedRanks: Record<string, number>
+): TokenPopularity {
+  const popularList = popularKeys.has(getTokenKey(token.chainId, token.address))
+  const tags = getTokenCategories(token)
+  const curatedRank =
+    curatedRanks[getTokenKey(token.chainId, token.address)] ??
+    curatedRanks[token.symbol.toUpperCase()] ??
+    null
+
+  let score = popularList ? POPULARITY_WEIGHTS.popularList : 0
+  for (const tag of tags) {
+    score += POPULARITY_WEIGHTS[tag]
+  }
+  if (curatedRank !== null) {
+    score +=
+      POPULARITY_WEIGHTS.curatedBase +
+      Math.max(0, POPULARITY_WEIGHTS.curatedMaxRank - curatedRank)
+  }
+
+  return { score, inputs: { popularList, tags, curatedRank } }
+}
+
+/**
+ * @description Detecta las categorías de un token a partir de sus etiquetas y de si es la moneda
+ * nativa o su token envuelto
+ */
+function getTokenCategories (
+  token: TokenInfo
+): TokenPopularity['inputs']['tags'] {
+  const tokenTags = (token.tags ?? [])
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.toLowerCase())
+
+  return (
+    Object.keys(CATEGORY_TAGS) as Array<keyof typeof CATEGORY_TAGS>
+  ).filter(
+    category =>
+      (category === 'native' && token.isNative === true) ||
+      (category === 'wrapped' && token.isWrappedNative === true) ||
+      CATEGORY_TAGS[category].some(tag => tokenTags.includes(tag))
+  )
+}
+
+/**
+ * @description Obtiene las claves "<chainId>:<dirección>" de los tokens de una lista de populares
+ */
+function getPopularKeys (popularList: unknown): Set<string> {
+  const data = popularList as Record<string, any> | null
+  const tokens = Array.isArray(data?.tokens)
+    ? data.tokens
+    : Array.isArray(data)
+    ? data
+    : []
+
+  return new Set(
+    tokens
+      .filter(
+        (token: any) =>
+          typeof token?.address === 'string' && token?.chainId !== undefined
+      )
+      .map((token: any) => getTokenKey(String(token.chainId), token.address))
+  )
+}
+
+/**
+ * @description Clave de un token en una cadena
+ */
+function getTokenKey (chainId: string, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
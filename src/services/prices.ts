@@ -0,0 +1,164 @@
+import type {
+  PriceEnrichment,
+  PriceFeedSource,
+  PriceProvider,
+  PriceQuote,
+  PriceStatusCode,
+  TokenPriceStatus
+} from '../types/prices'
+import type { TokenInfo } from '../types/tokens'
+import { ENV } from '../config/environment'
+import { getSources } from '../config/sources'
+import { createFilePriceProvider } from '../providers/price.file.provider'
+import { createHttpPriceProvider } from '../providers/price.http.provider'
+import { getPriceKey } from '../utils/prices'
+
+/**
+ * @description Proveedor creado para el origen de precios configurado. Se vuelve a crear cuando
+ * cambia la configuración de orígenes.
+ */
+let activeProvider: {
+  source: PriceFeedSource
+  provider: PriceProvider
+} | null = null
+
+/**
+ * @function getPriceProvider
+ * @description Obtiene el proveedor del origen de precios configurado
+ * @returns {PriceProvider | null} Proveedor o null si no hay origen de precios configurado
+ */
+export function getPriceProvider (): PriceProvider | null {
+  const { priceFeed } = getSources()
+  if (!priceFeed) return null
+
+  if (activeProvider?.source !== priceFeed) {
+    activeProvider = {
+      source: priceFeed,
+      provider:
+        priceFeed.type === 'file'
+          ? createFilePriceProvider(priceFeed.path)
+          : createHttpPriceProvider(priceFeed.url)
+    }
+  }
+
+  return activeProvider.provider
+}
+
+/**
+ * @function enrichTokensWithPrices
+ * @description Añade a una copia de los tokens su precio (price) y el estado del precio
+ * (priceStatus). Los precios con más de PRICE_MAX_AGE_MS de antigüedad se devuelven marcados como
+ * desactualizados (stale); los tokens sin precio se marcan como missing y, si no hay origen de
+ * precios o no se pudo consultar, como unavailable. Nunca se omite el estado de un token.
+ * @param {T[]} tokens - Tokens a enriquecer
+ * @returns {Promise<PriceEnrichment<T>>} Tokens con precios, proveedor y totales por estado
+ */
+export async function enrichTokensWithPrices<T extends TokenInfo> (
+  tokens: T[]
+): Promise<PriceEnrichment<T>> {
+  const provider = getPriceProvider()
+  const maxAgeMs = ENV.PRICE_MAX_AGE_MS
+  const counts: Record<PriceStatusCode, number> = {
+    fresh: 0,
+    stale: 0,
+    missing: 0,
+    unavailable: 0
+  }
+
+  let quotes: Map<string, PriceQuote> | null = null
+  let error: string | undefined
+
+  if (!provider) {
+    error =
+      'No hay ningún origen de precios configurado (PRICE_FEED_FILE, PRICE_FEED_URL o priceFeed en la configuración de orígenes)'
+  } else {
+    try {
+      quotes = await provider.getPrices(tokens)
+    } catch (cause) {
+      error = `No se pudo consultar el origen de precios (${provider.name}: ${
+        provider.location
+      }): ${cause instanceof Error ? cause.message : String(cause)}`
+      console.error(error)
+    }
+  }
+
+  const now = Date.now()
+  const pricedTokens = tokens.map(token => {
+    const { price, priceStatus, ...rest } = token
+    const quote = quotes?.get(getPriceKey(token.chainId, token.address))
+    const status = describePrice(quote, provider, maxAgeMs, now, error)
+
+    counts[status.status]++
+
+    return {
+      ...rest,
+      ...(quote
+        ? { price: { usd: quote.usd, lastUpdated: quote.lastUpdated } }
+        : {}),
+      priceStatus: status
+    } as T
+  })
+
+  return {
+    tokens: pricedTokens,
+    provider: provider?.name ?? null,
+    maxAgeMs,
+    counts,
+    error
+  }
+}
+
+/**
+ * @function formatAge
+ * @description Expresa una antigüedad en la unidad más legible (s, min, h o días)
+ * @param {number} ms - Antigüedad en milisegundos
+ * @returns {string} Antigüedad legible (ej: "15 min")
+ */
+export function formatAge (ms: number): string {
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)} s`
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / (60 * 1000))} min`
+  if (ms < 24 * 60 * 60 * 1000) return `${Math.round(ms / (60 * 60 * 1000))} h`
+  return `${Math.round(ms / (24 * 60 * 60 * 1000))} días`
+}
+
+/**
+ * @description Determina el estado del precio de un token
+ */
+function describePrice (
+  quote: PriceQuote | undefined,
+  provider: PriceProvider | null,
+  maxAgeMs: number,
+  now: number,
+  error?: string
+): TokenPriceStatus {
+  if (!provider || error) {
+    return { status: 'unavailable', message: error ?? 'Sin origen de precios' }
+  }
+
+  if (!quote) {
+    return {
+      status: 'missing',
+      source: provider.name,
+      message: `El origen de precios (${provider.name}) no tiene precio de este token`
+    }
+  }
+
+  // Una fecha futura (relojes desincronizados) se trata como recién actualizada
+  const ageMs = Math.max(0, now - new Date(quote.lastUpdated).getTime())
+
+  return ageMs > maxAgeMs
+    ? {
+        status: 'stale',
+        source: provider.name,
+        ageMs,
+        message: `Precio desactualizado: tiene ${formatAge(
+          ageMs
+        )} de antigüedad (máximo ${formatAge(maxAgeMs)})`
+      }
+    : {
+        status: 'fresh',
+        source: provider.name,
+        ageMs,
+        message: `Precio actualizado hace ${formatAge(ageMs)}`
+      }
+}
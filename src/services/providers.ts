@@ -0,0 +1,51 @@
+import type { TokenListProvider } from '../types/providers'
+import { getSources } from '../config/sources'
+import { findTokenListProvider } from '../providers/registry'
+
+/**
+ * @function getTokenListProviders
+ * @description Obtiene los proveedores cargados: uno por cada protocolo con lista de tokens en la
+ * configuración de orígenes, con la URL configurada. Los protocolos añadidos por configuración
+ * sin proveedor incluido usan un proveedor genérico para listas en formato estándar.
+ * @returns {TokenListProvider[]} Proveedores cargados
+ */
+export function getTokenListProviders (): TokenListProvider[] {
+  const { tokenLists, popularTokenLists } = getSources()
+
+  return Object.entries(tokenLists).map(([name, tokenListUrl]) => ({
+    ...(findTokenListProvider(name) ?? {
+      name,
+      displayName: name,
+      aliases: []
+    }),
+    tokenListUrl,
+    popularTokenListUrl: popularTokenLists[name]
+  }))
+}
+
+/**
+ * @function getTokenListProvider
+ * @description Busca un proveedor cargado por el nombre o un alias del protocolo
+ * @param {string} protocol - Nombre o alias del protocolo (no distingue mayúsculas)
+ * @returns {TokenListProvider | null} Proveedor o null si el protocolo no tiene lista de tokens
+ */
+export function getTokenListProvider (
+  protocol: string
+): TokenListProvider | null {
+  const key = protocol.trim().toLowerCase()
+
+  return (
+    getTokenListProviders().find(
+      provider => provider.name === key || provider.aliases.includes(key)
+    ) ?? null
+  )
+}
+
+/**
+ * @function getTokenListProtocols
+ * @description Obtiene los nombres de los protocolos con lista de tokens cargada
+ * @returns {string[]} Nombres canónicos de los protocolos
+ */
+export function getTokenListProtocols (): string[] {
+  return getTokenListProviders().map(provider => provider.name)
+}
@@ -1,30 +1,36 @@
 import type { Repository, TemplatesRepository } from '../types/repository'
-import { REPOSITORY_BASE_URL } from '../constants/url'
-
-let repositoryCache: Repository | null = null
-let repositoryCacheExpiry: number = 0
-const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+import { TEMPLATES_BASE_URL } from '../constants/url'
+import { getSources } from '../config/sources'
+import { getDataVersion } from '../utils/pagination'
+import { getCachedJson } from './cache'
 
+/**
+ * @description Obtiene el repositorio a través del caché (5 minutos frescos por defecto)
+ * @returns {Promise<Repository>} Repositorio
+ */
 export async function getRepository (): Promise<Repository> {
-  const now = Date.now()
+  return loadRepository(false)
+}
 
-  if (repositoryCache && now < repositoryCacheExpiry) {
-    return repositoryCache
-  }
+/**
+ * @description Obtiene el repositorio revalidándolo con el origen aunque el caché esté fresco.
+ * Utilizado por el refresco en segundo plano para detectar cambios de versión.
+ * @returns {Promise<Repository>} Repositorio actualizado
+ */
+export async function refreshRepository (): Promise<Repository> {
+  return loadRepository(true)
+}
 
+/**
+ * @description Obtiene el repositorio del caché o del origen
+ */
+async function loadRepository (revalidate: boolean): Promise<Repository> {
   try {
-    const response = await fetch(REPOSITORY_BASE_URL)
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch repository: ${response.statusText}`)
-    }
-
-    // Update cache
-    const data = (await response.json()) as Repository
-    repositoryCache = data
-    repositoryCacheExpiry = now + CACHE_TTL
-
-    return data
+    return await getCachedJson<Repository>(
+      'repository',
+      getSources().repositoryUrl,
+      { revalidate }
+    )
   } catch (error) {
     console.error('Error fetching repository:', error)
     throw new Error(
@@ -35,13 +41,58 @@ export async function getRepository (): Promise<Repository> {
   }
 }
 
+/**
+ * @description Obtiene el identificador de versión de unos datos del repositorio: la versión
+ * publicada más un resumen del contenido, para distinguir cambios sin cambio de versión
+ * @param {Repository} repository - Datos del repositorio
+ * @returns {string} Identificador de versión (ej: "1.2.0.5f3a9c21")
+ */
+export function getRepositoryVersion (repository: Repository): string {
+  return `${repository.version}.${getDataVersion(repository)}`
+}
+
+/**
+ * @description Obtiene los repositorios de plantillas. Las plantillas publicadas en la URL base
+ * oficial se consultan en la URL base configurada (por ejemplo, un mirror).
+ * @returns {Promise<TemplatesRepository[]>} Repositorios de plantillas
+ */
 export async function getTemplates (): Promise<TemplatesRepository[]> {
   const repository = await getRepository()
+  const { templatesBaseUrl } = getSources()
   const templatesRepository: TemplatesRepository[] = []
 
   for (const category of repository.templates) {
-    templatesRepository.push(category)
+    templatesRepository.push(
+      templatesBaseUrl !== TEMPLATES_BASE_URL &&
+        category.baseUrl.startsWith(TEMPLATES_BASE_URL)
+        ? {
+            ...category,
+            baseUrl:
+              templatesBaseUrl +
+              category.baseUrl.slice(TEMPLATES_BASE_URL.length)
+          }
+        : category
+    )
   }
 
   return templatesRepository
 }
+
+/**
+ * @description Obtiene la lista de protocolos de los endpoints del repositorio
+ * @param {Repository} repository - Datos del repositorio
+ * @returns {string[]} Protocolos de los endpoints del repositorio
+ */
+export function getValidProtocols (repository: Repository): string[] {
+  // Extraer protocolos únicos de los miniAppEndpoints
+  const protocolSet = new Set<string>()
+
+  repository.miniAppEndpoints.forEach(endpoint => {
+    // Extraer protocolo del host o usar una propiedad específica si existe
+    if (endpoint.protocol) {
+      protocolSet.add(endpoint.protocol.toLowerCase())
+    }
+  })
+
+  return Array.from(protocolSet)
+}
@@ -0,0 +1,262 @@
+import type { Repository } from '../types/repository'
+import type { TokenInfo } from '../types/tokens'
+import type { ResourceChange, ResourceChangeListener } from '../types/mcp'
+import { refreshRepository } from './repository'
+import { refreshTokensByProtocol } from './tokens'
+import { getTokenListProtocols } from './providers'
+import { TEMPLATES_URI } from '../resources/templates.resource'
+import { TOKENS_URI } from '../resources/tokens.resource'
+import {
+  INTEGRATOR_DOMAINS_URI,
+  MINIAPP_ENDPOINTS_URI
+} from '../resources/repository.resource'
+import { hashString } from '../utils/hash'
+
+/**
+ * @description Intervalo de refresco por defecto (5 minutos, igual que el caché del repositorio)
+ */
+const DEFAULT_REFRESH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * @description Huellas del último estado conocido del repositorio
+ */
+interface RepositorySnapshot {
+  version: string
+  lastUpdated: string
+  endpoints: string
+  integrators: string
+  templates: string
+  templateUris: string
+}
+
+/**
+ * @description Huella del último estado conocido de la lista de tokens de un protocolo
+ */
+interface TokenListSnapshot {
+  fingerprint: string
+  chainIds: string
+}
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null
+let refreshInProgress = false
+let lastRepositorySnapshot: RepositorySnapshot | null = null
+const lastTokenListSnapshots: Record<string, TokenListSnapshot> = {}
+const changeListeners = new Set<ResourceChangeListener>()
+
+/**
+ * @description Obtiene las huellas de cada sección del repositorio
+ */
+function createRepositorySnapshot (repository: Repository): RepositorySnapshot {
+  const templateUris = repository.templates
+    .flatMap(repo =>
+      repo.categories.flatMap(category => [
+        category.id,
+        ...category.templates.map(template => `${category.id}/${template.id}`)
+      ])
+    )
+    .sort()
+
+  return {
+    version: repository.version,
+    lastUpdated: repository.lastUpdated,
+    endpoints: hashString(JSON.stringify(repository.miniAppEndpoints)),
+    integrators: hashString(JSON.stringify(repository.integratorDomains)),
+    templates: hashString(JSON.stringify(repository.templates)),
+    templateUris: hashString(templateUris.join(','))
+  }
+}
+
+/**
+ * @description Obtiene la huella de una lista de tokens
+ */
+function createTokenListSnapshot (tokens: TokenInfo[]): TokenListSnapshot {
+  const entries = tokens
+    .map(
+      token =>
+        `${token.chainId}:${token.address.toLowerCase()}:${token.symbol}:${
+          token.decimals
+        }:${token.logoURI ?? ''}`
+    )
+    .sort()
+  const chainIds = Array.from(new Set(tokens.map(token => token.chainId)))
+    .sort()
+    .join(',')
+
+  return { fingerprint: hashString(entries.join('|')), chainIds }
+}
+
+/**
+ * @description Compara el repositorio actual con el último estado conocido
+ * @returns {ResourceChange | null} Cambio detectado o null si no hay cambios
+ */
+async function checkRepository (): Promise<ResourceChange | null> {
+  const snapshot = createRepositorySnapshot(await refreshRepository())
+  const previous = lastRepositorySnapshot
+  lastRepositorySnapshot = snapshot
+
+  // La primera comprobación solo establece el estado de referencia
+  if (!previous) return null
+
+  const uris: string[] = []
+  if (snapshot.endpoints !== previous.endpoints) {
+    uris.push(MINIAPP_ENDPOINTS_URI)
+  }
+  if (snapshot.integrators !== previous.integrators) {
+    uris.push(INTEGRATOR_DOMAINS_URI)
+  }
+  if (snapshot.templates !== previous.templates) uris.push(TEMPLATES_URI)
+
+  const versionChanged =
+    snapshot.version !== previous.version ||
+    snapshot.lastUpdated !== previous.lastUpdated
+
+  if (uris.length === 0 && !versionChanged) return null
+
+  return {
+    uris,
+    listChanged: snapshot.templateUris !== previous.templateUris,
+    reason: versionChanged
+      ? `Nueva versión del repositorio: ${previous.version} → ${snapshot.version} (${snapshot.lastUpdated})`
+      : 'Contenido del repositorio modificado'
+  }
+}
+
+/**
+ * @description Compara la lista de tokens de un protocolo con el último estado conocido
+ * @returns {ResourceChange | null} Cambio detectado o null si no hay cambios
+ */
+async function checkTokenList (
+  protocol: string
+): Promise<ResourceChange | null> {
+  const snapshot = createTokenListSnapshot(
+    await refreshTokensByProtocol(protocol)
+  )
+  const previous = lastTokenListSnapshots[protocol]
+  lastTokenListSnapshots[protocol] = snapshot
+
+  if (!previous || previous.fingerprint === snapshot.fingerprint) return null
+
+  return {
+    uris: [`${TOKENS_URI}/${protocol}`],
+    listChanged: previous.chainIds !== snapshot.chainIds,
+    reason: `Lista de tokens de ${protocol} modificada`
+  }
+}
+
+/**
+ * @description Combina varios cambios en uno solo
+ */
+function mergeChanges (changes: ResourceChange[]): ResourceChange | null {
+  if (changes.length === 0) return null
+
+  return {
+    uris: Array.from(new Set(changes.flatMap(change => change.uris))),
+    listChanged: changes.some(change => change.listChanged),
+    reason: changes.map(change => change.reason).join('; ')
+  }
+}
+
+/**
+ * @description Registra un listener que recibe los cambios detectados por el refresco
+ * @param {ResourceChangeListener} listener - Función a invocar con cada cambio
+ * @returns {Function} Función para eliminar el listener
+ */
+export function onResourceChange (
+  listener: ResourceChangeListener
+): () => void {
+  changeListeners.add(listener)
+  return () => {
+    changeListeners.delete(listener)
+  }
+}
+
+/**
+ * @description Refresca el repositorio y las listas de tokens, y notifica a los listeners
+ * si detecta una nueva versión o contenido modificado. Los errores de un origen no impiden
+ * comprobar los demás.
+ * @returns {Promise<ResourceChange | null>} Cambio detectado o null si no hay cambios
+ */
+export async function checkForResourceChanges (): Promise<ResourceChange | null> {
+  if (refreshInProgress) return null
+  refreshInProgress = true
+
+  try {
+    const checks = [
+      checkRepository(),
+      ...getTokenListProtocols().map(protocol =>
+        checkTokenList(protocol)
+      )
+    ]
+
+    const results = await Promise.allSettled(checks)
+    const changes: ResourceChange[] = []
+
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        if (result.value) changes.push(result.value)
+      } else {
+        console.error(
+          `Error al refrescar datos de recursos: ${
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+          }`
+        )
+      }
+    }
+
+    const change = mergeChanges(changes)
+
+    if (change) {
+      console.error(`Cambio de recursos detectado: ${change.reason}`)
+
+      for (const listener of changeListeners) {
+        try {
+          await listener(change)
+        } catch (error) {
+          console.error(
+            `Error al notificar cambio de recursos: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        }
+      }
+    }
+
+    return change
+  } finally {
+    refreshInProgress = false
+  }
+}
+
+/**
+ * @description Inicia el refresco periódico en segundo plano. Si ya está iniciado no hace nada.
+ * @param {number} [intervalMs] - Intervalo entre comprobaciones en milisegundos
+ */
+export function startRepositoryWatcher (
+  intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS
+): void {
+  if (refreshTimer) return
+
+  // Establecer el estado de referencia inmediatamente
+  checkForResourceChanges().catch(() => {})
+
+  refreshTimer = setInterval(() => {
+    checkForResourceChanges().catch(() => {})
+  }, intervalMs)
+
+  // No impedir que el proceso termine por este temporizador
+  if (typeof refreshTimer === 'object' && 'unref' in refreshTimer) {
+    refreshTimer.unref()
+  }
+}
+
+/**
+ * @description Detiene el refresco periódico en segundo plano
+ */
+export function stopRepositoryWatcher (): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer)
+    refreshTimer = null
+  }
+}
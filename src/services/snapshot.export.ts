@@ -0,0 +1,124 @@
+import type { CacheKind } from '../types/cache'
+import type { SnapshotEntry, SnapshotManifest } from '../types/snapshot'
+import { mkdir, rename, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { getSources } from '../config/sources'
+import { hashString } from '../utils/hash'
+import { getCachedJson } from './cache'
+import { getRepository, getRepositoryVersion, getTemplates } from './repository'
+import { UpstreamError } from './upstream'
+import { SNAPSHOT_MANIFEST_FILE } from './snapshot'
+
+/**
+ * @function exportSnapshot
+ * @description Exporta el repositorio, todas las listas de tokens (incluidas las de tokens
+ * populares) y los metadatos de todas las plantillas a un nuevo directorio de snapshot
+ * `<directorio>/<versión>`. Los datos se obtienen revalidados con los orígenes. Si falla el
+ * repositorio o una lista de tokens la exportación se interrumpe; las listas de populares y los
+ * metadatos de plantillas que no se pueden obtener se anotan en el manifiesto.
+ * @param {string} rootDirectory - Directorio donde se crean los snapshots
+ * @returns {Promise<{manifest: SnapshotManifest, directory: string}>} Manifiesto y directorio del snapshot
+ * @throws {Error} Si no se puede obtener el repositorio o alguna lista de tokens
+ */
+export async function exportSnapshot (
+  rootDirectory: string
+): Promise<{ manifest: SnapshotManifest; directory: string }> {
+  const createdAt = new Date()
+  const version = createdAt.toISOString().replace(/[-:]|\.\d+/g, '')
+  const { repositoryUrl, tokenLists, popularTokenLists, fallbackEndpointUrl } =
+    getSources()
+  const documents = new Map<string, { kind: CacheKind; data: unknown }>()
+  const missing: SnapshotManifest['missing'] = []
+
+  const fetchDocument = async (kind: CacheKind, url: string) => {
+    if (documents.has(url)) return
+
+    const data = await getCachedJson(kind, url, { revalidate: true })
+    documents.set(url, { kind, data })
+    console.error(`Exportado ${url}`)
+  }
+
+  // Repositorio
+  await fetchDocument('repository', repositoryUrl)
+  const repository = await getRepository()
+
+  // Listas de tokens (varios protocolos pueden compartir la misma lista)
+  for (const url of new Set(Object.values(tokenLists))) {
+    await fetchDocument('tokenList', url)
+  }
+
+  // Listas de tokens populares: opcionales, sin ellas el ranking se calcula sin ese factor
+  for (const url of new Set(Object.values(popularTokenLists))) {
+    try {
+      await fetchDocument('tokenList', url)
+    } catch (error) {
+      missing.push({
+        url,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  // Metadatos de todas las plantillas
+  let needsFallback = false
+  for (const templatesRepository of await getTemplates()) {
+    for (const category of templatesRepository.categories) {
+      for (const template of category.templates) {
+        const url = `${templatesRepository.baseUrl}${template.endpoint}`
+
+        try {
+          await fetchDocument('metadata', url)
+        } catch (error) {
+          // Las plantillas sin metadatos (404) se sirven con el endpoint de respaldo
+          needsFallback ||=
+            error instanceof UpstreamError && error.status === 404
+          missing.push({
+            url,
+            error: error instanceof Error ? error.message : String(error)
+          })
+          console.error(`No se pudo exportar ${url}: ${missing.at(-1)!.error}`)
+        }
+      }
+    }
+  }
+
+  if (needsFallback && fallbackEndpointUrl) {
+    try {
+      await fetchDocument('metadata', fallbackEndpointUrl)
+    } catch (error) {
+      missing.push({
+        url: fallbackEndpointUrl,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  // Escribir en un directorio temporal y renombrarlo, para no dejar snapshots incompletos
+  const directory = join(rootDirectory, version)
+  const temporaryDirectory = `${directory}.${process.pid}.tmp`
+  await mkdir(join(temporaryDirectory, 'data'), { recursive: true })
+
+  const entries: SnapshotEntry[] = []
+  for (const [url, { kind, data }] of documents) {
+    const file = join('data', `${kind}-${hashString(url)}.json`)
+    await writeFile(join(temporaryDirectory, file), JSON.stringify(data), 'utf8')
+    entries.push({ kind, url, file })
+  }
+
+  const manifest: SnapshotManifest = {
+    version,
+    createdAt: createdAt.toISOString(),
+    repositoryVersion: getRepositoryVersion(repository),
+    entries,
+    missing
+  }
+
+  await writeFile(
+    join(temporaryDirectory, SNAPSHOT_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2),
+    'utf8'
+  )
+  await rename(temporaryDirectory, directory)
+
+  return { manifest, directory }
+}
@@ -0,0 +1,108 @@
+import type { Snapshot, SnapshotManifest } from '../types/snapshot'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { UpstreamError } from './upstream'
+
+/**
+ * @description Nombre del archivo de manifiesto dentro del directorio de un snapshot
+ */
+export const SNAPSHOT_MANIFEST_FILE = 'manifest.json'
+
+let activeSnapshot: Snapshot | null = null
+
+/**
+ * @function loadSnapshot
+ * @description Carga en memoria un snapshot exportado con `snapshot:export`
+ * @param {string} directory - Directorio del snapshot (el que contiene manifest.json)
+ * @returns {Promise<Snapshot>} Snapshot cargado
+ * @throws {Error} Si el manifiesto o alguno de sus documentos no existe o no es JSON válido
+ */
+export async function loadSnapshot (directory: string): Promise<Snapshot> {
+  const manifest = await readJsonFile<SnapshotManifest>(
+    join(directory, SNAPSHOT_MANIFEST_FILE)
+  )
+
+  if (!manifest.version || !Array.isArray(manifest.entries)) {
+    throw new Error(`Manifiesto de snapshot inválido en ${directory}`)
+  }
+
+  const documents = new Map<string, unknown>()
+  for (const entry of manifest.entries) {
+    documents.set(
+      entry.url,
+      await readJsonFile(join(directory, entry.file))
+    )
+  }
+
+  return { manifest, documents }
+}
+
+/**
+ * @function setActiveSnapshot
+ * @description Activa el modo snapshot: a partir de este momento todos los datos se sirven
+ * desde el snapshot, sin consultar los orígenes
+ * @param {Snapshot | null} snapshot - Snapshot a servir o null para volver a los orígenes
+ */
+export function setActiveSnapshot (snapshot: Snapshot | null): void {
+  activeSnapshot = snapshot
+  console.error(
+    snapshot
+      ? `Sirviendo datos desde el snapshot ${snapshot.manifest.version} (${snapshot.documents.size} documentos, creado el ${snapshot.manifest.createdAt})`
+      : 'Modo snapshot desactivado: se consultarán los orígenes'
+  )
+}
+
+/**
+ * @function getActiveSnapshot
+ * @description Obtiene el snapshot que se está sirviendo
+ * @returns {Snapshot | null} Snapshot activo o null si se consultan los orígenes
+ */
+export function getActiveSnapshot (): Snapshot | null {
+  return activeSnapshot
+}
+
+/**
+ * @function getSnapshotVersion
+ * @description Obtiene la versión del snapshot activo, para indicarla en las respuestas
+ * @returns {string | undefined} Versión del snapshot o undefined si no hay snapshot activo
+ */
+export function getSnapshotVersion (): string | undefined {
+  return activeSnapshot?.manifest.version
+}
+
+/**
+ * @function getSnapshotDocument
+ * @description Obtiene un documento del snapshot activo
+ * @param {Snapshot} snapshot - Snapshot activo
+ * @param {string} url - URL de origen del documento
+ * @returns {T} Documento
+ * @throws {UpstreamError} Con estado 404 si el documento no está en el snapshot
+ */
+export function getSnapshotDocument<T> (snapshot: Snapshot, url: string): T {
+  if (!snapshot.documents.has(url)) {
+    throw new UpstreamError(
+      `No hay datos de ${url} en el snapshot ${snapshot.manifest.version}`,
+      url,
+      404
+    )
+  }
+
+  return snapshot.documents.get(url) as T
+}
+
+/**
+ * @description Lee y analiza un archivo JSON
+ */
+async function readJsonFile<T = unknown> (filePath: string): Promise<T> {
+  const content = await readFile(filePath, 'utf8')
+
+  try {
+    return JSON.parse(content) as T
+  } catch (error) {
+    throw new Error(
+      `JSON inválido en ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+  }
+}
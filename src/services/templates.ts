@@ -0,0 +1,363 @@
+import type {
+  Template,
+  TemplateMetadata,
+  TemplatesRepository
+} from '../types/repository'
+import type { AddressIssue } from '../types/address'
+import { getSources } from '../config/sources'
+import { normalizeAddresses } from '../utils/address'
+import { UpstreamError } from './upstream'
+import { getCachedJson } from './cache'
+
+/**
+ * @description Resultado de consultar los metadatos de una plantilla: sin metadatos si falló, con
+ * el error, o indicando si se obtuvieron del endpoint de respaldo
+ */
+type FetchedTemplateMetadata = Omit<TemplateMetadata, 'metadata'> & {
+  metadata: Record<string, any> | null
+  usedFallback?: boolean
+  error?: { code: number; message: string }
+}
+
+/**
+ * @description Filtra plantillas según categoría, protocolo y texto de búsqueda
+ * @param {TemplatesRepository[]} repositories - Repositorios de plantillas disponibles
+ * @param {string} [category] - Identificador de categoría a filtrar
+ * @param {string} [protocol] - Protocolo a filtrar (coincidencia parcial)
+ * @param {string} [query] - Texto a buscar en el nombre o identificador de la plantilla
+ * @returns {Array<{template: Template, baseUrl: string, categoryId: string}>} Plantillas coincidentes
+ */
+export function filterTemplates (
+  repositories: TemplatesRepository[],
+  category?: string,
+  protocol?: string,
+  query?: string
+): Array<{ template: Template; baseUrl: string; categoryId: string }> {
+  console.error(
+    `Buscando plantillas con: categoria=${
+      category || 'cualquiera'
+    }, protocolo=${protocol || 'cualquiera'}, query=${query || 'ninguna'}`
+  )
+
+  const lowerCaseCategory = category?.toLowerCase()
+  const lowerCaseProtocol = protocol?.toLowerCase()
+  const lowerCaseQuery = query?.toLowerCase()
+
+  const results: Array<{
+    template: Template
+    baseUrl: string
+    categoryId: string
+  }> = []
+
+  for (const repo of repositories) {
+    console.error(`Explorando repositorio con baseUrl: ${repo.baseUrl}`)
+
+    for (const cat of repo.categories) {
+      // Saltar categorías que no coinciden con el filtro
+      if (lowerCaseCategory && cat.id.toLowerCase() !== lowerCaseCategory) {
+        continue
+      }
+
+      console.error(
+        `Explorando categoría: ${cat.id} con ${cat.templates.length} plantillas`
+      )
+
+      for (const template of cat.templates) {
+        // Saltar protocolos que no coinciden con el filtro
+        if (
+          lowerCaseProtocol &&
+          !template.protocol.toLowerCase().includes(lowerCaseProtocol)
+        ) {
+          continue
+        }
+
+        // Saltar plantillas que no coinciden con la búsqueda de texto
+        if (
+          lowerCaseQuery &&
+          !template.name.toLowerCase().includes(lowerCaseQuery) &&
+          !template.id.toLowerCase().includes(lowerCaseQuery)
+        ) {
+          continue
+        }
+
+        console.error(
+          `Plantilla encontrada: ${template.id} (${template.name}) del protocolo ${template.protocol} - endpoint: ${template.endpoint}`
+        )
+
+        results.push({
+          template,
+          baseUrl: repo.baseUrl,
+          categoryId: cat.id
+        })
+      }
+    }
+  }
+
+  console.error(`Total de plantillas encontradas: ${results.length}`)
+  return results
+}
+
+/**
+ * @description Obtiene metadatos para un conjunto de plantillas. Si el endpoint de una
+ * plantilla devuelve 404 se utiliza el endpoint de respaldo. Las direcciones de los metadatos
+ * se devuelven con checksum EIP-55 y las que tienen un checksum incorrecto o un formato inválido
+ * se informan en addressIssues.
+ * @param {Array<{template: Template, baseUrl: string, categoryId: string}>} templates - Plantillas a consultar
+ * @param {string} [format='full'] - Formato de los metadatos ('full' o 'summary')
+ * @returns {Promise<TemplateMetadata[]>} Metadatos de las plantillas obtenidas correctamente
+ */
+export async function fetchTemplatesMetadata (
+  templates: Array<{ template: Template; baseUrl: string; categoryId: string }>,
+  format: string = 'full'
+): Promise<TemplateMetadata[]> {
+  // Log cuántas plantillas se encontraron
+  console.error(
+    `Encontradas ${templates.length} plantillas que coinciden con los criterios`
+  )
+
+  const fetchPromises = templates.map(
+    async ({
+      template,
+      baseUrl,
+      categoryId
+    }): Promise<FetchedTemplateMetadata> => {
+      const metadataUrl = `${baseUrl}${template.endpoint}`
+      console.error(`Intentando obtener datos de: ${metadataUrl}`)
+
+      try {
+        const metadata = await getCachedJson<Record<string, any>>(
+          'metadata',
+          metadataUrl
+        )
+        console.error(`Datos obtenidos correctamente de ${metadataUrl}`)
+        const { document, addressIssues } = checkTemplateAddresses(
+          template.id,
+          metadata
+        )
+
+        return {
+          templateId: template.id,
+          templateName: template.name,
+          category: categoryId,
+          protocol: template.protocol,
+          metadata:
+            format === 'summary' && document
+              ? simplifyMetadata(document)
+              : document,
+          addressIssues
+        }
+      } catch (error) {
+        // No interrumpir otras solicitudes si una falla
+        console.error(
+          `Error obteniendo datos de ${metadataUrl}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+
+        // Si es un error 404, usar el endpoint de respaldo (si no está desactivado)
+        const fallbackEndpointUrl = getSources().fallbackEndpointUrl
+        if (
+          fallbackEndpointUrl &&
+          error instanceof UpstreamError &&
+          error.status === 404
+        ) {
+          console.error(`Usando URL de respaldo: ${fallbackEndpointUrl}`)
+
+          try {
+            const fallbackData = await getCachedJson<Record<string, any>>(
+              'metadata',
+              fallbackEndpointUrl
+            )
+            console.error(
+              `Datos obtenidos correctamente del endpoint de respaldo`
+            )
+            const { document, addressIssues } = checkTemplateAddresses(
+              template.id,
+              fallbackData
+            )
+
+            return {
+              templateId: template.id,
+              templateName: template.name,
+              category: categoryId,
+              protocol: template.protocol,
+              metadata:
+                format === 'summary' && document
+                  ? simplifyMetadata(document)
+                  : document,
+              addressIssues,
+              usedFallback: true
+            }
+          } catch (fallbackError) {
+            console.error(
+              `Error al obtener datos del endpoint de respaldo: ${
+                fallbackError instanceof Error
+                  ? fallbackError.message
+                  : String(fallbackError)
+              }`
+            )
+          }
+        }
+
+        // Guardar el código de error para manejarlo específicamente
+        return {
+          templateId: template.id,
+          templateName: template.name,
+          category: categoryId,
+          protocol: template.protocol,
+          metadata: null,
+          error: {
+            code:
+              error instanceof UpstreamError
+                ? error.status ?? (error.timedOut ? 408 : 503)
+                : 500,
+            message: error instanceof Error ? error.message : String(error)
+          }
+        }
+      }
+    }
+  )
+
+  const results = await Promise.allSettled(fetchPromises)
+
+  // Modificamos para contar cuántos errores 404 hay
+  const successful = results.filter(
+    r =>
+      r.status === 'fulfilled' && r.value !== null && r.value.metadata !== null
+  ).length
+
+  const notFoundCount = results.filter(
+    r =>
+      r.status === 'fulfilled' &&
+      r.value !== null &&
+      r.value.error?.code === 404
+  ).length
+
+  const usedFallbackCount = results.filter(
+    r =>
+      r.status === 'fulfilled' &&
+      r.value !== null &&
+      r.value.usedFallback === true
+  ).length
+
+  console.error(
+    `De ${templates.length} plantillas encontradas, se obtuvieron datos para ${successful}, con ${notFoundCount} errores 404 y ${usedFallbackCount} usando URL de respaldo`
+  )
+
+  // Si todos son errores 404 y ninguno usó fallback exitosamente, mostrar mensaje de error
+  if (notFoundCount === templates.length && usedFallbackCount === 0) {
+    return [
+      {
+        templateId: 'error',
+        templateName: 'Error 404',
+        category: 'error',
+        protocol: 'error',
+        metadata: {
+          error:
+            'Todos los recursos solicitados devolvieron 404 Not Found. Es posible que la API haya cambiado o que las plantillas no estén disponibles temporalmente.'
+        }
+      }
+    ]
+  }
+
+  return results
+    .filter(
+      (result): result is PromiseFulfilledResult<TemplateMetadata> =>
+        result.status === 'fulfilled' &&
+        result.value !== null &&
+        result.value.metadata !== null
+    )
+    .map(result => result.value as TemplateMetadata)
+}
+
+/**
+ * @description Convierte las direcciones de los metadatos de una plantilla a su forma con
+ * checksum EIP-55 y registra las que tienen problemas
+ */
+function checkTemplateAddresses (
+  templateId: string,
+  metadata: Record<string, any>
+): { document: Record<string, any>; addressIssues?: AddressIssue[] } {
+  const { document, issues } = normalizeAddresses(metadata)
+
+  if (issues.length > 0) {
+    console.error(
+      `Direcciones con problemas en la plantilla ${templateId}: ${issues
+        .map(issue => `${issue.path} (${issue.address}): ${issue.message}`)
+        .join('; ')}`
+    )
+  }
+
+  return {
+    document,
+    addressIssues: issues.length > 0 ? issues : undefined
+  }
+}
+
+/**
+ * @description Simplifica el metadata para el formato resumido
+ * @param {Record<string, any>} metadata - Metadatos completos
+ * @returns {Record<string, any>} Metadatos con información básica y conteos
+ */
+export function simplifyMetadata (metadata: Record<string, any>): Record<string, any> {
+  // Extraer solo información básica para resumir
+  const simplifiedMetadata: Record<string, any> = {}
+
+  // Incluir solo propiedades de nivel superior para resumir
+  const keysToInclude = [
+    'name',
+    'description',
+    'version',
+    'author',
+    'type',
+    'category'
+  ]
+
+  for (const key of keysToInclude) {
+    if (metadata[key] !== undefined) {
+      simplifiedMetadata[key] = metadata[key]
+    }
+  }
+
+  // Incluir conteo de elementos si hay arrays
+  for (const [key, value] of Object.entries(metadata)) {
+    if (Array.isArray(value)) {
+      simplifiedMetadata[`${key}Count`] = value.length
+    }
+  }
+
+  return simplifiedMetadata
+}
+
+/**
+ * @description Obtiene los metadatos publicados por un endpoint de mini aplicación
+ * @param {string} metadataUrl - URL completa del endpoint de la mini aplicación
+ * @returns {Promise<Record<string, any>>} Metadatos de la mini aplicación
+ * @throws {Error} Si la solicitud falla, excede el tiempo de espera o la respuesta no es un objeto JSON
+ */
+export async function fetchMiniAppMetadata (
+  metadataUrl: string
+): Promise<Record<string, any>> {
+  console.error(`Intentando obtener datos de: ${metadataUrl}`)
+
+  try {
+    const metadata = await getCachedJson('metadata', metadataUrl)
+
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      throw new Error('La respuesta no contiene un documento de metadatos')
+    }
+
+    console.error(`Datos obtenidos correctamente de ${metadataUrl}`)
+    return metadata as Record<string, any>
+  } catch (error) {
+    if (error instanceof UpstreamError && error.timedOut) {
+      throw new Error(`Timeout al obtener metadatos de ${metadataUrl}`)
+    }
+
+    throw new Error(
+      `Error al obtener metadatos de ${metadataUrl}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+  }
+}
@@ -0,0 +1,316 @@
+import type {
+  AssetMappingConfidence,
+  AssetMember,
+  CanonicalAsset,
+  IndexedToken
+} from '../types/tokens'
+import type { TokenIndex } from './tokens.search'
+import { CURATED_ASSETS } from '../constants/assets'
+import { resolveChain } from './chains'
+import { loadTokenIndex } from './tokens.search'
+
+/**
+ * @description Orden de los niveles de confianza, de menor a mayor
+ */
+export const CONFIDENCE_LEVELS: AssetMappingConfidence[] = [
+  'low',
+  'medium',
+  'high'
+]
+
+/**
+ * @description Orden de los tipos de despliegue en los resultados
+ */
+const KIND_ORDER: AssetMember['kind'][] = [
+  'canonical',
+  'bridged',
+  'unknown',
+  'testnet'
+]
+
+/**
+ * @description Sufijos con los que los puentes marcan sus variantes (ej: USDC.e, BTC.b)
+ */
+const BRIDGED_SUFFIX = /\.(e|b)$/i
+
+/**
+ * @description Grupo en construcción, con sus miembros por clave "<chainId>:<dirección>"
+ */
+interface AssetGroup {
+  id: string
+  symbol: string
+  name: string
+  members: Map<string, AssetMember>
+}
+
+/**
+ * @description Últimos activos construidos, junto con los tokens del índice del que se obtuvieron.
+ * Se reutilizan mientras el índice no cambie.
+ */
+let lastAssets: { tokens: IndexedToken[]; assets: CanonicalAsset[] } | null =
+  null
+
+/**
+ * @function loadCanonicalAssets
+ * @description Carga el índice de tokens y agrupa sus tokens en activos canónicos
+ * @returns {Promise<{assets: CanonicalAsset[], index: TokenIndex}>} Activos e índice de tokens
+ */
+export async function loadCanonicalAssets (): Promise<{
+  assets: CanonicalAsset[]
+  index: TokenIndex
+}> {
+  const index = await loadTokenIndex()
+
+  if (lastAssets?.tokens !== index.tokens) {
+    lastAssets = {
+      tokens: index.tokens,
+      assets: buildCanonicalAssets(index.tokens)
+    }
+  }
+
+  return { assets: lastAssets.assets, index }
+}
+
+/**
+ * @function buildCanonicalAssets
+ * @description Agrupa los tokens que representan el mismo activo en distintas cadenas y listas.
+ * Las relaciones se toman, por orden de confianza, del registro curado (despliegues canónicos,
+ * variantes puenteadas y redes de pruebas), del bridgeInfo de las listas y de la coincidencia
+ * del símbolo base (sin sufijos de puente como ".e") y del nombre. Solo se devuelven los grupos
+ * con al menos dos tokens.
+ * @param {IndexedToken[]} tokens - Tokens del índice
+ * @returns {CanonicalAsset[]} Activos canónicos con sus despliegues y variantes
+ */
+export function buildCanonicalAssets (
+  tokens: IndexedToken[]
+): CanonicalAsset[] {
+  const groups = new Map<string, AssetGroup>()
+  const groupByMember = new Map<string, AssetGroup>()
+  const groupBySymbol = new Map<string, AssetGroup>()
+  const tokensByKey = new Map(
+    tokens.map(token => [getMemberKey(token.chainId, token.address), token])
+  )
+
+  const createGroup = (id: string, symbol: string, name: string) => {
+    let uniqueId = id
+    for (let suffix = 2; groups.has(uniqueId); suffix++) {
+      uniqueId = `${id}-${suffix}`
+    }
+
+    const group: AssetGroup = {
+      id: uniqueId,
+      symbol,
+      name,
+      members: new Map()
+    }
+    groups.set(uniqueId, group)
+    if (!groupBySymbol.has(symbol)) groupBySymbol.set(symbol, group)
+    return group
+  }
+
+  const addMember = (group: AssetGroup, member: AssetMember) => {
+    const key = getMemberKey(member.chainId, member.address)
+    group.members.set(key, member)
+    groupByMember.set(key, group)
+  }
+
+  // Registro curado
+  for (const asset of CURATED_ASSETS) {
+    const group = createGroup(asset.id, asset.symbol, asset.name)
+
+    for (const deployment of asset.deployments) {
+      const token = tokensByKey.get(
+        getMemberKey(deployment.chainId, deployment.address)
+      )
+
+      addMember(group, {
+        ...deployment,
+        name: token?.name ?? asset.name,
+        confidence: 'high',
+        source: 'curated',
+        protocols: token ? [...token.protocols] : []
+      })
+    }
+  }
+
+  // bridgeInfo de las listas: enlaza el token con sus despliegues en otras cadenas
+  for (const token of tokens) {
+    if (!token.bridgeInfo) continue
+
+    const keys = [
+      getMemberKey(token.chainId, token.address),
+      ...Object.entries(token.bridgeInfo).map(([chainId, address]) =>
+        getMemberKey(chainId, address)
+      )
+    ].filter(key => tokensByKey.has(key) || groupByMember.has(key))
+    if (keys.length < 2) continue
+
+    const existingGroups = Array.from(
+      new Set(keys.flatMap(key => groupByMember.get(key) ?? []))
+    )
+    const baseSymbol = getBaseSymbol(token.symbol)
+    const group =
+      existingGroups[0] ??
+      createGroup(baseSymbol.toLowerCase(), baseSymbol, token.name)
+
+    // Los grupos que enlaza el bridgeInfo pasan a ser uno solo
+    for (const other of existingGroups.slice(1)) {
+      other.members.forEach(member => addMember(group, member))
+      groups.delete(other.id)
+      groupBySymbol.forEach((value, symbol) => {
+        if (value === other) groupBySymbol.set(symbol, group)
+      })
+    }
+
+    for (const key of keys) {
+      const listedToken = tokensByKey.get(key)
+      if (!listedToken || group.members.has(key)) continue
+
+      addMember(group, toMember(listedToken, 'high', 'tokenList'))
+    }
+  }
+
+  // Coincidencia de símbolo base: la confianza se decide con el grupo completo
+  const heuristicMembers: Array<{ group: AssetGroup; key: string }> = []
+
+  for (const token of tokens) {
+    const key = getMemberKey(token.chainId, token.address)
+    if (groupByMember.has(key) || token.isNative) continue
+
+    const baseSymbol = getBaseSymbol(token.symbol)
+    const group =
+      groupBySymbol.get(baseSymbol) ??
+      createGroup(baseSymbol.toLowerCase(), baseSymbol, token.name)
+
+    addMember(group, toMember(token, 'low', 'heuristic'))
+    heuristicMembers.push({ group, key })
+  }
+
+  for (const { group, key } of heuristicMembers) {
+    const member = group.members.get(key)
+    if (!member) continue
+
+    const name = normalizeName(member.name)
+    const others = Array.from(group.members.entries())
+      .filter(([otherKey]) => otherKey !== key)
+      .map(([, other]) => other)
+    const sameName =
+      normalizeName(group.name) === name ||
+      others.some(other => normalizeName(other.name) === name)
+    // Otra dirección con el mismo símbolo donde ya hay un despliegue verificado es sospechosa
+    const conflictsWithVerified = others.some(
+      other =>
+        other.source !== 'heuristic' &&
+        other.chainId === member.chainId &&
+        other.symbol.toLowerCase() === member.symbol.toLowerCase()
+    )
+    member.confidence = sameName && !conflictsWithVerified ? 'medium' : 'low'
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.members.size > 1)
+    .map(group => ({
+      id: group.id,
+      symbol: group.symbol,
+      name: group.name,
+      members: Array.from(group.members.values()).sort(compareMembers)
+    }))
+}
+
+/**
+ * @function findAssetMembers
+ * @description Busca los miembros de los activos que corresponden a una dirección o a un símbolo
+ * (sin distinguir mayúsculas) en una cadena
+ * @param {CanonicalAsset[]} assets - Activos canónicos
+ * @param {string} chainId - ID de la cadena
+ * @param {string} symbolOrAddress - Dirección completa o símbolo del token
+ * @returns {Array<{asset: CanonicalAsset, member: AssetMember}>} Miembros encontrados
+ */
+export function findAssetMembers (
+  assets: CanonicalAsset[],
+  chainId: string,
+  symbolOrAddress: string
+): Array<{ asset: CanonicalAsset; member: AssetMember }> {
+  const query = symbolOrAddress.trim().toLowerCase()
+  const isAddress = /^0x[0-9a-f]{40}$/.test(query)
+
+  return assets.flatMap(asset =>
+    asset.members
+      .filter(
+        member =>
+          member.chainId === chainId &&
+          (isAddress
+            ? member.address.toLowerCase() === query
+            : member.symbol.toLowerCase() === query)
+      )
+      .map(member => ({ asset, member }))
+  )
+}
+
+/**
+ * @function getMemberKey
+ * @description Obtiene la clave "<chainId>:<dirección>" de un token
+ * @param {string} chainId - ID de la cadena
+ * @param {string} address - Dirección del token
+ * @returns {string} Clave del token
+ */
+export function getMemberKey (chainId: string, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
+
+/**
+ * @description Convierte un token del índice en miembro de un activo
+ */
+function toMember (
+  token: IndexedToken,
+  confidence: AssetMappingConfidence,
+  source: AssetMember['source']
+): AssetMember {
+  return {
+    chainId: token.chainId,
+    address: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    kind: resolveChain(token.chainId)?.testnet
+      ? 'testnet'
+      : BRIDGED_SUFFIX.test(token.symbol)
+      ? 'bridged'
+      : 'unknown',
+    confidence,
+    source,
+    protocols: [...token.protocols]
+  }
+}
+
+/**
+ * @description Obtiene el símbolo base de un token, sin el sufijo de puente (ej: "USDC.e" → "USDC")
+ */
+function getBaseSymbol (symbol: string): string {
+  return symbol.trim().replace(BRIDGED_SUFFIX, '').toUpperCase()
+}
+
+/**
+ * @description Normaliza un nombre para compararlo, sin aclaraciones entre paréntesis, la palabra
+ * "bridged" ni signos de puntuación (ej: "USD Coin (PoS)" → "usdcoin")
+ */
+function normalizeName (name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/\bbridged\b/g, '')
+    .replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * @description Ordena los miembros por confianza, tipo de despliegue y cadena
+ */
+function compareMembers (a: AssetMember, b: AssetMember): number {
+  return (
+    CONFIDENCE_LEVELS.indexOf(b.confidence) -
+      CONFIDENCE_LEVELS.indexOf(a.confidence) ||
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+    Number(a.chainId) - Number(b.chainId) ||
+    a.symbol.localeCompare(b.symbol)
+  )
+}
@@ -0,0 +1,364 @@
+import type {
+  TokenInfo,
+  TokenListChange,
+  TokenListDiffEntry,
+  TokenListHistory,
+  TokenListReport,
+  TokenListVersion,
+  TokenSnapshot
+} from '../types/tokens'
+import { hashString } from '../utils/hash'
+import { readStoredData, storeData } from './cache'
+
+/**
+ * @description Número máximo de versiones que se conservan por protocolo
+ */
+const MAX_HISTORY_VERSIONS = 50
+
+/**
+ * @description Tiempo durante el que se conserva el historial en el almacenamiento persistente
+ * desde su última actualización (1 año)
+ */
+const HISTORY_RETENTION_MS = 365 * 24 * 60 * 60 * 1000
+
+/**
+ * @description Historial de cada protocolo ya cargado en memoria
+ */
+const histories = new Map<string, TokenListHistory>()
+
+/**
+ * @description Última operación sobre el historial de cada protocolo. Las operaciones de un
+ * mismo protocolo se encadenan para que las escrituras no se pisen.
+ */
+const pendingOperations = new Map<string, Promise<unknown>>()
+
+/**
+ * @function recordTokenListVersion
+ * @description Registra una versión de la lista de tokens de un protocolo si su contenido difiere
+ * del de la última versión registrada, guardando los cambios respecto a ella. El historial se
+ * conserva en el almacenamiento persistente del caché, si está configurado.
+ * @param {TokenListReport} report - Informe de validación de la lista
+ * @param {TokenInfo[]} tokens - Tokens válidos de la lista
+ * @returns {Promise<TokenListVersion | null>} Versión registrada o null si no hubo cambios
+ */
+export function recordTokenListVersion (
+  report: TokenListReport,
+  tokens: TokenInfo[]
+): Promise<TokenListVersion | null> {
+  return enqueue(report.protocol, async () => {
+    const history = await loadHistory(report.protocol)
+    const snapshots = toSnapshots(tokens)
+    const id = hashString(JSON.stringify(snapshots))
+
+    if (history.versions.at(-1)?.id === id) {
+      return null
+    }
+
+    const version: TokenListVersion = {
+      id,
+      version: report.list.version,
+      listTimestamp: isValidDate(report.list.timestamp)
+        ? report.list.timestamp
+        : undefined,
+      recordedAt: new Date().toISOString(),
+      tokenCount: Object.keys(snapshots).length,
+      changes:
+        history.versions.length > 0
+          ? compareSnapshots(history.tokens, snapshots)
+          : []
+    }
+
+    history.versions.push(version)
+    history.tokens = snapshots
+
+    // Al descartar la versión más antigua, la siguiente pasa a ser la base del historial
+    while (history.versions.length > MAX_HISTORY_VERSIONS) {
+      history.versions.shift()
+      history.versions[0].changes = []
+    }
+
+    await storeData(
+      getHistoryKey(report.protocol),
+      history,
+      HISTORY_RETENTION_MS
+    )
+    return version
+  })
+}
+
+/**
+ * @function getTokenListHistory
+ * @description Obtiene el historial de versiones de la lista de tokens de un protocolo, una vez
+ * registradas las versiones pendientes
+ * @param {string} protocol - Nombre canónico del protocolo
+ * @returns {Promise<TokenListHistory>} Historial (sin versiones si aún no se registró ninguna)
+ */
+export function getTokenListHistory (
+  protocol: string
+): Promise<TokenListHistory> {
+  return enqueue(protocol, () => loadHistory(protocol))
+}
+
+/**
+ * @function findBaselineVersion
+ * @description Busca en el historial la versión desde la que calcular los cambios: la última
+ * registrada con el número de versión o el id indicados, o la vigente en la fecha indicada
+ * (según la fecha declarada por la lista o, si no la tiene, la fecha en que se obtuvo).
+ * Sin referencia devuelve la versión anterior a la más reciente.
+ * @param {TokenListHistory} history - Historial de la lista
+ * @param {Object} since - Versión (ej: '1.2.0' o 'v1.2.0'), id o fecha (ISO 8601)
+ * @returns {TokenListVersion | undefined} Versión base o undefined si no hay ninguna
+ */
+export function findBaselineVersion (
+  history: TokenListHistory,
+  since: { version?: string; date?: string }
+): TokenListVersion | undefined {
+  const { versions } = history
+
+  if (since.version) {
+    const reference = since.version.trim().replace(/^v/i, '')
+    return versions.findLast(
+      version => version.version === reference || version.id === reference
+    )
+  }
+
+  if (since.date) {
+    const time = Date.parse(since.date)
+    return versions.findLast(version => getVersionTime(version) <= time)
+  }
+
+  return versions.at(-2)
+}
+
+/**
+ * @function diffTokenListVersions
+ * @description Calcula los cambios de los tokens entre una versión del historial y la más
+ * reciente: tokens incorporados, retirados y modificados (decimales, símbolo, nombre, logo y
+ * etiquetas), indicando en qué versión se produjo el último cambio de cada uno
+ * @param {TokenListHistory} history - Historial de la lista
+ * @param {TokenListVersion} baseline - Versión desde la que calcular los cambios
+ * @returns {TokenListDiffEntry[]} Cambios, ordenados por tipo, cadena y símbolo
+ */
+export function diffTokenListVersions (
+  history: TokenListHistory,
+  baseline: TokenListVersion
+): TokenListDiffEntry[] {
+  const baselineIndex = history.versions.indexOf(baseline)
+  const tokens: Record<string, TokenSnapshot> = { ...history.tokens }
+  const changedIn = new Map<string, TokenListVersion>()
+
+  // Reconstruir la versión base deshaciendo los cambios desde la más reciente
+  for (
+    let index = history.versions.length - 1;
+    index > baselineIndex;
+    index--
+  ) {
+    const version = history.versions[index]
+
+    for (const change of version.changes) {
+      const key = getTokenKey((change.current ?? change.previous)!)
+      if (!changedIn.has(key)) changedIn.set(key, version)
+
+      if (change.previous) {
+        tokens[key] = change.previous
+      } else {
+        delete tokens[key]
+      }
+    }
+  }
+
+  const entries: TokenListDiffEntry[] = []
+
+  for (const change of compareSnapshots(tokens, history.tokens)) {
+    const token = (change.current ?? change.previous)!
+    const version =
+      changedIn.get(getTokenKey(token)) ?? history.versions.at(-1)!
+
+    entries.push({
+      type: change.type,
+      chainId: token.chainId,
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      ...describeChange(change),
+      changedIn: {
+        id: version.id,
+        version: version.version,
+        recordedAt: version.recordedAt
+      }
+    })
+  }
+
+  return entries.sort(
+    (a, b) =>
+      CHANGE_ORDER[a.type] - CHANGE_ORDER[b.type] ||
+      Number(a.chainId) - Number(b.chainId) ||
+      a.symbol.localeCompare(b.symbol)
+  )
+}
+
+/**
+ * @description Orden de los tipos de cambio: primero los tokens retirados
+ */
+const CHANGE_ORDER: Record<TokenListChange['type'], number> = {
+  removed: 0,
+  changed: 1,
+  added: 2
+}
+
+/**
+ * @description Campos de un token cuyos cambios se comparan
+ */
+const COMPARED_FIELDS = ['decimals', 'symbol', 'name', 'logoURI'] as const
+
+/**
+ * @description Ejecuta una operación sobre el historial de un protocolo tras las pendientes
+ */
+function enqueue<T> (
+  protocol: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  const previous = pendingOperations.get(protocol) ?? Promise.resolve()
+  const promise = previous.catch(() => undefined).then(operation)
+
+  pendingOperations.set(protocol, promise)
+  promise
+    .catch(() => undefined)
+    .finally(() => {
+      if (pendingOperations.get(protocol) === promise) {
+        pendingOperations.delete(protocol)
+      }
+    })
+
+  return promise
+}
+
+/**
+ * @description Carga el historial de un protocolo de memoria o del almacenamiento persistente
+ */
+async function loadHistory (protocol: string): Promise<TokenListHistory> {
+  let history = histories.get(protocol)
+
+  if (!history) {
+    history = (await readStoredData<TokenListHistory>(
+      getHistoryKey(protocol)
+    )) ?? { protocol, versions: [], tokens: {} }
+    histories.set(protocol, history)
+  }
+
+  return history
+}
+
+/**
+ * @description Clave del historial de un protocolo en el caché
+ */
+function getHistoryKey (protocol: string): string {
+  return `history:tokenList:${protocol}`
+}
+
+/**
+ * @description Clave de un token en el historial: cadena y dirección en minúsculas
+ */
+function getTokenKey (token: { chainId: string; address: string }): string {
+  return `${token.chainId}:${token.address.toLowerCase()}`
+}
+
+/**
+ * @description Extrae de los tokens los campos que se conservan en el historial, por clave y
+ * en orden estable para que el hash del contenido no dependa del orden de la lista
+ */
+function toSnapshots (tokens: TokenInfo[]): Record<string, TokenSnapshot> {
+  const snapshots: Record<string, TokenSnapshot> = {}
+
+  for (const token of tokens) {
+    snapshots[getTokenKey(token)] = {
+      chainId: token.chainId,
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      logoURI: token.logoURI || undefined,
+      tags: (token.tags ?? [])
+        .filter((tag): tag is string => typeof tag === 'string')
+        .sort()
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(snapshots).sort(([a], [b]) => a.localeCompare(b))
+  )
+}
+
+/**
+ * @description Compara dos conjuntos de tokens y devuelve los incorporados, retirados y
+ * modificados
+ */
+function compareSnapshots (
+  previous: Record<string, TokenSnapshot>,
+  current: Record<string, TokenSnapshot>
+): TokenListChange[] {
+  const changes: TokenListChange[] = []
+
+  for (const [key, token] of Object.entries(previous)) {
+    const currentToken = current[key]
+
+    if (!currentToken) {
+      changes.push({ type: 'removed', previous: token })
+    } else if (!isSameToken(token, currentToken)) {
+      changes.push({ type: 'changed', previous: token, current: currentToken })
+    }
+  }
+
+  for (const [key, token] of Object.entries(current)) {
+    if (!previous[key]) {
+      changes.push({ type: 'added', current: token })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * @description Indica si dos versiones de un token tienen los mismos campos y etiquetas
+ */
+function isSameToken (a: TokenSnapshot, b: TokenSnapshot): boolean {
+  return (
+    COMPARED_FIELDS.every(field => a[field] === b[field]) &&
+    a.tags.join() === b.tags.join()
+  )
+}
+
+/**
+ * @description Describe los campos y etiquetas que cambiaron en un token modificado
+ */
+function describeChange (
+  change: TokenListChange
+): Pick<TokenListDiffEntry, 'fields' | 'tagsAdded' | 'tagsRemoved'> {
+  const { previous, current } = change
+  if (change.type !== 'changed' || !previous || !current) {
+    return { fields: [], tagsAdded: [], tagsRemoved: [] }
+  }
+
+  return {
+    fields: COMPARED_FIELDS.filter(
+      field => previous[field] !== current[field]
+    ).map(field => ({ field, from: previous[field], to: current[field] })),
+    tagsAdded: current.tags.filter(tag => !previous.tags.includes(tag)),
+    tagsRemoved: previous.tags.filter(tag => !current.tags.includes(tag))
+  }
+}
+
+/**
+ * @description Fecha de referencia de una versión: la declarada por la lista o, si no la tiene,
+ * la fecha en que se obtuvo
+ */
+function getVersionTime (version: TokenListVersion): number {
+  return Date.parse(version.listTimestamp ?? version.recordedAt)
+}
+
+/**
+ * @description Indica si un texto es una fecha válida
+ */
+function isValidDate (value: string | undefined): value is string {
+  return value !== undefined && !isNaN(Date.parse(value))
+}
@@ -0,0 +1,105 @@
+import type { NativeToken, WrapConversion } from '../types/tokens'
+import { getChains, resolveChain } from './chains'
+import {
+  NATIVE_SENTINEL_ADDRESSES,
+  ZERO_ADDRESS,
+  isNativeAddress
+} from '../utils/address'
+
+/**
+ * @function getNativeToken
+ * @description Obtiene la moneda nativa de una cadena, enlazada con su token envuelto
+ * @param {string | number} chain - ID numérico, nombre o alias de la cadena
+ * @returns {NativeToken | undefined} Moneda nativa o undefined si la cadena no está registrada
+ */
+export function getNativeToken (chain: string | number): NativeToken | undefined {
+  const chainInfo = resolveChain(chain)
+  if (!chainInfo) return undefined
+
+  const { wrapped, ...nativeCurrency } = chainInfo.nativeCurrency
+
+  return {
+    chainId: String(chainInfo.id),
+    chainName: chainInfo.name,
+    ...nativeCurrency,
+    address: ZERO_ADDRESS,
+    sentinelAddresses: [...NATIVE_SENTINEL_ADDRESSES],
+    wrapped: { ...wrapped }
+  }
+}
+
+/**
+ * @function getNativeTokens
+ * @description Obtiene la moneda nativa de todas las cadenas soportadas
+ * @param {boolean} [includeTestnets=true] - Indica si se incluyen las redes de pruebas
+ * @returns {NativeToken[]} Monedas nativas, una por cadena
+ */
+export function getNativeTokens (includeTestnets: boolean = true): NativeToken[] {
+  return getChains(includeTestnets)
+    .map(chain => getNativeToken(chain.id))
+    .filter((token): token is NativeToken => token !== undefined)
+}
+
+/**
+ * @function isWrappedNativeAddress
+ * @description Indica si una dirección es la del token envuelto de la moneda nativa de una cadena
+ * @param {string | number} chainId - ID de la cadena
+ * @param {string} address - Dirección del token
+ * @returns {boolean} true si es el token envuelto de la moneda nativa
+ */
+export function isWrappedNativeAddress (
+  chainId: string | number,
+  address: string
+): boolean {
+  const wrapped = resolveChain(chainId)?.nativeCurrency.wrapped
+  return wrapped?.address.toLowerCase() === address.trim().toLowerCase()
+}
+
+/**
+ * @function resolveWrapConversion
+ * @description Resuelve en qué se convierte un activo al envolverlo o desenvolverlo: la moneda
+ * nativa (por símbolo o dirección centinela) se envuelve en su token envuelto y el token envuelto
+ * (por símbolo o dirección) se desenvuelve en la moneda nativa
+ * @param {NativeToken} native - Moneda nativa de la cadena
+ * @param {string} token - Símbolo o dirección del activo
+ * @returns {WrapConversion | null} Conversión o null si el activo no es ninguno de los dos
+ */
+export function resolveWrapConversion (
+  native: NativeToken,
+  token: string
+): WrapConversion | null {
+  const query = token.trim().toLowerCase()
+  const nativeAsset = {
+    symbol: native.symbol,
+    address: native.address,
+    decimals: native.decimals
+  }
+  const wrappedAsset = {
+    symbol: native.wrapped.symbol,
+    address: native.wrapped.address,
+    decimals: native.wrapped.decimals
+  }
+
+  if (query === native.symbol.toLowerCase() || isNativeAddress(query)) {
+    return {
+      direction: 'wrap',
+      from: nativeAsset,
+      to: wrappedAsset,
+      contract: native.wrapped.address
+    }
+  }
+
+  if (
+    query === native.wrapped.symbol.toLowerCase() ||
+    query === native.wrapped.address.toLowerCase()
+  ) {
+    return {
+      direction: 'unwrap',
+      from: wrappedAsset,
+      to: nativeAsset,
+      contract: native.wrapped.address
+    }
+  }
+
+  return null
+}
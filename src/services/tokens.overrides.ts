@@ -0,0 +1,584 @@
+import type {
+  TokenInfo,
+  TokenOverride,
+  TokenOverrideFields,
+  TokenOverrideStatus
+} from '../types/tokens'
+import type { TokenListProvider } from '../types/providers'
+import { readFile, rename, stat, writeFile } from 'node:fs/promises'
+import { ENV } from '../config/environment'
+import { resolveProtocolName } from '../providers/registry'
+import { checkAddress, isNativeAddress } from '../utils/address'
+import { isWrappedNativeAddress } from './tokens.native'
+
+/**
+ * Clase de error para overrides de tokens inválidos
+ */
+export class TokenOverrideError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'TokenOverrideError'
+  }
+}
+
+/**
+ * @description Longitud máxima del motivo de un override
+ */
+const MAX_REASON_LENGTH = 500
+
+/**
+ * @description Campos que un override puede definir o corregir
+ */
+const OVERRIDE_FIELDS: Array<keyof TokenOverrideFields> = [
+  'name',
+  'symbol',
+  'decimals',
+  'logoURI',
+  'tags'
+]
+
+/**
+ * @description Esquemas admitidos en el logo de un override
+ */
+const LOGO_URI_PROTOCOLS = ['https:', 'http:', 'ipfs:']
+
+/**
+ * @description Registro vacío, compartido para conservar la misma referencia mientras no haya
+ * overrides
+ */
+const NO_OVERRIDES: TokenOverride[] = []
+
+/**
+ * @description Últimos overrides leídos, junto con la fecha de modificación del archivo del que
+ * se leyeron (null si no existe). Se vuelven a leer cuando el archivo cambia.
+ */
+let loadedOverrides: { overrides: TokenOverride[]; mtimeMs: number | null } | null =
+  null
+
+/**
+ * @description Escritura en curso del registro: las modificaciones se aplican de una en una
+ */
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+/**
+ * @function getTokenOverridesFile
+ * @description Obtiene la ruta del registro local de overrides
+ * @returns {string | undefined} Ruta del archivo o undefined si el registro no está configurado
+ */
+export function getTokenOverridesFile (): string | undefined {
+  return ENV.TOKEN_OVERRIDES_FILE
+}
+
+/**
+ * @function loadTokenOverrides
+ * @description Carga los overrides del registro local. El archivo se vuelve a leer solo cuando
+ * cambia su fecha de modificación, de modo que los mismos overrides conservan la misma
+ * referencia. Las entradas inválidas se descartan y, si el archivo no se puede leer o no es
+ * válido, se siguen usando los últimos overrides leídos.
+ * @returns {Promise<TokenOverride[]>} Overrides del registro (vacío si no está configurado)
+ */
+export async function loadTokenOverrides (): Promise<TokenOverride[]> {
+  const file = getTokenOverridesFile()
+  if (!file) return NO_OVERRIDES
+
+  let mtimeMs: number | null
+
+  try {
+    mtimeMs = (await stat(file)).mtimeMs
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(
+        `No se pudo consultar el registro de overrides ${file}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return loadedOverrides?.overrides ?? NO_OVERRIDES
+    }
+    mtimeMs = null
+  }
+
+  if (loadedOverrides && loadedOverrides.mtimeMs === mtimeMs) {
+    return loadedOverrides.overrides
+  }
+
+  if (mtimeMs === null) {
+    loadedOverrides = { overrides: NO_OVERRIDES, mtimeMs }
+    return NO_OVERRIDES
+  }
+
+  try {
+    const overrides = parseTokenOverrides(
+      JSON.parse(await readFile(file, 'utf8')),
+      file
+    )
+    loadedOverrides = { overrides, mtimeMs }
+    console.error(`Registro de overrides ${file}: ${overrides.length} overrides`)
+    return overrides
+  } catch (error) {
+    console.error(
+      `Registro de overrides ${file} inválido, se mantienen los overrides anteriores: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+    return loadedOverrides?.overrides ?? NO_OVERRIDES
+  }
+}
+
+/**
+ * @function saveTokenOverride
+ * @description Guarda un override en el registro local, reemplazando el existente para el mismo
+ * protocolo, cadena y dirección
+ * @param {TokenOverride} override - Override ya validado
+ * @returns {Promise<{overrides: TokenOverride[], previous?: TokenOverride}>} Registro resultante
+ * y override reemplazado, si lo había
+ * @throws {TokenOverrideError} Si el registro no está configurado
+ */
+export async function saveTokenOverride (
+  override: TokenOverride
+): Promise<{ overrides: TokenOverride[]; previous?: TokenOverride }> {
+  return updateTokenOverrides(current => {
+    const previous = current.find(item => isSameTarget(item, override))
+
+    return {
+      overrides: [
+        ...current.filter(item => !isSameTarget(item, override)),
+        override
+      ],
+      previous
+    }
+  })
+}
+
+/**
+ * @function deleteTokenOverride
+ * @description Elimina del registro local el override de un token
+ * @param {Pick<TokenOverride, 'protocol' | 'chainId' | 'address'>} target - Token del override
+ * @returns {Promise<{overrides: TokenOverride[], previous?: TokenOverride}>} Registro resultante
+ * y override eliminado, o undefined si no existía
+ * @throws {TokenOverrideError} Si el registro no está configurado
+ */
+export async function deleteTokenOverride (
+  target: Pick<TokenOverride, 'protocol' | 'chainId' | 'address'>
+): Promise<{ overrides: TokenOverride[]; previous?: TokenOverride }> {
+  return updateTokenOverrides(current => ({
+    overrides: current.filter(item => !isSameTarget(item, target)),
+    previous: current.find(item => isSameTarget(item, target))
+  }))
+}
+
+/**
+ * @function validateTokenOverride
+ * @description Valida un override y lo normaliza: nombre canónico del protocolo, ID de cadena
+ * numérico, dirección con checksum EIP-55 y campos del token recortados
+ * @param {unknown} value - Override a validar
+ * @returns {TokenOverride} Override normalizado
+ * @throws {TokenOverrideError} Si algún campo no es válido
+ */
+export function validateTokenOverride (value: unknown): TokenOverride {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TokenOverrideError('el override debe ser un objeto')
+  }
+
+  const raw = value as Record<string, any>
+
+  if (typeof raw.protocol !== 'string' || !raw.protocol.trim()) {
+    throw new TokenOverrideError('protocol es obligatorio')
+  }
+
+  const chainId = String(raw.chainId ?? '').trim()
+  if (!/^\d+$/.test(chainId) || Number(chainId) === 0) {
+    throw new TokenOverrideError(
+      `chainId debe ser un entero positivo y se recibió "${raw.chainId}"`
+    )
+  }
+
+  const check = checkAddress(
+    typeof raw.address === 'string' ? raw.address.trim() : raw.address
+  )
+  if (!check.address) {
+    throw new TokenOverrideError(
+      check.status === 'invalidChecksum'
+        ? `la dirección ${raw.address} tiene un checksum EIP-55 incorrecto: pudo haber sido alterada`
+        : `la dirección "${raw.address}" no es 0x seguido de 40 caracteres hexadecimales`
+    )
+  }
+
+  if (!['add', 'hide', 'patch'].includes(raw.action)) {
+    throw new TokenOverrideError(
+      `action debe ser "add", "hide" o "patch" y se recibió "${raw.action}"`
+    )
+  }
+
+  const token =
+    raw.action === 'hide' ? undefined : validateOverrideFields(raw.token)
+
+  if (
+    raw.action === 'add' &&
+    (token?.name === undefined ||
+      token.symbol === undefined ||
+      token.decimals === undefined)
+  ) {
+    throw new TokenOverrideError(
+      'un override "add" requiere name, symbol y decimals del token'
+    )
+  }
+
+  if (raw.action === 'patch' && Object.keys(token ?? {}).length === 0) {
+    throw new TokenOverrideError(
+      `un override "patch" requiere al menos un campo a corregir: ${OVERRIDE_FIELDS.join(
+        ', '
+      )}`
+    )
+  }
+
+  if (
+    raw.reason !== undefined &&
+    (typeof raw.reason !== 'string' || raw.reason.length > MAX_REASON_LENGTH)
+  ) {
+    throw new TokenOverrideError(
+      `reason debe ser un texto de hasta ${MAX_REASON_LENGTH} caracteres`
+    )
+  }
+
+  const updatedAt =
+    typeof raw.updatedAt === 'string' && !isNaN(Date.parse(raw.updatedAt))
+      ? new Date(raw.updatedAt).toISOString()
+      : new Date().toISOString()
+
+  return {
+    protocol: resolveProtocolName(raw.protocol),
+    chainId: String(Number(chainId)),
+    address: check.address,
+    action: raw.action,
+    ...(token ? { token } : {}),
+    ...(raw.reason?.trim() ? { reason: raw.reason.trim() } : {}),
+    updatedAt
+  }
+}
+
+/**
+ * @function applyTokenOverrides
+ * @description Combina los tokens de la lista de un protocolo con sus overrides: oculta los
+ * tokens con override "hide", corrige los campos de los que tienen "patch" y añade los de "add"
+ * que la lista no incluye (si la lista ya incluye el token, prevalece el de la lista). Los tokens
+ * añadidos en cadenas que el proveedor no declara se descartan. Cada token devuelto indica su
+ * procedencia en provenance.
+ * @param {TokenListProvider} provider - Proveedor de la lista
+ * @param {TokenInfo[]} tokens - Tokens validados de la lista
+ * @param {TokenOverride[]} overrides - Overrides del registro
+ * @returns {TokenInfo[]} Tokens combinados, con su procedencia
+ */
+export function applyTokenOverrides (
+  provider: TokenListProvider,
+  tokens: TokenInfo[],
+  overrides: TokenOverride[]
+): TokenInfo[] {
+  const overridesByKey = new Map(
+    overrides
+      .filter(override => override.protocol === provider.name)
+      .map(override => [getOverrideKey(override), override])
+  )
+  const listedKeys = new Set<string>()
+  const result: TokenInfo[] = []
+
+  for (const token of tokens) {
+    const key = getOverrideKey(token)
+    const override = overridesByKey.get(key)
+    listedKeys.add(key)
+
+    if (override?.action === 'hide') continue
+
+    if (override?.action === 'patch' && override.token) {
+      result.push({
+        ...token,
+        ...override.token,
+        provenance: {
+          source: 'override',
+          action: 'patch',
+          fields: Object.keys(override.token),
+          reason: override.reason,
+          updatedAt: override.updatedAt
+        }
+      })
+      continue
+    }
+
+    result.push({ ...token, provenance: { source: 'upstream' } })
+  }
+
+  for (const [key, override] of overridesByKey) {
+    if (
+      override.action !== 'add' ||
+      !override.token ||
+      listedKeys.has(key) ||
+      (provider.chainIds && !provider.chainIds.includes(override.chainId))
+    ) {
+      continue
+    }
+
+    const { name = '', symbol = '', decimals = 0, ...fields } = override.token
+
+    result.push({
+      name,
+      symbol,
+      decimals,
+      address: override.address,
+      chainId: override.chainId,
+      ...fields,
+      isNative: isNativeAddress(override.address),
+      isWrappedNative: isWrappedNativeAddress(
+        override.chainId,
+        override.address
+      ),
+      provenance: {
+        source: 'override',
+        action: 'add',
+        reason: override.reason,
+        updatedAt: override.updatedAt
+      }
+    })
+  }
+
+  return result
+}
+
+/**
+ * @function getTokenOverrideStatus
+ * @description Determina el efecto de un override sobre la lista vigente del protocolo
+ * @param {TokenOverride} override - Override
+ * @param {TokenInfo[] | null} upstreamTokens - Tokens de la lista sin overrides, o null si la
+ * lista no se pudo consultar
+ * @returns {TokenOverrideStatus} Efecto del override
+ */
+export function getTokenOverrideStatus (
+  override: TokenOverride,
+  upstreamTokens: TokenInfo[] | null
+): TokenOverrideStatus {
+  if (!upstreamTokens) return 'unknown'
+
+  const key = getOverrideKey(override)
+  const listed = upstreamTokens.some(token => getOverrideKey(token) === key)
+
+  if (override.action === 'add') return listed ? 'redundant' : 'applied'
+  return listed ? 'applied' : 'notFound'
+}
+
+/**
+ * @description Valida los campos de un override y devuelve los indicados, normalizados
+ */
+function validateOverrideFields (value: unknown): TokenOverrideFields {
+  if (value === undefined || value === null) return {}
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new TokenOverrideError(
+      `token debe ser un objeto con alguno de estos campos: ${OVERRIDE_FIELDS.join(
+        ', '
+      )}`
+    )
+  }
+
+  const raw = value as Record<string, any>
+  const fields: TokenOverrideFields = {}
+
+  const unknownFields = Object.keys(raw).filter(
+    field => !OVERRIDE_FIELDS.includes(field as keyof TokenOverrideFields)
+  )
+  if (unknownFields.length > 0) {
+    throw new TokenOverrideError(
+      `campos no admitidos en token: ${unknownFields.join(
+        ', '
+      )} (admitidos: ${OVERRIDE_FIELDS.join(', ')})`
+    )
+  }
+
+  for (const field of ['name', 'symbol'] as const) {
+    if (raw[field] === undefined) continue
+    if (typeof raw[field] !== 'string' || !raw[field].trim()) {
+      throw new TokenOverrideError(`token.${field} debe ser un texto no vacío`)
+    }
+    fields[field] = raw[field].trim()
+  }
+
+  if (raw.decimals !== undefined) {
+    if (
+      !Number.isInteger(raw.decimals) ||
+      raw.decimals < 0 ||
+      raw.decimals > 255
+    ) {
+      throw new TokenOverrideError(
+        'token.decimals debe ser un entero entre 0 y 255'
+      )
+    }
+    fields.decimals = raw.decimals
+  }
+
+  if (raw.logoURI !== undefined) {
+    if (typeof raw.logoURI !== 'string' || !isLogoUri(raw.logoURI.trim())) {
+      throw new TokenOverrideError(
+        `token.logoURI debe ser una URI https://, http:// o ipfs:// y se recibió "${raw.logoURI}"`
+      )
+    }
+    fields.logoURI = raw.logoURI.trim()
+  }
+
+  if (raw.tags !== undefined) {
+    if (
+      !Array.isArray(raw.tags) ||
+      raw.tags.some(
+        (tag: unknown) => typeof tag !== 'string' || !tag.trim()
+      )
+    ) {
+      throw new TokenOverrideError(
+        'token.tags debe ser una lista de etiquetas (textos no vacíos)'
+      )
+    }
+    fields.tags = Array.from(
+      new Set(raw.tags.map((tag: string) => tag.trim()))
+    ) as string[]
+  }
+
+  return fields
+}
+
+/**
+ * @description Valida el contenido del archivo del registro, descartando las entradas inválidas
+ * (o rechazando el archivo, en modo estricto) y las repetidas (prevalece la última)
+ */
+function parseTokenOverrides (
+  data: unknown,
+  file: string,
+  strict = false
+): TokenOverride[] {
+  const entries =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>).overrides
+      : undefined
+
+  if (!Array.isArray(entries)) {
+    throw new Error('se esperaba un objeto { "overrides": [...] }')
+  }
+
+  const overrides = new Map<string, TokenOverride>()
+
+  entries.forEach((entry, index) => {
+    try {
+      const override = validateTokenOverride(entry)
+      overrides.set(
+        `${override.protocol}:${getOverrideKey(override)}`,
+        override
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (strict) throw new Error(`override ${index}: ${message}`)
+      console.error(`Override ${index} de ${file} descartado: ${message}`)
+    }
+  })
+
+  return Array.from(overrides.values())
+}
+
+/**
+ * @description Lee el registro para modificarlo. A diferencia de loadTokenOverrides, no descarta
+ * entradas ni recurre a los últimos overrides leídos: escribir sobre ellos borraría las entradas
+ * editadas a mano que no se pudieron interpretar.
+ * @throws {Error} Si el archivo no se puede leer o tiene entradas inválidas
+ */
+async function readTokenOverridesForUpdate (
+  file: string
+): Promise<TokenOverride[]> {
+  let content: string
+
+  try {
+    content = await readFile(file, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  try {
+    return parseTokenOverrides(JSON.parse(content), file, true)
+  } catch (error) {
+    throw new Error(
+      `el registro ${file} no es válido y no se modifica para no perder sus entradas (${
+        error instanceof Error ? error.message : String(error)
+      }). Corrígelo antes de volver a intentarlo`
+    )
+  }
+}
+
+/**
+ * @description Aplica una modificación al registro y lo escribe en disco (en un archivo temporal
+ * que después se renombra, para no dejarlo a medio escribir). Las modificaciones se aplican de
+ * una en una para no perder ninguna.
+ */
+function updateTokenOverrides (
+  update: (current: TokenOverride[]) => {
+    overrides: TokenOverride[]
+    previous?: TokenOverride
+  }
+): Promise<{ overrides: TokenOverride[]; previous?: TokenOverride }> {
+  const run = pendingUpdate.then(async () => {
+    const file = getTokenOverridesFile()
+    if (!file) {
+      throw new TokenOverrideError(
+        'el registro de overrides no está configurado (TOKEN_OVERRIDES_FILE)'
+      )
+    }
+
+    const result = update(await readTokenOverridesForUpdate(file))
+    const overrides = [...result.overrides].sort(
+      (a, b) =>
+        a.protocol.localeCompare(b.protocol) ||
+        Number(a.chainId) - Number(b.chainId) ||
+        a.address.toLowerCase().localeCompare(b.address.toLowerCase())
+    )
+    const temporaryPath = `${file}.${process.pid}.tmp`
+
+    await writeFile(
+      temporaryPath,
+      `${JSON.stringify(
+        { updatedAt: new Date().toISOString(), overrides },
+        null,
+        2
+      )}\n`,
+      'utf8'
+    )
+    await rename(temporaryPath, file)
+
+    loadedOverrides = { overrides, mtimeMs: (await stat(file)).mtimeMs }
+    return { overrides, previous: result.previous }
+  })
+
+  pendingUpdate = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * @description Obtiene la clave "<chainId>:<dirección en minúsculas>" de un token u override
+ */
+function getOverrideKey (token: { chainId: string; address: string }): string {
+  return `${token.chainId}:${token.address.toLowerCase()}`
+}
+
+/**
+ * @description Indica si dos overrides se refieren al mismo protocolo, cadena y dirección
+ */
+function isSameTarget (
+  a: Pick<TokenOverride, 'protocol' | 'chainId' | 'address'>,
+  b: Pick<TokenOverride, 'protocol' | 'chainId' | 'address'>
+): boolean {
+  return a.protocol === b.protocol && getOverrideKey(a) === getOverrideKey(b)
+}
+
+/**
+ * @description Indica si un texto es una URI de logo que se puede servir a los clientes. Solo se
+ * admiten https, http e ipfs: otros esquemas (javascript:, data:, file:) no son imágenes remotas.
+ */
+function isLogoUri (value: string): boolean {
+  try {
+    return LOGO_URI_PROTOCOLS.includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
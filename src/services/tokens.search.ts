@@ -0,0 +1,376 @@
+import type {
+  IndexedToken,
+  TokenInfo,
+  TokenSearchParams,
+  TokenSearchResult
+} from '../types/tokens'
+import { getTokenListProtocols } from './providers'
+import { getTokensByProtocol } from './tokens'
+
+/**
+ * @interface TokenIndex
+ * @description Índice de todos los tokens de las listas cargadas
+ * @property {IndexedToken[]} tokens - Tokens únicos por cadena y dirección
+ * @property {string[]} protocols - Protocolos cuyas listas se han indexado
+ * @property {string[]} unavailableProtocols - Protocolos cuya lista no se pudo obtener
+ */
+export interface TokenIndex {
+  tokens: IndexedToken[]
+  protocols: string[]
+  unavailableProtocols: string[]
+}
+
+/**
+ * @description Relevancia de cada tipo de coincidencia, por campo
+ */
+const MATCH_RELEVANCE = {
+  addressExact: 1,
+  symbolExact: 0.95,
+  symbolNormalized: 0.9,
+  nameExact: 0.85,
+  addressPrefix: 0.8,
+  symbolPrefix: 0.75,
+  addressSubstring: 0.6,
+  namePrefix: 0.6,
+  symbolSubstring: 0.5,
+  nameSubstring: 0.4
+} as const
+
+/**
+ * @description Longitud mínima de una dirección parcial sin prefijo 0x para buscarla
+ */
+const MIN_PARTIAL_ADDRESS_LENGTH = 4
+
+/**
+ * @description Último índice construido, junto con las listas de las que se obtuvo. Se reutiliza
+ * mientras las listas no cambien, de modo que conserva la misma referencia.
+ */
+let lastIndex: { lists: TokenInfo[][]; index: TokenIndex } | null = null
+
+/**
+ * @function loadTokenIndex
+ * @description Carga las listas de tokens de todos los protocolos configurados y las combina en
+ * un índice con un token por cadena y dirección, indicando qué protocolos lo incluyen y si su
+ * símbolo es ambiguo (otras direcciones de la misma cadena con el mismo símbolo). Las listas
+ * que no se pueden obtener se omiten y se indican en unavailableProtocols.
+ * @returns {Promise<TokenIndex>} Índice de tokens
+ */
+export async function loadTokenIndex (): Promise<TokenIndex> {
+  const protocols = getTokenListProtocols()
+  const results = await Promise.allSettled(
+    protocols.map(protocol => getTokensByProtocol(protocol))
+  )
+
+  const lists: TokenInfo[][] = []
+  const loadedProtocols: string[] = []
+  const unavailableProtocols: string[] = []
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      lists.push(result.value)
+      loadedProtocols.push(protocols[index])
+    } else {
+      unavailableProtocols.push(protocols[index])
+      console.error(
+        `Lista de tokens de ${protocols[index]} no disponible para la búsqueda: ${
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason)
+        }`
+      )
+    }
+  })
+
+  if (
+    lastIndex &&
+    lastIndex.lists.length === lists.length &&
+    lastIndex.lists.every((list, index) => list === lists[index]) &&
+    lastIndex.index.protocols.join() === loadedProtocols.join()
+  ) {
+    return lastIndex.index
+  }
+
+  const index: TokenIndex = {
+    tokens: buildIndexedTokens(lists, loadedProtocols),
+    protocols: loadedProtocols,
+    unavailableProtocols
+  }
+  lastIndex = { lists, index }
+
+  return index
+}
+
+/**
+ * @function searchTokens
+ * @description Busca tokens por símbolo, nombre o dirección (completa o parcial) y los filtra por
+ * cadena, protocolo y etiqueta. Sin texto de búsqueda devuelve todos los tokens que cumplen los
+ * filtros. Los resultados se ordenan por relevancia.
+ * @param {IndexedToken[]} tokens - Tokens del índice
+ * @param {TokenSearchParams} params - Búsqueda y filtros
+ * @returns {TokenSearchResult[]} Resultados ordenados por relevancia
+ */
+export function searchTokens (
+  tokens: IndexedToken[],
+  params: TokenSearchParams
+): TokenSearchResult[] {
+  // Se admiten direcciones abreviadas tal como suelen copiarse (ej: "0xb97e…")
+  const query =
+    params.query
+      ?.trim()
+      .replace(/(…|\.\.\.)$/, '')
+      .toLowerCase() ?? ''
+  const results: TokenSearchResult[] = []
+
+  for (const token of tokens) {
+    if (!matchesFilters(token, params)) continue
+
+    if (!query) {
+      results.push({
+        token,
+        relevance: 1,
+        matchReason: describeFilters(params)
+      })
+      continue
+    }
+
+    const match = matchToken(token, query)
+    if (match) {
+      results.push({ token, ...match })
+    }
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.relevance - a.relevance ||
+      a.token.symbol.localeCompare(b.token.symbol) ||
+      Number(a.token.chainId) - Number(b.token.chainId)
+  )
+}
+
+/**
+ * @function findTokensOnChain
+ * @description Busca los tokens de una cadena que corresponden exactamente a una dirección o a un
+ * símbolo (sin distinguir mayúsculas), opcionalmente solo en la lista de un protocolo. Un
+ * símbolo puede corresponder a varios tokens.
+ * @param {IndexedToken[]} tokens - Tokens del índice
+ * @param {string} chainId - ID de la cadena
+ * @param {string} symbolOrAddress - Dirección completa o símbolo del token
+ * @param {string} [protocol] - Nombre canónico del protocolo cuya lista debe incluir el token
+ * @returns {IndexedToken[]} Tokens encontrados
+ */
+export function findTokensOnChain (
+  tokens: IndexedToken[],
+  chainId: string,
+  symbolOrAddress: string,
+  protocol?: string
+): IndexedToken[] {
+  const query = symbolOrAddress.trim().toLowerCase()
+  const isAddress = /^0x[0-9a-f]{40}$/.test(query)
+
+  return tokens.filter(
+    token =>
+      token.chainId === chainId &&
+      (!protocol || token.protocols.includes(protocol)) &&
+      (isAddress
+        ? token.address.toLowerCase() === query
+        : token.symbol.toLowerCase() === query)
+  )
+}
+
+/**
+ * @description Combina las listas en tokens únicos por cadena y dirección
+ */
+function buildIndexedTokens (
+  lists: TokenInfo[][],
+  protocols: string[]
+): IndexedToken[] {
+  const tokensByKey = new Map<string, IndexedToken>()
+  const addressesBySymbol = new Map<string, Set<string>>()
+
+  lists.forEach((list, index) => {
+    for (const token of list) {
+      const key = `${token.chainId}:${token.address.toLowerCase()}`
+      const indexedToken = tokensByKey.get(key)
+
+      if (indexedToken) {
+        if (!indexedToken.protocols.includes(protocols[index])) {
+          indexedToken.protocols.push(protocols[index])
+          indexedToken.decimalsByProtocol[protocols[index]] = token.decimals
+        }
+        for (const tag of token.tags ?? []) {
+          if (!indexedToken.tags?.includes(tag)) indexedToken.tags?.push(tag)
+        }
+        continue
+      }
+
+      tokensByKey.set(key, {
+        ...token,
+        tags: [...(token.tags ?? [])],
+        protocols: [protocols[index]],
+        ambiguousWith: [],
+        decimalsByProtocol: { [protocols[index]]: token.decimals }
+      })
+
+      const symbolKey = `${token.chainId}:${token.symbol.toUpperCase()}`
+      const addresses = addressesBySymbol.get(symbolKey) ?? new Set<string>()
+      addresses.add(token.address)
+      addressesBySymbol.set(symbolKey, addresses)
+    }
+  })
+
+  const indexedTokens = Array.from(tokensByKey.values())
+
+  for (const token of indexedTokens) {
+    const addresses = addressesBySymbol.get(
+      `${token.chainId}:${token.symbol.toUpperCase()}`
+    )
+    token.ambiguousWith = Array.from(addresses ?? []).filter(
+      address => address !== token.address
+    )
+  }
+
+  return indexedTokens.sort(
+    (a, b) =>
+      Number(a.chainId) - Number(b.chainId) || a.symbol.localeCompare(b.symbol)
+  )
+}
+
+/**
+ * @description Indica si un token cumple los filtros de cadena, protocolo y etiqueta
+ */
+function matchesFilters (
+  token: IndexedToken,
+  params: TokenSearchParams
+): boolean {
+  if (params.chainId && token.chainId !== params.chainId) {
+    return false
+  }
+
+  if (
+    params.protocol &&
+    !token.protocols.includes(params.protocol.toLowerCase())
+  ) {
+    return false
+  }
+
+  if (params.tag) {
+    const tag = params.tag.toLowerCase()
+    if (
+      !token.tags?.some(
+        tokenTag => typeof tokenTag === 'string' && tokenTag.toLowerCase() === tag
+      )
+    ) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * @description Busca la mejor coincidencia del texto con la dirección, el símbolo o el nombre
+ */
+function matchToken (
+  token: IndexedToken,
+  query: string
+): { relevance: number; matchReason: string } | null {
+  const candidates: Array<{ relevance: number; matchReason: string }> = []
+  const address = token.address.toLowerCase()
+  const symbol = token.symbol.toLowerCase()
+  const name = token.name.toLowerCase()
+
+  // Dirección: completa, o parcial si el texto parece hexadecimal
+  const isHexQuery = /^(0x)?[0-9a-f]+$/.test(query)
+  if (address === query) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.addressExact,
+      matchReason: 'dirección exacta'
+    })
+  } else if (isHexQuery && query.startsWith('0x') && address.startsWith(query)) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.addressPrefix,
+      matchReason: `la dirección empieza por "${query}"`
+    })
+  } else if (
+    isHexQuery &&
+    query.replace(/^0x/, '').length >= MIN_PARTIAL_ADDRESS_LENGTH &&
+    address.includes(query.replace(/^0x/, ''))
+  ) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.addressSubstring,
+      matchReason: `la dirección contiene "${query}"`
+    })
+  }
+
+  // Símbolo: exacto, sin signos de puntuación (ej: "usdce" → "USDC.e"), prefijo o contenido
+  if (symbol === query) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.symbolExact,
+      matchReason: `símbolo ${token.symbol}`
+    })
+  } else if (
+    normalizeSymbol(symbol) === normalizeSymbol(query) &&
+    normalizeSymbol(query).length > 0
+  ) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.symbolNormalized,
+      matchReason: `símbolo ${token.symbol} (sin signos de puntuación)`
+    })
+  } else if (symbol.startsWith(query)) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.symbolPrefix,
+      matchReason: `el símbolo ${token.symbol} empieza por "${query}"`
+    })
+  } else if (symbol.includes(query)) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.symbolSubstring,
+      matchReason: `el símbolo ${token.symbol} contiene "${query}"`
+    })
+  }
+
+  // Nombre: exacto, alguna palabra empieza por el texto o lo contiene
+  if (name === query) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.nameExact,
+      matchReason: `nombre ${token.name}`
+    })
+  } else if (name.split(/\s+/).some(word => word.startsWith(query))) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.namePrefix,
+      matchReason: `una palabra del nombre ${token.name} empieza por "${query}"`
+    })
+  } else if (name.includes(query)) {
+    candidates.push({
+      relevance: MATCH_RELEVANCE.nameSubstring,
+      matchReason: `el nombre ${token.name} contiene "${query}"`
+    })
+  }
+
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((best, candidate) =>
+    candidate.relevance > best.relevance ? candidate : best
+  )
+}
+
+/**
+ * @description Describe los filtros aplicados, para los resultados sin texto de búsqueda
+ */
+function describeFilters (params: TokenSearchParams): string {
+  const filters = [
+    params.chainId ? `cadena ${params.chainId}` : null,
+    params.protocol ? `protocolo ${params.protocol}` : null,
+    params.tag ? `etiqueta ${params.tag}` : null
+  ].filter(Boolean)
+
+  return filters.length > 0
+    ? `cumple los filtros: ${filters.join(', ')}`
+    : 'sin filtros'
+}
+
+/**
+ * @description Normaliza un símbolo eliminando los signos de puntuación
+ */
+function normalizeSymbol (symbol: string): string {
+  return symbol.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
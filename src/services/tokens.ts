@@ -1,53 +1,38 @@
-import type { TokenInfo } from '../types/tokens'
-import { PROTOCOL_TOKENLIST_URLS } from '../constants/url'
+import type { TokenInfo, TokenOverride } from '../types/tokens'
+import type { TokenListProvider } from '../types/providers'
+import { normalizeChainId } from './chains'
+import { getTokenListProvider } from './providers'
+import { UpstreamError } from './upstream'
+import { getCachedJson } from './cache'
+import {
+  recordTokenListReport,
+  validateTokenList
+} from './tokens.validation'
+import { recordTokenListVersion } from './tokens.history'
+import { applyTokenOverrides, loadTokenOverrides } from './tokens.overrides'
 
 /**
- * @description Caché de tokens por protocolo y cadena
- * @type {Record<string, {tokens: TokenInfo[], timestamp: number}>}
+ * @description Tokens ya procesados por protocolo y cadena, junto con la lista de origen y los
+ * overrides de los que se obtuvieron. Se reutilizan mientras el caché devuelva la misma lista y
+ * los overrides no cambien, de modo que los mismos datos conservan la misma referencia (y su
+ * versión de paginación memorizada).
+ * @type {Record<string, {tokens: TokenInfo[], source: unknown, overrides: TokenOverride[]}>}
  */
 const protocolTokenCache: Record<
   string,
-  { tokens: TokenInfo[]; timestamp: number }
+  { tokens: TokenInfo[]; source: unknown; overrides: TokenOverride[] }
 > = {}
 
 /**
- * @description Mapeo de nombres de cadenas a sus identificadores numéricos
- * @type {Record<string, string>}
+ * @description Tokens validados de la última lista de cada protocolo, junto con la lista de
+ * origen. Cada lista se valida (y se registra su informe) una sola vez aunque se consulten
+ * varias cadenas.
+ * @type {Record<string, {tokens: TokenInfo[], source: unknown}>}
  */
-const CHAIN_ID_MAPPING: Record<string, string> = {
-  avalanche: '43114',
-  avax: '43114',
-  'avalanche-c': '43114',
-  fuji: '43113',
-  'fuji-c': '43113',
-  'avalanche-fuji': '43113',
-  'avalanche-testnet': '43113'
-}
-
-// Tiempo de expiración del caché en milisegundos (30 minutos)
-const CACHE_EXPIRATION_MS = 30 * 60 * 1000
-
-/**
- * @description Normaliza un identificador de cadena a su formato numérico estándar
- * @param {string} chainId - Identificador de cadena (puede ser un nombre o un ID numérico)
- * @returns {string} El identificador numérico normalizado
- * @throws {Error} Si el nombre de la cadena no está reconocido en el mapeo
- */
-function normalizeChainId (chainId: string): string {
-  // Si ya es un ID numérico, devolverlo directamente
-  if (/^\d+$/.test(chainId)) {
-    return chainId
-  }
-
-  // Convertir de nombre a ID
-  const normalizedChainId = CHAIN_ID_MAPPING[chainId.toLowerCase()]
-
-  if (!normalizedChainId) {
-    throw new Error(`Cadena desconocida: ${chainId}`)
-  }
-
-  return normalizedChainId
-}
+const validatedTokenLists: Record<
+  string,
+  { tokens: TokenInfo[]; source: unknown }
+> = {}
 
 /**
  * @description Genera una clave de caché para un protocolo y cadena específicos
@@ -63,38 +48,51 @@ function getCacheKey (protocolName: string, targetChainId?: string): string {
 }
 
 /**
- * @description Valida un objeto de token y lo convierte al formato TokenInfo
- * @param {any} token - Objeto de token a validar
- * @returns {TokenInfo | null} El token validado o null si es inválido
+ * @description Obtiene los tokens de una lista: la valida contra el esquema de listas de tokens
+ * de Uniswap aplicando las particularidades de su proveedor, guarda el informe de validación y
+ * registra la versión en el historial de la lista si su contenido cambió
+ * @param {TokenListProvider} provider - Proveedor de la lista
+ * @param {unknown} data - Lista de tokens tal como se obtuvo del origen
+ * @returns {TokenInfo[]} Tokens válidos de la lista
+ * @throws {Error} Si la lista no contiene ningún token utilizable
  */
-function validateAndNormalizeToken (token: any): TokenInfo | null {
-  if (
-    !token?.address ||
-    !token?.symbol ||
-    !token?.name ||
-    typeof token?.decimals !== 'number' ||
-    typeof token?.chainId !== 'number'
-  ) {
-    return null
+function parseTokenList (
+  provider: TokenListProvider,
+  data: unknown
+): TokenInfo[] {
+  const validated = validatedTokenLists[provider.name]
+  if (validated && validated.source === data) {
+    return validated.tokens
   }
 
-  return {
-    name: token.name,
-    symbol: token.symbol,
-    address: token.address,
-    decimals: token.decimals,
-    chainId: String(token.chainId),
-    logoURI: token.logoURI || '',
-    tags: Array.isArray(token.tags) ? token.tags : [],
-    isNative:
-      token.address.toLowerCase() ===
-      '0x0000000000000000000000000000000000000000'
+  const { tokens, report } = validateTokenList(provider, data)
+  recordTokenListReport(report)
+
+  if (report.totals.total === 0) {
+    throw new Error('Formato de lista de tokens inválido o vacío')
   }
+  if (report.status === 'invalid') {
+    throw new Error(
+      'La lista de tokens no contiene ningún token utilizable: todos se rechazaron o se descartaron'
+    )
+  }
+
+  validatedTokenLists[provider.name] = { tokens, source: data }
+  recordTokenListVersion(report, tokens).catch(error =>
+    console.error(
+      `Error al registrar la versión de la lista de tokens de ${
+        provider.name
+      }: ${error instanceof Error ? error.message : String(error)}`
+    )
+  )
+
+  return tokens
 }
 
 /**
- * @description Recupera tokens de un protocolo específico, opcionalmente filtrados por chainId
- * @param {string} protocolName - Nombre del protocolo (ej: 'lfj', 'traderjoe')
+ * @description Recupera tokens de un protocolo específico, opcionalmente filtrados por chainId.
+ * Los overrides del registro local se aplican sobre la lista y cada token indica su procedencia.
+ * @param {string} protocolName - Nombre o alias del protocolo (ej: 'lfj', 'traderjoe')
  * @param {string} [chainId] - Identificador de cadena opcional para filtrar los tokens
  * @returns {Promise<TokenInfo[]>} Array de tokens del protocolo
  * @throws {Error} Si el protocolo no está soportado o hay un error al obtener los tokens
@@ -102,6 +100,55 @@ function validateAndNormalizeToken (token: any): TokenInfo | null {
 export async function getTokensByProtocol (
   protocolName: string,
   chainId?: string
+): Promise<TokenInfo[]> {
+  return loadTokensByProtocol(protocolName, chainId, false)
+}
+
+/**
+ * @description Revalida con el origen la lista de tokens de un protocolo aunque el caché esté
+ * fresco y devuelve sus tokens en todas las cadenas.
+ * Utilizado por el refresco en segundo plano para detectar cambios en las listas.
+ * @param {string} protocolName - Nombre o alias del protocolo (ej: 'lfj', 'traderjoe')
+ * @returns {Promise<TokenInfo[]>} Tokens del protocolo en todas las cadenas
+ * @throws {Error} Si el protocolo no está soportado o hay un error al obtener los tokens
+ */
+export async function refreshTokensByProtocol (
+  protocolName: string
+): Promise<TokenInfo[]> {
+  return loadTokensByProtocol(protocolName, undefined, true)
+}
+
+/**
+ * @description Recupera los tokens de la lista de un protocolo tal como los publica el origen, sin
+ * aplicar los overrides del registro local
+ * @param {string} protocolName - Nombre o alias del protocolo (ej: 'lfj', 'traderjoe')
+ * @returns {Promise<TokenInfo[]>} Tokens de la lista en todas las cadenas
+ * @throws {Error} Si el protocolo no está soportado o hay un error al obtener los tokens
+ */
+export async function getUpstreamTokensByProtocol (
+  protocolName: string
+): Promise<TokenInfo[]> {
+  const provider = getTokenListProvider(protocolName)
+  if (!provider) {
+    throw new Error(
+      `Protocolo no soportado para listas de tokens: ${protocolName}`
+    )
+  }
+
+  return parseTokenList(
+    provider,
+    await getCachedJson<unknown>('tokenList', provider.tokenListUrl)
+  )
+}
+
+/**
+ * @description Obtiene los tokens de un protocolo a través del caché, opcionalmente
+ * revalidando la lista con el origen
+ */
+async function loadTokensByProtocol (
+  protocolName: string,
+  chainId: string | undefined,
+  revalidate: boolean
 ): Promise<TokenInfo[]> {
   if (!protocolName) {
     throw new Error('Nombre de protocolo requerido')
@@ -123,66 +170,57 @@ export async function getTokensByProtocol (
     }
   }
 
-  const cacheKey = getCacheKey(lowerCaseProtocol, targetChainId)
-
-  // Verificar caché y su validez
-  const cachedData = protocolTokenCache[cacheKey]
-  const now = Date.now()
-
-  if (cachedData && now - cachedData.timestamp < CACHE_EXPIRATION_MS) {
-    return cachedData.tokens
-  }
-
-  // Verificar que el protocolo esté soportado
-  const tokenListUrl = PROTOCOL_TOKENLIST_URLS[lowerCaseProtocol]
-  if (!tokenListUrl) {
+  // Verificar que el protocolo tenga un proveedor cargado
+  const provider = getTokenListProvider(lowerCaseProtocol)
+  if (!provider) {
     throw new Error(
       `Protocolo no soportado para listas de tokens: ${protocolName}`
     )
   }
 
-  try {
-    // Agregar timeout para evitar solicitudes colgadas
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 10000)
+  const cacheKey = getCacheKey(provider.name, targetChainId)
 
-    const response = await fetch(tokenListUrl, {
-      signal: controller.signal
-    })
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      throw new Error(`Error HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const data = (await response.json()) as Record<string, any>
+  try {
+    // Caché con revalidación condicional y respaldo con la última lista correcta
+    const data = await getCachedJson<unknown>(
+      'tokenList',
+      provider.tokenListUrl,
+      { revalidate }
+    )
 
-    // Validar, normalizar y filtrar los tokens
-    const tokensData = data.tokens || data
-    const allTokens = Array.isArray(tokensData) ? tokensData : []
+    const overrides = await loadTokenOverrides()
 
-    if (!Array.isArray(allTokens) || allTokens.length === 0) {
-      throw new Error('Formato de lista de tokens inválido o vacío')
+    const cachedData = protocolTokenCache[cacheKey]
+    if (
+      cachedData &&
+      cachedData.source === data &&
+      cachedData.overrides === overrides
+    ) {
+      return cachedData.tokens
     }
 
-    const processedTokens: TokenInfo[] = allTokens
-      .map(validateAndNormalizeToken)
-      .filter((token): token is TokenInfo => token !== null)
+    // Validar, normalizar y filtrar los tokens según el proveedor, y aplicar los overrides
+    const processedTokens = applyTokenOverrides(
+      provider,
+      parseTokenList(provider, data),
+      overrides
+    )
 
     // Filtrar por chainId si se proporciona
     const filteredTokens = targetChainId
       ? processedTokens.filter(token => token.chainId === targetChainId)
       : processedTokens
 
-    // Almacenar en caché con timestamp
+    // Guardar los tokens procesados junto con la lista de origen
     protocolTokenCache[cacheKey] = {
       tokens: filteredTokens,
-      timestamp: now
+      source: data,
+      overrides
     }
 
     return filteredTokens
   } catch (error) {
-    if (error instanceof DOMException && error.name === 'AbortError') {
+    if (error instanceof UpstreamError && error.timedOut) {
       throw new Error(
         `Timeout al obtener tokens para protocolo ${protocolName}`
       )
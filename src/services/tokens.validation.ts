@@ -0,0 +1,628 @@
+import type {
+  TokenInfo,
+  TokenListIssue,
+  TokenListReport
+} from '../types/tokens'
+import type { TokenListProvider } from '../types/providers'
+import { isWrappedNativeAddress } from './tokens.native'
+import { checkAddress, isNativeAddress } from '../utils/address'
+
+/**
+ * @description Límites del esquema de listas de tokens de Uniswap
+ * (https://uniswap.org/tokenlist.schema.json)
+ */
+const SCHEMA_LIMITS = {
+  listNameLength: 30,
+  maxTokens: 10000,
+  maxKeywords: 20,
+  keywordLength: 20,
+  maxTagDefinitions: 20,
+  tagIdLength: 10,
+  tagNameLength: 20,
+  tagDescriptionLength: 200,
+  tokenNameLength: 60,
+  tokenSymbolLength: 20,
+  maxTokenTags: 10,
+  maxDecimals: 255
+}
+
+/**
+ * @description Patrones del esquema de listas de tokens de Uniswap
+ */
+const SCHEMA_PATTERNS = {
+  listName: /^[\w ]+$/,
+  keyword: /^[\w ]+$/,
+  tagId: /^\w+$/,
+  tagName: /^[ \w]+$/,
+  tagDescription: /^[ \w.,:]+$/,
+  symbol: /^\S+$/
+}
+
+/**
+ * @description Número máximo de entradas rechazadas que se incluyen como ejemplo en el informe
+ */
+const MAX_REJECTED_SAMPLES = 10
+
+/**
+ * @description Informes de validación por protocolo: el de la última lista validada y el de la
+ * lista anterior, para detectar cuándo empeora un origen
+ */
+const tokenListReports = new Map<
+  string,
+  { current: TokenListReport; previous?: TokenListReport }
+>()
+
+/**
+ * @description Resultado de validar una entrada de la lista
+ */
+type TokenEntryValidation =
+  | {
+      status: 'accepted' | 'repaired'
+      token: TokenInfo
+      repairs: string[]
+      warnings: string[]
+    }
+  | { status: 'rejected'; reasons: string[] }
+
+/**
+ * @function validateTokenList
+ * @description Valida una lista de tokens contra el esquema de listas de tokens de Uniswap
+ * (nombre, versión, fecha, definiciones de etiquetas, palabras clave y cada token) y aplica las
+ * particularidades del proveedor. Las entradas que no cumplen el esquema pero se pueden corregir
+ * sin ambigüedad (por ejemplo, decimales como texto o espacios sobrantes) se reparan; el resto se
+ * rechazan. El informe cuenta cada caso con su motivo.
+ * @param {TokenListProvider} provider - Proveedor de la lista
+ * @param {unknown} data - Lista de tokens tal como se obtuvo del origen
+ * @returns {{tokens: TokenInfo[], report: TokenListReport}} Tokens utilizables e informe
+ */
+export function validateTokenList (
+  provider: TokenListProvider,
+  data: unknown
+): { tokens: TokenInfo[]; report: TokenListReport } {
+  const listIssues: TokenListIssue[] = []
+  const record =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, any>)
+      : null
+
+  const list = validateListMetadata(data, record, listIssues)
+  const definedTags = new Set(
+    record?.tags && typeof record.tags === 'object'
+      ? Object.keys(record.tags)
+      : []
+  )
+
+  const tokensData = provider.extractTokens
+    ? provider.extractTokens(data)
+    : record
+    ? record.tokens
+    : data
+  const entries: unknown[] = Array.isArray(tokensData) ? tokensData : []
+
+  if (!Array.isArray(tokensData)) {
+    listIssues.push({
+      field: 'tokens',
+      message: 'la lista no contiene un array de tokens'
+    })
+  } else if (entries.length === 0) {
+    listIssues.push({ field: 'tokens', message: 'la lista está vacía' })
+  } else if (entries.length > SCHEMA_LIMITS.maxTokens) {
+    listIssues.push({
+      field: 'tokens',
+      message: `la lista tiene ${entries.length} tokens (máximo ${SCHEMA_LIMITS.maxTokens})`
+    })
+  }
+
+  const report: TokenListReport = {
+    protocol: provider.name,
+    url: provider.tokenListUrl,
+    status: 'healthy',
+    list,
+    listIssues,
+    totals: {
+      total: entries.length,
+      accepted: 0,
+      repaired: 0,
+      rejected: 0,
+      filtered: 0
+    },
+    reasons: { rejected: {}, repaired: {}, warnings: {}, filtered: {} },
+    rejectedSamples: [],
+    validatedAt: new Date().toISOString()
+  }
+
+  const tokens: TokenInfo[] = []
+  const seen = new Set<string>()
+
+  entries.forEach((entry, index) => {
+    const validation = validateTokenEntry(entry, definedTags)
+
+    if (validation.status === 'rejected') {
+      rejectEntry(report, entry, index, validation.reasons)
+      return
+    }
+
+    const { token: validToken } = validation
+    const key = `${validToken.chainId}:${validToken.address.toLowerCase()}`
+    if (seen.has(key)) {
+      rejectEntry(report, entry, index, [
+        'duplicado (misma cadena y dirección)'
+      ])
+      return
+    }
+    seen.add(key)
+
+    // Particularidades del proveedor: ajustes propios y cadenas soportadas
+    const token = provider.normalizeToken
+      ? provider.normalizeToken(validToken, entry as Record<string, any>)
+      : validToken
+    if (!token) {
+      report.totals.filtered++
+      countReason(report.reasons.filtered, 'descartado por el proveedor')
+      return
+    }
+    if (provider.chainIds && !provider.chainIds.includes(token.chainId)) {
+      report.totals.filtered++
+      countReason(
+        report.reasons.filtered,
+        `cadena ${token.chainId} no soportada por el proveedor`
+      )
+      return
+    }
+
+    // Solo cuentan como aceptados o reparados los tokens que se sirven
+    report.totals[validation.status]++
+    for (const reason of validation.repairs) {
+      countReason(report.reasons.repaired, reason)
+    }
+    for (const reason of validation.warnings) {
+      countReason(report.reasons.warnings, reason)
+    }
+
+    tokens.push(token)
+  })
+
+  report.status =
+    report.totals.accepted + report.totals.repaired === 0
+      ? 'invalid'
+      : listIssues.length > 0 || report.totals.rejected > 0
+      ? 'degraded'
+      : 'healthy'
+
+  return { tokens, report }
+}
+
+/**
+ * @function recordTokenListReport
+ * @description Guarda el informe de validación de la lista de un protocolo, conservando el
+ * anterior para poder compararlos
+ * @param {TokenListReport} report - Informe de validación
+ */
+export function recordTokenListReport (report: TokenListReport): void {
+  const reports = tokenListReports.get(report.protocol)
+  tokenListReports.set(report.protocol, {
+    current: report,
+    previous: reports?.current
+  })
+}
+
+/**
+ * @function getTokenListReport
+ * @description Obtiene el último informe de validación de la lista de un protocolo y el anterior
+ * @param {string} protocol - Nombre canónico del protocolo
+ * @returns {{current: TokenListReport, previous?: TokenListReport} | undefined} Informes o
+ * undefined si la lista aún no se ha validado
+ */
+export function getTokenListReport (
+  protocol: string
+): { current: TokenListReport; previous?: TokenListReport } | undefined {
+  return tokenListReports.get(protocol)
+}
+
+/**
+ * @description Valida los metadatos de la lista: nombre, fecha, versión, palabras clave,
+ * definiciones de etiquetas y logo
+ */
+function validateListMetadata (
+  data: unknown,
+  record: Record<string, any> | null,
+  issues: TokenListIssue[]
+): TokenListReport['list'] {
+  if (!record) {
+    issues.push({
+      field: 'lista',
+      message: Array.isArray(data)
+        ? 'la lista es un array de tokens sin metadatos (name, version, timestamp)'
+        : 'la lista no es un objeto JSON'
+    })
+    return { tags: 0, keywords: [] }
+  }
+
+  // Nombre
+  if (typeof record.name !== 'string' || record.name.length === 0) {
+    issues.push({ field: 'name', message: 'falta el nombre de la lista' })
+  } else if (record.name.length > SCHEMA_LIMITS.listNameLength) {
+    issues.push({
+      field: 'name',
+      message: `el nombre supera los ${SCHEMA_LIMITS.listNameLength} caracteres`
+    })
+  } else if (!SCHEMA_PATTERNS.listName.test(record.name)) {
+    issues.push({
+      field: 'name',
+      message: 'el nombre solo admite letras, números, guiones bajos y espacios'
+    })
+  }
+
+  // Fecha de publicación
+  if (typeof record.timestamp !== 'string') {
+    issues.push({ field: 'timestamp', message: 'falta la fecha de la lista' })
+  } else if (isNaN(Date.parse(record.timestamp))) {
+    issues.push({
+      field: 'timestamp',
+      message: `fecha inválida: ${record.timestamp}`
+    })
+  }
+
+  // Versión semántica
+  const version = record.version
+  let versionText: string | undefined
+  if (!version || typeof version !== 'object') {
+    issues.push({ field: 'version', message: 'falta la versión de la lista' })
+  } else {
+    const invalidParts = ['major', 'minor', 'patch'].filter(
+      part => !Number.isInteger(version[part]) || version[part] < 0
+    )
+    for (const part of invalidParts) {
+      issues.push({
+        field: `version.${part}`,
+        message: 'debe ser un entero mayor o igual que 0'
+      })
+    }
+    if (invalidParts.length === 0) {
+      versionText = `${version.major}.${version.minor}.${version.patch}`
+    }
+  }
+
+  // Palabras clave
+  const keywords: string[] = []
+  if (record.keywords !== undefined) {
+    if (!Array.isArray(record.keywords)) {
+      issues.push({ field: 'keywords', message: 'debe ser un array' })
+    } else {
+      if (record.keywords.length > SCHEMA_LIMITS.maxKeywords) {
+        issues.push({
+          field: 'keywords',
+          message: `tiene ${record.keywords.length} palabras clave (máximo ${SCHEMA_LIMITS.maxKeywords})`
+        })
+      }
+      record.keywords.forEach((keyword: unknown, index: number) => {
+        if (
+          typeof keyword !== 'string' ||
+          keyword.length === 0 ||
+          keyword.length > SCHEMA_LIMITS.keywordLength ||
+          !SCHEMA_PATTERNS.keyword.test(keyword)
+        ) {
+          issues.push({
+            field: `keywords[${index}]`,
+            message: `palabra clave inválida: ${JSON.stringify(keyword)}`
+          })
+        } else {
+          keywords.push(keyword)
+        }
+      })
+    }
+  }
+
+  // Definiciones de etiquetas
+  let tagCount = 0
+  if (record.tags !== undefined) {
+    if (
+      !record.tags ||
+      typeof record.tags !== 'object' ||
+      Array.isArray(record.tags)
+    ) {
+      issues.push({
+        field: 'tags',
+        message: 'debe ser un objeto { id: { name, description } }'
+      })
+    } else {
+      const tagEntries = Object.entries(record.tags as Record<string, any>)
+      tagCount = tagEntries.length
+
+      if (tagCount > SCHEMA_LIMITS.maxTagDefinitions) {
+        issues.push({
+          field: 'tags',
+          message: `define ${tagCount} etiquetas (máximo ${SCHEMA_LIMITS.maxTagDefinitions})`
+        })
+      }
+
+      for (const [id, definition] of tagEntries) {
+        issues.push(...validateTagDefinition(id, definition))
+      }
+    }
+  }
+
+  // Logo
+  if (record.logoURI !== undefined && !isValidUri(record.logoURI)) {
+    issues.push({ field: 'logoURI', message: 'no es una URI válida' })
+  }
+
+  return {
+    name: typeof record.name === 'string' ? record.name : undefined,
+    version: versionText,
+    timestamp:
+      typeof record.timestamp === 'string' ? record.timestamp : undefined,
+    tags: tagCount,
+    keywords
+  }
+}
+
+/**
+ * @description Valida la definición de una etiqueta de la lista
+ */
+function validateTagDefinition (id: string, definition: any): TokenListIssue[] {
+  const field = `tags.${id}`
+  const issues: TokenListIssue[] = []
+
+  if (
+    id.length > SCHEMA_LIMITS.tagIdLength ||
+    !SCHEMA_PATTERNS.tagId.test(id)
+  ) {
+    issues.push({
+      field,
+      message: `identificador inválido (letras, números y guiones bajos, máximo ${SCHEMA_LIMITS.tagIdLength})`
+    })
+  }
+
+  if (!definition || typeof definition !== 'object') {
+    issues.push({
+      field,
+      message: 'la definición debe tener name y description'
+    })
+    return issues
+  }
+
+  if (
+    typeof definition.name !== 'string' ||
+    definition.name.length === 0 ||
+    definition.name.length > SCHEMA_LIMITS.tagNameLength ||
+    !SCHEMA_PATTERNS.tagName.test(definition.name)
+  ) {
+    issues.push({
+      field: `${field}.name`,
+      message: 'nombre de etiqueta inválido'
+    })
+  }
+
+  if (
+    typeof definition.description !== 'string' ||
+    definition.description.length === 0 ||
+    definition.description.length > SCHEMA_LIMITS.tagDescriptionLength ||
+    !SCHEMA_PATTERNS.tagDescription.test(definition.description)
+  ) {
+    issues.push({
+      field: `${field}.description`,
+      message: 'descripción de etiqueta inválida'
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @description Valida una entrada de la lista y la convierte al formato TokenInfo, reparando lo
+ * que se puede corregir sin ambigüedad
+ */
+function validateTokenEntry (
+  entry: unknown,
+  definedTags: Set<string>
+): TokenEntryValidation {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return { status: 'rejected', reasons: ['la entrada no es un objeto'] }
+  }
+
+  const raw = entry as Record<string, any>
+  const reasons: string[] = []
+  const repairs: string[] = []
+  const warnings: string[] = []
+
+  // Cadena: entero positivo (se admite como texto numérico)
+  let chainId = raw.chainId
+  if (typeof chainId === 'string' && /^\d+$/.test(chainId.trim())) {
+    chainId = Number(chainId.trim())
+    repairs.push('chainId como texto')
+  }
+  if (!Number.isInteger(chainId) || chainId < 1) {
+    reasons.push('chainId inválido')
+  }
+
+  // Dirección: 0x seguido de 40 caracteres hexadecimales, con checksum EIP-55
+  let address = raw.address
+  if (typeof address !== 'string' || address.trim().length === 0) {
+    reasons.push('falta la dirección')
+  } else {
+    if (address !== address.trim()) {
+      address = address.trim()
+      repairs.push('espacios en la dirección')
+    }
+
+    const check = checkAddress(address)
+    if (check.status === 'invalidFormat') {
+      reasons.push('dirección con formato inválido')
+    } else if (check.status === 'invalidChecksum') {
+      // Un checksum incorrecto indica que se alteró algún carácter de la dirección
+      reasons.push('checksum EIP-55 inválido (posible manipulación)')
+    } else if (check.status === 'unchecksummed') {
+      address = check.address
+      repairs.push('dirección sin checksum EIP-55')
+    }
+  }
+
+  // Decimales: entero entre 0 y 255 (se admite como texto numérico)
+  let decimals = raw.decimals
+  if (typeof decimals === 'string' && /^\d+$/.test(decimals.trim())) {
+    decimals = Number(decimals.trim())
+    repairs.push('decimales como texto')
+  }
+  if (!Number.isInteger(decimals)) {
+    reasons.push('decimales inválidos')
+  } else if (decimals < 0 || decimals > SCHEMA_LIMITS.maxDecimals) {
+    reasons.push(`decimales fuera de rango (0-${SCHEMA_LIMITS.maxDecimals})`)
+  }
+
+  // Símbolo y nombre
+  let symbol = raw.symbol
+  if (typeof symbol !== 'string' || symbol.trim().length === 0) {
+    reasons.push('falta el símbolo')
+  } else {
+    if (symbol !== symbol.trim()) {
+      symbol = symbol.trim()
+      repairs.push('espacios en el símbolo')
+    }
+    if (!SCHEMA_PATTERNS.symbol.test(symbol)) {
+      warnings.push('símbolo con espacios')
+    }
+    if (symbol.length > SCHEMA_LIMITS.tokenSymbolLength) {
+      warnings.push(
+        `símbolo de más de ${SCHEMA_LIMITS.tokenSymbolLength} caracteres`
+      )
+    }
+  }
+
+  let name = raw.name
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    reasons.push('falta el nombre')
+  } else {
+    if (name !== name.trim()) {
+      name = name.trim()
+      repairs.push('espacios en el nombre')
+    }
+    if (name.length > SCHEMA_LIMITS.tokenNameLength) {
+      warnings.push(
+        `nombre de más de ${SCHEMA_LIMITS.tokenNameLength} caracteres`
+      )
+    }
+  }
+
+  if (reasons.length > 0) {
+    return { status: 'rejected', reasons }
+  }
+
+  // Logo: se descarta si no es una URI
+  let logoURI = ''
+  if (raw.logoURI !== undefined && raw.logoURI !== '') {
+    if (isValidUri(raw.logoURI)) {
+      logoURI = raw.logoURI
+    } else {
+      repairs.push('logoURI inválido eliminado')
+    }
+  }
+
+  // Etiquetas: identificadores de etiquetas definidas en la lista
+  let tags: string[] = []
+  if (raw.tags !== undefined) {
+    const rawTags: unknown[] = Array.isArray(raw.tags) ? raw.tags : []
+    tags = rawTags.filter(
+      (tag): tag is string =>
+        typeof tag === 'string' &&
+        tag.length <= SCHEMA_LIMITS.tagIdLength &&
+        SCHEMA_PATTERNS.tagId.test(tag)
+    )
+    if (!Array.isArray(raw.tags) || tags.length < rawTags.length) {
+      repairs.push('etiquetas inválidas eliminadas')
+    }
+    if (tags.length > SCHEMA_LIMITS.maxTokenTags) {
+      warnings.push(`más de ${SCHEMA_LIMITS.maxTokenTags} etiquetas`)
+    }
+    if (tags.some(tag => !definedTags.has(tag))) {
+      warnings.push('etiqueta no definida en la lista')
+    }
+  }
+
+  // Despliegues en otras cadenas (extensions.bridgeInfo): se descartan los que no son válidos
+  let bridgeInfo: Record<string, string> | undefined
+  const rawBridgeInfo = raw.extensions?.bridgeInfo
+  if (rawBridgeInfo !== undefined) {
+    const entries =
+      rawBridgeInfo && typeof rawBridgeInfo === 'object'
+        ? Object.entries(rawBridgeInfo as Record<string, any>)
+        : []
+    const validEntries = entries.flatMap(([bridgeChainId, info]) => {
+      const bridgeAddress = checkAddress(info?.tokenAddress).address
+      return /^[1-9]\d*$/.test(bridgeChainId) && bridgeAddress
+        ? [[bridgeChainId, bridgeAddress] as const]
+        : []
+    })
+
+    if (validEntries.length > 0) {
+      bridgeInfo = Object.fromEntries(validEntries)
+    }
+    if (validEntries.length < entries.length || entries.length === 0) {
+      repairs.push('bridgeInfo inválido eliminado')
+    }
+  }
+
+  return {
+    status: repairs.length > 0 ? 'repaired' : 'accepted',
+    token: {
+      name,
+      symbol,
+      address,
+      decimals,
+      chainId: String(chainId),
+      logoURI,
+      tags,
+      isNative: isNativeAddress(address),
+      isWrappedNative: isWrappedNativeAddress(chainId, address),
+      bridgeInfo
+    },
+    repairs,
+    warnings
+  }
+}
+
+/**
+ * @description Anota una entrada rechazada en el informe
+ */
+function rejectEntry (
+  report: TokenListReport,
+  entry: unknown,
+  index: number,
+  reasons: string[]
+): void {
+  report.totals.rejected++
+  reasons.forEach(reason => countReason(report.reasons.rejected, reason))
+
+  if (report.rejectedSamples.length < MAX_REJECTED_SAMPLES) {
+    const raw =
+      entry && typeof entry === 'object' ? (entry as Record<string, any>) : {}
+    report.rejectedSamples.push({
+      index,
+      chainId: raw.chainId,
+      address: raw.address,
+      symbol: raw.symbol,
+      reasons
+    })
+  }
+}
+
+/**
+ * @description Incrementa el contador de un motivo
+ */
+function countReason (counts: Record<string, number>, reason: string): void {
+  counts[reason] = (counts[reason] ?? 0) + 1
+}
+
+/**
+ * @description Indica si un valor es una URI con esquema (http, https, ipfs, data...)
+ */
+function isValidUri (value: unknown): boolean {
+  if (typeof value !== 'string' || value.length === 0) return false
+
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
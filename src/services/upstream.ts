@@ -0,0 +1,333 @@
+/**
+ * @interface UpstreamPolicy
+ * @description Política de acceso a un host de origen
+ * @property {number} timeoutMs - Tiempo máximo de espera de cada intento
+ * @property {number} retries - Reintentos tras el primer intento ante errores 5xx, 429 o de red
+ * @property {number} baseDelayMs - Espera base del backoff exponencial
+ * @property {number} maxDelayMs - Espera máxima entre intentos (incluido Retry-After)
+ * @property {number} failureThreshold - Fallos consecutivos que abren el circuito
+ * @property {number} openMs - Tiempo que el circuito permanece abierto antes de probar de nuevo
+ */
+export interface UpstreamPolicy {
+  timeoutMs: number
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  failureThreshold: number
+  openMs: number
+}
+
+/**
+ * @description Política por defecto para hosts sin configuración específica
+ */
+const DEFAULT_POLICY: UpstreamPolicy = {
+  timeoutMs: 8000,
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  failureThreshold: 5,
+  openMs: 30 * 1000
+}
+
+/**
+ * @description Ajustes de la política por host
+ */
+const HOST_POLICIES: Record<string, Partial<UpstreamPolicy>> = {
+  // API del repositorio y de las plantillas
+  'api.sherry.social': { timeoutMs: 8000, retries: 3 },
+  // Endpoint de respaldo de plantillas: solo se usa tras un 404, no merece insistir
+  'staging.sherry.social': { timeoutMs: 8000, retries: 1 },
+  // Listas de tokens servidas desde GitHub (ficheros grandes)
+  'raw.githubusercontent.com': { timeoutMs: 10000, retries: 2 }
+}
+
+/**
+ * Clase de error para fallos al consultar un origen (HTTP, red, timeout o circuito abierto)
+ */
+export class UpstreamError extends Error {
+  url: string
+  status?: number
+  timedOut: boolean
+
+  constructor (
+    message: string,
+    url: string,
+    status?: number,
+    timedOut: boolean = false
+  ) {
+    super(message)
+    this.name = 'UpstreamError'
+    this.url = url
+    this.status = status
+    this.timedOut = timedOut
+  }
+}
+
+/**
+ * Clase de error para peticiones rechazadas sin llegar al origen porque su circuito está abierto
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor (url: string, retryAt: number) {
+    super(
+      `Circuito abierto para ${new URL(url).host} tras fallos consecutivos; se reintentará a partir de ${new Date(
+        retryAt
+      ).toISOString()}`,
+      url
+    )
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * @description Estado del circuito de un host
+ */
+interface CircuitState {
+  failures: number
+  openUntil: number
+  probing: boolean
+}
+
+const circuits = new Map<string, CircuitState>()
+
+/**
+ * @function getUpstreamPolicy
+ * @description Obtiene la política de acceso de un host
+ * @param {string} host - Host de origen
+ * @returns {UpstreamPolicy} Política por defecto combinada con los ajustes del host
+ */
+export function getUpstreamPolicy (host: string): UpstreamPolicy {
+  return { ...DEFAULT_POLICY, ...HOST_POLICIES[host.toLowerCase()] }
+}
+
+/**
+ * @function fetchUpstream
+ * @description Realiza una petición a un origen con timeout por host, reintentos con backoff
+ * exponencial y jitter ante errores 5xx, 429 y de red, respetando Retry-After, y con un
+ * circuito por host que rechaza las peticiones sin esperar mientras el origen está caído.
+ * @param {string} url - URL a consultar
+ * @param {RequestInit} [init] - Opciones de la petición
+ * @returns {Promise<Response>} Respuesta correcta (2xx) o 304 en peticiones condicionales
+ * @throws {UpstreamError} Si el origen responde con error, no responde o el circuito está abierto
+ */
+export async function fetchUpstream (
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const host = new URL(url).host
+  const policy = getUpstreamPolicy(host)
+  const circuit = acquireCircuit(host, url)
+
+  try {
+    const response = await fetchWithRetries(url, init, policy)
+    recordSuccess(circuit)
+    return response
+  } catch (error) {
+    // Las respuestas 4xx son definitivas y no indican que el origen esté caído
+    if (isClientError(error)) {
+      recordSuccess(circuit)
+    } else {
+      recordFailure(circuit, host, policy)
+    }
+
+    throw error
+  }
+}
+
+/**
+ * @function parseUpstreamJson
+ * @description Lee el cuerpo JSON de una respuesta de origen
+ * @param {Response} response - Respuesta del origen
+ * @param {string} url - URL consultada, para el mensaje de error
+ * @returns {Promise<T>} Documento JSON
+ * @throws {UpstreamError} Si el cuerpo no es JSON válido
+ */
+export async function parseUpstreamJson<T = unknown> (
+  response: Response,
+  url: string
+): Promise<T> {
+  try {
+    return (await response.json()) as T
+  } catch (error) {
+    throw new UpstreamError(
+      `Respuesta JSON inválida de ${url}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      url,
+      response.status
+    )
+  }
+}
+
+/**
+ * @function isClientError
+ * @description Indica si el error es una respuesta 4xx definitiva del origen (429 se considera
+ * transitorio). Estos errores no se reintentan ni justifican servir datos anteriores.
+ * @param {unknown} error - Error a comprobar
+ * @returns {boolean} true si es un error 4xx distinto de 429
+ */
+export function isClientError (error: unknown): boolean {
+  return (
+    error instanceof UpstreamError &&
+    error.status !== undefined &&
+    error.status < 500 &&
+    error.status !== 429
+  )
+}
+
+/**
+ * @description Ejecuta la petición con timeout por intento y reintentos con backoff
+ */
+async function fetchWithRetries (
+  url: string,
+  init: RequestInit,
+  policy: UpstreamPolicy
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let retryAfterMs: number | undefined
+    let lastError: UpstreamError
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), policy.timeoutMs)
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal })
+
+      if (response.ok || response.status === 304) {
+        return response
+      }
+
+      lastError = new UpstreamError(
+        `Error HTTP ${response.status}: ${response.statusText}`,
+        url,
+        response.status
+      )
+
+      if (isClientError(lastError)) {
+        throw lastError
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+    } catch (error) {
+      if (error instanceof UpstreamError) throw error
+
+      const timedOut = error instanceof Error && error.name === 'AbortError'
+      lastError = new UpstreamError(
+        timedOut
+          ? `Timeout tras ${policy.timeoutMs} ms al consultar ${url}`
+          : `Error de red al consultar ${url}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+        url,
+        undefined,
+        timedOut
+      )
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    if (attempt >= policy.retries) {
+      throw lastError
+    }
+
+    // Si el origen pide esperar más de lo admitido, no tiene sentido reintentar
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+      throw lastError
+    }
+
+    const delayMs = retryAfterMs ?? getBackoffDelay(attempt, policy)
+    console.error(
+      `${lastError.message}. Reintento ${attempt + 1}/${
+        policy.retries
+      } en ${delayMs} ms`
+    )
+    await sleep(delayMs)
+  }
+}
+
+/**
+ * @description Calcula la espera del backoff exponencial con jitter completo
+ */
+function getBackoffDelay (attempt: number, policy: UpstreamPolicy): number {
+  const exponentialDelay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt
+  )
+  return Math.round(Math.random() * exponentialDelay)
+}
+
+/**
+ * @description Convierte la cabecera Retry-After (segundos o fecha HTTP) en milisegundos
+ */
+function parseRetryAfter (value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+/**
+ * @description Comprueba el circuito del host antes de una petición. Con el circuito abierto
+ * se rechaza la petición; al expirar se deja pasar una única petición de prueba.
+ */
+function acquireCircuit (host: string, url: string): CircuitState {
+  let circuit = circuits.get(host)
+
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: 0, probing: false }
+    circuits.set(host, circuit)
+  }
+
+  if (circuit.openUntil > 0) {
+    if (Date.now() < circuit.openUntil || circuit.probing) {
+      throw new CircuitOpenError(url, circuit.openUntil)
+    }
+    circuit.probing = true
+  }
+
+  return circuit
+}
+
+/**
+ * @description Registra una petición correcta y cierra el circuito
+ */
+function recordSuccess (circuit: CircuitState): void {
+  circuit.failures = 0
+  circuit.openUntil = 0
+  circuit.probing = false
+}
+
+/**
+ * @description Registra un fallo y abre el circuito al alcanzar el umbral o si falla la
+ * petición de prueba
+ */
+function recordFailure (
+  circuit: CircuitState,
+  host: string,
+  policy: UpstreamPolicy
+): void {
+  circuit.failures++
+
+  if (circuit.probing || circuit.failures >= policy.failureThreshold) {
+    circuit.openUntil = Date.now() + policy.openMs
+    circuit.probing = false
+    console.error(
+      `Circuito abierto para ${host} durante ${policy.openMs} ms tras ${circuit.failures} fallos consecutivos`
+    )
+  }
+}
+
+/**
+ * @description Espera el tiempo indicado
+ */
+function sleep (ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
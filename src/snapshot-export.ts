@@ -0,0 +1,31 @@
+import { exportSnapshot } from './services/snapshot.export'
+import { ENV } from './config/environment'
+import { initializeSources } from './config/sources'
+
+/**
+ * @function main
+ * @description Exporta un snapshot de los datos de los orígenes para servirlo sin conexión
+ * con SNAPSHOT_DIR. Uso: `bun run snapshot:export [directorio]` (por defecto SNAPSHOT_EXPORT_DIR).
+ */
+async function main () {
+  const rootDirectory = process.argv[2] || ENV.SNAPSHOT_EXPORT_DIR
+
+  await initializeSources(ENV)
+
+  const { manifest, directory } = await exportSnapshot(rootDirectory)
+
+  console.error(
+    `Snapshot ${manifest.version} exportado en ${directory}: ${manifest.entries.length} documentos (repositorio ${manifest.repositoryVersion})`
+  )
+  if (manifest.missing.length > 0) {
+    console.error(
+      `${manifest.missing.length} documentos no pudieron exportarse y se han anotado en el manifiesto`
+    )
+  }
+  console.error(`Para servirlo: SNAPSHOT_DIR=${directory}`)
+}
+
+main().catch(error => {
+  console.error('Error al exportar el snapshot:', error)
+  process.exit(1)
+})
@@ -0,0 +1,537 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  IntegratorDomain,
+  MaliciousDomain,
+  Repository
+} from '../types/repository'
+import { z } from 'zod'
+import { getRepository } from '../services/repository'
+import { describeDataFreshness } from '../services/cache'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  extractHostname,
+  getDomainLabel,
+  getHostnameScripts,
+  getHostnameSkeleton,
+  getRegistrableDomain,
+  isInternationalizedHostname,
+  isSameOrSubdomain,
+  normalizeDomain,
+  toUnicodeHostname
+} from '../utils/domain'
+import { isTypoOf, levenshteinDistance } from '../utils/similarity'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema de validación para la URL o hostname a verificar
+ */
+const UrlSchema = z
+  .string()
+  .min(1, 'Se requiere una URL o un hostname')
+  .describe(
+    'URL completa o hostname a verificar. Ejemplo: "https://app.sherry.social/swap" o "sherry.social"'
+  )
+
+/**
+ * @description Veredictos posibles de la verificación
+ */
+type DomainVerdict = 'malicious' | 'suspicious' | 'trusted' | 'unknown'
+
+/**
+ * @description Tipos de coincidencia detectados durante la verificación
+ */
+type MatchType =
+  | 'exact-blocklist'
+  | 'subdomain-blocklist'
+  | 'registrable-domain-blocklist'
+  | 'integrator-trusted'
+  | 'integrator-pending'
+  | 'integrator-rejected'
+  | 'homograph'
+  | 'mixed-script'
+  | 'typosquat'
+
+/**
+ * @description Motivo individual que contribuye al veredicto
+ */
+interface VerdictReason {
+  type: MatchType
+  detail: string
+}
+
+/**
+ * @description Resultado completo de la verificación de un dominio
+ */
+interface DomainSafetyReport {
+  verdict: DomainVerdict
+  safeToOpen: boolean
+  hostname: string
+  unicodeHostname: string
+  registrableDomain: string
+  reasons: VerdictReason[]
+  reportReason?: string
+  impersonating?: string
+  blocklistEntry?: MaliciousDomain
+  integrator?: IntegratorDomain
+}
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    input: z.string(),
+    repositoryVersion: z.string(),
+    repositoryLastUpdated: z.string(),
+    timestamp: z.string(),
+    snapshotVersion: z
+      .string()
+      .optional()
+      .describe('Versión del snapshot del que se sirvieron los datos'),
+    dataFreshness: z.string()
+  }),
+  verdict: z
+    .enum(['malicious', 'suspicious', 'trusted', 'unknown'])
+    .describe('Veredicto de la verificación'),
+  safeToOpen: z.boolean(),
+  hostname: z.string(),
+  unicodeHostname: z.string(),
+  registrableDomain: z.string(),
+  reasons: z.array(
+    z.object({
+      type: z.enum([
+        'exact-blocklist',
+        'subdomain-blocklist',
+        'registrable-domain-blocklist',
+        'integrator-trusted',
+        'integrator-pending',
+        'integrator-rejected',
+        'homograph',
+        'mixed-script',
+        'typosquat'
+      ]),
+      detail: z.string()
+    })
+  ),
+  reportReason: z.string().optional(),
+  impersonating: z
+    .string()
+    .optional()
+    .describe('Dominio legítimo que se intenta suplantar'),
+  blocklistEntry: z
+    .object({
+      domain: z.string(),
+      reportedAt: z.string(),
+      reportReason: z.string(),
+      similarTo: z.string().optional()
+    })
+    .optional(),
+  integrator: z
+    .object({
+      domain: z.string(),
+      state: z.enum(['trusted', 'pending', 'rejected']),
+      verifiedAt: z.string()
+    })
+    .optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface DomainSafetyParams {
+  url: string
+}
+
+/**
+ * @description Registra la herramienta check_domain_safety en el servidor MCP
+ */
+export function registerCheckDomainSafetyTool (server: McpServer) {
+  server.registerTool(
+    'check_domain_safety',
+    {
+      title: 'Verificación de seguridad de dominios',
+      description:
+        'Verifica si una URL o dominio es seguro antes de abrirlo o confiar en una mini aplicación. USAR ESTA HERRAMIENTA cuando se necesite saber si un enlace es seguro, si un dominio es malicioso o fraudulento, si una mini-app proviene de un integrador verificado, o antes de abrir URLs desconocidas relacionadas con blockchain. La herramienta compara el dominio con la lista de dominios maliciosos reportados (coincidencia exacta y subdominios; otro subdominio reportado del mismo dominio registrable solo lo hace sospechoso), con los dominios de integradores (trusted, pending, rejected), y detecta ataques de homógrafos IDN/punycode y typosquatting por distancia de edición respecto a dominios de integradores verificados. Devuelve un veredicto ("malicious", "suspicious", "trusted", "unknown"), el motivo del reporte y el dominio legítimo que se intenta suplantar.',
+      inputSchema: {
+        url: UrlSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: DomainSafetyParams) => {
+      try {
+        let hostname: string
+        try {
+          hostname = extractHostname(params.url)
+        } catch (error) {
+          return createErrorResponse(
+            `${
+              error instanceof Error ? error.message : String(error)
+            }. Proporciona una URL completa (https://ejemplo.com/ruta) o un hostname (ejemplo.com).`
+          )
+        }
+
+        const repository = await getRepository()
+
+        console.error(`Verificando seguridad del dominio: ${hostname}`)
+
+        const report = checkDomainSafety(hostname, repository)
+
+        const response = {
+          metadata: {
+            input: params.url,
+            repositoryVersion: repository.version,
+            repositoryLastUpdated: repository.lastUpdated,
+            timestamp: new Date().toISOString(),
+            snapshotVersion: getSnapshotVersion(),
+            dataFreshness: describeDataFreshness('repository')
+          },
+          ...report
+        }
+
+        return createStructuredResponse(summarizeReport(report), response)
+      } catch (error) {
+        return createErrorResponse(
+          `Error al verificar la seguridad del dominio: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica la URL e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Resume el veredicto de la verificación en una frase legible
+ */
+function summarizeReport (report: DomainSafetyReport): string {
+  const verdictLabels: Record<DomainVerdict, string> = {
+    malicious: 'MALICIOSO',
+    suspicious: 'SOSPECHOSO',
+    trusted: 'de confianza',
+    unknown: 'desconocido'
+  }
+
+  let summary = `El dominio ${report.hostname} es ${
+    verdictLabels[report.verdict]
+  }`
+
+  if (report.impersonating) {
+    summary += ` y parece suplantar a ${report.impersonating}`
+  }
+
+  summary += report.safeToOpen
+    ? '. Es seguro abrirlo.'
+    : '. No se recomienda abrirlo.'
+
+  if (report.reasons.length > 0) {
+    summary += ` Motivos: ${report.reasons
+      .map(reason => reason.detail)
+      .join('; ')}.`
+  }
+
+  return summary
+}
+
+/**
+ * @description Evalúa un hostname contra las listas del repositorio y calcula el veredicto
+ */
+function checkDomainSafety (
+  hostname: string,
+  repository: Repository
+): DomainSafetyReport {
+  const unicodeHostname = toUnicodeHostname(hostname)
+  const registrableDomain = getRegistrableDomain(hostname)
+  const reasons: VerdictReason[] = []
+
+  const report: DomainSafetyReport = {
+    verdict: 'unknown',
+    safeToOpen: false,
+    hostname,
+    unicodeHostname,
+    registrableDomain,
+    reasons
+  }
+
+  // 1. Lista de dominios maliciosos
+  const blocklistMatch = findBlocklistMatch(
+    hostname,
+    repository.maliciousDomains
+  )
+  if (blocklistMatch) {
+    reasons.push(blocklistMatch.reason)
+    report.verdict = 'malicious'
+    report.blocklistEntry = blocklistMatch.entry
+    report.reportReason = blocklistMatch.entry.reportReason
+    report.impersonating = blocklistMatch.entry.similarTo
+  }
+
+  // 2. Dominios de integradores registrados
+  const integrator = findIntegratorMatch(hostname, repository.integratorDomains)
+  if (integrator) {
+    report.integrator = integrator
+    reasons.push({
+      type: `integrator-${integrator.state}` as MatchType,
+      detail: `El dominio pertenece al integrador registrado "${integrator.domain}" con estado "${integrator.state}"`
+    })
+  }
+
+  // Un subdominio hermano en la lista no hace malicioso al hostname (ej: hosting compartido),
+  // pero sí sospechoso salvo que pertenezca a un integrador verificado
+  if (!blocklistMatch && integrator?.state !== 'trusted') {
+    const registrableReason = findRegistrableDomainBlocklistReason(
+      registrableDomain,
+      repository.maliciousDomains
+    )
+    if (registrableReason) reasons.push(registrableReason)
+  }
+
+  // Dominios legítimos que un atacante podría intentar suplantar
+  const legitimateDomains = getLegitimateDomains(repository)
+
+  // 3. Homógrafos IDN / punycode
+  if (isInternationalizedHostname(hostname)) {
+    const homographReason = detectHomograph(
+      unicodeHostname,
+      legitimateDomains
+    )
+    if (homographReason) {
+      reasons.push(homographReason.reason)
+      report.impersonating ??= homographReason.impersonating
+    }
+  }
+
+  // 4. Typosquatting respecto a dominios de integradores verificados
+  if (!integrator) {
+    const typosquat = detectTyposquat(registrableDomain, legitimateDomains)
+    if (typosquat) {
+      reasons.push(typosquat.reason)
+      report.impersonating ??= typosquat.impersonating
+    }
+  }
+
+  report.verdict = resolveVerdict(report)
+  report.safeToOpen = report.verdict === 'trusted'
+
+  return report
+}
+
+/**
+ * @description Busca el hostname en la lista de dominios maliciosos, considerando
+ * coincidencia exacta y subdominios (un dominio registrable en la lista cubre así todos
+ * sus subdominios)
+ */
+function findBlocklistMatch (
+  hostname: string,
+  maliciousDomains: MaliciousDomain[]
+): { entry: MaliciousDomain; reason: VerdictReason } | null {
+  let subdomainMatch: { entry: MaliciousDomain; reason: VerdictReason } | null =
+    null
+
+  for (const entry of maliciousDomains) {
+    const blockedDomain = normalizeDomain(entry.domain)
+
+    if (hostname === blockedDomain) {
+      return {
+        entry,
+        reason: {
+          type: 'exact-blocklist',
+          detail: `El dominio "${blockedDomain}" está reportado como malicioso: ${entry.reportReason}`
+        }
+      }
+    }
+
+    if (!subdomainMatch && isSameOrSubdomain(hostname, blockedDomain)) {
+      subdomainMatch = {
+        entry,
+        reason: {
+          type: 'subdomain-blocklist',
+          detail: `El hostname es un subdominio del dominio malicioso "${blockedDomain}": ${entry.reportReason}`
+        }
+      }
+    }
+
+  }
+
+  return subdomainMatch
+}
+
+/**
+ * @description Busca en la lista de dominios maliciosos otro subdominio del mismo dominio
+ * registrable. Solo es un motivo de sospecha: en dominios compartidos (ej: web.app) los
+ * subdominios pertenecen a propietarios distintos.
+ */
+function findRegistrableDomainBlocklistReason (
+  registrableDomain: string,
+  maliciousDomains: MaliciousDomain[]
+): VerdictReason | null {
+  for (const entry of maliciousDomains) {
+    const blockedDomain = normalizeDomain(entry.domain)
+
+    if (getRegistrableDomain(blockedDomain) === registrableDomain) {
+      return {
+        type: 'registrable-domain-blocklist',
+        detail: `El hostname comparte el dominio registrable "${registrableDomain}" con el dominio malicioso "${blockedDomain}": ${entry.reportReason}`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * @description Busca el integrador registrado más específico al que pertenece el hostname
+ */
+function findIntegratorMatch (
+  hostname: string,
+  integratorDomains: IntegratorDomain[]
+): IntegratorDomain | undefined {
+  return integratorDomains
+    .filter(integrator =>
+      isSameOrSubdomain(hostname, normalizeDomain(integrator.domain))
+    )
+    .sort((a, b) => b.domain.length - a.domain.length)[0]
+}
+
+/**
+ * @description Obtiene los dominios legítimos conocidos: integradores verificados
+ * y dominios suplantados declarados en la lista de dominios maliciosos
+ */
+function getLegitimateDomains (repository: Repository): string[] {
+  const domains = new Set<string>()
+
+  repository.integratorDomains
+    .filter(integrator => integrator.state === 'trusted')
+    .forEach(integrator => domains.add(normalizeDomain(integrator.domain)))
+
+  repository.maliciousDomains
+    .filter(entry => entry.similarTo)
+    .forEach(entry => domains.add(normalizeDomain(entry.similarTo as string)))
+
+  return Array.from(domains)
+}
+
+/**
+ * @description Detecta si un hostname internacionalizado imita visualmente a un dominio legítimo
+ */
+function detectHomograph (
+  unicodeHostname: string,
+  legitimateDomains: string[]
+): { reason: VerdictReason; impersonating?: string } | null {
+  const skeleton = getHostnameSkeleton(unicodeHostname)
+  const skeletonRegistrable = getRegistrableDomain(skeleton)
+
+  const impersonated = legitimateDomains.find(
+    domain =>
+      isSameOrSubdomain(skeleton, domain) ||
+      getRegistrableDomain(domain) === skeletonRegistrable
+  )
+
+  if (impersonated) {
+    return {
+      reason: {
+        type: 'homograph',
+        detail: `El hostname "${unicodeHostname}" usa caracteres visualmente idénticos para imitar a "${impersonated}"`
+      },
+      impersonating: impersonated
+    }
+  }
+
+  const scripts = getHostnameScripts(unicodeHostname)
+  if (scripts.length > 1) {
+    return {
+      reason: {
+        type: 'mixed-script',
+        detail: `El hostname "${unicodeHostname}" mezcla sistemas de escritura (${scripts.join(
+          ', '
+        )}), una técnica habitual de suplantación`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * @description Detecta si el dominio registrable es una variante tipográfica
+ * de un dominio legítimo
+ */
+function detectTyposquat (
+  registrableDomain: string,
+  legitimateDomains: string[]
+): { reason: VerdictReason; impersonating: string } | null {
+  const label = getDomainLabel(registrableDomain)
+
+  let bestMatch: { domain: string; distance: number } | null = null
+
+  for (const domain of legitimateDomains) {
+    const legitimateRegistrable = getRegistrableDomain(domain)
+    if (legitimateRegistrable === registrableDomain) continue
+
+    const legitimateLabel = getDomainLabel(legitimateRegistrable)
+    const isTyposquat =
+      isTypoOf(registrableDomain, legitimateRegistrable) ||
+      label === legitimateLabel ||
+      isTypoOf(label, legitimateLabel)
+
+    if (!isTyposquat) continue
+
+    const distance = levenshteinDistance(
+      registrableDomain,
+      legitimateRegistrable
+    )
+    if (!bestMatch || distance < bestMatch.distance) {
+      bestMatch = { domain: legitimateRegistrable, distance }
+    }
+  }
+
+  if (!bestMatch) return null
+
+  return {
+    reason: {
+      type: 'typosquat',
+      detail: `El dominio "${registrableDomain}" es muy similar al dominio verificado "${bestMatch.domain}" (distancia de edición: ${bestMatch.distance})`
+    },
+    impersonating: bestMatch.domain
+  }
+}
+
+/**
+ * @description Resuelve el veredicto final a partir de los motivos detectados
+ */
+function resolveVerdict (report: DomainSafetyReport): DomainVerdict {
+  const types = report.reasons.map(reason => reason.type)
+
+  if (report.blocklistEntry) {
+    return 'malicious'
+  }
+
+  if (
+    types.includes('homograph') ||
+    types.includes('mixed-script') ||
+    types.includes('typosquat') ||
+    types.includes('registrable-domain-blocklist') ||
+    types.includes('integrator-rejected')
+  ) {
+    return 'suspicious'
+  }
+
+  if (types.includes('integrator-trusted')) {
+    return 'trusted'
+  }
+
+  return 'unknown'
+}
@@ -0,0 +1,392 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { IndexedToken } from '../types/tokens'
+import type { RoundingMode } from '../utils/amounts'
+import { z } from 'zod'
+import { findTokensOnChain, loadTokenIndex } from '../services/tokens.search'
+import { getChainName, getExplorerUrl, resolveChain } from '../services/chains'
+import { getTokenListProvider } from '../services/providers'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  AmountConversionError,
+  ROUNDING_MODES,
+  formatAmount,
+  formatUnits,
+  parseBaseUnits,
+  parseUnits
+} from '../utils/amounts'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Número máximo de cifras significativas de una cantidad numérica que se acepta sin
+ * riesgo de que se haya redondeado al representarla como número de coma flotante
+ */
+const MAX_SAFE_SIGNIFICANT_DIGITS = 15
+
+/**
+ * @description Esquema para el token a convertir
+ */
+const TokenSchema = z
+  .string()
+  .min(1)
+  .describe(
+    'Símbolo (ej: "USDC") o dirección completa del token. Si el símbolo corresponde a varios tokens en la cadena, se debe indicar la dirección.'
+  )
+
+/**
+ * @description Esquema para la cadena del token
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .describe('ID o nombre de la cadena del token. Ejemplo: 43114 o "avalanche"')
+
+/**
+ * @description Esquema para la cantidad a convertir
+ */
+const AmountSchema = z
+  .union([z.string(), z.number()])
+  .describe(
+    'Cantidad a convertir. Preferiblemente como texto para no perder precisión: "1.5" o "1.5e3" (legible) o "1500000" (unidades base).'
+  )
+
+/**
+ * @description Esquema para el sentido de la conversión
+ */
+const DirectionSchema = z
+  .enum(['toBaseUnits', 'fromBaseUnits'])
+  .optional()
+  .default('toBaseUnits')
+  .describe(
+    'toBaseUnits: de cantidad legible a unidades base (ej: 1.5 USDC → 1500000); fromBaseUnits: de unidades base a cantidad legible. Por defecto: toBaseUnits'
+  )
+
+/**
+ * @description Esquema para filtrar por protocolo
+ */
+const ProtocolSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Protocolo (o alias) cuya lista de tokens debe incluir el token. Ejemplo: "lfj"'
+  )
+
+/**
+ * @description Esquema para el locale
+ */
+const LocaleSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Locale (BCP 47) con el que se formatea el resultado y con el que está escrita la cantidad legible en texto, si usa separadores de miles o coma decimal (las cantidades numéricas no dependen del locale). Ejemplo: "es-ES" ("1.234,5"). Por defecto: "en-US"'
+  )
+
+/**
+ * @description Esquema para los decimales a mostrar
+ */
+const DisplayDecimalsSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(255)
+  .optional()
+  .describe(
+    'Decimales con los que se muestra la cantidad legible en formatted. Si se omite, se muestran todos los decimales significativos, sin redondear.'
+  )
+
+/**
+ * @description Esquema para el modo de redondeo
+ */
+const RoundingSchema = z
+  .enum(ROUNDING_MODES)
+  .optional()
+  .default('down')
+  .describe(
+    'Modo de redondeo de formatted cuando displayDecimals es menor que los decimales del token: down (hacia cero), up (alejándose de cero), halfUp, halfDown o halfEven. Por defecto: down, para no mostrar más de lo que hay'
+  )
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    direction: z.enum(['toBaseUnits', 'fromBaseUnits']),
+    input: z.string().describe('Cantidad recibida'),
+    locale: z.string(),
+    timestamp: z.string(),
+    snapshotVersion: z
+      .string()
+      .optional()
+      .describe('Versión del snapshot del que se sirvieron los datos')
+  }),
+  token: z.object({
+    symbol: z.string(),
+    name: z.string(),
+    address: z.string(),
+    chainId: z.string(),
+    chainName: z.string().optional(),
+    decimals: z.number(),
+    protocols: z
+      .array(z.string())
+      .describe('Protocolos cuyas listas incluyen el token'),
+    explorerUrl: z.string().optional()
+  }),
+  baseUnits: z
+    .string()
+    .describe(
+      'Cantidad en unidades base (entero, como texto para no perder precisión)'
+    ),
+  amount: z
+    .string()
+    .describe(
+      'Cantidad legible exacta, con punto decimal y sin separadores de miles'
+    ),
+  formatted: z
+    .string()
+    .describe(
+      'Cantidad legible formateada según el locale y displayDecimals'
+    ),
+  rounded: z
+    .boolean()
+    .describe('Si formatted está redondeada respecto a la cantidad exacta'),
+  roundingMode: z.enum(ROUNDING_MODES).optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface ConvertTokenAmountParams {
+  token: string
+  chain: string | number
+  amount: string | number
+  direction?: 'toBaseUnits' | 'fromBaseUnits'
+  protocol?: string
+  locale?: string
+  displayDecimals?: number
+  rounding?: RoundingMode
+}
+
+/**
+ * @description Registra la herramienta convert_token_amount en el servidor MCP
+ */
+export function registerConvertTokenAmountTool (server: McpServer) {
+  server.registerTool(
+    'convert_token_amount',
+    {
+      title: 'Conversión de cantidades de tokens',
+      description:
+        'Convierte cantidades de un token entre su valor legible (ej: 1.5 USDC) y sus unidades base (ej: 1500000), usando los decimales de las listas de tokens y aritmética entera exacta. Resuelve el token por símbolo o dirección en una cadena y formatea el resultado según un locale, con el número de decimales y el modo de redondeo indicados. Rechaza las conversiones que perderían precisión, como una cantidad con más decimales de los que admite el token. USAR ESTA HERRAMIENTA siempre que haya que pasar una cantidad a unidades base para una transacción o mostrar un saldo en unidades base, en lugar de calcularlo a mano.',
+      inputSchema: {
+        token: TokenSchema,
+        chain: ChainSchema,
+        amount: AmountSchema,
+        direction: DirectionSchema,
+        protocol: ProtocolSchema,
+        locale: LocaleSchema,
+        displayDecimals: DisplayDecimalsSchema,
+        rounding: RoundingSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: ConvertTokenAmountParams) => {
+      try {
+        const { direction = 'toBaseUnits', rounding = 'down' } = params
+
+        const chain = resolveChain(params.chain)
+        if (!chain) {
+          return createErrorResponse(
+            `Cadena no reconocida: "${params.chain}". Usa get_chain_info para consultar las cadenas soportadas.`
+          )
+        }
+        const chainId = String(chain.id)
+
+        let protocol: string | undefined
+        if (params.protocol) {
+          protocol = getTokenListProvider(params.protocol)?.name
+          if (!protocol) {
+            return createErrorResponse(
+              `El protocolo "${params.protocol}" no tiene lista de tokens.`
+            )
+          }
+        }
+
+        const index = await loadTokenIndex()
+        const candidates = findTokensOnChain(
+          index.tokens,
+          chainId,
+          params.token,
+          protocol
+        )
+
+        if (candidates.length === 0) {
+          return createErrorResponse(
+            `No se encontró el token "${params.token}" en ${chain.name}${
+              protocol ? ` en la lista de ${protocol}` : ''
+            }. Usa search_tokens para buscarlo por nombre o dirección parcial.${
+              index.unavailableProtocols.length > 0
+                ? ` No se pudieron consultar las listas de: ${index.unavailableProtocols.join(
+                    ', '
+                  )}.`
+                : ''
+            }`
+          )
+        }
+
+        if (candidates.length > 1) {
+          return createErrorResponse(
+            `El símbolo "${params.token}" corresponde a ${
+              candidates.length
+            } tokens en ${chain.name}: ${candidates
+              .map(describeCandidate)
+              .join('; ')}. Indica la dirección del token que quieres convertir.`
+          )
+        }
+
+        const [token] = candidates
+
+        // Decimales de la lista indicada o, sin protocolo, los de todas las listas si coinciden
+        const decimals = protocol
+          ? token.decimalsByProtocol[protocol]
+          : resolveDecimals(token)
+        if (decimals === undefined) {
+          return createErrorResponse(
+            `Las listas de tokens no coinciden en los decimales de ${
+              token.symbol
+            } (${token.address}): ${Object.entries(token.decimalsByProtocol)
+              .map(([name, value]) => `${name}: ${value}`)
+              .join(', ')}. Indica el protocolo cuya lista debe usarse.`
+          )
+        }
+
+        const input = toAmountText(params.amount, direction)
+
+        // Las cantidades numéricas ya usan punto decimal: el locale solo se aplica al texto
+        const baseUnits =
+          direction === 'toBaseUnits'
+            ? parseUnits(
+                input,
+                decimals,
+                typeof params.amount === 'string' ? params.locale : undefined
+              )
+            : parseBaseUnits(input)
+        const amount = formatUnits(baseUnits, decimals)
+        const formatted = formatAmount(baseUnits, decimals, {
+          locale: params.locale,
+          fractionDigits: params.displayDecimals,
+          rounding
+        })
+
+        console.error(
+          `Conversión de ${input} ${token.symbol} (${chainId}, ${decimals} decimales): ${direction}`
+        )
+
+        const summary =
+          direction === 'toBaseUnits'
+            ? `${amount} ${token.symbol} = ${baseUnits} unidades base (${decimals} decimales).`
+            : `${baseUnits} unidades base = ${amount} ${token.symbol} (${decimals} decimales).`
+
+        return createStructuredResponse(
+          `${summary} Formateado: ${formatted.text} ${token.symbol}${
+            formatted.rounded ? ` (redondeado, modo ${rounding})` : ''
+          }. Token: ${describeCandidate({ ...token, decimals })}.`,
+          {
+            metadata: {
+              direction,
+              input,
+              locale: params.locale ?? 'en-US',
+              timestamp: new Date().toISOString(),
+              snapshotVersion: getSnapshotVersion()
+            },
+            token: {
+              symbol: token.symbol,
+              name: token.name,
+              address: token.address,
+              chainId: token.chainId,
+              chainName: getChainName(token.chainId),
+              decimals,
+              protocols: token.protocols,
+              explorerUrl: getExplorerUrl(token.chainId, token.address)
+            },
+            baseUnits: baseUnits.toString(),
+            amount,
+            formatted: formatted.text,
+            rounded: formatted.rounded,
+            roundingMode:
+              params.displayDecimals !== undefined ? rounding : undefined
+          }
+        )
+      } catch (error) {
+        if (error instanceof AmountConversionError) {
+          return createErrorResponse(error.message)
+        }
+
+        return createErrorResponse(
+          `Error al convertir la cantidad: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Obtiene la cantidad como texto. Los números solo se aceptan si no pueden haber
+ * perdido precisión al representarse en coma flotante.
+ * @throws {AmountConversionError} Si el número no es exacto
+ */
+function toAmountText (
+  amount: string | number,
+  direction: ConvertTokenAmountParams['direction']
+): string {
+  if (typeof amount === 'string') return amount
+
+  const significantDigits = String(amount)
+    .replace(/e.*$/i, '')
+    .replace(/\D/g, '')
+    .replace(/^0+/, '').length
+
+  if (
+    !Number.isFinite(amount) ||
+    (direction === 'fromBaseUnits' && !Number.isSafeInteger(amount)) ||
+    significantDigits > MAX_SAFE_SIGNIFICANT_DIGITS
+  ) {
+    throw new AmountConversionError(
+      `La cantidad ${amount} no se puede representar con exactitud como número. Pásala como texto para no perder precisión.`
+    )
+  }
+
+  return String(amount)
+}
+
+/**
+ * @description Obtiene los decimales del token si todas las listas que lo incluyen coinciden
+ * @returns {number | undefined} Decimales, o undefined si las listas no coinciden
+ */
+function resolveDecimals (token: IndexedToken): number | undefined {
+  const values = new Set(Object.values(token.decimalsByProtocol))
+  return values.size === 1 ? values.values().next().value : undefined
+}
+
+/**
+ * @description Describe un token candidato en texto
+ */
+function describeCandidate (token: IndexedToken): string {
+  return `${token.symbol} (${token.name}) ${token.address}, ${
+    token.decimals
+  } decimales, listado por ${token.protocols.join(', ')}`
+}
@@ -0,0 +1,586 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  CustomizeMiniAppEndpointParams,
+  CustomizeMiniAppParams,
+  CustomizeMiniAppTemplateParams,
+  MiniAppEndpoint
+} from '../types/repository'
+import { z } from 'zod'
+import { getRepository, getTemplates } from '../services/repository'
+import {
+  fetchMiniAppMetadata,
+  fetchTemplatesMetadata,
+  filterTemplates
+} from '../services/templates'
+import { getSnapshotVersion } from '../services/snapshot'
+import { normalizeAddresses } from '../utils/address'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema de validación para el tipo de personalización
+ */
+const CustomizationTypeSchema = z
+  .enum(['template', 'endpoint'])
+  .describe(
+    'Origen de la mini aplicación. "template" parte de una plantilla del repositorio (requiere categoryId y templateId), "endpoint" parte de un endpoint existente (requiere host y endpoint)'
+  )
+
+/**
+ * @description Esquema para el identificador de categoría de plantilla
+ */
+const CategoryIdSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Identificador de la categoría de la plantilla (solo para type="template"). Ejemplo: "swap"'
+  )
+
+/**
+ * @description Esquema para el identificador de plantilla
+ */
+const TemplateIdSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Identificador de la plantilla (solo para type="template"). Se obtiene con get_metadata_of_template'
+  )
+
+/**
+ * @description Esquema para el host del endpoint
+ */
+const HostSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Host del endpoint de la mini aplicación (solo para type="endpoint"). Ejemplo: "app.sherry.social"'
+  )
+
+/**
+ * @description Esquema para la ruta del endpoint
+ */
+const EndpointPathSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Ruta del endpoint de la mini aplicación (solo para type="endpoint"). Ejemplo: "/api/swap"'
+  )
+
+/**
+ * @description Esquema para los valores personalizados
+ */
+const CustomParamsSchema = z
+  .record(z.any())
+  .optional()
+  .default({})
+  .describe(
+    'Valores a aplicar sobre los metadatos. Claves admitidas: campos generales ("title", "description", "icon", "url"), nombres de parámetros de las acciones (ej: "tokenIn", "amount"), "label" o "address" (si hay una sola acción) o rutas explícitas como "actions.0.label"'
+  )
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    type: z.enum(['template', 'endpoint']),
+    source: z
+      .record(z.any())
+      .describe('Plantilla o endpoint del que parten los metadatos'),
+    appliedFields: z.array(z.string()),
+    ignoredParams: z.array(z.string()),
+    unsetFields: z
+      .array(z.string())
+      .describe('Rutas de los campos que todavía no tienen valor'),
+    addressIssues: z
+      .array(
+        z.object({
+          path: z.string(),
+          address: z.string(),
+          issue: z.enum(['invalidChecksum', 'invalidFormat']),
+          message: z.string()
+        })
+      )
+      .describe(
+        'Direcciones con checksum EIP-55 incorrecto (posible manipulación) o formato inválido. El resto de direcciones se devuelven con checksum.'
+      ),
+    readyToPublish: z.boolean(),
+    timestamp: z.string(),
+    snapshotVersion: z
+      .string()
+      .optional()
+      .describe('Versión del snapshot del que se sirvieron los datos'),
+    note: z.string().optional()
+  }),
+  miniApp: z
+    .record(z.any())
+    .describe('Documento de metadatos de la mini aplicación')
+}
+
+/**
+ * @description Campos generales de los metadatos de una mini aplicación
+ */
+const TOP_LEVEL_FIELDS = ['title', 'description', 'icon', 'url', 'baseUrl']
+
+/**
+ * @description Campos de una acción que pueden asignarse directamente cuando hay una sola acción
+ */
+const SINGLE_ACTION_FIELDS = ['label', 'address', 'functionName', 'path']
+
+/**
+ * @description Patrón de valores que representan un marcador sin completar
+ */
+const PLACEHOLDER_PATTERN = /^(\{\{.*\}\}|<.*>|TODO|TBD)$/i
+
+/**
+ * @description Segmentos de ruta que darían acceso al prototipo de los objetos
+ */
+const FORBIDDEN_PATH_SEGMENTS = ['__proto__', 'prototype', 'constructor']
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface CustomizeParams {
+  type: 'template' | 'endpoint'
+  categoryId?: string
+  templateId?: string
+  host?: string
+  endpoint?: string
+  params?: Record<string, any>
+}
+
+/**
+ * @description Resultado de aplicar los valores personalizados sobre los metadatos
+ */
+interface CustomizationResult {
+  document: Record<string, any>
+  appliedFields: string[]
+  ignoredParams: string[]
+}
+
+/**
+ * @description Registra la herramienta customize_miniapp en el servidor MCP
+ */
+export function registerCustomizeMiniAppTool (server: McpServer) {
+  server.registerTool(
+    'customize_miniapp',
+    {
+      title: 'Personalización de mini aplicaciones',
+      description:
+        'Genera un documento de metadatos de mini aplicación listo para publicar a partir de una plantilla oficial o de un endpoint existente, aplicando valores personalizados. USAR ESTA HERRAMIENTA cuando se necesite crear o adaptar una mini-app: cambiar el título, la descripción, las etiquetas de los botones, las direcciones de tokens o los montos de una plantilla de swap, staking o lending, o reutilizar una mini-app publicada con otros valores. Con type="template" se indica categoryId y templateId (obtenidos con get_metadata_of_template); con type="endpoint" se indica host y endpoint (obtenidos con get_miniapp_endpoints). Devuelve el documento final y la lista de campos que todavía no tienen valor.',
+      inputSchema: {
+        type: CustomizationTypeSchema,
+        categoryId: CategoryIdSchema,
+        templateId: TemplateIdSchema,
+        host: HostSchema,
+        endpoint: EndpointPathSchema,
+        params: CustomParamsSchema
+      },
+      outputSchema: OutputSchema,
+      // Solo genera el documento: no publica ni modifica nada
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (input: CustomizeParams) => {
+      try {
+        const customization = toCustomizeMiniAppParams(input)
+
+        if (typeof customization === 'string') {
+          return createErrorResponse(customization)
+        }
+
+        const source =
+          customization.type === 'template'
+            ? await loadTemplateSource(customization)
+            : await loadEndpointSource(customization)
+
+        if (typeof source === 'string') {
+          return createErrorResponse(source)
+        }
+
+        const customized = applyCustomizations(
+          source.metadata,
+          customization.params
+        )
+        const { appliedFields, ignoredParams } = customized
+        // Las direcciones, de la plantilla o personalizadas, se publican con checksum EIP-55
+        const { document, issues: addressIssues } = normalizeAddresses(
+          customized.document
+        )
+        const unsetFields = findUnsetFields(document)
+
+        const response = {
+          metadata: {
+            type: customization.type,
+            source: source.info,
+            appliedFields,
+            ignoredParams,
+            unsetFields,
+            addressIssues,
+            readyToPublish:
+              unsetFields.length === 0 && addressIssues.length === 0,
+            timestamp: new Date().toISOString(),
+            snapshotVersion: getSnapshotVersion(),
+            note:
+              ignoredParams.length > 0
+                ? 'Algunos parámetros no coinciden con ningún campo de los metadatos. Usa rutas explícitas como "actions.0.label" para asignarlos.'
+                : undefined
+          },
+          miniApp: document
+        }
+
+        return createStructuredResponse(
+          `Mini aplicación generada a partir ${
+            customization.type === 'template'
+              ? `de la plantilla "${customization.templateId}"`
+              : `del endpoint ${customization.host}${customization.endpoint}`
+          }. Campos aplicados: ${appliedFields.length}${
+            ignoredParams.length > 0
+              ? `; parámetros ignorados: ${ignoredParams.join(', ')}`
+              : ''
+          }. ${
+            unsetFields.length === 0
+              ? ''
+              : `Faltan ${unsetFields.length} campos por completar: ${unsetFields.join(
+                  ', '
+                )}. `
+          }${
+            addressIssues.length === 0
+              ? ''
+              : `Direcciones que no superan la validación EIP-55 (posible manipulación o error de copia): ${addressIssues
+                  .map(
+                    issue =>
+                      `${issue.path} (${issue.address}): ${issue.message}`
+                  )
+                  .join('; ')}. `
+          }${response.metadata.readyToPublish ? 'Lista para publicar.' : ''}`.trim(),
+          response
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al personalizar la mini aplicación: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica los parámetros e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Convierte los parámetros de la herramienta en CustomizeMiniAppParams,
+ * o devuelve un mensaje de error si faltan campos requeridos
+ */
+function toCustomizeMiniAppParams (
+  input: CustomizeParams
+): CustomizeMiniAppParams | string {
+  const params = input.params ?? {}
+
+  if (input.type === 'template') {
+    if (!input.categoryId || !input.templateId) {
+      return 'Para type="template" se requieren categoryId y templateId. Usa get_metadata_of_template para consultar las plantillas disponibles.'
+    }
+
+    return {
+      type: 'template',
+      categoryId: input.categoryId,
+      templateId: input.templateId,
+      params
+    }
+  }
+
+  if (!input.host || !input.endpoint) {
+    return 'Para type="endpoint" se requieren host y endpoint. Usa get_miniapp_endpoints para consultar los endpoints disponibles.'
+  }
+
+  return {
+    type: 'endpoint',
+    host: input.host,
+    endpoint: input.endpoint.startsWith('/')
+      ? input.endpoint
+      : `/${input.endpoint}`,
+    params
+  }
+}
+
+/**
+ * @description Obtiene los metadatos de una plantilla mediante el mismo flujo que
+ * get_metadata_of_template
+ */
+async function loadTemplateSource (
+  customization: CustomizeMiniAppTemplateParams
+): Promise<
+  { metadata: Record<string, any>; info: Record<string, any> } | string
+> {
+  const repositoryData = await getTemplates()
+  const templateId = customization.templateId.toLowerCase()
+
+  const match = filterTemplates(repositoryData, customization.categoryId).find(
+    ({ template }) => template.id.toLowerCase() === templateId
+  )
+
+  if (!match) {
+    return `No se encontró la plantilla "${customization.templateId}" en la categoría "${customization.categoryId}". Usa get_metadata_of_template para consultar las plantillas disponibles.`
+  }
+
+  const [templateMetadata] = await fetchTemplatesMetadata([match], 'full')
+
+  if (!templateMetadata || templateMetadata.templateId === 'error') {
+    return `No se pudieron obtener los metadatos de la plantilla "${customization.templateId}". Intenta nuevamente más tarde.`
+  }
+
+  // El documento de respaldo es otra plantilla: no puede publicarse como la solicitada
+  if (templateMetadata.usedFallback) {
+    return `Los metadatos de la plantilla "${customization.templateId}" no están disponibles (solo se obtuvo el documento de respaldo). Intenta nuevamente más tarde.`
+  }
+
+  return {
+    metadata: templateMetadata.metadata,
+    info: {
+      templateId: templateMetadata.templateId,
+      templateName: templateMetadata.templateName,
+      category: templateMetadata.category,
+      protocol: templateMetadata.protocol,
+      metadataUrl: `${match.baseUrl}${match.template.endpoint}`
+    }
+  }
+}
+
+/**
+ * @description Obtiene los metadatos publicados por un endpoint de mini aplicación,
+ * validando su estado en el repositorio. Solo se consultan endpoints registrados, de modo
+ * que la herramienta no realiza peticiones a hosts arbitrarios.
+ */
+async function loadEndpointSource (
+  customization: CustomizeMiniAppEndpointParams
+): Promise<
+  { metadata: Record<string, any>; info: Record<string, any> } | string
+> {
+  const repository = await getRepository()
+  const host = customization.host.toLowerCase()
+
+  const registeredEndpoint: MiniAppEndpoint | undefined =
+    repository.miniAppEndpoints.find(
+      endpoint =>
+        endpoint.host.toLowerCase() === host &&
+        endpoint.endpoint === customization.endpoint
+    )
+
+  if (!registeredEndpoint) {
+    return `El endpoint ${customization.host}${customization.endpoint} no está registrado en el repositorio. Usa get_miniapp_endpoints para consultar los endpoints disponibles.`
+  }
+
+  if (registeredEndpoint.state === 'rejected') {
+    return `El endpoint ${customization.host}${customization.endpoint} está marcado como rechazado en el repositorio y no puede utilizarse como base para una mini aplicación.`
+  }
+
+  const protocol = registeredEndpoint.protocol || 'https'
+  const metadataUrl = `${protocol}://${registeredEndpoint.host}${registeredEndpoint.endpoint}`
+  const metadata = await fetchMiniAppMetadata(metadataUrl)
+
+  return {
+    metadata,
+    info: {
+      host: customization.host,
+      endpoint: customization.endpoint,
+      metadataUrl,
+      state: registeredEndpoint.state,
+      category: registeredEndpoint.category,
+      subcategory: registeredEndpoint.subcategory
+    }
+  }
+}
+
+/**
+ * @description Aplica los valores personalizados sobre una copia de los metadatos
+ */
+function applyCustomizations (
+  metadata: Record<string, any>,
+  params: Record<string, any>
+): CustomizationResult {
+  const document = structuredClone(metadata)
+  const appliedFields: string[] = []
+  const ignoredParams: string[] = []
+  const actions: any[] = Array.isArray(document.actions) ? document.actions : []
+
+  for (const [key, value] of Object.entries(params)) {
+    // 1. Rutas explícitas: "actions.0.label" o "actions[0].label"
+    if (/[.[]/.test(key)) {
+      const path = toPath(key)
+      if (setByPath(document, path, value)) {
+        appliedFields.push(path.join('.'))
+      } else {
+        ignoredParams.push(key)
+      }
+      continue
+    }
+
+    // 2. Campos generales de la mini aplicación
+    if (TOP_LEVEL_FIELDS.includes(key)) {
+      document[key] = value
+      appliedFields.push(key)
+      continue
+    }
+
+    // 3. Parámetros de las acciones que coinciden por nombre
+    const matchedPaths = assignActionParam(actions, key, value)
+    if (matchedPaths.length > 0) {
+      appliedFields.push(...matchedPaths)
+      continue
+    }
+
+    // 4. Campos de la acción cuando solo hay una
+    if (SINGLE_ACTION_FIELDS.includes(key) && actions.length === 1) {
+      actions[0][key] = value
+      appliedFields.push(`actions.0.${key}`)
+      continue
+    }
+
+    // 5. Otros campos existentes en el nivel superior (solo propiedades propias)
+    if (
+      Object.hasOwn(document, key) &&
+      !FORBIDDEN_PATH_SEGMENTS.includes(key)
+    ) {
+      document[key] = value
+      appliedFields.push(key)
+      continue
+    }
+
+    ignoredParams.push(key)
+  }
+
+  return { document, appliedFields, ignoredParams }
+}
+
+/**
+ * @description Asigna un valor a los parámetros de acción cuyo nombre coincide con la clave
+ * @returns {string[]} Rutas de los campos asignados
+ */
+function assignActionParam (actions: any[], key: string, value: any): string[] {
+  const assignedPaths: string[] = []
+  const lowerCaseKey = key.toLowerCase()
+
+  actions.forEach((action, actionIndex) => {
+    if (!Array.isArray(action?.params)) return
+
+    action.params.forEach((param: any, paramIndex: number) => {
+      if (
+        typeof param?.name === 'string' &&
+        param.name.toLowerCase() === lowerCaseKey
+      ) {
+        param.value = value
+        assignedPaths.push(
+          `actions.${actionIndex}.params.${paramIndex}.value (${param.name})`
+        )
+      }
+    })
+  })
+
+  return assignedPaths
+}
+
+/**
+ * @description Convierte una ruta con puntos o corchetes en una lista de segmentos.
+ * Devuelve una lista vacía si la ruta contiene segmentos que modificarían un prototipo.
+ */
+function toPath (key: string): string[] {
+  const path = key
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0)
+
+  return path.some(segment => FORBIDDEN_PATH_SEGMENTS.includes(segment))
+    ? []
+    : path
+}
+
+/**
+ * @description Asigna un valor en una ruta del documento. Solo se crean propiedades
+ * nuevas en el último segmento; los contenedores intermedios deben existir.
+ * @returns {boolean} true si el valor se asignó
+ */
+function setByPath (
+  target: Record<string, any>,
+  path: string[],
+  value: any
+): boolean {
+  if (path.length === 0) return false
+
+  let current: any = target
+
+  for (const segment of path.slice(0, -1)) {
+    if (current === null || typeof current !== 'object') return false
+    if (!Object.hasOwn(current, segment)) return false
+    current = current[segment]
+  }
+
+  if (current === null || typeof current !== 'object') return false
+
+  current[path[path.length - 1]] = value
+  return true
+}
+
+/**
+ * @description Indica si un valor se considera sin completar
+ */
+function isUnsetValue (value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' &&
+      (value.trim() === '' || PLACEHOLDER_PATTERN.test(value.trim())))
+  )
+}
+
+/**
+ * @description Recorre el documento y devuelve las rutas de los campos sin valor.
+ * Los parámetros de acción sin "value" también se consideran pendientes.
+ */
+function findUnsetFields (
+  value: any,
+  path: string[] = [],
+  unsetFields: string[] = []
+): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      findUnsetFields(item, [...path, String(index)], unsetFields)
+    )
+    return unsetFields
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const isActionParam =
+      path.length >= 2 &&
+      path[path.length - 2] === 'params' &&
+      typeof value.name === 'string'
+
+    if (isActionParam && !('value' in value)) {
+      unsetFields.push(`${[...path, 'value'].join('.')} (${value.name})`)
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      findUnsetFields(child, [...path, key], unsetFields)
+    }
+    return unsetFields
+  }
+
+  if (isUnsetValue(value)) {
+    unsetFields.push(path.join('.'))
+  }
+
+  return unsetFields
+}
@@ -0,0 +1,185 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ChainInfo } from '../types/chains'
+import { z } from 'zod'
+import { getChains, resolveChain } from '../services/chains'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema para el identificador de cadena a resolver
+ */
+const ChainSchema = z
+  .union([z.string(), z.number(), z.null()])
+  .transform(val => (val === null ? undefined : val))
+  .optional()
+  .describe(
+    'ID numérico, nombre o alias de la cadena. Ejemplo: 43114, "43113", "avax", "fuji", "ethereum". Puede ser null u omitirse para listar todas las cadenas.'
+  )
+
+/**
+ * @description Esquema para incluir redes de prueba en el listado
+ */
+const IncludeTestnetsSchema = z
+  .boolean()
+  .optional()
+  .default(true)
+  .describe(
+    'Incluir redes de prueba (ej: Avalanche Fuji) al listar todas las cadenas. Por defecto: true'
+  )
+
+/**
+ * @description Esquema de salida de una cadena
+ */
+const ChainResultSchema = z.object({
+  id: z.number().describe('ID numérico de la cadena (EIP-155)'),
+  name: z.string(),
+  aliases: z.array(z.string()).describe('Alias aceptados por las herramientas'),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number(),
+    wrapped: z
+      .object({
+        name: z.string(),
+        symbol: z.string(),
+        address: z.string(),
+        decimals: z.number()
+      })
+      .describe('Token ERC-20 en el que se envuelve la moneda nativa')
+  }),
+  testnet: z.boolean(),
+  explorer: z.object({
+    name: z.string(),
+    url: z.string(),
+    tokenUrl: z.string().describe('Patrón con el marcador {address}'),
+    addressUrl: z.string().describe('Patrón con el marcador {address}'),
+    txUrl: z.string().describe('Patrón con el marcador {hash}')
+  }),
+  chainId: z.string().describe('ID de la cadena como texto'),
+  chainIdHex: z.string().describe('ID de la cadena en hexadecimal')
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Se devuelve chain al
+ * resolver una cadena concreta y chains al listarlas todas.
+ */
+const OutputSchema = {
+  metadata: z.object({
+    query: z.union([z.string(), z.number()]).optional(),
+    includeTestnets: z.boolean().optional(),
+    totalChains: z.number().optional(),
+    timestamp: z.string()
+  }),
+  chain: ChainResultSchema.optional(),
+  chains: z.array(ChainResultSchema).optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface ChainInfoParams {
+  chain?: string | number
+  includeTestnets?: boolean
+}
+
+/**
+ * @description Registra la herramienta get_chain_info en el servidor MCP
+ */
+export function registerGetChainInfoTool (server: McpServer) {
+  server.registerTool(
+    'get_chain_info',
+    {
+      title: 'Información de cadenas',
+      description:
+        'Obtiene información sobre las cadenas de bloques soportadas: ID numérico, alias aceptados, nombre, moneda nativa y su token envuelto, si es red de pruebas y patrones de URL del explorador de bloques para tokens, direcciones y transacciones. USAR ESTA HERRAMIENTA cuando se necesite resolver un nombre o alias de cadena a su chain ID (ej: "avax" → 43114, "fuji" → 43113), conocer la moneda nativa de una red, construir enlaces al explorador o saber qué cadenas están disponibles. Los mismos alias son aceptados por el resto de herramientas.',
+      inputSchema: {
+        chain: ChainSchema,
+        includeTestnets: IncludeTestnetsSchema
+      },
+      outputSchema: OutputSchema,
+      // El registro de cadenas es estático: no se consultan datos externos
+      annotations: { ...READ_ONLY_TOOL_ANNOTATIONS, openWorldHint: false }
+    },
+    async (params: ChainInfoParams) => {
+      try {
+        const { chain, includeTestnets = true } = params
+
+        if (chain === undefined || chain === '') {
+          const chains = getChains(includeTestnets)
+
+          return createStructuredResponse(
+            `${chains.length} cadenas soportadas: ${chains
+              .map(item => `${item.name} (${item.id})`)
+              .join(', ')}.`,
+            {
+              metadata: {
+                includeTestnets,
+                totalChains: chains.length,
+                timestamp: new Date().toISOString()
+              },
+              chains: chains.map(formatChain)
+            }
+          )
+        }
+
+        const resolvedChain = resolveChain(chain)
+
+        if (!resolvedChain) {
+          const knownChains = getChains()
+            .map(item => `${item.name} (${item.id})`)
+            .join(', ')
+
+          return createErrorResponse(
+            `Cadena desconocida: "${chain}". Cadenas soportadas: ${knownChains}.`
+          )
+        }
+
+        return createStructuredResponse(
+          `${resolvedChain.name}: chain ID ${resolvedChain.id}, moneda nativa ${
+            resolvedChain.nativeCurrency.symbol
+          } (envuelta: ${resolvedChain.nativeCurrency.wrapped.symbol} ${
+            resolvedChain.nativeCurrency.wrapped.address
+          })${resolvedChain.testnet ? ', red de pruebas' : ''}. Explorador: ${
+            resolvedChain.explorer.url
+          }.`,
+          {
+            metadata: {
+              query: chain,
+              timestamp: new Date().toISOString()
+            },
+            chain: formatChain(resolvedChain)
+          }
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al obtener información de la cadena: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica los parámetros e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Formatea una cadena para la respuesta de la herramienta
+ */
+function formatChain (chain: ChainInfo) {
+  return {
+    ...chain,
+    chainId: String(chain.id),
+    chainIdHex: `0x${chain.id.toString(16)}`
+  }
+}
@@ -1,7 +1,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import type { TemplatesRepository, Template } from '../types/repository'
+import type { TemplateMetadata } from '../types/repository'
 import { z } from 'zod'
 import { getTemplates } from '../services/repository'
+import { fetchTemplatesMetadata, filterTemplates } from '../services/templates'
+import { describeDataFreshness } from '../services/cache'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
 
 /**
  * @description Esquema de validación para la categoría de plantilla
@@ -46,28 +53,6 @@ const FormatSchema = z
     'Formato de los metadatos. "full" incluye todos los detalles, "summary" solo información básica. Por defecto: "full"'
   )
 
-/**
- * @description Tiempo máximo de espera para solicitudes fetch en milisegundos
- */
-const FETCH_TIMEOUT_MS = 8000
-
-/**
- * @description URL de respaldo para usar cuando los endpoints reales no están disponibles (404)
- */
-const FALLBACK_ENDPOINT_URL =
-  'https://staging.sherry.social/api/examples/token-mill-swap'
-
-/**
- * @description Interfaz para los metadatos de una plantilla
- */
-interface TemplateMetadata {
-  templateId: string
-  templateName: string
-  category: string
-  protocol: string
-  metadata: Record<string, any>
-}
-
 /**
  * @description Lista de protocolos comunes para blockchains
  */
@@ -85,6 +70,59 @@ const COMMON_PROTOCOLS = [
  */
 const AVAILABLE_CATEGORIES = ['swap', 'staking', 'lending']
 
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin resultados,
+ * templates está vacío y message explica el motivo o cómo filtrar.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      category: z.string().optional(),
+      protocol: z.string().optional(),
+      query: z.string().optional(),
+      format: z.string(),
+      totalTemplates: z.number(),
+      fetchedTemplates: z.number(),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos'),
+      availableCategories: z.array(z.string()),
+      commonProtocols: z.array(z.string()),
+      dataFreshness: z.string(),
+      note: z.string().optional()
+    })
+    .optional(),
+  templates: z.array(
+    z.object({
+      templateId: z.string(),
+      templateName: z.string(),
+      category: z.string(),
+      protocol: z.string(),
+      metadata: z
+        .record(z.any())
+        .describe(
+          'Metadatos de la mini aplicación servidos por la plantilla, con las direcciones en su forma con checksum EIP-55'
+        ),
+      addressIssues: z
+        .array(
+          z.object({
+            path: z.string(),
+            address: z.string(),
+            issue: z.enum(['invalidChecksum', 'invalidFormat']),
+            message: z.string()
+          })
+        )
+        .optional()
+        .describe(
+          'Direcciones de los metadatos con checksum EIP-55 incorrecto (posible manipulación) o formato inválido. No deben usarse.'
+        )
+    })
+  ),
+  message: z.string().optional()
+}
+
 /**
  * @description Interfaz para los parámetros de la herramienta
  */
@@ -99,14 +137,20 @@ interface TemplateParams {
  * @description Registra la herramienta get_metadata_of_template en el servidor MCP
  */
 export function registerGetMetadataOfTemplateTool (server: McpServer) {
-  server.tool(
+  server.registerTool(
     'get_metadata_of_template',
-    'Obtiene estructuras JSON completas y oficiales de templates/plantillas de aplicaciones blockchain, configuradas para casos de uso específicos. USAR ESTA HERRAMIENTA cuando se solicite: código para DeFi, estructura de swap, template de intercambio, plantilla para staking, código para lending/préstamos, ejemplo funcional de TraderJoe, implementación de Uniswap, código de PancakeSwap, o cualquier solicitud relacionada con obtener estructuras predefinidas para aplicaciones DeFi. Esta herramienta proporciona metadatos detallados de plantillas reales utilizadas en producción, incluyendo componentes, funciones, interfaces y configuraciones necesarias para operar con protocolos específicos. Soporta filtrado por categorías (swap, staking, lending), protocolos (traderjoe, uniswap, pancakeswap, aave, compound, curve, etc.), con formato completo o resumido. NO GENERA CÓDIGO NUEVO, sino que devuelve templates verificados y listos para usar. El resultado es un JSON estructurado que contiene todos los elementos necesarios para implementar la funcionalidad solicitada en aplicaciones blockchain.',
     {
-      category: CategorySchema,
-      protocol: ProtocolSchema,
-      query: SearchQuerySchema,
-      format: FormatSchema
+      title: 'Metadatos de plantillas',
+      description:
+        'Obtiene estructuras JSON completas y oficiales de templates/plantillas de aplicaciones blockchain, configuradas para casos de uso específicos. USAR ESTA HERRAMIENTA cuando se solicite: código para DeFi, estructura de swap, template de intercambio, plantilla para staking, código para lending/préstamos, ejemplo funcional de TraderJoe, implementación de Uniswap, código de PancakeSwap, o cualquier solicitud relacionada con obtener estructuras predefinidas para aplicaciones DeFi. Esta herramienta proporciona metadatos detallados de plantillas reales utilizadas en producción, incluyendo componentes, funciones, interfaces y configuraciones necesarias para operar con protocolos específicos. Soporta filtrado por categorías (swap, staking, lending), protocolos (traderjoe, uniswap, pancakeswap, aave, compound, curve, etc.), con formato completo o resumido. NO GENERA CÓDIGO NUEVO, sino que devuelve templates verificados y listos para usar. El resultado es un JSON estructurado que contiene todos los elementos necesarios para implementar la funcionalidad solicitada en aplicaciones blockchain.',
+      inputSchema: {
+        category: CategorySchema,
+        protocol: ProtocolSchema,
+        query: SearchQuerySchema,
+        format: FormatSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
     },
     async (params: TemplateParams) => {
       try {
@@ -114,11 +158,8 @@ export function registerGetMetadataOfTemplateTool (server: McpServer) {
 
         // Proporcionar instrucciones de ayuda si se solicita un template sin parámetros específicos
         if (!category && !protocol) {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `
+          return createStructuredResponse(
+            `
 # Catálogo de Templates Blockchain - Estructuras oficiales para DeFi
 
 Esta herramienta proporciona plantillas verificadas y predefinidas para implementaciones blockchain, sin necesidad de crear código desde cero. Las plantillas son estructuras JSON completas listas para usar.
@@ -147,10 +188,14 @@ ${COMMON_PROTOCOLS.map(
 - **summary**: Versión resumida con información básica
 
 Los templates contienen toda la información necesaria para implementar la funcionalidad en tu aplicación, sin necesidad de escribir código adicional.
-`
-              }
-            ]
-          }
+`,
+            {
+              templates: [],
+              message: `Indica una categoría (${AVAILABLE_CATEGORIES.join(
+                ', '
+              )}) o un protocolo para obtener plantillas.`
+            }
+          )
         }
 
         const repositoryData = await getTemplates()
@@ -180,14 +225,15 @@ Los templates contienen toda la información necesaria para implementar la funci
         const metadata = await fetchTemplatesMetadata(matchingTemplates, format)
 
         if (metadata.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: 'No se pudo obtener metadatos para ninguna de las plantillas encontradas. Intenta con otros filtros o verifica la conexión.'
-              }
-            ]
-          }
+          const message =
+            'No se pudo obtener metadatos para ninguna de las plantillas encontradas. Intenta con otros filtros o verifica la conexión.'
+
+          return createStructuredResponse(message, { templates: [], message })
+        }
+
+        // Todas las plantillas devolvieron 404: se informa como error
+        if (metadata.length === 1 && metadata[0].templateId === 'error') {
+          return createErrorResponse(metadata[0].metadata.error)
         }
 
         // Formatear respuesta final
@@ -201,14 +247,19 @@ Los templates contienen toda la información necesaria para implementar la funci
           timestamp: new Date().toISOString()
         })
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: response
-            }
-          ]
-        }
+        return createStructuredResponse(
+          `Se obtuvieron los metadatos de ${metadata.length} de ${
+            matchingTemplates.length
+          } plantillas (formato ${format}): ${metadata
+            .map(
+              item =>
+                `${item.templateName} (${item.templateId}, ${item.protocol})`
+            )
+            .join(', ')}.${
+            response.metadata.note ? ` ${response.metadata.note}` : ''
+          }${describeAddressIssues(metadata)}`,
+          response
+        )
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : 'Error desconocido'
@@ -262,298 +313,24 @@ function createEmptyResponse (filters: {
     `. Categorías disponibles: ${AVAILABLE_CATEGORIES.join(', ')}. ` +
     `Prueba con otros filtros o utiliza valores más generales.`
 
-  return {
-    content: [{ type: 'text' as const, text: message }]
-  }
+  return createStructuredResponse(message, { templates: [], message })
 }
 
 /**
- * @description Filtra plantillas según categoría, protocolo y texto de búsqueda
+ * @description Describe las plantillas con direcciones que no superan la validación EIP-55
  */
-function filterTemplates (
-  repositories: TemplatesRepository[],
-  category?: string,
-  protocol?: string,
-  query?: string
-): Array<{ template: Template; baseUrl: string; categoryId: string }> {
-  console.error(
-    `Buscando plantillas con: categoria=${
-      category || 'cualquiera'
-    }, protocolo=${protocol || 'cualquiera'}, query=${query || 'ninguna'}`
-  )
-
-  const lowerCaseCategory = category?.toLowerCase()
-  const lowerCaseProtocol = protocol?.toLowerCase()
-  const lowerCaseQuery = query?.toLowerCase()
-
-  const results: Array<{
-    template: Template
-    baseUrl: string
-    categoryId: string
-  }> = []
-
-  for (const repo of repositories) {
-    console.error(`Explorando repositorio con baseUrl: ${repo.baseUrl}`)
-
-    for (const cat of repo.categories) {
-      // Saltar categorías que no coinciden con el filtro
-      if (lowerCaseCategory && cat.id.toLowerCase() !== lowerCaseCategory) {
-        continue
-      }
-
-      console.error(
-        `Explorando categoría: ${cat.id} con ${cat.templates.length} plantillas`
-      )
-
-      for (const template of cat.templates) {
-        // Saltar protocolos que no coinciden con el filtro
-        if (
-          lowerCaseProtocol &&
-          !template.protocol.toLowerCase().includes(lowerCaseProtocol)
-        ) {
-          continue
-        }
-
-        // Saltar plantillas que no coinciden con la búsqueda de texto
-        if (
-          lowerCaseQuery &&
-          !template.name.toLowerCase().includes(lowerCaseQuery) &&
-          !template.id.toLowerCase().includes(lowerCaseQuery)
-        ) {
-          continue
-        }
-
-        console.error(
-          `Plantilla encontrada: ${template.id} (${template.name}) del protocolo ${template.protocol} - endpoint: ${template.endpoint}`
-        )
-
-        results.push({
-          template,
-          baseUrl: repo.baseUrl,
-          categoryId: cat.id
-        })
-      }
-    }
-  }
-
-  console.error(`Total de plantillas encontradas: ${results.length}`)
-  return results
-}
-
-/**
- * @description Obtiene metadatos para un conjunto de plantillas
- */
-async function fetchTemplatesMetadata (
-  templates: Array<{ template: Template; baseUrl: string; categoryId: string }>,
-  format: string = 'full'
-): Promise<TemplateMetadata[]> {
-  // Log cuántas plantillas se encontraron
-  console.error(
-    `Encontradas ${templates.length} plantillas que coinciden con los criterios`
-  )
-
-  const fetchPromises = templates.map(
-    async ({ template, baseUrl, categoryId }) => {
-      const metadataUrl = `${baseUrl}${template.endpoint}`
-      console.error(`Intentando obtener datos de: ${metadataUrl}`)
-
-      try {
-        // Implementar timeout para evitar solicitudes colgadas
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
-
-        const response = await fetch(metadataUrl, {
-          signal: controller.signal
-        })
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          console.error(
-            `Error en la respuesta para ${metadataUrl}: ${response.status} ${response.statusText}`
-          )
-
-          // Si es un error 404, usar el endpoint de respaldo
-          if (response.status === 404) {
-            console.error(`Usando URL de respaldo: ${FALLBACK_ENDPOINT_URL}`)
-
-            try {
-              const fallbackController = new AbortController()
-              const fallbackTimeoutId = setTimeout(
-                () => fallbackController.abort(),
-                FETCH_TIMEOUT_MS
-              )
-
-              const fallbackResponse = await fetch(FALLBACK_ENDPOINT_URL, {
-                signal: fallbackController.signal
-              })
-              clearTimeout(fallbackTimeoutId)
-
-              if (fallbackResponse.ok) {
-                const fallbackData = await fallbackResponse.json()
-                console.error(
-                  `Datos obtenidos correctamente del endpoint de respaldo`
-                )
-
-                return {
-                  templateId: template.id,
-                  templateName: template.name,
-                  category: categoryId,
-                  protocol: template.protocol,
-                  metadata:
-                    format === 'summary' && fallbackData
-                      ? simplifyMetadata(fallbackData)
-                      : fallbackData,
-                  usedFallback: true
-                }
-              } else {
-                console.error(
-                  `También falló el endpoint de respaldo: ${fallbackResponse.status} ${fallbackResponse.statusText}`
-                )
-              }
-            } catch (fallbackError) {
-              console.error(
-                `Error al obtener datos del endpoint de respaldo: ${
-                  fallbackError instanceof Error
-                    ? fallbackError.message
-                    : String(fallbackError)
-                }`
-              )
-            }
-          }
-
-          // Guardar el código de error para manejarlo específicamente
-          return {
-            templateId: template.id,
-            templateName: template.name,
-            category: categoryId,
-            protocol: template.protocol,
-            metadata: null,
-            error: {
-              code: response.status,
-              message: response.statusText
-            }
-          }
-        }
-
-        const metadata = await response.json()
-        console.error(`Datos obtenidos correctamente de ${metadataUrl}`)
-
-        return {
-          templateId: template.id,
-          templateName: template.name,
-          category: categoryId,
-          protocol: template.protocol,
-          metadata:
-            format === 'summary' && metadata
-              ? simplifyMetadata(metadata)
-              : metadata
-        }
-      } catch (error) {
-        // No interrumpir otras solicitudes si una falla
-        console.error(
-          `Error obteniendo datos de ${metadataUrl}: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        )
-        return {
-          templateId: template.id,
-          templateName: template.name,
-          category: categoryId,
-          protocol: template.protocol,
-          metadata: null,
-          error: {
-            code:
-              error instanceof Error && error.name === 'AbortError' ? 408 : 500,
-            message: error instanceof Error ? error.message : String(error)
-          }
-        }
-      }
-    }
-  )
-
-  const results = await Promise.allSettled(fetchPromises)
-
-  // Modificamos para contar cuántos errores 404 hay
-  const successful = results.filter(
-    r =>
-      r.status === 'fulfilled' && r.value !== null && r.value.metadata !== null
-  ).length
-
-  const notFoundCount = results.filter(
-    r =>
-      r.status === 'fulfilled' &&
-      r.value !== null &&
-      r.value.error?.code === 404
-  ).length
-
-  const usedFallbackCount = results.filter(
-    r =>
-      r.status === 'fulfilled' &&
-      r.value !== null &&
-      r.value.usedFallback === true
-  ).length
-
-  console.error(
-    `De ${templates.length} plantillas encontradas, se obtuvieron datos para ${successful}, con ${notFoundCount} errores 404 y ${usedFallbackCount} usando URL de respaldo`
-  )
-
-  // Si todos son errores 404 y ninguno usó fallback exitosamente, mostrar mensaje de error
-  if (notFoundCount === templates.length && usedFallbackCount === 0) {
-    return [
-      {
-        templateId: 'error',
-        templateName: 'Error 404',
-        category: 'error',
-        protocol: 'error',
-        metadata: {
-          error:
-            'Todos los recursos solicitados devolvieron 404 Not Found. Es posible que la API haya cambiado o que las plantillas no estén disponibles temporalmente.'
-        }
-      }
-    ]
-  }
-
-  return results
-    .filter(
-      (result): result is PromiseFulfilledResult<TemplateMetadata> =>
-        result.status === 'fulfilled' &&
-        result.value !== null &&
-        result.value.metadata !== null
+function describeAddressIssues (metadata: TemplateMetadata[]): string {
+  const withIssues = metadata.filter(item => item.addressIssues?.length)
+  if (withIssues.length === 0) return ''
+
+  return ` ADVERTENCIA: direcciones con checksum EIP-55 incorrecto o formato inválido (posible manipulación, no usarlas) en ${withIssues
+    .map(
+      item =>
+        `${item.templateId}: ${item.addressIssues
+          ?.map(issue => `${issue.path} (${issue.address})`)
+          .join(', ')}`
     )
-    .map(result => result.value as TemplateMetadata)
-}
-
-/**
- * @description Simplifica el metadata para el formato resumido
- */
-function simplifyMetadata (metadata: Record<string, any>): Record<string, any> {
-  // Extraer solo información básica para resumir
-  const simplifiedMetadata: Record<string, any> = {}
-
-  // Incluir solo propiedades de nivel superior para resumir
-  const keysToInclude = [
-    'name',
-    'description',
-    'version',
-    'author',
-    'type',
-    'category'
-  ]
-
-  for (const key of keysToInclude) {
-    if (metadata[key] !== undefined) {
-      simplifiedMetadata[key] = metadata[key]
-    }
-  }
-
-  // Incluir conteo de elementos si hay arrays
-  for (const [key, value] of Object.entries(metadata)) {
-    if (Array.isArray(value)) {
-      simplifiedMetadata[`${key}Count`] = value.length
-    }
-  }
-
-  return simplifiedMetadata
+    .join('; ')}.`
 }
 
 /**
@@ -570,21 +347,17 @@ function formatMetadataResponse (
     fetchedTemplates: number
     timestamp: string
   }
-): string {
-  // Determinar si el resultado contiene un mensaje de error específico
-  if (metadata.length === 1 && metadata[0].templateId === 'error') {
-    return metadata[0].metadata.error
-  }
-
+) {
   // Agregar una nota si algunos datos provienen del endpoint de respaldo
   const usedFallback = metadata.some((item: any) => item.usedFallback === true)
 
-  const response = {
+  return {
     metadata: {
       ...contextInfo,
       availableCategories: AVAILABLE_CATEGORIES,
       commonProtocols: COMMON_PROTOCOLS,
-      dataFreshness: 'Los datos pueden tener hasta 5 minutos de antigüedad',
+      snapshotVersion: getSnapshotVersion(),
+      dataFreshness: describeDataFreshness('metadata'),
       note: usedFallback
         ? 'Algunos datos se obtuvieron de un endpoint de respaldo porque los originales no estaban disponibles.'
         : undefined
@@ -592,9 +365,7 @@ function formatMetadataResponse (
     templates: metadata.map(item => {
       // Crear una copia sin la propiedad usedFallback en la respuesta final
       const { usedFallback, ...rest } = item as any
-      return rest
+      return rest as TemplateMetadata
     })
   }
-
-  return JSON.stringify(response, null, 2)
 }
@@ -1,7 +1,25 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import type { MiniAppEndpoint, Repository } from '../types/repository'
 import { z } from 'zod'
-import { getRepository } from '../services/repository'
+import { getRepository, getRepositoryVersion } from '../services/repository'
+import { describeDataFreshness } from '../services/cache'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  loadPinnedData,
+  paginate
+} from '../utils/pagination'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Nombre de la herramienta, usado también para validar sus cursores
+ */
+const TOOL_NAME = 'get_miniapp_endpoints'
 
 /**
  * @description Esquema de validación para las categorías de mini aplicaciones
@@ -57,7 +75,20 @@ const LimitSchema = z
   .max(100)
   .optional()
   .default(50)
-  .describe('Número máximo de endpoints a retornar (1-100). Por defecto: 50')
+  .describe(
+    'Número máximo de endpoints a retornar por página (1-100). Por defecto: 50'
+  )
+
+/**
+ * @description Esquema para el cursor de paginación
+ */
+const CursorSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Cursor opaco devuelto en nextCursor por una respuesta anterior para obtener la página siguiente. Si se indica, se usan los filtros de la consulta original y la misma versión del repositorio.'
+  )
 
 /**
  * @description Interfaz para los parámetros de la herramienta
@@ -68,6 +99,67 @@ interface EndpointParams {
   query?: string
   protocol?: string
   limit?: number
+  cursor?: string
+}
+
+/**
+ * @description Esquema de salida de un endpoint
+ */
+const EndpointResultSchema = z.object({
+  host: z.string(),
+  state: z.enum(['trusted', 'pending', 'rejected']),
+  category: z.string(),
+  subcategory: z.string().optional(),
+  verifiedAt: z.string(),
+  protocol: z.string(),
+  endpoint: z.string(),
+  fullUrl: z.string(),
+  displayName: z.string(),
+  verificationStatus: z.string(),
+  categoryDisplay: z.string()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin resultados,
+ * endpoints está vacío y message explica el motivo o cómo filtrar.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      category: z.string().optional(),
+      state: z.string().optional(),
+      query: z.string().optional(),
+      protocol: z.string().optional(),
+      totalEndpoints: z.number(),
+      returnedEndpoints: z.number(),
+      offset: z.number(),
+      dataVersion: z.string(),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos'),
+      availableCategories: z.array(z.string()),
+      availableStates: z.array(z.string()),
+      dataFreshness: z.string()
+    })
+    .optional(),
+  endpoints: z.array(EndpointResultSchema),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Cursor para obtener la página siguiente o null si es la última'),
+  message: z.string().optional()
+}
+
+/**
+ * @description Filtros guardados en los cursores de la herramienta
+ */
+type EndpointCursorFilter = {
+  category: string
+  state: 'all' | 'trusted' | 'pending' | 'rejected'
+  query?: string
+  protocol?: string
 }
 
 /**
@@ -85,33 +177,48 @@ export interface ToolResponse {
  * @description Registra la herramienta get_miniapp_endpoints en el servidor MCP
  */
 export function registerGetMiniAppEndpointsTool (server: McpServer) {
-  server.tool(
+  server.registerTool(
     'get_miniapp_endpoints',
-    'Obtiene y filtra endpoints de mini aplicaciones blockchain por categoría, estado, protocolo y otros criterios. USAR ESTA HERRAMIENTA cuando se necesite información sobre endpoints, URLs, conectar a una dApp, mini-apps disponibles, integrar aplicaciones blockchain, o buscar servicios DeFi, gaming, NFT o sociales en la blockchain. La herramienta devuelve una lista estructurada en JSON con todos los detalles necesarios para conectarse a aplicaciones blockchain, incluyendo URLs completas, estado de verificación, y categorización. Es útil para desarrolladores, integradores y usuarios que necesitan conocer los puntos de acceso disponibles en el ecosistema blockchain. Las categorías disponibles incluyen DeFi (exchanges, lending, staking), Gaming, NFTs y aplicaciones Sociales.',
     {
-      category: RepositoryCategorySchema,
-      state: StateFilterSchema,
-      query: SearchQuerySchema,
-      protocol: ProtocolFilterSchema,
-      limit: LimitSchema
+      title: 'Endpoints de mini aplicaciones',
+      description:
+        'Obtiene y filtra endpoints de mini aplicaciones blockchain por categoría, estado, protocolo y otros criterios. USAR ESTA HERRAMIENTA cuando se necesite información sobre endpoints, URLs, conectar a una dApp, mini-apps disponibles, integrar aplicaciones blockchain, o buscar servicios DeFi, gaming, NFT o sociales en la blockchain. La herramienta devuelve una lista estructurada en JSON con todos los detalles necesarios para conectarse a aplicaciones blockchain, incluyendo URLs completas, estado de verificación, y categorización. Es útil para desarrolladores, integradores y usuarios que necesitan conocer los puntos de acceso disponibles en el ecosistema blockchain. Las categorías disponibles incluyen DeFi (exchanges, lending, staking), Gaming, NFTs y aplicaciones Sociales.',
+      inputSchema: {
+        category: RepositoryCategorySchema,
+        state: StateFilterSchema,
+        query: SearchQuerySchema,
+        protocol: ProtocolFilterSchema,
+        limit: LimitSchema,
+        cursor: CursorSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
     },
     async (params: EndpointParams) => {
       try {
+        const { limit = 50, cursor } = params
+
+        // Con cursor, los filtros se toman de la consulta original
+        const cursorData = cursor
+          ? decodeCursor<EndpointCursorFilter>(cursor, TOOL_NAME)
+          : undefined
         const {
           category = 'all',
           state = 'all',
           query,
-          protocol,
-          limit = 50
-        } = params
+          protocol
+        } = cursorData?.filter ?? params
 
         // Proporcionar instrucciones de ayuda si no hay parámetros específicos
-        if (category === 'all' && state === 'all' && !query && !protocol) {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `
+        if (
+          !cursorData &&
+          category === 'all' &&
+          state === 'all' &&
+          !query &&
+          !protocol
+        ) {
+          return createStructuredResponse(
+            `
 # Directorio de Endpoints de Mini Apps Blockchain
 
 Esta herramienta proporciona acceso a endpoints verificados para mini aplicaciones blockchain.
@@ -126,20 +233,31 @@ Esta herramienta proporciona acceso a endpoints verificados para mini aplicacion
 - **state**: Filtrar por estado de verificación (trusted, pending, rejected)
 - **query**: Buscar términos específicos en hosts o endpoints
 - **protocol**: Filtrar por protocolo (https, http)
-- **limit**: Número máximo de resultados (1-100)
+- **limit**: Número máximo de resultados por página (1-100)
+- **cursor**: Valor de nextCursor de una respuesta anterior para obtener la página siguiente
 
 ## Ejemplos de uso:
 - Para todos los endpoints DeFi verificados: category="defi", state="trusted"
 - Para endpoints relacionados con swaps: category="defi", query="swap"
 
 Los endpoints se devuelven como JSON estructurado con URLs completas y metadatos.
-`
-              }
-            ]
-          }
+`,
+            {
+              endpoints: [],
+              nextCursor: null,
+              message:
+                'Indica al menos un filtro (category, state, query o protocol) para obtener endpoints.'
+            }
+          )
         }
 
-        const repositoryData = await getRepository()
+        // Fijar la versión del repositorio para que las páginas siguientes sean consistentes
+        const { data: repositoryData, version } = await loadPinnedData(
+          'repository',
+          getRepository,
+          getRepositoryVersion,
+          cursorData?.version
+        )
 
         // Si se especificó una categoría específica, registrarla para analítica
         if (category && category !== 'all') {
@@ -161,24 +279,58 @@ Los endpoints se devuelven como JSON estructurado con URLs completas y metadatos
           return createEmptyResponse({ category, state, query, protocol })
         }
 
-        // Aplicar límite
-        const limitedEndpoints = filteredEndpoints.slice(0, limit)
+        // Obtener la página solicitada
+        const page = paginate(
+          filteredEndpoints,
+          cursorData?.offset ?? 0,
+          limit
+        )
+        const nextCursor =
+          page.nextOffset === null
+            ? null
+            : encodeCursor<EndpointCursorFilter>({
+                tool: TOOL_NAME,
+                filter: { category, state, query, protocol },
+                offset: page.nextOffset,
+                version
+              })
 
         // Formatea los endpoints para la respuesta
-        const formattedResponse = formatEndpointsResponse(limitedEndpoints, {
-          category,
-          state,
-          query,
-          protocol,
-          totalEndpoints: filteredEndpoints.length,
-          returnedEndpoints: limitedEndpoints.length,
-          timestamp: new Date().toISOString()
-        })
+        const response = formatEndpointsResponse(
+          page.items,
+          {
+            category,
+            state,
+            query,
+            protocol,
+            totalEndpoints: page.total,
+            returnedEndpoints: page.items.length,
+            offset: page.offset,
+            dataVersion: version,
+            timestamp: new Date().toISOString()
+          },
+          nextCursor
+        )
 
-        return {
-          content: [{ type: 'text' as const, text: formattedResponse }]
-        }
+        return createStructuredResponse(
+          `Se encontraron ${page.total} endpoints de mini aplicaciones${
+            category !== 'all' ? ` en la categoría "${category}"` : ''
+          }${state !== 'all' ? ` con estado "${state}"` : ''}. Se devuelven ${
+            page.items.length
+          } a partir de la posición ${page.offset}: ${response.endpoints
+            .map(endpoint => endpoint.fullUrl)
+            .join(', ')}.${
+            nextCursor
+              ? ' Hay más resultados: usa nextCursor para obtener la página siguiente.'
+              : ''
+          }`,
+          response
+        )
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return createErrorResponse(error.message)
+        }
+
         return createErrorResponse(
           `Error al obtener endpoints de mini aplicaciones: ${
             error instanceof Error ? error.message : 'Error desconocido'
@@ -230,9 +382,11 @@ function createEmptyResponse (filters: {
 
   message += `. Intenta con otros filtros o utiliza "all" como categoría para ver todos los endpoints disponibles.`
 
-  return {
-    content: [{ type: 'text' as const, text: message }]
-  }
+  return createStructuredResponse(message, {
+    endpoints: [],
+    nextCursor: null,
+    message
+  })
 }
 
 /**
@@ -299,9 +453,12 @@ function formatEndpointsResponse (
     protocol?: string
     totalEndpoints: number
     returnedEndpoints: number
+    offset: number
+    dataVersion: string
     timestamp: string
-  }
-): string {
+  },
+  nextCursor: string | null
+) {
   // Enriquece los datos con información adicional
   const enhancedEndpoints = endpoints.map(endpoint => ({
     ...endpoint,
@@ -315,17 +472,17 @@ function formatEndpointsResponse (
   }))
 
   // Construir la respuesta con metadatos
-  const response = {
+  return {
     metadata: {
       ...metadata,
       availableCategories: ['defi', 'gaming', 'nft', 'social'],
       availableStates: ['trusted', 'pending', 'rejected'],
-      dataFreshness: 'Los datos pueden tener hasta 5 minutos de antigüedad'
+      snapshotVersion: getSnapshotVersion(),
+      dataFreshness: describeDataFreshness('repository')
     },
-    endpoints: enhancedEndpoints
+    endpoints: enhancedEndpoints,
+    nextCursor
   }
-
-  return JSON.stringify(response, null, 2)
 }
 
 /**
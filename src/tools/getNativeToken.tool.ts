@@ -0,0 +1,248 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { NativeToken } from '../types/tokens'
+import { z } from 'zod'
+import { getChains, getExplorerUrl } from '../services/chains'
+import {
+  getNativeToken,
+  getNativeTokens,
+  resolveWrapConversion
+} from '../services/tokens.native'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema para la cadena
+ */
+const ChainSchema = z
+  .union([z.string(), z.number(), z.null()])
+  .transform(val => (val === null ? undefined : val))
+  .optional()
+  .describe(
+    'ID numérico, nombre o alias de la cadena. Ejemplo: 43114 o "avalanche". Puede ser null u omitirse para listar la moneda nativa de todas las cadenas.'
+  )
+
+/**
+ * @description Esquema para el activo a envolver o desenvolver
+ */
+const TokenSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Símbolo o dirección del activo a convertir: la moneda nativa (ej: "AVAX", 0x000…000 o 0xEeee…EEeE) se envuelve en su token envuelto y el token envuelto (ej: "WAVAX") se desenvuelve en la moneda nativa. Requiere chain.'
+  )
+
+/**
+ * @description Esquema para incluir redes de prueba en el listado
+ */
+const IncludeTestnetsSchema = z
+  .boolean()
+  .optional()
+  .default(true)
+  .describe(
+    'Incluir redes de prueba al listar todas las cadenas. Por defecto: true'
+  )
+
+/**
+ * @description Esquema de un activo de la conversión
+ */
+const AssetSchema = z.object({
+  symbol: z.string(),
+  address: z.string(),
+  decimals: z.number()
+})
+
+/**
+ * @description Esquema de salida de la moneda nativa de una cadena
+ */
+const NativeTokenSchema = z.object({
+  chainId: z.string(),
+  chainName: z.string(),
+  name: z.string(),
+  symbol: z.string(),
+  decimals: z.number(),
+  address: z
+    .string()
+    .describe('Dirección centinela canónica de la moneda nativa'),
+  sentinelAddresses: z
+    .array(z.string())
+    .describe(
+      'Direcciones con las que listas y contratos representan la moneda nativa'
+    ),
+  wrapped: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    address: z.string(),
+    decimals: z.number(),
+    explorerUrl: z.string().optional()
+  })
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Se devuelve native al
+ * consultar una cadena (con conversion si se indica token) y natives al listarlas todas.
+ */
+const OutputSchema = {
+  metadata: z.object({
+    chain: z.union([z.string(), z.number()]).optional(),
+    token: z.string().optional(),
+    includeTestnets: z.boolean().optional(),
+    totalChains: z.number().optional(),
+    timestamp: z.string()
+  }),
+  native: NativeTokenSchema.optional(),
+  natives: z.array(NativeTokenSchema).optional(),
+  conversion: z
+    .object({
+      direction: z.enum(['wrap', 'unwrap']),
+      from: AssetSchema,
+      to: AssetSchema,
+      contract: z
+        .string()
+        .describe(
+          'Contrato del token envuelto: deposit() envuelve y withdraw(uint256) desenvuelve, 1:1'
+        )
+    })
+    .optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface NativeTokenParams {
+  chain?: string | number
+  token?: string
+  includeTestnets?: boolean
+}
+
+/**
+ * @description Registra la herramienta get_native_token en el servidor MCP
+ */
+export function registerGetNativeTokenTool (server: McpServer) {
+  server.registerTool(
+    'get_native_token',
+    {
+      title: 'Moneda nativa y token envuelto',
+      description:
+        'Obtiene la moneda nativa de una cadena (símbolo, decimales y direcciones centinela 0x000…000 y 0xEeee…EEeE con las que la representan listas y contratos) enlazada con su token envuelto ERC-20 (ej: AVAX → WAVAX, ETH → WETH). Con token indica en qué se envuelve la moneda nativa o en qué se desenvuelve el token envuelto, y el contrato que hace la conversión. USAR ESTA HERRAMIENTA cuando una mini-app de swap, staking o lending opere con la moneda nativa y haya que saber en qué se envuelve, o para reconocer la moneda nativa en una lista de tokens.',
+      inputSchema: {
+        chain: ChainSchema,
+        token: TokenSchema,
+        includeTestnets: IncludeTestnetsSchema
+      },
+      outputSchema: OutputSchema,
+      // El registro de cadenas es estático: no se consultan datos externos
+      annotations: { ...READ_ONLY_TOOL_ANNOTATIONS, openWorldHint: false }
+    },
+    async (params: NativeTokenParams) => {
+      try {
+        const { chain, token, includeTestnets = true } = params
+
+        if (chain === undefined || chain === '') {
+          if (token) {
+            return createErrorResponse(
+              'Indica la cadena (chain) en la que quieres envolver o desenvolver el activo.'
+            )
+          }
+
+          const natives = getNativeTokens(includeTestnets)
+
+          return createStructuredResponse(
+            `Moneda nativa de ${natives.length} cadenas: ${natives
+              .map(
+                item =>
+                  `${item.chainName} (${item.chainId}): ${item.symbol} → ${item.wrapped.symbol}`
+              )
+              .join(', ')}.`,
+            {
+              metadata: {
+                includeTestnets,
+                totalChains: natives.length,
+                timestamp: new Date().toISOString()
+              },
+              natives: natives.map(formatNativeToken)
+            }
+          )
+        }
+
+        const native = getNativeToken(chain)
+
+        if (!native) {
+          const knownChains = getChains()
+            .map(item => `${item.name} (${item.id})`)
+            .join(', ')
+
+          return createErrorResponse(
+            `Cadena desconocida: "${chain}". Cadenas soportadas: ${knownChains}.`
+          )
+        }
+
+        const conversion = token
+          ? resolveWrapConversion(native, token)
+          : undefined
+
+        if (conversion === null) {
+          return createErrorResponse(
+            `"${token}" no es la moneda nativa de ${native.chainName} (${native.symbol}) ni su token envuelto (${native.wrapped.symbol} ${native.wrapped.address}): solo la moneda nativa se puede envolver.`
+          )
+        }
+
+        const summary = `${native.chainName} (${native.chainId}): moneda nativa ${
+          native.symbol
+        } (${native.decimals} decimales, direcciones centinela ${native.sentinelAddresses.join(
+          ' y '
+        )}), envuelta en ${native.wrapped.symbol} ${native.wrapped.address}.`
+
+        return createStructuredResponse(
+          conversion
+            ? `${summary} ${
+                conversion.direction === 'wrap'
+                  ? `${conversion.from.symbol} se envuelve en ${conversion.to.symbol} (${conversion.to.address}) con deposit()`
+                  : `${conversion.from.symbol} se desenvuelve en ${conversion.to.symbol} con withdraw(uint256)`
+              } en el contrato ${conversion.contract}, 1:1.`
+            : summary,
+          {
+            metadata: {
+              chain,
+              token,
+              timestamp: new Date().toISOString()
+            },
+            native: formatNativeToken(native),
+            conversion
+          }
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al obtener la moneda nativa: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica los parámetros e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Formatea la moneda nativa para la respuesta, con el enlace al token envuelto
+ */
+function formatNativeToken (native: NativeToken) {
+  return {
+    ...native,
+    wrapped: {
+      ...native.wrapped,
+      explorerUrl: getExplorerUrl(native.chainId, native.wrapped.address)
+    }
+  }
+}
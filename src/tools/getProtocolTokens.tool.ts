@@ -1,9 +1,44 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import type { Repository } from '../types/repository'
 import type { TokenInfo } from '../types/tokens'
+import type { TokenListProvider } from '../types/providers'
+import type { PriceEnrichment } from '../types/prices'
 import { z } from 'zod'
-import { getRepository } from '../services/repository'
 import { getTokensByProtocol } from '../services/tokens'
+import {
+  getTokenListProtocols,
+  getTokenListProvider,
+  getTokenListProviders
+} from '../services/providers'
+import {
+  compareByPopularity,
+  scoreTokensPopularity
+} from '../services/popularity'
+import {
+  getChainName,
+  getExplorerUrl,
+  getSupportedChains,
+  resolveChain
+} from '../services/chains'
+import { describeDataFreshness } from '../services/cache'
+import { enrichTokensWithPrices, formatAge } from '../services/prices'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  getDataVersion,
+  loadPinnedData,
+  paginate
+} from '../utils/pagination'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Nombre de la herramienta, usado también para validar sus cursores
+ */
+const TOOL_NAME = 'get_protocol_tokens'
 
 /**
  * @description Esquema de validación para protocolos
@@ -12,7 +47,7 @@ const ProtocolSchema = z
   .string()
   .min(1)
   .describe(
-    'Nombre del protocolo para obtener tokens. Ejemplo: "uniswap", "aave", "curve"'
+    'Nombre o alias del protocolo para obtener tokens. Ejemplo: "uniswap", "aave", "lfj" o "traderjoe"'
   )
 
 /**
@@ -22,13 +57,17 @@ const ChainIdSchema = z
   .union([z.string(), z.number(), z.null()])
   .transform(val => {
     if (val === null) return undefined
+    // Resolver nombres y alias de cadena (ej: "avax", "fuji") mediante el registro
+    const chain = resolveChain(val)
+    if (chain) return chain.id
     return typeof val === 'string' ? parseInt(val, 10) : val
   })
   .refine(val => val === undefined || !isNaN(val as number), {
-    message: 'Chain ID debe ser un número válido o null'
+    message:
+      'Chain ID debe ser un número válido, un nombre de cadena conocido (ej: "avax", "fuji") o null'
   })
   .describe(
-    'ID de la cadena de bloques. Ejemplo: 1 (Ethereum), 137 (Polygon). Puede ser null para no filtrar por cadena.'
+    'ID o nombre de la cadena de bloques. Ejemplo: 1 (Ethereum), 137 (Polygon), 43114 o "avax" (Avalanche), 43113 o "fuji" (Avalanche Fuji). Puede ser null para no filtrar por cadena.'
   )
 
 /**
@@ -40,19 +79,162 @@ const LimitSchema = z
   .max(100)
   .optional()
   .default(50)
-  .describe('Número máximo de tokens a retornar (1-100). Por defecto: 50')
+  .describe(
+    'Número máximo de tokens a retornar por página (1-100). Por defecto: 50'
+  )
 
 /**
  * @description Esquema para ordenar resultados
  */
 const SortSchema = z
-  .enum(['name', 'symbol', 'popularity'])
+  .enum(['name', 'symbol', 'popularity', 'price'])
   .optional()
   .default('popularity')
   .describe(
-    'Campo para ordenar los resultados. Opciones: "name", "symbol", "popularity". Por defecto: "popularity"'
+    'Campo para ordenar los resultados. Opciones: "name", "symbol", "popularity" (puntuación según la lista de tokens populares del protocolo, las categorías nativo/wrapped/stablecoin y los rangos curados), "price" (precio en USD de mayor a menor, con los tokens sin precio al final por popularidad; incluye los precios). Por defecto: "popularity"'
+  )
+
+/**
+ * @description Esquema para incluir los precios
+ */
+const IncludePricesSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe(
+    'Incluir el precio en USD de cada token según el origen de precios configurado. Cada token indica en priceStatus si el precio está actualizado (fresh), desactualizado (stale), no existe (missing) o no se pudo obtener (unavailable). Por defecto: false'
+  )
+
+/**
+ * @description Esquema para el cursor de paginación
+ */
+const CursorSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Cursor opaco devuelto en nextCursor por una respuesta anterior para obtener la página siguiente. Si se indica, se usan el protocolo, la cadena y el orden de la consulta original y la misma versión de la lista de tokens.'
   )
 
+/**
+ * @description Esquema de salida de un token
+ */
+const TokenResultSchema = z.object({
+  name: z.string(),
+  symbol: z.string(),
+  address: z.string(),
+  decimals: z.number(),
+  chainId: z.string(),
+  logoURI: z.string().optional(),
+  tags: z.array(z.any()).optional(),
+  isNative: z.boolean().optional(),
+  isWrappedNative: z
+    .boolean()
+    .optional()
+    .describe('Si es el token envuelto de la moneda nativa (ej: WAVAX)'),
+  bridgeInfo: z
+    .record(z.string())
+    .optional()
+    .describe(
+      'Direcciones del token en otras cadenas por ID de cadena, según la lista'
+    ),
+  price: z
+    .object({
+      usd: z.number(),
+      lastUpdated: z.string()
+    })
+    .optional(),
+  priceStatus: z
+    .object({
+      status: z.enum(['fresh', 'stale', 'missing', 'unavailable']),
+      source: z.string().optional(),
+      ageMs: z.number().optional(),
+      message: z.string()
+    })
+    .optional()
+    .describe(
+      'Estado del precio: fresh (actualizado), stale (más antiguo que la antigüedad máxima), missing (el origen no tiene precio del token) o unavailable (sin origen de precios o con error)'
+    ),
+  popularity: z
+    .object({
+      score: z.number(),
+      inputs: z.object({
+        popularList: z.boolean(),
+        tags: z.array(z.enum(['native', 'wrapped', 'stablecoin'])),
+        curatedRank: z.number().nullable()
+      })
+    })
+    .optional()
+    .describe('Puntuación de popularidad y los factores que la componen'),
+  provenance: z
+    .object({
+      source: z.enum(['upstream', 'override']),
+      action: z.enum(['add', 'patch']).optional(),
+      fields: z.array(z.string()).optional(),
+      reason: z.string().optional(),
+      updatedAt: z.string().optional()
+    })
+    .optional()
+    .describe(
+      'Procedencia del token: upstream (tal como aparece en la lista del protocolo) u override (añadido o corregido por el registro local; ver list_token_overrides)'
+    ),
+  displayName: z.string(),
+  chainName: z.string().optional(),
+  explorerUrl: z.string().optional()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin resultados,
+ * tokens está vacío y message explica el motivo.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      protocol: z.string(),
+      chainId: z.number().optional(),
+      totalTokens: z.number(),
+      returnedTokens: z.number(),
+      offset: z.number(),
+      dataVersion: z.string(),
+      supportedProtocols: z.array(z.string()),
+      supportedChains: z.array(
+        z.object({
+          id: z.number(),
+          name: z.string(),
+          testnet: z.boolean()
+        })
+      ),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos'),
+      sort: z.string(),
+      dataFreshness: z.string(),
+      prices: z
+        .object({
+          provider: z.string().nullable(),
+          maxAgeMs: z.number(),
+          fresh: z.number(),
+          stale: z.number(),
+          missing: z.number(),
+          unavailable: z.number(),
+          error: z.string().optional()
+        })
+        .optional()
+        .describe(
+          'Origen de los precios y número de tokens devueltos en cada estado de precio'
+        )
+    })
+    .optional(),
+  tokens: z.array(TokenResultSchema),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Cursor para obtener la página siguiente o null si es la última'),
+  message: z.string().optional()
+}
+
 /**
  * @description Interfaz para los parámetros de la herramienta
  */
@@ -60,73 +242,119 @@ interface TokenParams {
   protocol?: string
   chainId?: number | string
   limit?: number
-  sort?: 'name' | 'symbol' | 'popularity'
+  sort?: TokenSort
+  includePrices?: boolean
+  cursor?: string
+}
+
+/**
+ * @description Criterios de ordenación de la herramienta
+ */
+type TokenSort = 'name' | 'symbol' | 'popularity' | 'price'
+
+/**
+ * @description Filtros guardados en los cursores de la herramienta
+ */
+type TokenCursorFilter = {
+  protocol: string
+  chainId?: number
+  includePrices?: boolean
 }
 
 /**
  * @description Registra la herramienta get_protocol_tokens en el servidor MCP
  */
 export function registerGetProtocolTokensTool (server: McpServer) {
-  server.tool(
+  server.registerTool(
     'get_protocol_tokens',
-    'Obtiene información detallada sobre tokens específicos de protocolos DeFi y blockchain. USAR ESTA HERRAMIENTA cuando se necesite información sobre criptomonedas, tokens, monedas digitales, activos de un protocolo específico como Uniswap, Aave, Curve, TraderJoe o PancakeSwap. Esta herramienta proporciona datos completos como símbolos, direcciones de contrato, decimales y cadenas compatibles de cada token. Es especialmente útil para operaciones de trading, desarrollo de DApps, integración con DEXs, e investigación de compatibilidad entre protocolos y cadenas. Los resultados pueden filtrarse por cadena específica (Ethereum, Polygon, Avalanche, etc.) y ordenarse por nombre, símbolo o popularidad. Cada token devuelto incluye metadatos enriquecidos como URLs de exploradores de blockchain donde se puede verificar el contrato del token.',
     {
-      protocol: ProtocolSchema,
-      chainId: ChainIdSchema.optional(),
-      limit: LimitSchema,
-      sort: SortSchema
+      title: 'Tokens de protocolos',
+      description: `Obtiene información detallada sobre tokens específicos de protocolos DeFi y blockchain. USAR ESTA HERRAMIENTA cuando se necesite información sobre criptomonedas, tokens, monedas digitales, activos de un protocolo específico. Protocolos con lista de tokens disponible: ${getTokenListProviders()
+        .map(provider => provider.displayName)
+        .join(', ')}. Esta herramienta proporciona datos completos como símbolos, direcciones de contrato, decimales y cadenas compatibles de cada token. Es especialmente útil para operaciones de trading, desarrollo de DApps, integración con DEXs, e investigación de compatibilidad entre protocolos y cadenas. Los resultados pueden filtrarse por cadena específica (Ethereum, Polygon, Avalanche, etc.), incluir el precio en USD de cada token (indicando si está desactualizado o no disponible) y ordenarse por nombre, símbolo, popularidad o precio. Cada token devuelto incluye metadatos enriquecidos como URLs de exploradores de blockchain donde se puede verificar el contrato del token.`,
+      inputSchema: {
+        protocol: ProtocolSchema,
+        chainId: ChainIdSchema.optional(),
+        limit: LimitSchema,
+        sort: SortSchema,
+        includePrices: IncludePricesSchema,
+        cursor: CursorSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
     },
     async (params: TokenParams) => {
       try {
-        const { protocol, chainId, limit = 50, sort = 'popularity' } = params
+        const { limit = 50, cursor } = params
+
+        // Con cursor, los filtros y el orden se toman de la consulta original
+        const cursorData = cursor
+          ? decodeCursor<TokenCursorFilter>(cursor, TOOL_NAME)
+          : undefined
+        const protocol = cursorData?.filter.protocol ?? params.protocol
+        const chainId = cursorData
+          ? cursorData.filter.chainId
+          : params.chainId
+        const sort = (cursorData?.sort ?? params.sort ?? 'popularity') as TokenSort
+        // Ordenar por precio requiere los precios de todos los tokens
+        const includePrices =
+          sort === 'price' ||
+          (cursorData
+            ? cursorData.filter.includePrices === true
+            : params.includePrices === true)
 
         // Proporcionar instrucciones de ayuda si sólo se proporciona el protocolo sin otros parámetros
-        if (protocol && !chainId && limit === 50 && sort === 'popularity') {
-          // Obtener los datos del repositorio para validar el protocolo
-          const repository = await getRepository()
-          const validProtocols = getValidProtocols(repository)
-
-          if (!validProtocols.includes(protocol.toLowerCase())) {
-            return {
-              content: [
-                {
-                  type: 'text' as const,
-                  text: `
+        if (
+          protocol &&
+          !cursorData &&
+          !chainId &&
+          limit === 50 &&
+          sort === 'popularity' &&
+          !includePrices
+        ) {
+          // Validar el protocolo con los proveedores de listas de tokens cargados
+          const validProtocols = getTokenListProtocols()
+
+          if (!getTokenListProvider(protocol)) {
+            return createStructuredResponse(
+              `
 # Directorio de Tokens Blockchain
 
 El protocolo "${protocol}" no se encuentra en nuestra base de datos.
 
 ## Protocolos disponibles:
-${validProtocols
-  .map(
-    p =>
-      `- **${p}**: Tokens del protocolo ${
-        p.charAt(0).toUpperCase() + p.slice(1)
-      }`
-  )
-  .join('\n')}
+${getTokenListProviders().map(describeProvider).join('\n')}
 
 ## Parámetros adicionales:
-- **chainId**: ID de cadena específica (1=Ethereum, 137=Polygon, 43114=Avalanche)
+- **chainId**: ID o nombre de cadena específica (1=Ethereum, 137=Polygon, 43114="avax"=Avalanche, 43113="fuji"=Avalanche Fuji)
 - **limit**: Número de tokens a mostrar (1-100)
-- **sort**: Ordenar por "name", "symbol" o "popularity"
+- **sort**: Ordenar por "name", "symbol", "popularity" o "price"
+- **includePrices**: Incluir el precio en USD y su estado (actualizado, desactualizado o no disponible)
+- **cursor**: Valor de nextCursor de una respuesta anterior para obtener la página siguiente
 
 ## Ejemplos de uso:
 - Para tokens de Uniswap en Ethereum: protocol="uniswap", chainId=1
-- Para los 20 tokens más populares de Aave: protocol="aave", limit=20
+- Para los 20 tokens más populares de LFJ en Avalanche: protocol="lfj", chainId="avax", limit=20
 
 Para cada token, se proporcionará nombre, símbolo, dirección del contrato, decimales y metadatos adicionales.
-`
-                }
-              ]
-            }
+`,
+              {
+                tokens: [],
+                nextCursor: null,
+                message: `El protocolo "${protocol}" no se encuentra disponible. Protocolos válidos: ${validProtocols.join(
+                  ', '
+                )}`
+              }
+            )
           }
         }
 
         // Validar los parámetros
         if (!protocol) {
           return createErrorResponse(
-            'Se requiere el nombre del protocolo. Por favor, proporciona un protocolo válido como "uniswap", "aave", o "curve".'
+            `Se requiere el nombre del protocolo. Protocolos disponibles: ${getTokenListProtocols().join(
+              ', '
+            )}.`
           )
         }
 
@@ -148,12 +376,10 @@ Para cada token, se proporcionará nombre, símbolo, dirección del contrato, de
           )
         }
 
-        // Obtener los datos del repositorio
-        const repository = await getRepository()
-
-        // Verificar si el protocolo existe
-        const validProtocols = getValidProtocols(repository)
-        if (!validProtocols.includes(protocol.toLowerCase())) {
+        // Verificar que el protocolo tenga un proveedor de lista de tokens cargado
+        const validProtocols = getTokenListProtocols()
+        const provider = getTokenListProvider(protocol)
+        if (!provider) {
           return createErrorResponse(
             `El protocolo "${protocol}" no se encuentra disponible. Protocolos válidos: ${validProtocols.join(
               ', '
@@ -161,41 +387,120 @@ Para cada token, se proporcionará nombre, símbolo, dirección del contrato, de
           )
         }
 
+        // Los alias (ej: "traderjoe") se consultan con el nombre canónico del proveedor
+        const protocolName = provider.name
+
+        // El proveedor solo sirve tokens de las cadenas que declara
+        if (
+          numericChainId !== undefined &&
+          provider.chainIds &&
+          !provider.chainIds.includes(String(numericChainId))
+        ) {
+          return createEmptyResponse(
+            protocolName,
+            numericChainId,
+            validProtocols,
+            provider
+          )
+        }
+
         // Registrar la consulta para análisis
         console.error(
-          `Búsqueda de tokens para protocolo: ${protocol}, chainId: ${
+          `Búsqueda de tokens para protocolo: ${protocolName}, chainId: ${
             numericChainId || 'todos'
-          }, ordenamiento: ${sort}`
+          }, ordenamiento: ${sort}${includePrices ? ', con precios' : ''}`
         )
 
-        // Buscar tokens para el protocolo y chain ID especificados
-        const tokens = await getTokensByProtocol(protocol, chainId?.toString())
+        // Buscar tokens para el protocolo y chain ID especificados con su popularidad,
+        // fijando la versión para que las páginas siguientes sean consistentes
+        const { data: tokens, version } = await loadPinnedData(
+          `tokens:${protocolName}:${numericChainId ?? 'all'}`,
+          async () =>
+            scoreTokensPopularity(
+              protocolName,
+              await getTokensByProtocol(protocolName, chainId?.toString())
+            ),
+          getDataVersion,
+          cursorData?.version
+        )
 
         if (tokens.length === 0) {
-          return createEmptyResponse(protocol, numericChainId, validProtocols)
+          return createEmptyResponse(
+            protocolName,
+            numericChainId,
+            validProtocols,
+            provider
+          )
         }
 
-        // Ordenar tokens según el criterio especificado
-        const sortedTokens = sortTokens(tokens, sort)
+        // Con orden por precio se consultan los precios de todos los tokens antes de ordenar;
+        // si no, solo los de la página devuelta
+        const pricedTokens =
+          sort === 'price' ? await enrichTokensWithPrices(tokens) : undefined
 
-        // Aplicar límite
-        const limitedTokens = sortedTokens.slice(0, limit)
+        // Ordenar tokens según el criterio especificado
+        const sortedTokens = sortTokens(pricedTokens?.tokens ?? tokens, sort)
+
+        // Obtener la página solicitada
+        const page = paginate(sortedTokens, cursorData?.offset ?? 0, limit)
+        const pricedPage = includePrices
+          ? await enrichTokensWithPrices(page.items)
+          : undefined
+        const pageTokens = pricedPage?.tokens ?? page.items
+        const nextCursor =
+          page.nextOffset === null
+            ? null
+            : encodeCursor<TokenCursorFilter>({
+                tool: TOOL_NAME,
+                filter: {
+                  protocol: protocolName,
+                  chainId: numericChainId,
+                  includePrices: includePrices || undefined
+                },
+                sort,
+                offset: page.nextOffset,
+                version
+              })
 
         // Formatea la respuesta con metadatos enriquecidos
-        const formattedResponse = formatTokensResponse(limitedTokens, {
-          protocol,
-          chainId: numericChainId,
-          totalTokens: tokens.length,
-          returnedTokens: limitedTokens.length,
-          supportedProtocols: validProtocols,
-          timestamp: new Date().toISOString(),
-          sort
-        })
+        const response = formatTokensResponse(
+          pageTokens,
+          {
+            protocol: protocolName,
+            chainId: numericChainId,
+            totalTokens: page.total,
+            returnedTokens: page.items.length,
+            offset: page.offset,
+            dataVersion: version,
+            supportedProtocols: validProtocols,
+            timestamp: new Date().toISOString(),
+            sort,
+            prices: pricedPage && describePriceMetadata(pricedPage)
+          },
+          nextCursor
+        )
 
-        return {
-          content: [{ type: 'text' as const, text: formattedResponse }]
-        }
+        return createStructuredResponse(
+          `Se encontraron ${page.total} tokens del protocolo ${protocolName}${
+            numericChainId
+              ? ` en ${getChainName(numericChainId) ?? numericChainId}`
+              : ''
+          }. Se devuelven ${page.items.length} a partir de la posición ${
+            page.offset
+          } (orden: ${sort}): ${pageTokens
+            .map(formatTokenSummary)
+            .join(', ')}.${pricedPage ? ` ${describePrices(pricedPage)}` : ''}${
+            nextCursor
+              ? ' Hay más resultados: usa nextCursor para obtener la página siguiente.'
+              : ''
+          }`,
+          response
+        )
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return createErrorResponse(error.message)
+        }
+
         return createErrorResponse(
           `Error al obtener tokens: ${
             error instanceof Error ? error.message : 'Error desconocido'
@@ -222,7 +527,8 @@ function createErrorResponse (message: string) {
 function createEmptyResponse (
   protocol: string,
   chainId?: number,
-  validProtocols?: string[]
+  validProtocols?: string[],
+  provider?: TokenListProvider
 ) {
   let message = `No se encontraron tokens para el protocolo "${protocol}"`
 
@@ -236,42 +542,39 @@ function createEmptyResponse (
     message += ` Protocolos disponibles: ${validProtocols.join(', ')}.`
   }
 
+  if (chainId && provider?.chainIds) {
+    message += ` El protocolo tiene lista de tokens en: ${provider.chainIds
+      .map(id => getChainName(id) ?? id)
+      .join(', ')}.`
+  }
+
   if (chainId) {
     message +=
       ' Prueba con otro chain ID o consulta sin especificar chain ID para ver todos los tokens disponibles para el protocolo.'
   }
 
-  return {
-    content: [{ type: 'text' as const, text: message }]
-  }
+  return createStructuredResponse(message, {
+    tokens: [],
+    nextCursor: null,
+    message
+  })
 }
 
 /**
- * @description Obtiene la lista de protocolos válidos
+ * @description Describe un proveedor de lista de tokens para la ayuda de la herramienta
  */
-function getValidProtocols (repository: Repository): string[] {
-  // Extraer protocolos únicos de los miniAppEndpoints
-  const protocolSet = new Set<string>()
-
-  repository.miniAppEndpoints.forEach(endpoint => {
-    // Extraer protocolo del host o usar una propiedad específica si existe
-    if (endpoint.protocol) {
-      protocolSet.add(endpoint.protocol.toLowerCase())
-    }
-  })
-
-  // En este caso no podemos usar repository.tokens porque no existe en el tipo Repository
-  // Añadir algunos protocolos comunes conocidos
-  const commonProtocols = [
-    'uniswap',
-    'aave',
-    'curve',
-    'traderjoe',
-    'pancakeswap'
-  ]
-  commonProtocols.forEach(protocol => protocolSet.add(protocol))
-
-  return Array.from(protocolSet)
+function describeProvider (provider: TokenListProvider): string {
+  return `- **${provider.name}**: Tokens de ${provider.displayName}${
+    provider.aliases.length > 0
+      ? ` (también: ${provider.aliases.join(', ')})`
+      : ''
+  }${
+    provider.chainIds
+      ? ` en ${provider.chainIds
+          .map(chainId => getChainName(chainId) ?? chainId)
+          .join(', ')}`
+      : ''
+  }`
 }
 
 /**
@@ -279,20 +582,25 @@ function getValidProtocols (repository: Repository): string[] {
  */
 function sortTokens (
   tokens: TokenInfo[],
-  sortBy: 'name' | 'symbol' | 'popularity' = 'popularity'
+  sortBy: TokenSort = 'popularity'
 ): TokenInfo[] {
   const tokensCopy = [...tokens]
 
   switch (sortBy) {
+    case 'price':
+      // Los tokens con precio (aunque esté desactualizado) primero, de mayor a menor
+      return tokensCopy.sort(
+        (a, b) =>
+          (b.price?.usd ?? -1) - (a.price?.usd ?? -1) ||
+          compareByPopularity(a, b)
+      )
     case 'name':
       return tokensCopy.sort((a, b) => a.name.localeCompare(b.name))
     case 'symbol':
       return tokensCopy.sort((a, b) => a.symbol.localeCompare(b.symbol))
     case 'popularity':
     default:
-      // Para popularidad, podemos usar el número de decimales como heurística
-      // Asumiendo que tokens con menos decimales suelen ser más populares
-      return tokensCopy.sort((a, b) => a.decimals - b.decimals)
+      return tokensCopy.sort(compareByPopularity)
   }
 }
 
@@ -306,85 +614,81 @@ function formatTokensResponse (
     chainId?: number
     totalTokens: number
     returnedTokens: number
+    offset: number
+    dataVersion: string
     supportedProtocols: string[]
     timestamp: string
     sort: string
-  }
-): string {
+    prices?: ReturnType<typeof describePriceMetadata>
+  },
+  nextCursor: string | null
+) {
   // Enriquece los datos con información adicional
   const enhancedTokens = tokens.map(token => ({
     ...token,
     // Información adicional útil
     displayName: `${token.name} (${token.symbol})`,
-    chainName: getChainName(Number(token.chainId)),
+    chainName: getChainName(token.chainId),
     explorerUrl: token.address
-      ? getExplorerUrl(Number(token.chainId), token.address)
+      ? getExplorerUrl(token.chainId, token.address)
       : undefined
   }))
 
   // Construir la respuesta con metadatos
-  const response = {
+  return {
     metadata: {
       ...metadata,
       supportedChains: getSupportedChains(),
-      dataFreshness: 'Los datos pueden tener hasta 5 minutos de antigüedad'
+      snapshotVersion: getSnapshotVersion(),
+      dataFreshness: describeDataFreshness('tokenList')
     },
-    tokens: enhancedTokens
+    tokens: enhancedTokens,
+    nextCursor
   }
-
-  return JSON.stringify(response, null, 2)
 }
 
 /**
- * @description Obtiene el nombre de la cadena a partir del ID
+ * @description Resume el precio de un token para el texto de la respuesta
  */
-function getChainName (chainId?: number): string | undefined {
-  if (!chainId) return undefined
-
-  const chains: Record<number, string> = {
-    1: 'Ethereum',
-    10: 'Optimism',
-    56: 'BNB Chain',
-    137: 'Polygon',
-    42161: 'Arbitrum',
-    43114: 'Avalanche'
+function formatTokenSummary (token: TokenInfo): string {
+  if (!token.priceStatus) return token.symbol
+
+  if (!token.price) {
+    return `${token.symbol} (${
+      token.priceStatus.status === 'missing'
+        ? 'sin precio'
+        : 'precio no disponible'
+    })`
   }
 
-  return chains[chainId] || `Chain ID ${chainId}`
+  return `${token.symbol} ($${token.price.usd}${
+    token.priceStatus.status === 'stale' ? ', desactualizado' : ''
+  })`
 }
 
 /**
- * @description Obtiene la URL del explorador para un token
+ * @description Describe el estado de los precios de la página para el texto de la respuesta
  */
-function getExplorerUrl (
-  chainId?: number,
-  address?: string
-): string | undefined {
-  if (!chainId || !address) return undefined
-
-  const explorers: Record<number, string> = {
-    1: 'https://etherscan.io/token/',
-    10: 'https://optimistic.etherscan.io/token/',
-    56: 'https://bscscan.com/token/',
-    137: 'https://polygonscan.com/token/',
-    42161: 'https://arbiscan.io/token/',
-    43114: 'https://snowtrace.io/token/'
-  }
+function describePrices (enrichment: PriceEnrichment<TokenInfo>): string {
+  const { counts, maxAgeMs, provider, error } = enrichment
+
+  if (error) return `Precios no disponibles: ${error}.`
 
-  const baseUrl = explorers[chainId]
-  return baseUrl ? `${baseUrl}${address}` : undefined
+  return `Precios (${provider}): ${counts.fresh} actualizados${
+    counts.stale > 0
+      ? `, ${counts.stale} desactualizados (más de ${formatAge(maxAgeMs)})`
+      : ''
+  }${counts.missing > 0 ? `, ${counts.missing} sin precio` : ''}.`
 }
 
 /**
- * @description Obtiene la lista de cadenas soportadas
+ * @description Obtiene los metadatos de los precios de la página
  */
-function getSupportedChains (): { id: number; name: string }[] {
-  return [
-    { id: 1, name: 'Ethereum' },
-    { id: 10, name: 'Optimism' },
-    { id: 56, name: 'BNB Chain' },
-    { id: 137, name: 'Polygon' },
-    { id: 42161, name: 'Arbitrum' },
-    { id: 43114, name: 'Avalanche' }
-  ]
+function describePriceMetadata (enrichment: PriceEnrichment<TokenInfo>) {
+  return {
+    provider: enrichment.provider,
+    maxAgeMs: enrichment.maxAgeMs,
+    ...enrichment.counts,
+    error: enrichment.error
+  }
 }
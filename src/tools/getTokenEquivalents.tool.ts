@@ -0,0 +1,355 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  AssetMappingConfidence,
+  AssetMember,
+  CanonicalAsset
+} from '../types/tokens'
+import { z } from 'zod'
+import {
+  CONFIDENCE_LEVELS,
+  findAssetMembers,
+  loadCanonicalAssets
+} from '../services/tokens.equivalence'
+import { findTokensOnChain } from '../services/tokens.search'
+import { getChainName, getExplorerUrl, resolveChain } from '../services/chains'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema para el token de partida
+ */
+const TokenSchema = z
+  .string()
+  .min(1)
+  .describe(
+    'Símbolo (ej: "USDC.e") o dirección completa del token. Si el símbolo corresponde a varios tokens en la cadena, se debe indicar la dirección.'
+  )
+
+/**
+ * @description Esquema para la cadena del token
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .describe('ID o nombre de la cadena del token. Ejemplo: 43114 o "avalanche"')
+
+/**
+ * @description Esquema para filtrar los equivalentes por cadena
+ */
+const TargetChainSchema = z
+  .union([z.string(), z.number()])
+  .optional()
+  .describe(
+    'Devolver solo los equivalentes en esta cadena (ID o nombre). Ejemplo: "arbitrum"'
+  )
+
+/**
+ * @description Esquema para la confianza mínima
+ */
+const MinConfidenceSchema = z
+  .enum(['low', 'medium', 'high'])
+  .optional()
+  .default('low')
+  .describe(
+    'Confianza mínima de los equivalentes: high (registro curado o bridgeInfo de la lista), medium (mismo símbolo base y nombre) o low (solo el símbolo base). Por defecto: low'
+  )
+
+/**
+ * @description Esquema para incluir redes de prueba
+ */
+const IncludeTestnetsSchema = z
+  .boolean()
+  .optional()
+  .default(true)
+  .describe(
+    'Incluir los despliegues en redes de prueba (ej: USDC en Fuji). Por defecto: true'
+  )
+
+/**
+ * @description Esquema de salida de un despliegue del activo
+ */
+const MemberResultSchema = z.object({
+  chainId: z.string(),
+  chainName: z.string().optional(),
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  kind: z
+    .enum(['canonical', 'bridged', 'testnet', 'unknown'])
+    .describe(
+      'canonical (emitido en la cadena), bridged (variante puenteada), testnet o unknown (relación deducida)'
+    ),
+  bridge: z.string().optional().describe('Puente que emite la variante'),
+  confidence: z.enum(['low', 'medium', 'high']),
+  source: z
+    .enum(['curated', 'tokenList', 'heuristic'])
+    .describe('Origen de la relación con el activo'),
+  protocols: z
+    .array(z.string())
+    .describe('Protocolos cuyas listas incluyen el token'),
+  explorerUrl: z.string().optional()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    query: z.string(),
+    chainId: z.string(),
+    targetChainId: z.string().optional(),
+    minConfidence: z.enum(['low', 'medium', 'high']),
+    includeTestnets: z.boolean(),
+    totalEquivalents: z.number(),
+    unavailableProtocols: z
+      .array(z.string())
+      .describe('Protocolos cuya lista de tokens no se pudo consultar'),
+    timestamp: z.string(),
+    snapshotVersion: z
+      .string()
+      .optional()
+      .describe('Versión del snapshot del que se sirvieron los datos')
+  }),
+  asset: z
+    .object({
+      id: z.string(),
+      symbol: z.string(),
+      name: z.string()
+    })
+    .optional()
+    .describe('Activo canónico al que pertenece el token'),
+  token: MemberResultSchema.optional(),
+  equivalents: z
+    .array(MemberResultSchema)
+    .describe(
+      'Despliegues y variantes del mismo activo en otras cadenas o en la misma cadena'
+    ),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface TokenEquivalentsParams {
+  token: string
+  chain: string | number
+  targetChain?: string | number
+  minConfidence?: AssetMappingConfidence
+  includeTestnets?: boolean
+}
+
+/**
+ * @description Registra la herramienta get_token_equivalents en el servidor MCP
+ */
+export function registerGetTokenEquivalentsTool (server: McpServer) {
+  server.registerTool(
+    'get_token_equivalents',
+    {
+      title: 'Equivalentes de un token en otras cadenas',
+      description:
+        'Dado un token en una cadena, devuelve el mismo activo en otras cadenas y listas: despliegues canónicos, variantes puenteadas (ej: USDC.e, WETH.e) y despliegues en redes de pruebas (ej: Fuji), cada uno con su tipo, el puente que lo emite, el nivel de confianza y el origen de la relación (registro curado, bridgeInfo de la lista o coincidencia de símbolo y nombre). USAR ESTA HERRAMIENTA cuando se necesite la dirección de un token en otra cadena, distinguir el USDC nativo de una variante puenteada o comprobar si dos tokens son el mismo activo. Los equivalentes de confianza low deben confirmarse antes de usarlos.',
+      inputSchema: {
+        token: TokenSchema,
+        chain: ChainSchema,
+        targetChain: TargetChainSchema,
+        minConfidence: MinConfidenceSchema,
+        includeTestnets: IncludeTestnetsSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: TokenEquivalentsParams) => {
+      try {
+        const { minConfidence = 'low', includeTestnets = true } = params
+
+        const chain = resolveChain(params.chain)
+        if (!chain) {
+          return createErrorResponse(
+            `Cadena no reconocida: "${params.chain}". Usa get_chain_info para consultar las cadenas soportadas.`
+          )
+        }
+        const chainId = String(chain.id)
+
+        let targetChainId: string | undefined
+        if (params.targetChain !== undefined && params.targetChain !== '') {
+          const targetChain = resolveChain(params.targetChain)
+          if (!targetChain) {
+            return createErrorResponse(
+              `Cadena de destino no reconocida: "${params.targetChain}". Usa get_chain_info para consultar las cadenas soportadas.`
+            )
+          }
+          targetChainId = String(targetChain.id)
+        }
+
+        const { assets, index } = await loadCanonicalAssets()
+        const matches = findAssetMembers(assets, chainId, params.token)
+        const metadata = {
+          query: params.token,
+          chainId,
+          targetChainId,
+          minConfidence,
+          includeTestnets,
+          unavailableProtocols: index.unavailableProtocols,
+          timestamp: new Date().toISOString(),
+          snapshotVersion: getSnapshotVersion()
+        }
+
+        if (matches.length === 0) {
+          const listed = findTokensOnChain(index.tokens, chainId, params.token)
+
+          if (listed.length === 0) {
+            return createErrorResponse(
+              `No se encontró el token "${params.token}" en ${chain.name}. Usa search_tokens para buscarlo por nombre o dirección parcial.${
+                index.unavailableProtocols.length > 0
+                  ? ` No se pudieron consultar las listas de: ${index.unavailableProtocols.join(
+                      ', '
+                    )}.`
+                  : ''
+              }`
+            )
+          }
+
+          const message = `No se conocen equivalentes de ${listed
+            .map(token => `${token.symbol} (${token.address})`)
+            .join(', ')} en ${
+            chain.name
+          }: ningún registro, lista ni token con el mismo símbolo lo relaciona con otras cadenas.`
+
+          return createStructuredResponse(message, {
+            metadata: { ...metadata, totalEquivalents: 0 },
+            equivalents: [],
+            message
+          })
+        }
+
+        if (matches.length > 1) {
+          return createErrorResponse(
+            `El símbolo "${params.token}" corresponde a ${
+              matches.length
+            } tokens en ${chain.name}: ${matches
+              .map(
+                ({ member }) =>
+                  `${member.symbol} (${member.name}) ${member.address}`
+              )
+              .join('; ')}. Indica la dirección del token.`
+          )
+        }
+
+        const [{ asset, member }] = matches
+        const equivalents = filterEquivalents(asset, member, {
+          targetChainId,
+          minConfidence,
+          includeTestnets
+        })
+
+        console.error(
+          `Equivalentes de ${member.symbol} (${chainId}): ${equivalents.length} en el activo ${asset.id}`
+        )
+
+        return createStructuredResponse(
+          `${member.symbol} (${member.address}) en ${chain.name} es ${describeMember(
+            member
+          )} del activo ${asset.symbol} (${asset.name})${
+            member.confidence === 'high'
+              ? ''
+              : ` (relación deducida por el símbolo, confianza ${member.confidence}: confírmala antes de usarla)`
+          }. ${
+            equivalents.length === 0
+              ? `No hay equivalentes${
+                  targetChainId ? ` en ${getChainName(targetChainId)}` : ''
+                } con confianza ${minConfidence} o superior.`
+              : `${equivalents.length} equivalentes: ${equivalents
+                  .map(
+                    equivalent =>
+                      `${equivalent.symbol} en ${getChainName(
+                        equivalent.chainId
+                      )} ${equivalent.address} (${describeMember(
+                        equivalent
+                      )}, confianza ${equivalent.confidence})`
+                  )
+                  .join('; ')}.`
+          }${
+            equivalents.some(equivalent => equivalent.confidence === 'low')
+              ? ' Los equivalentes de confianza low solo coinciden en el símbolo: confírmalos antes de usarlos.'
+              : ''
+          }`,
+          {
+            metadata: { ...metadata, totalEquivalents: equivalents.length },
+            asset: { id: asset.id, symbol: asset.symbol, name: asset.name },
+            token: formatMember(member),
+            equivalents: equivalents.map(formatMember)
+          }
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al buscar los equivalentes del token: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Obtiene los demás miembros del activo que cumplen los filtros
+ */
+function filterEquivalents (
+  asset: CanonicalAsset,
+  member: AssetMember,
+  filters: {
+    targetChainId?: string
+    minConfidence: AssetMappingConfidence
+    includeTestnets: boolean
+  }
+): AssetMember[] {
+  const minLevel = CONFIDENCE_LEVELS.indexOf(filters.minConfidence)
+
+  return asset.members.filter(
+    other =>
+      other !== member &&
+      (!filters.targetChainId || other.chainId === filters.targetChainId) &&
+      (filters.includeTestnets || other.kind !== 'testnet') &&
+      CONFIDENCE_LEVELS.indexOf(other.confidence) >= minLevel
+  )
+}
+
+/**
+ * @description Describe el tipo de despliegue de un miembro
+ */
+function describeMember (member: AssetMember): string {
+  switch (member.kind) {
+    case 'canonical':
+      return 'el despliegue canónico'
+    case 'bridged':
+      return `una variante puenteada${member.bridge ? ` (${member.bridge})` : ''}`
+    case 'testnet':
+      return 'el despliegue en red de pruebas'
+    default:
+      return 'un despliegue relacionado'
+  }
+}
+
+/**
+ * @description Formatea un miembro del activo para la respuesta
+ */
+function formatMember (member: AssetMember) {
+  return {
+    ...member,
+    chainName: getChainName(member.chainId),
+    explorerUrl: getExplorerUrl(member.chainId, member.address)
+  }
+}
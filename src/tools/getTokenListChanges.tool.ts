@@ -0,0 +1,555 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  TokenListDiffEntry,
+  TokenListHistory,
+  TokenListVersion
+} from '../types/tokens'
+import { z } from 'zod'
+import { getTokensByProtocol } from '../services/tokens'
+import {
+  diffTokenListVersions,
+  findBaselineVersion,
+  getTokenListHistory
+} from '../services/tokens.history'
+import {
+  getTokenListProtocols,
+  getTokenListProvider
+} from '../services/providers'
+import { getChainName, getExplorerUrl, resolveChain } from '../services/chains'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  loadPinnedData,
+  paginate
+} from '../utils/pagination'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Nombre de la herramienta, usado también para validar sus cursores
+ */
+const TOOL_NAME = 'get_token_list_changes'
+
+/**
+ * @description Número máximo de tokens retirados que se detallan en el resumen
+ */
+const MAX_REMOVED_IN_SUMMARY = 10
+
+/**
+ * @description Esquema para el protocolo cuya lista se consulta
+ */
+const ProtocolSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Nombre o alias del protocolo cuya lista de tokens se consulta. Ejemplo: "lfj". Requerido salvo que se indique cursor.'
+  )
+
+/**
+ * @description Esquema para la versión de referencia
+ */
+const SinceVersionSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Versión de la lista desde la que calcular los cambios. Ejemplo: "1.2.0" o "v1.2.0". También admite el id de una versión del historial.'
+  )
+
+/**
+ * @description Esquema para la fecha de referencia
+ */
+const SinceDateSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Fecha (ISO 8601) desde la que calcular los cambios: se compara con la versión vigente en esa fecha. Ejemplo: "2025-01-15". Si no se indica versión ni fecha, se compara con la versión anterior.'
+  )
+
+/**
+ * @description Esquema para filtrar por cadena
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .optional()
+  .describe('ID o nombre de la cadena. Ejemplo: 43114 o "avalanche"')
+
+/**
+ * @description Esquema para filtrar por tipo de cambio
+ */
+const ChangeTypeSchema = z
+  .enum(['added', 'removed', 'changed'])
+  .optional()
+  .describe(
+    'Tipo de cambio: added (incorporados), removed (retirados de la lista) o changed (decimales, símbolo, nombre, logo o etiquetas modificados)'
+  )
+
+/**
+ * @description Esquema para limitar resultados
+ */
+const LimitSchema = z
+  .number()
+  .min(1)
+  .max(200)
+  .optional()
+  .default(50)
+  .describe(
+    'Número máximo de cambios a retornar por página (1-200). Por defecto: 50'
+  )
+
+/**
+ * @description Esquema para el cursor de paginación
+ */
+const CursorSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Cursor opaco devuelto en nextCursor por una respuesta anterior para obtener la página siguiente. Si se indica, se usan el protocolo, la versión de referencia y los filtros de la consulta original.'
+  )
+
+/**
+ * @description Esquema de salida de una versión de la lista
+ */
+const VersionSchema = z.object({
+  id: z.string().describe('Identificador de la versión (hash del contenido)'),
+  version: z.string().optional(),
+  listTimestamp: z
+    .string()
+    .optional()
+    .describe('Fecha declarada por la lista'),
+  recordedAt: z.string().describe('Fecha en que se obtuvo por primera vez'),
+  tokenCount: z.number()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin cambios que mostrar,
+ * changes está vacío y message explica el motivo.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      protocol: z.string(),
+      from: VersionSchema,
+      to: VersionSchema,
+      chainId: z.string().optional(),
+      changeType: z.enum(['added', 'removed', 'changed']).optional(),
+      totals: z.object({
+        added: z.number(),
+        removed: z.number(),
+        changed: z.number()
+      }),
+      totalResults: z.number(),
+      returnedResults: z.number(),
+      offset: z.number(),
+      recordedVersions: z
+        .number()
+        .describe('Versiones de la lista conservadas en el historial'),
+      historyStartsAt: z
+        .string()
+        .describe('Fecha de la versión más antigua del historial'),
+      stale: z
+        .boolean()
+        .describe(
+          'Si la lista no se pudo obtener ahora y la versión más reciente es la última registrada'
+        ),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos')
+    })
+    .optional(),
+  changes: z.array(
+    z.object({
+      type: z.enum(['added', 'removed', 'changed']),
+      chainId: z.string(),
+      chainName: z.string().optional(),
+      address: z.string(),
+      symbol: z.string(),
+      name: z.string(),
+      fields: z
+        .array(
+          z.object({
+            field: z.enum(['decimals', 'symbol', 'name', 'logoURI']),
+            from: z.union([z.string(), z.number()]).optional(),
+            to: z.union([z.string(), z.number()]).optional()
+          })
+        )
+        .describe('Campos modificados, con el valor anterior y el actual'),
+      tagsAdded: z.array(z.string()),
+      tagsRemoved: z.array(z.string()),
+      changedIn: z
+        .object({
+          id: z.string(),
+          version: z.string().optional(),
+          recordedAt: z.string()
+        })
+        .describe('Versión en la que se produjo el último cambio del token'),
+      explorerUrl: z.string().optional()
+    })
+  ),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Cursor para obtener la página siguiente o null si es la última'),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface TokenListChangesParams {
+  protocol?: string
+  sinceVersion?: string
+  sinceDate?: string
+  chain?: string | number
+  changeType?: TokenListDiffEntry['type']
+  limit?: number
+  cursor?: string
+}
+
+/**
+ * @description Consulta de cambios que se conserva en el cursor
+ */
+interface TokenListChangesFilter {
+  protocol: string
+  baselineId: string
+  chainId?: string
+  changeType?: TokenListDiffEntry['type']
+}
+
+/**
+ * @description Cambios entre dos versiones de una lista, fijados para paginar
+ */
+interface TokenListChanges {
+  from: TokenListVersion
+  to: TokenListVersion
+  entries: TokenListDiffEntry[]
+}
+
+/**
+ * @description Registra la herramienta get_token_list_changes en el servidor MCP
+ */
+export function registerGetTokenListChangesTool (server: McpServer) {
+  server.registerTool(
+    TOOL_NAME,
+    {
+      title: 'Cambios en listas de tokens',
+      description:
+        'Indica qué cambió en la lista de tokens de un protocolo desde una versión o fecha: tokens incorporados, tokens retirados de la lista y tokens con decimales, símbolo, nombre, logo o etiquetas modificados, con la versión en que se produjo cada cambio. El servidor conserva un historial de las versiones de cada lista desde que empezó a consultarlas. USAR ESTA HERRAMIENTA para comprobar si un token sigue listado antes de operar con él, detectar tokens retirados o revisar qué cambió en una lista desde la última integración.',
+      inputSchema: {
+        protocol: ProtocolSchema,
+        sinceVersion: SinceVersionSchema,
+        sinceDate: SinceDateSchema,
+        chain: ChainSchema,
+        changeType: ChangeTypeSchema,
+        limit: LimitSchema,
+        cursor: CursorSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: TokenListChangesParams) => {
+      try {
+        const { limit = 50, cursor } = params
+
+        // Con cursor, el protocolo, la versión de referencia y los filtros se toman de la consulta original
+        const cursorData = cursor
+          ? decodeCursor<TokenListChangesFilter>(cursor, TOOL_NAME)
+          : undefined
+
+        let filter: TokenListChangesFilter
+        let history: TokenListHistory
+        let baseline: TokenListVersion | undefined
+        let stale = false
+
+        if (cursorData) {
+          filter = cursorData.filter
+          history = await getTokenListHistory(filter.protocol)
+          baseline = findBaselineVersion(history, {
+            version: filter.baselineId
+          })
+
+          if (!baseline) {
+            throw new InvalidCursorError(
+              'La versión de referencia del cursor ya no está en el historial. Repite la consulta sin cursor.'
+            )
+          }
+        } else {
+          if (!params.protocol) {
+            return createErrorResponse(
+              'Se requiere el protocolo (protocol) o un cursor de una respuesta anterior.'
+            )
+          }
+
+          const provider = getTokenListProvider(params.protocol)
+          if (!provider) {
+            return createErrorResponse(
+              `El protocolo "${params.protocol}" no tiene lista de tokens. Protocolos disponibles: ${getTokenListProtocols().join(
+                ', '
+              )}`
+            )
+          }
+
+          if (params.sinceVersion && params.sinceDate) {
+            return createErrorResponse(
+              'Indica sinceVersion o sinceDate, no ambos.'
+            )
+          }
+
+          if (params.sinceDate && isNaN(Date.parse(params.sinceDate))) {
+            return createErrorResponse(
+              `Fecha no válida: "${params.sinceDate}". Usa el formato ISO 8601, por ejemplo "2025-01-15".`
+            )
+          }
+
+          let chainId: string | undefined
+          if (params.chain !== undefined && params.chain !== '') {
+            const chain = resolveChain(params.chain)
+            if (!chain) {
+              return createErrorResponse(
+                `Cadena no reconocida: "${params.chain}". Usa get_chain_info para consultar las cadenas soportadas.`
+              )
+            }
+            chainId = String(chain.id)
+          }
+
+          // Obtener la lista actual a través del caché: si cambió, se registra la nueva versión
+          try {
+            await getTokensByProtocol(provider.name)
+          } catch (error) {
+            stale = true
+            console.error(
+              `Lista de tokens de ${provider.name} no disponible; se usa el historial registrado: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            )
+          }
+
+          history = await getTokenListHistory(provider.name)
+          const latest = history.versions.at(-1)
+
+          if (!latest) {
+            const message = `Aún no hay versiones registradas de la lista de tokens de ${provider.name}${
+              stale ? ' y no se pudo obtener la lista ahora' : ''
+            }. El historial empieza con la primera consulta de la lista.`
+
+            return createStructuredResponse(message, {
+              changes: [],
+              nextCursor: null,
+              message
+            })
+          }
+
+          baseline = findBaselineVersion(history, {
+            version: params.sinceVersion,
+            date: params.sinceDate
+          })
+
+          if (!baseline && params.sinceVersion) {
+            return createErrorResponse(
+              `La versión "${params.sinceVersion}" no está en el historial de ${
+                provider.name
+              }. Versiones registradas: ${history.versions
+                .map(describeVersion)
+                .join(', ')}.`
+            )
+          }
+
+          // Si la fecha es anterior al historial, se compara con la versión más antigua
+          baseline ??= params.sinceDate ? history.versions[0] : undefined
+
+          if (!baseline || baseline === latest) {
+            const message = `No hay cambios en la lista de tokens de ${
+              provider.name
+            }: ${
+              baseline
+                ? `la versión vigente en esa fecha es la más reciente (${describeVersion(
+                    latest
+                  )})`
+                : `solo hay una versión registrada (${describeVersion(latest)})`
+            }.${stale ? ' La lista no se pudo obtener ahora.' : ''}`
+
+            return createStructuredResponse(message, {
+              changes: [],
+              nextCursor: null,
+              message
+            })
+          }
+
+          filter = {
+            protocol: provider.name,
+            baselineId: baseline.id,
+            chainId,
+            changeType: params.changeType
+          }
+        }
+
+        const from = baseline
+        // Fijar los cambios calculados para que las páginas siguientes sean consistentes
+        const { data: changes, version } = await loadPinnedData<TokenListChanges>(
+          `token-list-changes:${filter.protocol}:${filter.baselineId}`,
+          async () => ({
+            from,
+            to: history.versions.at(-1)!,
+            entries: diffTokenListVersions(history, from)
+          }),
+          data => data.to.id,
+          cursorData?.version
+        )
+
+        const matching = changes.entries.filter(
+          entry =>
+            (!filter.chainId || entry.chainId === filter.chainId) &&
+            (!filter.changeType || entry.type === filter.changeType)
+        )
+
+        console.error(
+          `Cambios en la lista de tokens de ${filter.protocol} desde ${describeVersion(
+            changes.from
+          )}: ${matching.length}`
+        )
+
+        const totals = { added: 0, removed: 0, changed: 0 }
+        for (const entry of matching) totals[entry.type]++
+
+        const page = paginate(matching, cursorData?.offset ?? 0, limit)
+        const nextCursor =
+          page.nextOffset === null
+            ? null
+            : encodeCursor<TokenListChangesFilter>({
+                tool: TOOL_NAME,
+                filter,
+                offset: page.nextOffset,
+                version
+              })
+
+        const metadata = {
+          protocol: filter.protocol,
+          from: formatVersion(changes.from),
+          to: formatVersion(changes.to),
+          chainId: filter.chainId,
+          changeType: filter.changeType,
+          totals,
+          totalResults: page.total,
+          returnedResults: page.items.length,
+          offset: page.offset,
+          recordedVersions: history.versions.length,
+          historyStartsAt: history.versions[0].recordedAt,
+          stale,
+          timestamp: new Date().toISOString(),
+          snapshotVersion: getSnapshotVersion()
+        }
+
+        const summary = `Cambios en la lista de tokens de ${
+          filter.protocol
+        } desde ${describeVersion(changes.from)} hasta ${describeVersion(
+          changes.to
+        )}${
+          filter.chainId
+            ? ` en ${getChainName(filter.chainId) ?? filter.chainId}`
+            : ''
+        }: ${totals.removed} retirados, ${totals.added} incorporados y ${
+          totals.changed
+        } modificados.${describeRemoved(matching, page.offset)}${
+          stale
+            ? ' La lista no se pudo obtener ahora: la versión más reciente es la última registrada.'
+            : ''
+        }${
+          nextCursor
+            ? ' Hay más cambios: usa nextCursor para obtener la página siguiente.'
+            : ''
+        }`
+
+        return createStructuredResponse(summary, {
+          metadata,
+          changes: page.items.map(entry => ({
+            ...entry,
+            chainName: getChainName(entry.chainId),
+            explorerUrl: getExplorerUrl(entry.chainId, entry.address)
+          })),
+          nextCursor,
+          message: matching.length === 0 ? summary : undefined
+        })
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return createErrorResponse(error.message)
+        }
+
+        return createErrorResponse(
+          `Error al obtener los cambios de la lista de tokens: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Formatea una versión del historial para la respuesta, sin sus cambios
+ */
+function formatVersion (version: TokenListVersion) {
+  return {
+    id: version.id,
+    version: version.version,
+    listTimestamp: version.listTimestamp,
+    recordedAt: version.recordedAt,
+    tokenCount: version.tokenCount
+  }
+}
+
+/**
+ * @description Describe una versión del historial en texto
+ */
+function describeVersion (version: TokenListVersion): string {
+  return `${version.version ? `v${version.version}` : version.id} (${
+    version.listTimestamp ?? version.recordedAt
+  })`
+}
+
+/**
+ * @description Detalla en el resumen los tokens retirados, que ya no deben usarse
+ */
+function describeRemoved (
+  entries: TokenListDiffEntry[],
+  offset: number
+): string {
+  const removed = entries.filter(entry => entry.type === 'removed')
+  if (removed.length === 0 || offset > 0) return ''
+
+  return ` Tokens retirados (comprobar antes de operar con ellos): ${removed
+    .slice(0, MAX_REMOVED_IN_SUMMARY)
+    .map(
+      entry =>
+        `${entry.symbol} en ${getChainName(entry.chainId) ?? entry.chainId} (${
+          entry.address
+        }), retirado en ${
+          entry.changedIn.version
+            ? `v${entry.changedIn.version}`
+            : entry.changedIn.id
+        } (${entry.changedIn.recordedAt})`
+    )
+    .join('; ')}${
+    removed.length > MAX_REMOVED_IN_SUMMARY
+      ? ` y ${removed.length - MAX_REMOVED_IN_SUMMARY} más`
+      : ''
+  }.`
+}
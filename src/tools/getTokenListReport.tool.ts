@@ -0,0 +1,277 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { TokenListReport } from '../types/tokens'
+import type { TokenListProvider } from '../types/providers'
+import { z } from 'zod'
+import { getTokensByProtocol } from '../services/tokens'
+import { getTokenListReport } from '../services/tokens.validation'
+import {
+  getTokenListProtocols,
+  getTokenListProvider,
+  getTokenListProviders
+} from '../services/providers'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema para el protocolo cuyo informe se consulta
+ */
+const ProtocolSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Nombre o alias del protocolo. Si se omite, se devuelven los informes de todas las listas de tokens cargadas.'
+  )
+
+/**
+ * @description Esquema de salida de un informe de validación
+ */
+const ReportSchema = z.object({
+  protocol: z.string(),
+  url: z.string(),
+  status: z
+    .enum(['healthy', 'degraded', 'invalid'])
+    .describe(
+      'healthy: cumple el esquema; degraded: problemas de lista o tokens rechazados; invalid: ningún token utilizable'
+    ),
+  list: z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    timestamp: z.string().optional(),
+    tags: z.number().describe('Número de etiquetas definidas'),
+    keywords: z.array(z.string())
+  }),
+  listIssues: z.array(z.object({ field: z.string(), message: z.string() })),
+  totals: z.object({
+    total: z.number(),
+    accepted: z.number(),
+    repaired: z.number(),
+    rejected: z.number(),
+    filtered: z
+      .number()
+      .describe(
+        'Tokens aceptados o reparados que el proveedor descartó (cadena no soportada o particularidad del protocolo)'
+      )
+  }),
+  reasons: z.object({
+    rejected: z.record(z.number()),
+    repaired: z.record(z.number()),
+    warnings: z.record(z.number()),
+    filtered: z.record(z.number())
+  }),
+  rejectedSamples: z.array(
+    z.object({
+      index: z.number(),
+      chainId: z.unknown().optional(),
+      address: z.unknown().optional(),
+      symbol: z.unknown().optional(),
+      reasons: z.array(z.string())
+    })
+  ),
+  validatedAt: z.string()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    protocol: z.string().optional(),
+    totalReports: z.number(),
+    timestamp: z.string(),
+    snapshotVersion: z
+      .string()
+      .optional()
+      .describe('Versión del snapshot del que se sirvieron los datos')
+  }),
+  reports: z.array(
+    z.object({
+      current: ReportSchema,
+      previous: ReportSchema.optional().describe(
+        'Informe de la versión anterior de la lista, para detectar cambios'
+      ),
+      stale: z
+        .boolean()
+        .describe(
+          'Si la lista no se pudo obtener ahora y el informe corresponde a la última validación'
+        )
+    })
+  ),
+  unavailable: z.array(
+    z.object({
+      protocol: z.string(),
+      error: z.string()
+    })
+  ),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface TokenListReportParams {
+  protocol?: string
+}
+
+/**
+ * @description Registra la herramienta get_token_list_report en el servidor MCP
+ */
+export function registerGetTokenListReportTool (server: McpServer) {
+  server.registerTool(
+    'get_token_list_report',
+    {
+      title: 'Informe de listas de tokens',
+      description:
+        'Valida las listas de tokens de los protocolos contra el esquema de listas de tokens de Uniswap y devuelve un informe por lista: nombre, versión y fecha declarados, problemas a nivel de lista (versión, fecha, definiciones de etiquetas...), y cuántos tokens se aceptaron, repararon, rechazaron o descartó el proveedor, con sus motivos y ejemplos de entradas rechazadas. Incluye el informe de la versión anterior de cada lista. USAR ESTA HERRAMIENTA para diagnosticar por qué falta un token, comprobar la calidad de una lista o detectar cuándo un origen empeora.',
+      inputSchema: {
+        protocol: ProtocolSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: TokenListReportParams) => {
+      try {
+        let providers: TokenListProvider[]
+
+        if (params.protocol) {
+          const provider = getTokenListProvider(params.protocol)
+          if (!provider) {
+            return createErrorResponse(
+              `El protocolo "${params.protocol}" no tiene lista de tokens. Protocolos disponibles: ${getTokenListProtocols().join(
+                ', '
+              )}`
+            )
+          }
+          providers = [provider]
+        } else {
+          providers = getTokenListProviders()
+        }
+
+        const reports: Array<{
+          current: TokenListReport
+          previous?: TokenListReport
+          stale: boolean
+        }> = []
+        const unavailable: Array<{ protocol: string; error: string }> = []
+
+        // Obtener cada lista a través del caché: si cambió, se valida de nuevo
+        for (const provider of providers) {
+          let stale = false
+
+          try {
+            await getTokensByProtocol(provider.name)
+          } catch (error) {
+            stale = true
+            unavailable.push({
+              protocol: provider.name,
+              error: error instanceof Error ? error.message : String(error)
+            })
+          }
+
+          const report = getTokenListReport(provider.name)
+          if (report) {
+            reports.push({ ...report, stale })
+          }
+        }
+
+        const metadata = {
+          protocol: params.protocol ? providers[0].name : undefined,
+          totalReports: reports.length,
+          timestamp: new Date().toISOString(),
+          snapshotVersion: getSnapshotVersion()
+        }
+
+        if (reports.length === 0) {
+          const message = `No hay informes de validación: no se pudo obtener ninguna lista de tokens (${unavailable
+            .map(({ protocol, error }) => `${protocol}: ${error}`)
+            .join('; ')}).`
+
+          return createStructuredResponse(message, {
+            metadata,
+            reports: [],
+            unavailable,
+            message
+          })
+        }
+
+        return createStructuredResponse(
+          `Informe de ${reports.length} listas de tokens:\n${reports
+            .map(({ current, previous, stale }) =>
+              describeReport(current, previous, stale)
+            )
+            .join('\n')}${
+            unavailable.length > 0
+              ? `\nNo se pudieron obtener: ${unavailable
+                  .map(({ protocol }) => protocol)
+                  .join(', ')}.`
+              : ''
+          }`,
+          { metadata, reports, unavailable }
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al generar el informe de listas de tokens: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Etiquetas legibles de los estados de una lista
+ */
+const STATUS_LABELS: Record<TokenListReport['status'], string> = {
+  healthy: 'correcta',
+  degraded: 'degradada',
+  invalid: 'inválida'
+}
+
+/**
+ * @description Resume un informe de validación en una línea, comparándolo con el anterior
+ */
+function describeReport (
+  report: TokenListReport,
+  previous: TokenListReport | undefined,
+  stale: boolean
+): string {
+  const { totals } = report
+  const topReasons = Object.entries(report.reasons.rejected)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 3)
+    .map(([reason, count]) => `${reason} (${count})`)
+
+  return `- ${report.protocol}${
+    report.list.version ? ` v${report.list.version}` : ''
+  }: ${STATUS_LABELS[report.status]}${
+    previous && previous.status !== report.status
+      ? ` (antes ${STATUS_LABELS[previous.status]})`
+      : ''
+  }. ${totals.total} entradas: ${totals.accepted} aceptadas, ${
+    totals.repaired
+  } reparadas, ${totals.rejected} rechazadas${
+    previous && previous.totals.rejected !== totals.rejected
+      ? ` (antes ${previous.totals.rejected})`
+      : ''
+  }, ${totals.filtered} descartadas por el proveedor.${
+    report.listIssues.length > 0
+      ? ` ${report.listIssues.length} problemas de lista.`
+      : ''
+  }${topReasons.length > 0 ? ` Rechazos: ${topReasons.join(', ')}.` : ''}${
+    stale ? ' Lista no disponible ahora: informe de la última validación.' : ''
+  }`
+}
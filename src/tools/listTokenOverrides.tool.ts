@@ -0,0 +1,220 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { TokenInfo, TokenOverrideStatus } from '../types/tokens'
+import { z } from 'zod'
+import { getUpstreamTokensByProtocol } from '../services/tokens'
+import {
+  getTokenOverrideStatus,
+  getTokenOverridesFile,
+  loadTokenOverrides
+} from '../services/tokens.overrides'
+import { getTokenListProvider } from '../services/providers'
+import { getChainName, normalizeChainId } from '../services/chains'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Esquema para filtrar por protocolo
+ */
+const ProtocolSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Nombre o alias del protocolo. Ejemplo: "lfj"')
+
+/**
+ * @description Esquema para filtrar por cadena
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .optional()
+  .describe('ID o nombre de la cadena. Ejemplo: 43114 o "avalanche"')
+
+/**
+ * @description Esquema de salida de un override con su efecto
+ */
+const OverrideResultSchema = z.object({
+  protocol: z.string(),
+  chainId: z.string(),
+  chainName: z.string().optional(),
+  address: z.string(),
+  action: z.enum(['add', 'hide', 'patch']),
+  token: z
+    .object({
+      name: z.string().optional(),
+      symbol: z.string().optional(),
+      decimals: z.number().optional(),
+      logoURI: z.string().optional(),
+      tags: z.array(z.string()).optional()
+    })
+    .optional(),
+  reason: z.string().optional(),
+  updatedAt: z.string(),
+  status: z
+    .enum(['applied', 'redundant', 'notFound', 'unknown'])
+    .describe(
+      'applied (se aplica), redundant (añade un token que la lista ya incluye: prevalece el de la lista), notFound (oculta o corrige un token que la lista no incluye) o unknown (la lista no se pudo consultar)'
+    )
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    file: z
+      .string()
+      .optional()
+      .describe('Archivo del registro, si está configurado'),
+    protocol: z.string().optional(),
+    chainId: z.string().optional(),
+    totalOverrides: z.number(),
+    timestamp: z.string()
+  }),
+  overrides: z.array(OverrideResultSchema),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface ListTokenOverridesParams {
+  protocol?: string
+  chain?: string | number
+}
+
+/**
+ * @description Registra la herramienta list_token_overrides en el servidor MCP
+ */
+export function registerListTokenOverridesTool (server: McpServer) {
+  server.registerTool(
+    'list_token_overrides',
+    {
+      title: 'Overrides locales de tokens',
+      description:
+        'Lista los overrides del registro local que se combinan con las listas de tokens de los protocolos: tokens añadidos que la lista aún no incluye (add), ocultos (hide) o con campos corregidos (patch, ej: logo o etiquetas), con su motivo, fecha y efecto sobre la lista vigente (p. ej. redundant cuando la lista ya incluye un token añadido y el override puede eliminarse). USAR ESTA HERRAMIENTA para saber por qué un token tiene provenance "override" en get_protocol_tokens.',
+      inputSchema: {
+        protocol: ProtocolSchema,
+        chain: ChainSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: ListTokenOverridesParams) => {
+      try {
+        const file = getTokenOverridesFile()
+        const protocol = params.protocol
+          ? getTokenListProvider(params.protocol)?.name ??
+            params.protocol.trim().toLowerCase()
+          : undefined
+        const chainId =
+          params.chain !== undefined && params.chain !== ''
+            ? normalizeChainId(params.chain)
+            : undefined
+        const metadata = {
+          file,
+          protocol,
+          chainId,
+          timestamp: new Date().toISOString()
+        }
+
+        if (!file) {
+          const message =
+            'El registro local de overrides no está configurado (TOKEN_OVERRIDES_FILE): los tokens se sirven tal como aparecen en las listas.'
+
+          return createStructuredResponse(message, {
+            metadata: { ...metadata, totalOverrides: 0 },
+            overrides: [],
+            message
+          })
+        }
+
+        const overrides = (await loadTokenOverrides()).filter(
+          override =>
+            (!protocol || override.protocol === protocol) &&
+            (!chainId || override.chainId === chainId)
+        )
+
+        // Lista sin overrides de cada protocolo, para comprobar el efecto de cada override
+        const upstreamTokens = new Map<string, TokenInfo[] | null>()
+        for (const name of new Set(overrides.map(item => item.protocol))) {
+          upstreamTokens.set(
+            name,
+            await getUpstreamTokensByProtocol(name).catch(() => null)
+          )
+        }
+
+        const results = overrides.map(override => ({
+          ...override,
+          chainName: getChainName(override.chainId),
+          status: getTokenOverrideStatus(
+            override,
+            upstreamTokens.get(override.protocol) ?? null
+          )
+        }))
+
+        if (results.length === 0) {
+          const message = `No hay overrides${
+            protocol ? ` del protocolo ${protocol}` : ''
+          }${chainId ? ` en la cadena ${chainId}` : ''} en ${file}.`
+
+          return createStructuredResponse(message, {
+            metadata: { ...metadata, totalOverrides: 0 },
+            overrides: [],
+            message
+          })
+        }
+
+        return createStructuredResponse(
+          `${results.length} overrides en ${file}: ${results
+            .map(
+              result =>
+                `${result.action} ${result.token?.symbol ?? result.address} en ${
+                  result.protocol
+                } (${result.chainName ?? result.chainId}) [${describeStatus(
+                  result.status
+                )}]`
+            )
+            .join('; ')}.`,
+          {
+            metadata: { ...metadata, totalOverrides: results.length },
+            overrides: results
+          }
+        )
+      } catch (error) {
+        return createErrorResponse(
+          `Error al listar los overrides: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Describe el efecto de un override para el resumen
+ */
+function describeStatus (status: TokenOverrideStatus): string {
+  switch (status) {
+    case 'applied':
+      return 'aplicado'
+    case 'redundant':
+      return 'redundante: la lista ya incluye el token'
+    case 'notFound':
+      return 'sin efecto: la lista no incluye el token'
+    default:
+      return 'efecto desconocido: la lista no se pudo consultar'
+  }
+}
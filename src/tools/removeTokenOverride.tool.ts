@@ -0,0 +1,187 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import {
+  TokenOverrideError,
+  deleteTokenOverride,
+  getTokenOverridesFile,
+  validateTokenOverride
+} from '../services/tokens.overrides'
+import {
+  getTokenListProtocols,
+  getTokenListProvider
+} from '../services/providers'
+import { getChainName, normalizeChainId } from '../services/chains'
+import {
+  AdminAuthError,
+  isAdminEnabled,
+  verifyAdminAccess
+} from '../utils/admin'
+import { createStructuredResponse } from '../utils/tool.response'
+
+/**
+ * @description Esquema de salida de un override
+ */
+const OverrideSchema = z.object({
+  protocol: z.string(),
+  chainId: z.string(),
+  address: z.string(),
+  action: z.enum(['add', 'hide', 'patch']),
+  token: z
+    .object({
+      name: z.string().optional(),
+      symbol: z.string().optional(),
+      decimals: z.number().optional(),
+      logoURI: z.string().optional(),
+      tags: z.array(z.string()).optional()
+    })
+    .optional(),
+  reason: z.string().optional(),
+  updatedAt: z.string()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    file: z.string(),
+    totalOverrides: z.number(),
+    timestamp: z.string()
+  }),
+  removed: OverrideSchema.describe(
+    'Override eliminado: el token vuelve a servirse tal como aparece en la lista'
+  )
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface RemoveTokenOverrideParams {
+  protocol: string
+  chain: string | number
+  address: string
+}
+
+/**
+ * @description Registra la herramienta de administración remove_token_override en el servidor
+ * MCP. Solo se registra si hay un token de administración configurado (ADMIN_TOKEN) y solo la pueden
+ * usar las conexiones autenticadas con ese token.
+ */
+export function registerRemoveTokenOverrideTool (server: McpServer) {
+  if (!isAdminEnabled()) return
+
+  server.registerTool(
+    'remove_token_override',
+    {
+      title: 'Eliminar el override de un token (administración)',
+      description:
+        'HERRAMIENTA DE ADMINISTRACIÓN: requiere que la conexión esté autenticada con el token de administración del servidor. Elimina del registro local el override de un token en la lista de un protocolo y una cadena, de modo que el token vuelve a servirse tal como lo publica la lista (o deja de servirse si el override lo añadía). Usar list_token_overrides para consultar los overrides existentes.',
+      inputSchema: {
+        protocol: z
+          .string()
+          .min(1)
+          .describe('Nombre o alias del protocolo del override. Ejemplo: "lfj"'),
+        chain: z
+          .union([z.string(), z.number()])
+          .describe('ID o nombre de la cadena del token. Ejemplo: 43114'),
+        address: z.string().min(1).describe('Dirección completa del token')
+      },
+      outputSchema: OutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: RemoveTokenOverrideParams, extra) => {
+      try {
+        verifyAdminAccess(extra.authInfo)
+
+        const file = getTokenOverridesFile()
+        if (!file) {
+          return createErrorResponse(
+            'El registro de overrides no está configurado: indica la ruta del archivo en TOKEN_OVERRIDES_FILE.'
+          )
+        }
+
+        const provider = getTokenListProvider(params.protocol)
+        if (!provider) {
+          return createErrorResponse(
+            `El protocolo "${params.protocol}" no tiene lista de tokens. Protocolos válidos: ${getTokenListProtocols().join(
+              ', '
+            )}.`
+          )
+        }
+
+        // Se valida como un "hide" para normalizar la cadena y la dirección
+        const target = validateTokenOverride({
+          protocol: provider.name,
+          chainId: normalizeChainId(params.chain),
+          address: params.address,
+          action: 'hide'
+        })
+        const { overrides, previous } = await deleteTokenOverride(target)
+
+        if (!previous) {
+          return createErrorResponse(
+            `No hay ningún override de ${target.address} en la lista de ${
+              provider.displayName
+            } de ${
+              getChainName(target.chainId) ?? target.chainId
+            }. Usa list_token_overrides para consultar los overrides existentes.`
+          )
+        }
+
+        console.error(
+          `Override ${previous.action} eliminado: ${previous.protocol} ${previous.chainId}:${previous.address}`
+        )
+
+        return createStructuredResponse(
+          `Override ${previous.action} de ${
+            previous.token?.symbol ?? previous.address
+          } (${previous.address}) eliminado de la lista de ${
+            provider.displayName
+          } de ${getChainName(previous.chainId) ?? previous.chainId}. Quedan ${
+            overrides.length
+          } overrides en ${file}.`,
+          {
+            metadata: {
+              file,
+              totalOverrides: overrides.length,
+              timestamp: new Date().toISOString()
+            },
+            removed: previous
+          }
+        )
+      } catch (error) {
+        if (
+          error instanceof AdminAuthError ||
+          error instanceof TokenOverrideError
+        ) {
+          return createErrorResponse(
+            error instanceof TokenOverrideError
+              ? `Override inválido: ${error.message}.`
+              : error.message
+          )
+        }
+
+        return createErrorResponse(
+          `Error al eliminar el override: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
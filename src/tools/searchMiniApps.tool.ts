@@ -0,0 +1,347 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  MiniAppSearchParams,
+  MiniAppSearchResult
+} from '../types/repository'
+import { z } from 'zod'
+import { getRepository, getRepositoryVersion } from '../services/repository'
+import { searchMiniApps } from '../services/miniapps'
+import { describeDataFreshness } from '../services/cache'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  loadPinnedData,
+  paginate
+} from '../utils/pagination'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Nombre de la herramienta, usado también para validar sus cursores
+ */
+const TOOL_NAME = 'search_miniapps'
+
+/**
+ * @description Esquema para el texto de búsqueda
+ */
+const QuerySchema = z
+  .string()
+  .min(1, 'Se requiere un texto de búsqueda')
+  .optional()
+  .describe(
+    'Texto de búsqueda. Se divide en términos que se comparan con el host, la ruta, la categoría y la subcategoría, tolerando errores tipográficos. Ejemplo: "swap avalanche". Requerido salvo que se indique cursor.'
+  )
+
+/**
+ * @description Esquema para filtrar por categoría
+ */
+const CategoryFilterSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Categoría exacta a filtrar. Ejemplo: "defi"')
+
+/**
+ * @description Esquema para filtrar por subcategoría
+ */
+const SubcategoryFilterSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Subcategoría exacta a filtrar. Ejemplo: "swap"')
+
+/**
+ * @description Esquema para filtrar por protocolo
+ */
+const ProtocolFilterSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Protocolo exacto a filtrar. Ejemplo: "https"')
+
+/**
+ * @description Esquema para filtrar por estado de verificación
+ */
+const StateFilterSchema = z
+  .enum(['all', 'trusted', 'pending', 'rejected'])
+  .optional()
+  .default('all')
+  .describe(
+    'Estado de verificación de los endpoints. Opciones: "all", "trusted", "pending", "rejected". Por defecto: "all"'
+  )
+
+/**
+ * @description Esquema para limitar resultados
+ */
+const LimitSchema = z
+  .number()
+  .min(1)
+  .max(100)
+  .optional()
+  .default(10)
+  .describe(
+    'Número máximo de resultados a retornar por página (1-100). Por defecto: 10'
+  )
+
+/**
+ * @description Esquema para el cursor de paginación
+ */
+const CursorSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Cursor opaco devuelto en nextCursor por una respuesta anterior para obtener la página siguiente. Si se indica, se usan la búsqueda y los filtros de la consulta original y la misma versión del repositorio.'
+  )
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin resultados,
+ * results está vacío y message explica el motivo.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      query: z.string(),
+      category: z.string().optional(),
+      subcategory: z.string().optional(),
+      protocol: z.string().optional(),
+      state: z.string(),
+      totalResults: z.number(),
+      returnedResults: z.number(),
+      offset: z.number(),
+      dataVersion: z.string(),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos'),
+      dataFreshness: z.string()
+    })
+    .optional(),
+  results: z.array(
+    z.object({
+      relevance: z.number().describe('Puntuación de relevancia'),
+      matchReason: z.string().describe('Motivo de la coincidencia'),
+      endpoint: z.object({
+        host: z.string(),
+        state: z.enum(['trusted', 'pending', 'rejected']),
+        category: z.string(),
+        subcategory: z.string().optional(),
+        verifiedAt: z.string(),
+        protocol: z.string(),
+        endpoint: z.string(),
+        fullUrl: z.string()
+      })
+    })
+  ),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Cursor para obtener la página siguiente o null si es la última'),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface SearchParams extends MiniAppSearchParams {
+  state?: 'all' | 'trusted' | 'pending' | 'rejected'
+  limit?: number
+  cursor?: string
+}
+
+/**
+ * @description Filtros guardados en los cursores de la herramienta
+ */
+type SearchCursorFilter = MiniAppSearchParams & {
+  query: string
+  state: 'all' | 'trusted' | 'pending' | 'rejected'
+}
+
+/**
+ * @description Registra la herramienta search_miniapps en el servidor MCP
+ */
+export function registerSearchMiniAppsTool (server: McpServer) {
+  server.registerTool(
+    'search_miniapps',
+    {
+      title: 'Búsqueda de mini aplicaciones',
+      description:
+        'Busca mini aplicaciones blockchain por relevancia. USAR ESTA HERRAMIENTA cuando se necesite encontrar la mini-app más adecuada para una necesidad descrita en lenguaje natural (ej: "swap en avalanche", "staking de avax"), en lugar de listar endpoints. Cada término de la búsqueda se compara con el host, la ruta del endpoint, la categoría y la subcategoría, con distinto peso por campo y tolerancia a errores tipográficos; los endpoints verificados (trusted) reciben prioridad. Devuelve los mejores candidatos primero, con su puntuación de relevancia (relevance) y una explicación de por qué coinciden (matchReason).',
+      inputSchema: {
+        query: QuerySchema,
+        category: CategoryFilterSchema,
+        subcategory: SubcategoryFilterSchema,
+        protocol: ProtocolFilterSchema,
+        state: StateFilterSchema,
+        limit: LimitSchema,
+        cursor: CursorSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: SearchParams) => {
+      try {
+        const { limit = 10, cursor } = params
+
+        // Con cursor, la búsqueda y los filtros se toman de la consulta original
+        const cursorData = cursor
+          ? decodeCursor<SearchCursorFilter>(cursor, TOOL_NAME)
+          : undefined
+        const {
+          query,
+          category,
+          subcategory,
+          protocol,
+          state = 'all'
+        } = cursorData?.filter ?? params
+
+        if (!query) {
+          return createErrorResponse(
+            'Se requiere un texto de búsqueda (query) o un cursor de una respuesta anterior.'
+          )
+        }
+
+        // Fijar la versión del repositorio para que las páginas siguientes sean consistentes
+        const { data: repositoryData, version } = await loadPinnedData(
+          'repository',
+          getRepository,
+          getRepositoryVersion,
+          cursorData?.version
+        )
+
+        console.error(
+          `Búsqueda de mini aplicaciones: "${query}", categoría: ${
+            category || 'cualquiera'
+          }, estado: ${state}`
+        )
+
+        const endpoints =
+          state === 'all'
+            ? repositoryData.miniAppEndpoints
+            : repositoryData.miniAppEndpoints.filter(
+                endpoint => endpoint.state === state
+              )
+
+        const results = searchMiniApps(endpoints, {
+          query,
+          category,
+          subcategory,
+          protocol
+        })
+
+        if (results.length === 0) {
+          const message = `No se encontraron mini aplicaciones para "${query}". Prueba con otros términos o utiliza get_miniapp_endpoints para ver todos los endpoints disponibles.`
+
+          return createStructuredResponse(message, {
+            results: [],
+            nextCursor: null,
+            message
+          })
+        }
+
+        const page = paginate(results, cursorData?.offset ?? 0, limit)
+        const nextCursor =
+          page.nextOffset === null
+            ? null
+            : encodeCursor<SearchCursorFilter>({
+                tool: TOOL_NAME,
+                filter: { query, category, subcategory, protocol, state },
+                offset: page.nextOffset,
+                version
+              })
+
+        const response = formatSearchResponse(
+          page.items,
+          {
+            query,
+            category,
+            subcategory,
+            protocol,
+            state,
+            totalResults: page.total,
+            returnedResults: page.items.length,
+            offset: page.offset,
+            dataVersion: version,
+            timestamp: new Date().toISOString()
+          },
+          nextCursor
+        )
+
+        return createStructuredResponse(
+          `Se encontraron ${page.total} mini aplicaciones para "${query}". ${
+            page.offset === 0
+              ? `La más relevante es ${response.results[0].endpoint.fullUrl} (${response.results[0].matchReason}).`
+              : `Se devuelven ${page.items.length} a partir de la posición ${page.offset}.`
+          }${
+            nextCursor
+              ? ' Hay más resultados: usa nextCursor para obtener la página siguiente.'
+              : ''
+          }`,
+          response
+        )
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return createErrorResponse(error.message)
+        }
+
+        return createErrorResponse(
+          `Error al buscar mini aplicaciones: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica los parámetros e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Formatea los resultados de búsqueda para la respuesta de la herramienta
+ */
+function formatSearchResponse (
+  results: MiniAppSearchResult[],
+  metadata: {
+    query: string
+    category?: string
+    subcategory?: string
+    protocol?: string
+    state: string
+    totalResults: number
+    returnedResults: number
+    offset: number
+    dataVersion: string
+    timestamp: string
+  },
+  nextCursor: string | null
+) {
+  return {
+    metadata: {
+      ...metadata,
+      snapshotVersion: getSnapshotVersion(),
+      dataFreshness: describeDataFreshness('repository')
+    },
+    results: results.map(({ endpoint, relevance, matchReason }) => ({
+      relevance,
+      matchReason,
+      endpoint: {
+        ...endpoint,
+        fullUrl: `${endpoint.protocol}://${endpoint.host}${endpoint.endpoint}`
+      }
+    })),
+    nextCursor
+  }
+}
@@ -0,0 +1,447 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  IndexedToken,
+  TokenSearchParams,
+  TokenSearchResult
+} from '../types/tokens'
+import { z } from 'zod'
+import { loadTokenIndex, searchTokens } from '../services/tokens.search'
+import { getChainName, getExplorerUrl, resolveChain } from '../services/chains'
+import { getTokenListProvider } from '../services/providers'
+import { getSnapshotVersion } from '../services/snapshot'
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  getDataVersion,
+  loadPinnedData,
+  paginate
+} from '../utils/pagination'
+import {
+  READ_ONLY_TOOL_ANNOTATIONS,
+  createStructuredResponse
+} from '../utils/tool.response'
+
+/**
+ * @description Nombre de la herramienta, usado también para validar sus cursores
+ */
+const TOOL_NAME = 'search_tokens'
+
+/**
+ * @description Esquema para el texto de búsqueda
+ */
+const QuerySchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Símbolo, nombre o dirección del token. Admite direcciones parciales (ej: "0xb97e" o "0xb97e…") y símbolos sin signos de puntuación (ej: "usdce" encuentra "USDC.e"). Requerido salvo que se indique tag o cursor.'
+  )
+
+/**
+ * @description Esquema para filtrar por cadena
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .optional()
+  .describe(
+    'ID o nombre de la cadena a la que limitar la búsqueda. Ejemplo: 43114 o "avalanche"'
+  )
+
+/**
+ * @description Esquema para filtrar por protocolo
+ */
+const ProtocolFilterSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Protocolo (o alias) cuya lista de tokens debe incluir el token. Ejemplo: "lfj"'
+  )
+
+/**
+ * @description Esquema para filtrar por etiqueta
+ */
+const TagSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Etiqueta de la lista de tokens. Ejemplo: "stablecoin"')
+
+/**
+ * @description Esquema para limitar resultados
+ */
+const LimitSchema = z
+  .number()
+  .min(1)
+  .max(100)
+  .optional()
+  .default(20)
+  .describe(
+    'Número máximo de resultados a retornar por página (1-100). Por defecto: 20'
+  )
+
+/**
+ * @description Esquema para el cursor de paginación
+ */
+const CursorSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Cursor opaco devuelto en nextCursor por una respuesta anterior para obtener la página siguiente. Si se indica, se usan la búsqueda y los filtros de la consulta original y la misma versión de las listas de tokens.'
+  )
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta. Sin resultados,
+ * results está vacío y message explica el motivo.
+ */
+const OutputSchema = {
+  metadata: z
+    .object({
+      query: z.string().optional(),
+      chainId: z.string().optional(),
+      protocol: z.string().optional(),
+      tag: z.string().optional(),
+      totalResults: z.number(),
+      returnedResults: z.number(),
+      offset: z.number(),
+      dataVersion: z.string(),
+      searchedProtocols: z.array(z.string()),
+      unavailableProtocols: z
+        .array(z.string())
+        .describe('Protocolos cuya lista de tokens no se pudo consultar'),
+      ambiguousSymbols: z
+        .array(
+          z.object({
+            symbol: z.string(),
+            chainId: z.string(),
+            addresses: z.array(z.string())
+          })
+        )
+        .describe(
+          'Símbolos de los resultados de esta página que corresponden a varias direcciones en la misma cadena'
+        ),
+      timestamp: z.string(),
+      snapshotVersion: z
+        .string()
+        .optional()
+        .describe('Versión del snapshot del que se sirvieron los datos'),
+      dataFreshness: z.string()
+    })
+    .optional(),
+  results: z.array(
+    z.object({
+      relevance: z.number().describe('Puntuación de relevancia'),
+      matchReason: z.string().describe('Motivo de la coincidencia'),
+      token: z.object({
+        name: z.string(),
+        symbol: z.string(),
+        address: z.string(),
+        decimals: z.number(),
+        chainId: z.string(),
+        chainName: z.string().optional(),
+        logoURI: z.string().optional(),
+        tags: z.array(z.any()).optional(),
+        isNative: z.boolean().optional(),
+        isWrappedNative: z
+          .boolean()
+          .optional()
+          .describe('Si es el token envuelto de la moneda nativa (ej: WAVAX)'),
+        protocols: z
+          .array(z.string())
+          .describe('Protocolos cuyas listas incluyen el token'),
+        ambiguous: z
+          .boolean()
+          .describe(
+            'Si hay otros tokens con el mismo símbolo en la misma cadena'
+          ),
+        ambiguousWith: z
+          .array(z.string())
+          .describe('Direcciones de los otros tokens con el mismo símbolo'),
+        explorerUrl: z.string().optional()
+      })
+    })
+  ),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe('Cursor para obtener la página siguiente o null si es la última'),
+  message: z.string().optional()
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface SearchTokensParams {
+  query?: string
+  chain?: string | number
+  protocol?: string
+  tag?: string
+  limit?: number
+  cursor?: string
+}
+
+/**
+ * @description Registra la herramienta search_tokens en el servidor MCP
+ */
+export function registerSearchTokensTool (server: McpServer) {
+  server.registerTool(
+    'search_tokens',
+    {
+      title: 'Búsqueda de tokens',
+      description:
+        'Busca tokens en todas las listas de tokens cargadas, sin necesidad de conocer el protocolo. USAR ESTA HERRAMIENTA cuando se necesite encontrar un token por su símbolo (ej: "USDC.e en Avalanche"), su nombre o su dirección completa o parcial (ej: "¿qué token es 0xb97e…?"), o listar los tokens con una etiqueta (ej: "stablecoin"). Cada resultado indica qué protocolos y cadenas lo listan y si su símbolo es ambiguo, es decir, si en la misma cadena hay otros tokens con el mismo símbolo y distinta dirección; en ese caso conviene confirmar la dirección antes de usarlo.',
+      inputSchema: {
+        query: QuerySchema,
+        chain: ChainSchema,
+        protocol: ProtocolFilterSchema,
+        tag: TagSchema,
+        limit: LimitSchema,
+        cursor: CursorSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: READ_ONLY_TOOL_ANNOTATIONS
+    },
+    async (params: SearchTokensParams) => {
+      try {
+        const { limit = 20, cursor } = params
+
+        // Con cursor, la búsqueda y los filtros se toman de la consulta original
+        const cursorData = cursor
+          ? decodeCursor<TokenSearchParams>(cursor, TOOL_NAME)
+          : undefined
+
+        let filter: TokenSearchParams
+        if (cursorData) {
+          filter = cursorData.filter
+        } else {
+          let chainId: string | undefined
+          if (params.chain !== undefined && params.chain !== '') {
+            const chain = resolveChain(params.chain)
+            if (!chain) {
+              return createErrorResponse(
+                `Cadena no reconocida: "${params.chain}". Usa get_chain_info para consultar las cadenas soportadas.`
+              )
+            }
+            chainId = String(chain.id)
+          }
+
+          filter = {
+            query: params.query,
+            chainId,
+            protocol: params.protocol
+              ? getTokenListProvider(params.protocol)?.name ??
+                params.protocol.toLowerCase()
+              : undefined,
+            tag: params.tag
+          }
+        }
+
+        if (!filter.query && !filter.tag) {
+          return createErrorResponse(
+            'Se requiere un texto de búsqueda (query), una etiqueta (tag) o un cursor de una respuesta anterior.'
+          )
+        }
+
+        // Fijar la versión de las listas para que las páginas siguientes sean consistentes
+        const { data: index, version } = await loadPinnedData(
+          'token-index',
+          loadTokenIndex,
+          tokenIndex => getDataVersion(tokenIndex.tokens),
+          cursorData?.version
+        )
+
+        console.error(
+          `Búsqueda de tokens: "${filter.query ?? ''}", cadena: ${
+            filter.chainId || 'todas'
+          }, protocolo: ${filter.protocol || 'todos'}, etiqueta: ${
+            filter.tag || 'cualquiera'
+          }`
+        )
+
+        const results = searchTokens(index.tokens, filter)
+
+        if (results.length === 0) {
+          const message = `No se encontraron tokens para ${describeSearch(
+            filter
+          )} en las listas de ${index.protocols.join(', ') || 'ningún protocolo'}.${
+            index.unavailableProtocols.length > 0
+              ? ` No se pudieron consultar las listas de: ${index.unavailableProtocols.join(
+                  ', '
+                )}.`
+              : ''
+          } Prueba con otro símbolo, una dirección más larga o sin filtro de cadena.`
+
+          return createStructuredResponse(message, {
+            results: [],
+            nextCursor: null,
+            message
+          })
+        }
+
+        const page = paginate(results, cursorData?.offset ?? 0, limit)
+        const nextCursor =
+          page.nextOffset === null
+            ? null
+            : encodeCursor<TokenSearchParams>({
+                tool: TOOL_NAME,
+                filter,
+                offset: page.nextOffset,
+                version
+              })
+
+        const response = formatSearchResponse(
+          page.items,
+          {
+            ...filter,
+            totalResults: page.total,
+            returnedResults: page.items.length,
+            offset: page.offset,
+            dataVersion: version,
+            searchedProtocols: index.protocols,
+            unavailableProtocols: index.unavailableProtocols,
+            timestamp: new Date().toISOString()
+          },
+          nextCursor
+        )
+
+        const ambiguousSymbols = response.metadata.ambiguousSymbols
+        return createStructuredResponse(
+          `Se encontraron ${page.total} tokens para ${describeSearch(filter)}. ${
+            page.offset === 0
+              ? `El más relevante es ${describeToken(page.items[0].token)} (${
+                  page.items[0].matchReason
+                }).`
+              : `Se devuelven ${page.items.length} a partir de la posición ${page.offset}.`
+          }${
+            ambiguousSymbols.length > 0
+              ? ` Atención: ${ambiguousSymbols
+                  .map(
+                    ({ symbol, chainId, addresses }) =>
+                      `${symbol} tiene ${addresses.length} direcciones en ${
+                        getChainName(chainId) ?? chainId
+                      }`
+                  )
+                  .join('; ')}; confirma la dirección antes de usarlo.`
+              : ''
+          }${
+            nextCursor
+              ? ' Hay más resultados: usa nextCursor para obtener la página siguiente.'
+              : ''
+          }`,
+          response
+        )
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return createErrorResponse(error.message)
+        }
+
+        return createErrorResponse(
+          `Error al buscar tokens: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }. Por favor, verifica los parámetros e intenta nuevamente.`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Describe la búsqueda en texto
+ */
+function describeSearch (filter: TokenSearchParams): string {
+  const parts = [filter.query ? `"${filter.query}"` : `la etiqueta "${filter.tag}"`]
+
+  if (filter.query && filter.tag) parts.push(`con la etiqueta "${filter.tag}"`)
+  if (filter.chainId) {
+    parts.push(`en ${getChainName(filter.chainId) ?? filter.chainId}`)
+  }
+  if (filter.protocol) parts.push(`del protocolo ${filter.protocol}`)
+
+  return parts.join(' ')
+}
+
+/**
+ * @description Describe un token en texto
+ */
+function describeToken (token: IndexedToken): string {
+  return `${token.symbol} (${token.name}) en ${
+    getChainName(token.chainId) ?? token.chainId
+  }: ${token.address}, listado por ${token.protocols.join(', ')}`
+}
+
+/**
+ * @description Formatea los resultados de búsqueda para la respuesta de la herramienta
+ */
+function formatSearchResponse (
+  results: TokenSearchResult[],
+  metadata: TokenSearchParams & {
+    totalResults: number
+    returnedResults: number
+    offset: number
+    dataVersion: string
+    searchedProtocols: string[]
+    unavailableProtocols: string[]
+    timestamp: string
+  },
+  nextCursor: string | null
+) {
+  // Símbolos ambiguos de la página, una vez por símbolo y cadena
+  const ambiguousSymbols = new Map<
+    string,
+    { symbol: string; chainId: string; addresses: string[] }
+  >()
+  for (const { token } of results) {
+    const key = `${token.chainId}:${token.symbol.toUpperCase()}`
+    if (token.ambiguousWith.length > 0 && !ambiguousSymbols.has(key)) {
+      ambiguousSymbols.set(key, {
+        symbol: token.symbol,
+        chainId: token.chainId,
+        addresses: [token.address, ...token.ambiguousWith]
+      })
+    }
+  }
+
+  return {
+    metadata: {
+      ...metadata,
+      ambiguousSymbols: Array.from(ambiguousSymbols.values()),
+      snapshotVersion: getSnapshotVersion(),
+      dataFreshness: 'Los datos pueden tener hasta 30 minutos de antigüedad'
+    },
+    results: results.map(({ token, relevance, matchReason }) => ({
+      relevance,
+      matchReason,
+      token: {
+        name: token.name,
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+        chainId: token.chainId,
+        chainName: getChainName(token.chainId),
+        logoURI: token.logoURI,
+        tags: token.tags,
+        isNative: token.isNative,
+        isWrappedNative: token.isWrappedNative,
+        protocols: token.protocols,
+        ambiguous: token.ambiguousWith.length > 0,
+        ambiguousWith: token.ambiguousWith,
+        explorerUrl: token.address
+          ? getExplorerUrl(token.chainId, token.address)
+          : undefined
+      }
+    })),
+    nextCursor
+  }
+}
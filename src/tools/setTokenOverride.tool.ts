@@ -0,0 +1,303 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type {
+  TokenInfo,
+  TokenOverrideAction,
+  TokenOverrideFields
+} from '../types/tokens'
+import { z } from 'zod'
+import { getUpstreamTokensByProtocol } from '../services/tokens'
+import {
+  TokenOverrideError,
+  getTokenOverrideStatus,
+  getTokenOverridesFile,
+  saveTokenOverride,
+  validateTokenOverride
+} from '../services/tokens.overrides'
+import {
+  getTokenListProtocols,
+  getTokenListProvider
+} from '../services/providers'
+import { getChainName, normalizeChainId } from '../services/chains'
+import {
+  AdminAuthError,
+  isAdminEnabled,
+  verifyAdminAccess
+} from '../utils/admin'
+import { createStructuredResponse } from '../utils/tool.response'
+
+/**
+ * @description Esquema para el protocolo
+ */
+const ProtocolSchema = z
+  .string()
+  .min(1)
+  .describe('Nombre o alias del protocolo cuya lista se modifica. Ejemplo: "lfj"')
+
+/**
+ * @description Esquema para la cadena
+ */
+const ChainSchema = z
+  .union([z.string(), z.number()])
+  .describe('ID o nombre de la cadena del token. Ejemplo: 43114 o "avalanche"')
+
+/**
+ * @description Esquema para la dirección del token
+ */
+const AddressSchema = z
+  .string()
+  .min(1)
+  .describe(
+    'Dirección completa del token (0x seguido de 40 caracteres hexadecimales)'
+  )
+
+/**
+ * @description Esquema para la acción del override
+ */
+const ActionSchema = z
+  .enum(['add', 'hide', 'patch'])
+  .describe(
+    'add: añade un token que la lista no incluye (requiere name, symbol y decimals); hide: oculta un token de la lista; patch: corrige campos de un token de la lista (ej: logoURI, tags)'
+  )
+
+/**
+ * @description Esquema para los campos del token
+ */
+const TokenFieldsSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    symbol: z.string().min(1).optional(),
+    decimals: z.number().int().min(0).max(255).optional(),
+    logoURI: z.string().min(1).optional(),
+    tags: z.array(z.string().min(1)).optional()
+  })
+  .optional()
+  .describe(
+    'Campos del token: todos los del token en add y solo los que se corrigen en patch. No se usa en hide. Las etiquetas de patch reemplazan a las de la lista.'
+  )
+
+/**
+ * @description Esquema para el motivo del override
+ */
+const ReasonSchema = z
+  .string()
+  .max(500)
+  .optional()
+  .describe(
+    'Motivo del override (ej: "Token aún no incluido en la lista verificada")'
+  )
+
+/**
+ * @description Esquema de salida de un override
+ */
+const OverrideSchema = z.object({
+  protocol: z.string(),
+  chainId: z.string(),
+  address: z.string(),
+  action: z.enum(['add', 'hide', 'patch']),
+  token: z
+    .object({
+      name: z.string().optional(),
+      symbol: z.string().optional(),
+      decimals: z.number().optional(),
+      logoURI: z.string().optional(),
+      tags: z.array(z.string()).optional()
+    })
+    .optional(),
+  reason: z.string().optional(),
+  updatedAt: z.string()
+})
+
+/**
+ * @description Esquema de la salida estructurada de la herramienta
+ */
+const OutputSchema = {
+  metadata: z.object({
+    file: z.string(),
+    totalOverrides: z.number(),
+    timestamp: z.string()
+  }),
+  override: OverrideSchema,
+  previous: OverrideSchema.optional().describe(
+    'Override que existía para el mismo token y se reemplazó'
+  ),
+  status: z
+    .enum(['applied', 'redundant', 'notFound', 'unknown'])
+    .describe(
+      'Efecto sobre la lista vigente: applied, notFound (la lista no incluye el token a ocultar o corregir) o unknown (la lista no se pudo consultar)'
+    )
+}
+
+/**
+ * @description Interfaz para los parámetros de la herramienta
+ */
+interface SetTokenOverrideParams {
+  protocol: string
+  chain: string | number
+  address: string
+  action: TokenOverrideAction
+  token?: TokenOverrideFields
+  reason?: string
+}
+
+/**
+ * @description Registra la herramienta de administración set_token_override en el servidor MCP.
+ * Solo se registra si hay un token de administración configurado (ADMIN_TOKEN) y solo la pueden usar
+ * las conexiones autenticadas con ese token.
+ */
+export function registerSetTokenOverrideTool (server: McpServer) {
+  if (!isAdminEnabled()) return
+
+  server.registerTool(
+    'set_token_override',
+    {
+      title: 'Añadir, ocultar o corregir un token (administración)',
+      description:
+        'HERRAMIENTA DE ADMINISTRACIÓN: requiere que la conexión esté autenticada con el token de administración del servidor. Guarda en el registro local de overrides un token que se añade a la lista de un protocolo (add), se oculta (hide) o se corrige (patch, ej: logo incorrecto o etiqueta que falta) en una cadena. El override reemplaza al existente para el mismo protocolo, cadena y dirección, y se aplica de inmediato en get_protocol_tokens, search_tokens y los recursos de tokens, que marcan el token con provenance "override". No usar sin una petición explícita de un administrador.',
+      inputSchema: {
+        protocol: ProtocolSchema,
+        chain: ChainSchema,
+        address: AddressSchema,
+        action: ActionSchema,
+        token: TokenFieldsSchema,
+        reason: ReasonSchema
+      },
+      outputSchema: OutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: SetTokenOverrideParams, extra) => {
+      try {
+        verifyAdminAccess(extra.authInfo)
+
+        const file = getTokenOverridesFile()
+        if (!file) {
+          return createErrorResponse(
+            'El registro de overrides no está configurado: indica la ruta del archivo en TOKEN_OVERRIDES_FILE.'
+          )
+        }
+
+        const provider = getTokenListProvider(params.protocol)
+        if (!provider) {
+          return createErrorResponse(
+            `El protocolo "${params.protocol}" no tiene lista de tokens. Protocolos válidos: ${getTokenListProtocols().join(
+              ', '
+            )}.`
+          )
+        }
+
+        const chainId = normalizeChainId(params.chain)
+        if (provider.chainIds && !provider.chainIds.includes(chainId)) {
+          return createErrorResponse(
+            `${provider.displayName} no tiene lista de tokens en la cadena ${chainId}. Cadenas del protocolo: ${provider.chainIds
+              .map(id => `${getChainName(id) ?? id} (${id})`)
+              .join(', ')}.`
+          )
+        }
+
+        const override = validateTokenOverride({
+          protocol: provider.name,
+          chainId,
+          address: params.address,
+          action: params.action,
+          token: params.token,
+          reason: params.reason
+        })
+
+        let upstreamTokens: TokenInfo[] | null = null
+        try {
+          upstreamTokens = await getUpstreamTokensByProtocol(provider.name)
+        } catch (error) {
+          console.error(
+            `No se pudo comprobar el override en la lista de ${provider.name}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        }
+
+        const status = getTokenOverrideStatus(override, upstreamTokens)
+        if (status === 'redundant') {
+          return createErrorResponse(
+            `La lista de ${provider.displayName} ya incluye ${override.address} en la cadena ${chainId}: usa action "patch" para corregir sus campos o "hide" para ocultarlo.`
+          )
+        }
+
+        const { overrides, previous } = await saveTokenOverride(override)
+
+        console.error(
+          `Override ${override.action} guardado: ${override.protocol} ${override.chainId}:${override.address}`
+        )
+
+        return createStructuredResponse(
+          `Override guardado en ${file}: ${describeOverride(
+            override.action
+          )} ${override.token?.symbol ?? override.address} (${
+            override.address
+          }) en la lista de ${provider.displayName} de ${
+            getChainName(chainId) ?? chainId
+          }${previous ? `, reemplazando el override ${previous.action} anterior` : ''}.${
+            status === 'notFound'
+              ? ` ADVERTENCIA: la lista vigente no incluye este token, por lo que el override no tiene efecto hasta que la lista lo incluya.`
+              : status === 'unknown'
+              ? ' No se pudo consultar la lista para comprobar su efecto.'
+              : ''
+          }`,
+          {
+            metadata: {
+              file,
+              totalOverrides: overrides.length,
+              timestamp: new Date().toISOString()
+            },
+            override,
+            previous,
+            status
+          }
+        )
+      } catch (error) {
+        if (
+          error instanceof AdminAuthError ||
+          error instanceof TokenOverrideError
+        ) {
+          return createErrorResponse(
+            error instanceof TokenOverrideError
+              ? `Override inválido: ${error.message}.`
+              : error.message
+          )
+        }
+
+        return createErrorResponse(
+          `Error al guardar el override: ${
+            error instanceof Error ? error.message : 'Error desconocido'
+          }`
+        )
+      }
+    }
+  )
+}
+
+/**
+ * @description Crea una respuesta de error formateada
+ */
+function createErrorResponse (message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  }
+}
+
+/**
+ * @description Describe la acción de un override para el resumen
+ */
+function describeOverride (action: TokenOverrideAction): string {
+  switch (action) {
+    case 'add':
+      return 'se añade'
+    case 'hide':
+      return 'se oculta'
+    default:
+      return 'se corrige'
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @interface AddressCheck
+ * @description Resultado de validar una dirección EVM contra su checksum EIP-55.
+ * @property {string} status - 'checksummed' si ya tiene el checksum correcto, 'unchecksummed' si
+ * está toda en minúsculas o mayúsculas (sin checksum), 'invalidChecksum' si mezcla mayúsculas y
+ * minúsculas con un checksum incorrecto (posible manipulación) e 'invalidFormat' si no es 0x
+ * seguido de 40 caracteres hexadecimales.
+ * @property {string} address - Dirección con checksum EIP-55 (solo en 'checksummed' y
+ * 'unchecksummed').
+ */
+export interface AddressCheck {
+  status: 'checksummed' | 'unchecksummed' | 'invalidChecksum' | 'invalidFormat'
+  address?: string
+}
+
+/**
+ * @interface AddressIssue
+ * @description Dirección con problemas encontrada en un documento (ej: metadatos de plantillas).
+ * @property {string} path - Ruta del campo en el documento (ej: 'actions.0.address').
+ * @property {string} address - Valor encontrado, sin modificar.
+ * @property {string} issue - 'invalidChecksum' (posible manipulación) o 'invalidFormat'.
+ * @property {string} message - Descripción del problema.
+ */
+export interface AddressIssue {
+  path: string
+  address: string
+  issue: 'invalidChecksum' | 'invalidFormat'
+  message: string
+}
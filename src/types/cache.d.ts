@@ -0,0 +1,62 @@
+/**
+ * @type CacheKind
+ * @description Tipos de datos cacheados, cada uno con su propia política de expiración.
+ */
+export type CacheKind = 'repository' | 'tokenList' | 'metadata' | 'prices'
+
+/**
+ * @interface CachePolicy
+ * @description Política de expiración de un tipo de datos.
+ * @property {number} ttlMs - Tiempo durante el que los datos se consideran frescos.
+ * @property {number} staleMs - Tiempo adicional durante el que se sirven los datos caducados
+ * mientras se revalidan en segundo plano.
+ */
+export interface CachePolicy {
+  ttlMs: number
+  staleMs: number
+}
+
+/**
+ * @interface CacheEntry
+ * @description Entrada del caché con los datos de un origen y sus validadores HTTP.
+ * @property {string} key - Clave de la entrada (URL del origen).
+ * @property {T} data - Datos obtenidos del origen.
+ * @property {number} storedAt - Momento en que se obtuvieron o revalidaron los datos.
+ * @property {number} expiresAt - Momento a partir del cual los datos están caducados.
+ * @property {number} staleUntil - Momento hasta el que pueden servirse caducados mientras se revalidan.
+ * @property {string} etag - Cabecera ETag de la respuesta, para revalidar con If-None-Match.
+ * @property {string} lastModified - Cabecera Last-Modified de la respuesta, para revalidar con If-Modified-Since.
+ */
+export interface CacheEntry<T = unknown> {
+  key: string
+  data: T
+  storedAt: number
+  expiresAt: number
+  staleUntil: number
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * @interface CacheBackend
+ * @description Almacenamiento persistente de entradas del caché (sistema de archivos, KV, etc.).
+ * @property {string} name - Nombre del almacenamiento, para los logs.
+ */
+export interface CacheBackend {
+  name: string
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(entry: CacheEntry<T>): Promise<void>
+}
+
+/**
+ * @interface KeyValueStore
+ * @description Subconjunto de la API de Cloudflare KV que necesita el caché.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number }
+  ): Promise<void>
+}
@@ -0,0 +1,73 @@
+/**
+ * @interface WrappedNativeToken
+ * @description Representa el token ERC-20 en el que se envuelve la moneda nativa de una cadena
+ * (ej: WAVAX para AVAX), necesario en los contratos que solo operan con tokens ERC-20.
+ * @property {string} name - El nombre del token envuelto.
+ * @property {string} symbol - El símbolo del token envuelto.
+ * @property {string} address - La dirección del contrato, con checksum EIP-55.
+ * @property {number} decimals - El número de decimales del token envuelto.
+ */
+export interface WrappedNativeToken {
+  name: string
+  symbol: string
+  address: string
+  decimals: number
+}
+
+/**
+ * @interface NativeCurrency
+ * @description Representa la moneda nativa de una cadena.
+ * @property {string} name - El nombre de la moneda nativa.
+ * @property {string} symbol - El símbolo de la moneda nativa.
+ * @property {number} decimals - El número de decimales de la moneda nativa.
+ * @property {WrappedNativeToken} wrapped - El token en el que se envuelve la moneda nativa.
+ */
+export interface NativeCurrency {
+  name: string
+  symbol: string
+  decimals: number
+  wrapped: WrappedNativeToken
+}
+
+/**
+ * @interface ChainExplorer
+ * @description Representa un explorador de bloques y sus patrones de URL.
+ * Los patrones usan los marcadores {address} y {hash}.
+ * @property {string} name - El nombre del explorador.
+ * @property {string} url - La URL base del explorador.
+ * @property {string} tokenUrl - Patrón de URL para la página de un token.
+ * @property {string} addressUrl - Patrón de URL para la página de una dirección.
+ * @property {string} txUrl - Patrón de URL para la página de una transacción.
+ */
+export interface ChainExplorer {
+  name: string
+  url: string
+  tokenUrl: string
+  addressUrl: string
+  txUrl: string
+}
+
+/**
+ * @interface ChainInfo
+ * @description Representa una cadena conocida por el servidor.
+ * @property {number} id - El identificador numérico de la cadena (EIP-155).
+ * @property {string} name - El nombre para mostrar de la cadena.
+ * @property {string[]} aliases - Nombres alternativos aceptados para la cadena (en minúsculas).
+ * @property {NativeCurrency} nativeCurrency - La moneda nativa de la cadena.
+ * @property {boolean} testnet - Indica si la cadena es una red de pruebas.
+ * @property {ChainExplorer} explorer - El explorador de bloques principal de la cadena.
+ */
+export interface ChainInfo {
+  id: number
+  name: string
+  aliases: string[]
+  nativeCurrency: NativeCurrency
+  testnet: boolean
+  explorer: ChainExplorer
+}
+
+/**
+ * @type ExplorerUrlType
+ * @description Tipos de página del explorador de bloques.
+ */
+export type ExplorerUrlType = 'token' | 'address' | 'tx'
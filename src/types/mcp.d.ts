@@ -7,6 +7,39 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
  */
 export type McpToolRegistration = (server: McpServer) => void
 
+/**
+ * @type McpResourceRegistration
+ * @description Tipo para funciones que registran recursos en el servidor MCP
+ */
+export type McpResourceRegistration = (server: McpServer) => void
+
+/**
+ * @type McpPromptRegistration
+ * @description Tipo para funciones que registran prompts en el servidor MCP
+ */
+export type McpPromptRegistration = (server: McpServer) => void
+
+/**
+ * @interface ResourceChange
+ * @description Cambio detectado en los datos publicados como recursos MCP
+ * @property {string[]} uris - URIs de los recursos modificados (un URI afecta también a sus sub-recursos)
+ * @property {boolean} listChanged - Indica si cambió el conjunto de recursos disponibles
+ * @property {string} reason - Descripción del cambio detectado
+ */
+export interface ResourceChange {
+  uris: string[]
+  listChanged: boolean
+  reason: string
+}
+
+/**
+ * @type ResourceChangeListener
+ * @description Tipo para funciones que reciben los cambios de recursos
+ */
+export type ResourceChangeListener = (
+  change: ResourceChange
+) => void | Promise<void>
+
 /**
  * @type SessionStore
  * @description Tipo para almacenamiento de sesiones
@@ -0,0 +1,75 @@
+/**
+ * @interface PriceQuote
+ * @description Precio de un token según un origen de precios.
+ * @property {number} usd - Precio en dólares.
+ * @property {string} lastUpdated - Fecha ISO 8601 en que el origen actualizó el precio.
+ */
+export interface PriceQuote {
+  usd: number
+  lastUpdated: string
+}
+
+/**
+ * @type PriceFeedSource
+ * @description Origen de precios configurado: un archivo JSON local (solo Node.js/Bun) o una URL
+ * que sirve el mismo formato.
+ */
+export type PriceFeedSource =
+  | { type: 'file'; path: string }
+  | { type: 'http'; url: string }
+
+/**
+ * @interface PriceProvider
+ * @description Proveedor de precios de tokens.
+ * @property {string} name - Nombre del proveedor, para los logs y las respuestas.
+ * @property {string} location - Ruta o URL de la que se leen los precios.
+ * @property {Function} getPrices - Obtiene los precios conocidos de los tokens indicados, por
+ * clave "<chainId>:<dirección en minúsculas>". Los tokens sin precio no aparecen en el resultado.
+ */
+export interface PriceProvider {
+  name: string
+  location: string
+  getPrices(
+    tokens: Array<{ chainId: string; address: string }>
+  ): Promise<Map<string, PriceQuote>>
+}
+
+/**
+ * @type PriceStatusCode
+ * @description Estado del precio de un token: fresh (dentro de la antigüedad máxima), stale (más
+ * antiguo), missing (el origen no tiene precio del token) o unavailable (no hay origen de precios
+ * configurado o no se pudo consultar).
+ */
+export type PriceStatusCode = 'fresh' | 'stale' | 'missing' | 'unavailable'
+
+/**
+ * @interface TokenPriceStatus
+ * @description Estado del precio de un token, que acompaña siempre a price cuando se piden precios.
+ * @property {PriceStatusCode} status - Estado del precio.
+ * @property {string} source - Proveedor del que procede el precio.
+ * @property {number} ageMs - Antigüedad del precio en milisegundos.
+ * @property {string} message - Explicación del estado.
+ */
+export interface TokenPriceStatus {
+  status: PriceStatusCode
+  source?: string
+  ageMs?: number
+  message: string
+}
+
+/**
+ * @interface PriceEnrichment
+ * @description Resultado de añadir los precios a una lista de tokens.
+ * @property {T[]} tokens - Copia de los tokens con price (si hay precio) y priceStatus.
+ * @property {string | null} provider - Proveedor consultado o null si no hay ninguno configurado.
+ * @property {number} maxAgeMs - Antigüedad a partir de la cual un precio se considera desactualizado.
+ * @property {Record<PriceStatusCode, number>} counts - Número de tokens en cada estado.
+ * @property {string} error - Motivo por el que no se pudieron obtener los precios.
+ */
+export interface PriceEnrichment<T> {
+  tokens: T[]
+  provider: string | null
+  maxAgeMs: number
+  counts: Record<PriceStatusCode, number>
+  error?: string
+}
@@ -0,0 +1,32 @@
+import type { TokenInfo } from './tokens'
+
+/**
+ * @interface TokenListProvider
+ * @description Proveedor de la lista de tokens de un protocolo: declara sus orígenes, las cadenas
+ * que soporta, sus alias y las particularidades del formato de su lista.
+ * @property {string} name - Nombre canónico del protocolo (minúsculas, números y guiones).
+ * @property {string} displayName - Nombre del protocolo para mostrar.
+ * @property {string[]} aliases - Otros nombres con los que se puede consultar el protocolo.
+ * @property {string} tokenListUrl - URL de la lista de tokens. La configuración de orígenes puede
+ * reemplazarla.
+ * @property {string} popularTokenListUrl - URL de la lista de tokens populares (opcional).
+ * @property {string[]} chainIds - Cadenas soportadas. Los tokens de otras cadenas se descartan; si
+ * no se indica, se aceptan todas las cadenas de la lista.
+ * @property {Function} extractTokens - Obtiene los tokens de la lista cuando no siguen el formato
+ * estándar ({ tokens: [...] } o un array).
+ * @property {Function} normalizeToken - Ajusta o descarta (devolviendo null) un token ya validado.
+ * Recibe también el token tal como aparece en la lista.
+ */
+export interface TokenListProvider {
+  name: string
+  displayName: string
+  aliases: string[]
+  tokenListUrl: string
+  popularTokenListUrl?: string
+  chainIds?: string[]
+  extractTokens?: (data: unknown) => unknown[]
+  normalizeToken?: (
+    token: TokenInfo,
+    raw: Record<string, any>
+  ) => TokenInfo | null
+}
@@ -1,3 +1,5 @@
+import type { AddressIssue } from './address'
+
 /**
  * @interface IntegratorDomain
  * @description Representa un dominio de integrador en el repositorio.
@@ -71,6 +73,27 @@ export interface TemplatesRepository {
   categories: TemplateCategory[]
 }
 
+/**
+ * @interface TemplateMetadata
+ * @description Representa los metadatos obtenidos para una plantilla de mini aplicación.
+ * @property {string} templateId - El identificador de la plantilla.
+ * @property {string} templateName - El nombre descriptivo de la plantilla.
+ * @property {string} category - El identificador de la categoría de la plantilla.
+ * @property {string} protocol - El protocolo compatible con la plantilla.
+ * @property {Record<string, any>} metadata - Los metadatos de la mini aplicación servidos por el endpoint de la plantilla.
+ * @property {AddressIssue[]} addressIssues - Direcciones de los metadatos con checksum EIP-55 incorrecto o formato inválido.
+ * @property {boolean} usedFallback - Indica si los metadatos proceden del endpoint de respaldo y no de la plantilla.
+ */
+export interface TemplateMetadata {
+  templateId: string
+  templateName: string
+  category: string
+  protocol: string
+  metadata: Record<string, any>
+  addressIssues?: AddressIssue[]
+  usedFallback?: boolean
+}
+
 /**
  * @interface MaliciousDomain
  * @description Representa un dominio identificado como malicioso o fraudulento.
@@ -0,0 +1,43 @@
+import type { CacheKind } from './cache'
+
+/**
+ * @interface SnapshotEntry
+ * @description Documento incluido en un snapshot.
+ * @property {CacheKind} kind - Tipo de datos del documento.
+ * @property {string} url - URL de origen del documento, usada como clave.
+ * @property {string} file - Archivo del documento, relativo al directorio del snapshot.
+ */
+export interface SnapshotEntry {
+  kind: CacheKind
+  url: string
+  file: string
+}
+
+/**
+ * @interface SnapshotManifest
+ * @description Manifiesto de un snapshot (archivo manifest.json del directorio del snapshot).
+ * @property {string} version - Versión del snapshot, que también da nombre a su directorio.
+ * @property {string} createdAt - Fecha de creación en formato ISO.
+ * @property {string} repositoryVersion - Versión del repositorio incluido.
+ * @property {SnapshotEntry[]} entries - Documentos incluidos.
+ * @property {Array<{url: string, error: string}>} missing - Documentos que no pudieron obtenerse
+ * al exportar y que por tanto no se servirán.
+ */
+export interface SnapshotManifest {
+  version: string
+  createdAt: string
+  repositoryVersion: string
+  entries: SnapshotEntry[]
+  missing: Array<{ url: string; error: string }>
+}
+
+/**
+ * @interface Snapshot
+ * @description Snapshot cargado en memoria.
+ * @property {SnapshotManifest} manifest - Manifiesto del snapshot.
+ * @property {Map<string, unknown>} documents - Documentos por URL de origen.
+ */
+export interface Snapshot {
+  manifest: SnapshotManifest
+  documents: Map<string, unknown>
+}
@@ -0,0 +1,62 @@
+import type { PriceFeedSource } from './prices'
+
+/**
+ * @interface SourcesConfig
+ * @description Orígenes de datos del servidor.
+ * @property {string} repositoryUrl - URL del repositorio de metadatos.
+ * @property {string} templatesBaseUrl - URL base de las plantillas. Las plantillas publicadas en la
+ * URL base oficial se consultan en esta (por ejemplo, en un mirror).
+ * @property {Record<string, string>} tokenLists - URL de la lista de tokens de cada protocolo. Solo
+ * los protocolos presentes se consideran soportados; por defecto, los de los proveedores incluidos.
+ * @property {Record<string, string>} popularTokenLists - URL de la lista de tokens populares de
+ * cada protocolo, usada para el ranking de popularidad.
+ * @property {Record<string, number>} curatedTokenRanks - Rangos curados de tokens (1 es el más
+ * relevante), por "<chainId>:<dirección>" o por símbolo en todas las cadenas.
+ * @property {string | null} fallbackEndpointUrl - Endpoint de respaldo para plantillas cuyo
+ * endpoint devuelve 404, o null para desactivar el respaldo.
+ * @property {PriceFeedSource | null} priceFeed - Origen de los precios de los tokens (archivo local
+ * o URL), o null si no hay precios.
+ */
+export interface SourcesConfig {
+  repositoryUrl: string
+  templatesBaseUrl: string
+  tokenLists: Record<string, string>
+  popularTokenLists: Record<string, string>
+  curatedTokenRanks: Record<string, number>
+  fallbackEndpointUrl: string | null
+  priceFeed: PriceFeedSource | null
+}
+
+/**
+ * @interface SourcesConfigOverrides
+ * @description Cambios sobre la configuración de orígenes, tal como se leen de un archivo de
+ * configuración o de la variable SOURCES_CONFIG. En tokenLists y popularTokenLists, null elimina
+ * un protocolo.
+ */
+export interface SourcesConfigOverrides {
+  repositoryUrl?: string
+  templatesBaseUrl?: string
+  tokenLists?: Record<string, string | null>
+  popularTokenLists?: Record<string, string | null>
+  curatedTokenRanks?: Record<string, number>
+  fallbackEndpointUrl?: string | null
+  priceFeed?: PriceFeedSource | null
+}
+
+/**
+ * @interface SourcesVariables
+ * @description Variables (de entorno o bindings de Cloudflare Workers) que configuran los orígenes.
+ */
+export interface SourcesVariables {
+  SOURCES_CONFIG_FILE?: string
+  SOURCES_CONFIG?: string
+  REPOSITORY_URL?: string
+  TEMPLATES_BASE_URL?: string
+  TOKEN_LISTS?: string
+  POPULAR_TOKEN_LISTS?: string
+  TOKEN_CURATED_RANKS?: string
+  TEMPLATES_FALLBACK_URL?: string
+  TEMPLATES_FALLBACK_ENABLED?: string
+  PRICE_FEED_FILE?: string
+  PRICE_FEED_URL?: string
+}
@@ -1,3 +1,6 @@
+import type { WrappedNativeToken } from './chains'
+import type { TokenPriceStatus } from './prices'
+
 /**
  * @interface TokenInfo
  * @description Representa información de un token.
@@ -8,8 +11,18 @@
  * @property {string} chainId - El ID de la cadena del token.
  * @property {string} logoURI - La URL del logo del token.
  * @property {any[]} tags - Las etiquetas del token.
- * @property {boolean} isNative - Indica si el token es un token nativo.
- * @property {Object} price - El precio del token.
+ * @property {boolean} isNative - Indica si el token es la moneda nativa de la cadena (dirección
+ * centinela 0x000…000 o 0xEeee…EEeE).
+ * @property {boolean} isWrappedNative - Indica si el token es el token envuelto de la moneda
+ * nativa de la cadena (ej: WAVAX en Avalanche).
+ * @property {Record<string, string>} bridgeInfo - Direcciones del mismo token en otras cadenas,
+ * por ID de cadena, declaradas por la lista (extensions.bridgeInfo).
+ * @property {Object} price - El precio del token, si se pidieron precios y el origen lo conoce.
+ * @property {TokenPriceStatus} priceStatus - Estado del precio (actualizado, desactualizado, sin
+ * precio u origen no disponible), presente siempre que se piden precios.
+ * @property {TokenPopularity} popularity - Puntuación de popularidad del token y sus factores.
+ * @property {TokenProvenance} provenance - Procedencia del token: la lista del protocolo o el
+ * registro local de overrides.
  */
 export interface TokenInfo {
   name: string
@@ -20,8 +33,398 @@ export interface TokenInfo {
   logoURI?: string
   tags?: any[]
   isNative?: boolean
+  isWrappedNative?: boolean
+  bridgeInfo?: Record<string, string>
   price?: {
     usd: number
     lastUpdated: string
   }
+  priceStatus?: TokenPriceStatus
+  popularity?: TokenPopularity
+  provenance?: TokenProvenance
+}
+
+/**
+ * @interface TokenProvenance
+ * @description Procedencia de un token devuelto para un protocolo.
+ * @property {string} source - 'upstream' si se devuelve tal como aparece en la lista del protocolo
+ * y 'override' si lo añadió o corrigió el registro local.
+ * @property {string} action - Override aplicado: 'add' (token añadido) o 'patch' (campos corregidos).
+ * @property {string[]} fields - Campos corregidos por el override.
+ * @property {string} reason - Motivo indicado en el override.
+ * @property {string} updatedAt - Fecha de la última modificación del override (ISO 8601).
+ */
+export interface TokenProvenance {
+  source: 'upstream' | 'override'
+  action?: 'add' | 'patch'
+  fields?: string[]
+  reason?: string
+  updatedAt?: string
+}
+
+/**
+ * @type TokenOverrideAction
+ * @description Acción de un override: 'add' añade un token que la lista no incluye, 'hide' oculta
+ * un token de la lista y 'patch' corrige campos de un token de la lista.
+ */
+export type TokenOverrideAction = 'add' | 'hide' | 'patch'
+
+/**
+ * @interface TokenOverrideFields
+ * @description Campos de un token que un override puede definir (add) o corregir (patch).
+ */
+export interface TokenOverrideFields {
+  name?: string
+  symbol?: string
+  decimals?: number
+  logoURI?: string
+  tags?: string[]
+}
+
+/**
+ * @interface TokenOverride
+ * @description Entrada del registro local de overrides, única por protocolo, cadena y dirección.
+ * @property {string} protocol - Nombre canónico del protocolo cuya lista modifica.
+ * @property {string} chainId - ID de la cadena del token.
+ * @property {string} address - Dirección del token, con checksum EIP-55.
+ * @property {TokenOverrideAction} action - Acción del override.
+ * @property {TokenOverrideFields} token - Campos del token: completos (nombre, símbolo y
+ * decimales) en 'add' y los que se corrigen en 'patch'. No se usa en 'hide'.
+ * @property {string} reason - Motivo del override.
+ * @property {string} updatedAt - Fecha de la última modificación (ISO 8601).
+ */
+export interface TokenOverride {
+  protocol: string
+  chainId: string
+  address: string
+  action: TokenOverrideAction
+  token?: TokenOverrideFields
+  reason?: string
+  updatedAt: string
+}
+
+/**
+ * @type TokenOverrideStatus
+ * @description Efecto de un override sobre la lista vigente: 'applied' si se aplica, 'redundant'
+ * si añade un token que la lista ya incluye (prevalece el de la lista), 'notFound' si oculta o
+ * corrige un token que la lista no incluye y 'unknown' si la lista no se pudo consultar.
+ */
+export type TokenOverrideStatus = 'applied' | 'redundant' | 'notFound' | 'unknown'
+
+/**
+ * @interface TokenPopularity
+ * @description Puntuación de popularidad de un token y los factores que la componen.
+ * @property {number} score - Puntuación total (mayor es más popular).
+ * @property {Object} inputs - Factores de la puntuación.
+ * @property {boolean} inputs.popularList - Si el token está en la lista de tokens populares del protocolo.
+ * @property {string[]} inputs.tags - Categorías detectadas: 'native', 'wrapped', 'stablecoin'.
+ * @property {number | null} inputs.curatedRank - Rango curado configurado (1 es el más relevante).
+ */
+export interface TokenPopularity {
+  score: number
+  inputs: {
+    popularList: boolean
+    tags: Array<'native' | 'wrapped' | 'stablecoin'>
+    curatedRank: number | null
+  }
+}
+
+/**
+ * @interface TokenSearchParams
+ * @description Parámetros de búsqueda de tokens en todas las listas cargadas.
+ * @property {string} query - Símbolo, nombre o dirección (completa o parcial) a buscar.
+ * @property {string} chainId - Filtro por ID de cadena.
+ * @property {string} protocol - Filtro por protocolo que lista el token.
+ * @property {string} tag - Filtro por etiqueta de la lista de tokens.
+ */
+export interface TokenSearchParams {
+  query?: string
+  chainId?: string
+  protocol?: string
+  tag?: string
+}
+
+/**
+ * @interface IndexedToken
+ * @description Token único por cadena y dirección, con los protocolos cuyas listas lo incluyen.
+ * @property {string[]} protocols - Protocolos cuyas listas incluyen el token.
+ * @property {string[]} ambiguousWith - Otras direcciones de la misma cadena con el mismo símbolo.
+ * @property {Record<string, number>} decimalsByProtocol - Decimales del token en la lista de cada protocolo.
+ */
+export interface IndexedToken extends TokenInfo {
+  protocols: string[]
+  ambiguousWith: string[]
+  decimalsByProtocol: Record<string, number>
+}
+
+/**
+ * @interface TokenSearchResult
+ * @description Resultado de una búsqueda de tokens.
+ * @property {IndexedToken} token - Token encontrado.
+ * @property {number} relevance - Puntuación de relevancia respecto a la búsqueda.
+ * @property {string} matchReason - Explicación de por qué el token coincide con la búsqueda.
+ */
+export interface TokenSearchResult {
+  token: IndexedToken
+  relevance: number
+  matchReason: string
+}
+
+/**
+ * @interface TokenListIssue
+ * @description Incumplimiento del esquema de listas de tokens de Uniswap a nivel de lista.
+ * @property {string} field - Campo de la lista afectado (ej: 'version', 'tags.stable').
+ * @property {string} message - Descripción del problema.
+ */
+export interface TokenListIssue {
+  field: string
+  message: string
+}
+
+/**
+ * @interface TokenListReport
+ * @description Informe de validación de una lista de tokens contra el esquema de Uniswap.
+ * @property {string} protocol - Protocolo de la lista.
+ * @property {string} url - URL de la lista.
+ * @property {string} status - 'healthy' si cumple el esquema, 'degraded' si tiene problemas de
+ * lista o tokens rechazados e 'invalid' si no tiene ningún token utilizable.
+ * @property {Object} list - Metadatos declarados por la lista.
+ * @property {TokenListIssue[]} listIssues - Problemas a nivel de lista.
+ * @property {Object} totals - Entradas de la lista: total, aceptadas sin cambios, reparadas y
+ * rechazadas (que suman el total), y cuántas de las aceptadas o reparadas descartó el proveedor
+ * (cadena no soportada o particularidad del protocolo).
+ * @property {Object} reasons - Número de entradas por motivo de rechazo, reparación, advertencia
+ * o descarte.
+ * @property {Array} rejectedSamples - Primeras entradas rechazadas, con sus motivos.
+ * @property {string} validatedAt - Fecha de la validación (ISO 8601).
+ */
+export interface TokenListReport {
+  protocol: string
+  url: string
+  status: 'healthy' | 'degraded' | 'invalid'
+  list: {
+    name?: string
+    version?: string
+    timestamp?: string
+    tags: number
+    keywords: string[]
+  }
+  listIssues: TokenListIssue[]
+  totals: {
+    total: number
+    accepted: number
+    repaired: number
+    rejected: number
+    filtered: number
+  }
+  reasons: {
+    rejected: Record<string, number>
+    repaired: Record<string, number>
+    warnings: Record<string, number>
+    filtered: Record<string, number>
+  }
+  rejectedSamples: Array<{
+    index: number
+    chainId?: unknown
+    address?: unknown
+    symbol?: unknown
+    reasons: string[]
+  }>
+  validatedAt: string
+}
+
+/**
+ * @interface TokenSnapshot
+ * @description Campos de un token que se conservan en el historial de una lista.
+ */
+export interface TokenSnapshot {
+  chainId: string
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  logoURI?: string
+  tags: string[]
+}
+
+/**
+ * @interface TokenListChange
+ * @description Cambio de un token entre dos versiones de una lista: 'added' solo tiene current,
+ * 'removed' solo previous y 'changed' ambos.
+ * @property {string} type - Tipo de cambio.
+ * @property {TokenSnapshot} previous - Token en la versión anterior.
+ * @property {TokenSnapshot} current - Token en la versión nueva.
+ */
+export interface TokenListChange {
+  type: 'added' | 'removed' | 'changed'
+  previous?: TokenSnapshot
+  current?: TokenSnapshot
+}
+
+/**
+ * @interface TokenListVersion
+ * @description Versión de una lista de tokens registrada en el historial.
+ * @property {string} id - Hash del contenido de la lista, que identifica la versión aunque la
+ * lista no actualice su número de versión.
+ * @property {string} version - Versión declarada por la lista (major.minor.patch), si es válida.
+ * @property {string} listTimestamp - Fecha declarada por la lista, si es válida.
+ * @property {string} recordedAt - Fecha en que se obtuvo la versión por primera vez (ISO 8601).
+ * @property {number} tokenCount - Número de tokens de la versión.
+ * @property {TokenListChange[]} changes - Cambios respecto a la versión anterior del historial.
+ */
+export interface TokenListVersion {
+  id: string
+  version?: string
+  listTimestamp?: string
+  recordedAt: string
+  tokenCount: number
+  changes: TokenListChange[]
+}
+
+/**
+ * @interface TokenListHistory
+ * @description Historial de versiones de la lista de tokens de un protocolo.
+ * @property {string} protocol - Protocolo de la lista.
+ * @property {TokenListVersion[]} versions - Versiones registradas, de la más antigua a la más
+ * reciente.
+ * @property {Record<string, TokenSnapshot>} tokens - Tokens de la versión más reciente, por
+ * cadena y dirección. Las versiones anteriores se reconstruyen deshaciendo sus cambios.
+ */
+export interface TokenListHistory {
+  protocol: string
+  versions: TokenListVersion[]
+  tokens: Record<string, TokenSnapshot>
+}
+
+/**
+ * @interface TokenListDiffEntry
+ * @description Diferencia de un token entre dos versiones de una lista.
+ * @property {string} type - 'added' (incorporado), 'removed' (retirado de la lista) o 'changed'.
+ * @property {Array} fields - Campos modificados (decimals, symbol, name, logoURI), con sus valores.
+ * @property {string[]} tagsAdded - Etiquetas incorporadas.
+ * @property {string[]} tagsRemoved - Etiquetas retiradas.
+ * @property {Object} changedIn - Versión del historial en la que se produjo el último cambio.
+ */
+export interface TokenListDiffEntry {
+  type: TokenListChange['type']
+  chainId: string
+  address: string
+  symbol: string
+  name: string
+  fields: Array<{
+    field: 'decimals' | 'symbol' | 'name' | 'logoURI'
+    from?: string | number
+    to?: string | number
+  }>
+  tagsAdded: string[]
+  tagsRemoved: string[]
+  changedIn: {
+    id: string
+    version?: string
+    recordedAt: string
+  }
+}
+
+/**
+ * @interface NativeToken
+ * @description Moneda nativa de una cadena, con sus direcciones centinela y su token envuelto.
+ * @property {string} chainId - El ID de la cadena.
+ * @property {string} chainName - El nombre de la cadena.
+ * @property {string} address - Dirección centinela canónica de la moneda nativa (0x000…000).
+ * @property {string[]} sentinelAddresses - Direcciones con las que las listas y los contratos
+ * representan la moneda nativa (0x000…000 y 0xEeee…EEeE).
+ * @property {WrappedNativeToken} wrapped - Token ERC-20 en el que se envuelve.
+ */
+export interface NativeToken {
+  chainId: string
+  chainName: string
+  name: string
+  symbol: string
+  decimals: number
+  address: string
+  sentinelAddresses: string[]
+  wrapped: WrappedNativeToken
+}
+
+/**
+ * @interface WrapConversion
+ * @description Conversión entre la moneda nativa y su token envuelto en una cadena.
+ * @property {string} direction - 'wrap' (nativa → envuelta, depositando en el contrato) o
+ * 'unwrap' (envuelta → nativa, retirando del contrato).
+ * @property {Object} from - Activo de partida.
+ * @property {Object} to - Activo resultante.
+ * @property {string} contract - Dirección del contrato del token envuelto, que hace la conversión
+ * 1:1 con deposit() y withdraw(uint256).
+ */
+export interface WrapConversion {
+  direction: 'wrap' | 'unwrap'
+  from: { symbol: string; address: string; decimals: number }
+  to: { symbol: string; address: string; decimals: number }
+  contract: string
+}
+
+/**
+ * @type AssetMappingConfidence
+ * @description Confianza en que un token es el mismo activo que el resto de su grupo: 'high' si
+ * lo declara el registro curado o la lista (bridgeInfo), 'medium' si coinciden el símbolo base y
+ * el nombre, y 'low' si solo coincide el símbolo base.
+ */
+export type AssetMappingConfidence = 'high' | 'medium' | 'low'
+
+/**
+ * @interface CuratedAsset
+ * @description Activo del registro curado, con sus despliegues conocidos en cada cadena.
+ * @property {string} id - Identificador del activo (ej: 'usdc').
+ * @property {Array} deployments - Despliegues: 'canonical' (emitido en la cadena), 'bridged'
+ * (variante puenteada, con el puente que la emite) o 'testnet' (red de pruebas).
+ */
+export interface CuratedAsset {
+  id: string
+  symbol: string
+  name: string
+  deployments: Array<{
+    chainId: string
+    address: string
+    symbol: string
+    decimals: number
+    kind: 'canonical' | 'bridged' | 'testnet'
+    bridge?: string
+  }>
+}
+
+/**
+ * @interface AssetMember
+ * @description Despliegue o variante de un activo canónico en una cadena.
+ * @property {string} kind - 'canonical', 'bridged', 'testnet' o 'unknown' (relación deducida sin
+ * saber si es el despliegue original o una variante).
+ * @property {string} bridge - Puente que emite la variante, si se conoce.
+ * @property {AssetMappingConfidence} confidence - Confianza en la relación con el activo.
+ * @property {string} source - Origen de la relación: 'curated' (registro curado), 'tokenList'
+ * (bridgeInfo de una lista) o 'heuristic' (coincidencia de símbolo y nombre).
+ * @property {string[]} protocols - Protocolos cuyas listas incluyen el token.
+ */
+export interface AssetMember {
+  chainId: string
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  kind: 'canonical' | 'bridged' | 'testnet' | 'unknown'
+  bridge?: string
+  confidence: AssetMappingConfidence
+  source: 'curated' | 'tokenList' | 'heuristic'
+  protocols: string[]
+}
+
+/**
+ * @interface CanonicalAsset
+ * @description Grupo de tokens que representan el mismo activo en distintas cadenas y listas.
+ * @property {string} id - Identificador del activo (el del registro curado o el símbolo base).
+ * @property {AssetMember[]} members - Despliegues y variantes del activo.
+ */
+export interface CanonicalAsset {
+  id: string
+  symbol: string
+  name: string
+  members: AssetMember[]
 }
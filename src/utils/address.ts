@@ -0,0 +1,338 @@
+import type { AddressCheck, AddressIssue } from '../types/address'
+
+/**
+ * @description Dirección cero, con la que las listas representan el token nativo de la cadena
+ */
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+/**
+ * @description Direcciones centinela con las que las listas de tokens y los contratos (ej:
+ * agregadores de swaps) representan la moneda nativa, que no tiene contrato
+ */
+export const NATIVE_SENTINEL_ADDRESSES = [
+  ZERO_ADDRESS,
+  '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+]
+
+/**
+ * @description Formato de una dirección EVM: 0x seguido de 40 caracteres hexadecimales
+ */
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+
+/**
+ * @description Tamaño del bloque de Keccak-256 en bytes (1600 - 2 × 256 bits)
+ */
+const KECCAK_256_RATE = 136
+
+/**
+ * @description Constantes de ronda de Keccak-f[1600], como pares [parte alta, parte baja]
+ */
+const ROUND_CONSTANTS = [
+  [0x00000000, 0x00000001], [0x00000000, 0x00008082],
+  [0x80000000, 0x0000808a], [0x80000000, 0x80008000],
+  [0x00000000, 0x0000808b], [0x00000000, 0x80000001],
+  [0x80000000, 0x80008081], [0x80000000, 0x00008009],
+  [0x00000000, 0x0000008a], [0x00000000, 0x00000088],
+  [0x00000000, 0x80008009], [0x00000000, 0x8000000a],
+  [0x00000000, 0x8000808b], [0x80000000, 0x0000008b],
+  [0x80000000, 0x00008089], [0x80000000, 0x00008003],
+  [0x80000000, 0x00008002], [0x80000000, 0x00000080],
+  [0x00000000, 0x0000800a], [0x80000000, 0x8000000a],
+  [0x80000000, 0x80008081], [0x80000000, 0x00008080],
+  [0x00000000, 0x80000001], [0x80000000, 0x80008008]
+]
+
+/**
+ * @description Rotaciones (paso rho) y orden de las palabras (paso pi) de Keccak-f[1600]
+ */
+const ROTATIONS = [
+  1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39,
+  61, 20, 44
+]
+const PI_LANES = [
+  10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22,
+  9, 6, 1
+]
+
+/**
+ * @function keccak256
+ * @description Calcula el hash Keccak-256 (el de Ethereum, no SHA3-256) de una cadena UTF-8
+ * @param {string} value - Cadena a resumir
+ * @returns {string} Hash en hexadecimal de 64 caracteres, sin prefijo 0x
+ */
+export function keccak256 (value: string): string {
+  const input = new TextEncoder().encode(value)
+  // Cada palabra de 64 bits se guarda como dos enteros de 32: [baja, alta]
+  const state = new Uint32Array(50)
+
+  // Relleno de Keccak: 0x01 tras los datos y 0x80 en el último byte del bloque
+  const paddedLength =
+    Math.floor(input.length / KECCAK_256_RATE) * KECCAK_256_RATE +
+    KECCAK_256_RATE
+  const padded = new Uint8Array(paddedLength)
+  padded.set(input)
+  padded[input.length] ^= 0x01
+  padded[paddedLength - 1] ^= 0x80
+
+  for (let offset = 0; offset < paddedLength; offset += KECCAK_256_RATE) {
+    for (let index = 0; index < KECCAK_256_RATE; index += 4) {
+      state[index >> 2] ^=
+        padded[offset + index] |
+        (padded[offset + index + 1] << 8) |
+        (padded[offset + index + 2] << 16) |
+        (padded[offset + index + 3] << 24)
+    }
+    keccakF1600(state)
+  }
+
+  let hash = ''
+  for (let index = 0; index < 32; index++) {
+    const byte = (state[index >> 2] >>> ((index & 3) * 8)) & 0xff
+    hash += byte.toString(16).padStart(2, '0')
+  }
+
+  return hash
+}
+
+/**
+ * @function toChecksumAddress
+ * @description Convierte una dirección a su forma con checksum EIP-55
+ * @param {string} address - Dirección (0x seguido de 40 caracteres hexadecimales)
+ * @returns {string} Dirección con checksum EIP-55
+ * @throws {Error} Si la dirección no tiene un formato válido
+ */
+export function toChecksumAddress (address: string): string {
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Dirección con formato inválido: ${address}`)
+  }
+
+  const lowerCaseAddress = address.slice(2).toLowerCase()
+  const hash = keccak256(lowerCaseAddress)
+  let checksummed = '0x'
+
+  for (let index = 0; index < lowerCaseAddress.length; index++) {
+    checksummed +=
+      parseInt(hash[index], 16) >= 8
+        ? lowerCaseAddress[index].toUpperCase()
+        : lowerCaseAddress[index]
+  }
+
+  return checksummed
+}
+
+/**
+ * @function checkAddress
+ * @description Valida una dirección EVM y su checksum EIP-55. Las direcciones que mezclan
+ * mayúsculas y minúsculas deben tener el checksum correcto: si no lo tienen, probablemente se
+ * alteró algún carácter (error de copia o manipulación) y no deben usarse.
+ * @param {unknown} value - Valor a validar
+ * @returns {AddressCheck} Estado de la dirección y su forma con checksum, si es válida
+ */
+export function checkAddress (value: unknown): AddressCheck {
+  if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+    return { status: 'invalidFormat' }
+  }
+
+  const address = toChecksumAddress(value)
+  const digits = value.slice(2)
+
+  if (value === address) {
+    return { status: 'checksummed', address }
+  }
+
+  if (digits === digits.toLowerCase() || digits === digits.toUpperCase()) {
+    return { status: 'unchecksummed', address }
+  }
+
+  return { status: 'invalidChecksum' }
+}
+
+/**
+ * @function isNativeAddress
+ * @description Indica si una dirección es una de las direcciones centinela de la moneda nativa
+ * @param {string} address - Dirección
+ * @returns {boolean} true si representa la moneda nativa
+ */
+export function isNativeAddress (address: string): boolean {
+  return NATIVE_SENTINEL_ADDRESSES.some(
+    sentinel => sentinel.toLowerCase() === address.toLowerCase()
+  )
+}
+
+/**
+ * @function normalizeAddresses
+ * @description Recorre un documento JSON y devuelve una copia con las direcciones convertidas a
+ * su forma con checksum EIP-55. Se consideran direcciones los textos con formato de dirección y
+ * los valores de campos cuyo nombre termina en "address" (o de objetos con type "address") que
+ * empiezan por 0x. Las direcciones con checksum incorrecto o formato inválido se mantienen sin
+ * cambios y se informan.
+ * @param {T} document - Documento a revisar
+ * @returns {{document: T, issues: AddressIssue[]}} Copia normalizada y problemas encontrados
+ */
+export function normalizeAddresses<T> (document: T): {
+  document: T
+  issues: AddressIssue[]
+} {
+  const issues: AddressIssue[] = []
+  const normalized = normalizeValue(document, [], false, issues) as T
+
+  return { document: normalized, issues }
+}
+
+/**
+ * @description Normaliza un valor del documento, acumulando los problemas encontrados
+ */
+function normalizeValue (
+  value: unknown,
+  path: string[],
+  isAddressField: boolean,
+  issues: AddressIssue[]
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      normalizeValue(item, [...path, String(index)], isAddressField, issues)
+    )
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const isAddressParam =
+      typeof record.type === 'string' && record.type.toLowerCase() === 'address'
+
+    return Object.fromEntries(
+      Object.entries(record).map(([key, child]) => [
+        key,
+        normalizeValue(
+          child,
+          [...path, key],
+          /address$/i.test(key) || (isAddressParam && key === 'value'),
+          issues
+        )
+      ])
+    )
+  }
+
+  if (
+    typeof value !== 'string' ||
+    (!ADDRESS_PATTERN.test(value) && !(isAddressField && /^0x/i.test(value)))
+  ) {
+    return value
+  }
+
+  const check = checkAddress(value)
+  if (check.address) return check.address
+
+  issues.push({
+    path: path.join('.'),
+    address: value,
+    issue:
+      check.status === 'invalidChecksum' ? 'invalidChecksum' : 'invalidFormat',
+    message:
+      check.status === 'invalidChecksum'
+        ? 'checksum EIP-55 incorrecto: la dirección pudo haber sido alterada'
+        : 'no es 0x seguido de 40 caracteres hexadecimales'
+  })
+
+  return value
+}
+
+/**
+ * @description Aplica la permutación Keccak-f[1600] sobre el estado (25 palabras de 64 bits)
+ */
+function keccakF1600 (state: Uint32Array): void {
+  const columns = new Uint32Array(10)
+
+  for (const [roundHigh, roundLow] of ROUND_CONSTANTS) {
+    // Theta: paridad de cada columna
+    for (let x = 0; x < 5; x++) {
+      columns[x * 2] =
+        state[x * 2] ^
+        state[x * 2 + 10] ^
+        state[x * 2 + 20] ^
+        state[x * 2 + 30] ^
+        state[x * 2 + 40]
+      columns[x * 2 + 1] =
+        state[x * 2 + 1] ^
+        state[x * 2 + 11] ^
+        state[x * 2 + 21] ^
+        state[x * 2 + 31] ^
+        state[x * 2 + 41]
+    }
+
+    for (let x = 0; x < 5; x++) {
+      const next = ((x + 1) % 5) * 2
+      const previous = ((x + 4) % 5) * 2
+      const low =
+        columns[previous] ^
+        ((columns[next] << 1) | (columns[next + 1] >>> 31))
+      const high =
+        columns[previous + 1] ^
+        ((columns[next + 1] << 1) | (columns[next] >>> 31))
+
+      for (let y = 0; y < 25; y += 5) {
+        state[(y + x) * 2] ^= low
+        state[(y + x) * 2 + 1] ^= high
+      }
+    }
+
+    // Rho y pi: rotar cada palabra y moverla a su nueva posición
+    let currentLow = state[2]
+    let currentHigh = state[3]
+
+    for (let index = 0; index < 24; index++) {
+      const lane = PI_LANES[index] * 2
+      const nextLow = state[lane]
+      const nextHigh = state[lane + 1]
+      const [rotatedLow, rotatedHigh] = rotateLeft(
+        currentLow,
+        currentHigh,
+        ROTATIONS[index]
+      )
+
+      state[lane] = rotatedLow
+      state[lane + 1] = rotatedHigh
+      currentLow = nextLow
+      currentHigh = nextHigh
+    }
+
+    // Chi: combinación no lineal de cada fila
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 10; x++) {
+        columns[x] = state[y * 2 + x]
+      }
+
+      for (let x = 0; x < 5; x++) {
+        const next = ((x + 1) % 5) * 2
+        const afterNext = ((x + 2) % 5) * 2
+        state[(y + x) * 2] ^= ~columns[next] & columns[afterNext]
+        state[(y + x) * 2 + 1] ^= ~columns[next + 1] & columns[afterNext + 1]
+      }
+    }
+
+    // Iota: constante de ronda
+    state[0] ^= roundLow
+    state[1] ^= roundHigh
+  }
+}
+
+/**
+ * @description Rota a la izquierda una palabra de 64 bits representada como [baja, alta]
+ */
+function rotateLeft (
+  low: number,
+  high: number,
+  bits: number
+): [number, number] {
+  if (bits >= 32) {
+    const swapped = low
+    low = high
+    high = swapped
+    bits -= 32
+  }
+  if (bits === 0) return [low, high]
+
+  return [
+    (low << bits) | (high >>> (32 - bits)),
+    (high << bits) | (low >>> (32 - bits))
+  ]
+}
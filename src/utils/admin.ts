@@ -0,0 +1,93 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { ENV } from '../config/environment'
+
+/**
+ * @description Scope de las conexiones autenticadas con el token de administración
+ */
+export const ADMIN_SCOPE = 'admin'
+
+/**
+ * @description Indica si el cliente de la conexión local (stdio) tiene acceso de administración
+ */
+let localAdminAccess = false
+
+/**
+ * Clase de error para llamadas a herramientas de administración sin autenticación de administrador
+ */
+export class AdminAuthError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'AdminAuthError'
+  }
+}
+
+/**
+ * @function isAdminEnabled
+ * @description Indica si las herramientas de administración están habilitadas (ADMIN_TOKEN)
+ * @returns {boolean} true si hay un token de administración configurado
+ */
+export function isAdminEnabled (): boolean {
+  return Boolean(ENV.ADMIN_TOKEN)
+}
+
+/**
+ * @function tokensMatch
+ * @description Compara un token recibido con el esperado. La comparación tarda lo mismo sea cual
+ * sea el primer carácter distinto, para no revelar el token por tiempos.
+ * @param {string} received - Token recibido
+ * @param {string} expected - Token esperado
+ * @returns {boolean} true si coinciden
+ */
+export function tokensMatch (received: string, expected: string): boolean {
+  let difference = received.length ^ expected.length
+
+  for (let index = 0; index < expected.length; index++) {
+    difference |=
+      expected.charCodeAt(index) ^
+      received.charCodeAt(index % (received.length || 1))
+  }
+
+  return difference === 0
+}
+
+/**
+ * @function createAdminAuthInfo
+ * @description Crea la información de autenticación de una petición autenticada con el token de
+ * administración, que el transporte entrega a las herramientas
+ * @param {string} token - Token de administración recibido
+ * @returns {AuthInfo} Información de autenticación con el scope de administración
+ */
+export function createAdminAuthInfo (token: string): AuthInfo {
+  return { token, clientId: 'admin', scopes: [ADMIN_SCOPE] }
+}
+
+/**
+ * @function enableLocalAdminAccess
+ * @description Concede acceso de administración al cliente de la conexión stdio. Ese cliente es
+ * el proceso que lanzó el servidor con ADMIN_TOKEN en su entorno, por lo que ya está autenticado.
+ */
+export function enableLocalAdminAccess (): void {
+  localAdminAccess = isAdminEnabled()
+}
+
+/**
+ * @function verifyAdminAccess
+ * @description Comprueba que la petición de una herramienta de administración esté autenticada
+ * como administrador en el transporte. El token nunca se recibe como argumento de la herramienta,
+ * de modo que no pasa por el contexto del modelo ni por los registros del cliente.
+ * @param {AuthInfo} [authInfo] - Información de autenticación de la petición
+ * @throws {AdminAuthError} Si no hay token configurado o la petición no es de un administrador
+ */
+export function verifyAdminAccess (authInfo?: AuthInfo): void {
+  if (!isAdminEnabled()) {
+    throw new AdminAuthError(
+      'Las herramientas de administración están desactivadas: configura ADMIN_TOKEN.'
+    )
+  }
+
+  if (!localAdminAccess && !authInfo?.scopes.includes(ADMIN_SCOPE)) {
+    throw new AdminAuthError(
+      'No autorizado: las herramientas de administración requieren que la conexión se autentique con el token de administración (Authorization: Bearer <ADMIN_TOKEN>).'
+    )
+  }
+}
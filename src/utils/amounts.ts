@@ -0,0 +1,304 @@
+/**
+ * @description Modos de redondeo para mostrar cantidades con menos decimales
+ */
+export const ROUNDING_MODES = [
+  'down',
+  'up',
+  'halfUp',
+  'halfDown',
+  'halfEven'
+] as const
+
+export type RoundingMode = (typeof ROUNDING_MODES)[number]
+
+/**
+ * @class AmountConversionError
+ * @description Error de una cantidad con formato inválido o cuya conversión perdería precisión
+ */
+export class AmountConversionError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'AmountConversionError'
+  }
+}
+
+/**
+ * @description Número máximo de decimales que admite una lista de tokens
+ */
+const MAX_DECIMALS = 255
+
+/**
+ * @function parseUnits
+ * @description Convierte una cantidad legible (ej: "1.5" o "1.5e3") en unidades base del token
+ * con aritmética BigInt exacta. Con un locale se interpretan sus separadores de miles y
+ * decimales (ej: "1.234,5" en 'es-ES').
+ * @param {string} amount - Cantidad legible, no negativa
+ * @param {number} decimals - Decimales del token
+ * @param {string} [locale] - Locale con el que se escribió la cantidad
+ * @returns {bigint} Cantidad en unidades base
+ * @throws {AmountConversionError} Si el formato no es válido o la cantidad tiene más decimales
+ * de los que admite el token
+ */
+export function parseUnits (
+  amount: string,
+  decimals: number,
+  locale?: string
+): bigint {
+  assertDecimals(decimals)
+  const { units, scale } = parseDecimal(amount, locale)
+
+  if (scale <= decimals) {
+    return units * 10n ** BigInt(decimals - scale)
+  }
+
+  const divisor = 10n ** BigInt(scale - decimals)
+  if (units % divisor !== 0n) {
+    throw new AmountConversionError(
+      `La cantidad "${amount}" tiene más de ${decimals} decimales, los que admite el token: convertirla perdería precisión.`
+    )
+  }
+
+  return units / divisor
+}
+
+/**
+ * @function parseBaseUnits
+ * @description Interpreta una cantidad en unidades base, que debe ser un entero no negativo
+ * @param {string} amount - Cantidad en unidades base (ej: "1500000")
+ * @returns {bigint} Cantidad en unidades base
+ * @throws {AmountConversionError} Si no es un entero no negativo
+ */
+export function parseBaseUnits (amount: string): bigint {
+  const text = amount.trim().replace(/_/g, '')
+
+  if (!/^\+?\d+$/.test(text)) {
+    throw new AmountConversionError(
+      `Cantidad en unidades base no válida: "${amount}". Debe ser un entero no negativo, sin decimales ni separadores.`
+    )
+  }
+
+  return BigInt(text.replace(/^\+/, ''))
+}
+
+/**
+ * @function formatUnits
+ * @description Convierte una cantidad en unidades base en su valor decimal exacto, sin ceros
+ * finales (ej: 1500000n con 6 decimales → "1.5")
+ * @param {bigint} baseUnits - Cantidad en unidades base
+ * @param {number} decimals - Decimales del token
+ * @returns {string} Valor decimal exacto
+ */
+export function formatUnits (baseUnits: bigint, decimals: number): string {
+  assertDecimals(decimals)
+  const { integer, fraction } = splitUnits(baseUnits, decimals)
+  const trimmedFraction = fraction.replace(/0+$/, '')
+
+  return trimmedFraction ? `${integer}.${trimmedFraction}` : integer.toString()
+}
+
+/**
+ * @function formatAmount
+ * @description Formatea una cantidad en unidades base según un locale, con todos sus decimales o
+ * redondeada a un número fijo de decimales con el modo indicado
+ * @param {bigint} baseUnits - Cantidad en unidades base
+ * @param {number} decimals - Decimales del token
+ * @param {Object} options - Opciones de formato
+ * @param {string} [options.locale] - Locale (por defecto 'en-US')
+ * @param {number} [options.fractionDigits] - Decimales a mostrar; sin indicar, todos los
+ * significativos
+ * @param {RoundingMode} [options.rounding] - Modo de redondeo (por defecto 'down')
+ * @returns {{text: string, rounded: boolean}} Texto formateado e indicación de si se redondeó
+ * @throws {AmountConversionError} Si el locale no es válido
+ */
+export function formatAmount (
+  baseUnits: bigint,
+  decimals: number,
+  options: {
+    locale?: string
+    fractionDigits?: number
+    rounding?: RoundingMode
+  } = {}
+): { text: string; rounded: boolean } {
+  assertDecimals(decimals)
+  const { locale = 'en-US', fractionDigits, rounding = 'down' } = options
+  const separators = getSeparators(locale)
+
+  let units = baseUnits
+  let scale = decimals
+  let rounded = false
+
+  if (fractionDigits !== undefined && fractionDigits < decimals) {
+    const divisor = 10n ** BigInt(decimals - fractionDigits)
+    units = roundQuotient(baseUnits, divisor, rounding)
+    scale = fractionDigits
+    rounded = baseUnits % divisor !== 0n
+  } else if (fractionDigits !== undefined) {
+    units = baseUnits * 10n ** BigInt(fractionDigits - decimals)
+    scale = fractionDigits
+  }
+
+  const { integer, fraction } = splitUnits(units, scale)
+  const shownFraction =
+    fractionDigits === undefined ? fraction.replace(/0+$/, '') : fraction
+  const integerText = new Intl.NumberFormat(locale, {
+    useGrouping: true
+  }).format(integer)
+
+  return {
+    text: shownFraction
+      ? `${integerText}${separators.decimal}${localizeDigits(
+          shownFraction,
+          locale
+        )}`
+      : integerText,
+    rounded
+  }
+}
+
+/**
+ * @description Interpreta un número decimal como un entero y su escala (valor = units / 10^scale)
+ */
+function parseDecimal (
+  amount: string,
+  locale?: string
+): { units: bigint; scale: number } {
+  let text = amount.trim().replace(/_/g, '')
+  const invalidAmount = new AmountConversionError(
+    `Cantidad no válida: "${amount}". Usa un número no negativo con punto decimal (ej: "1.5" o "1.5e3")${
+      locale ? ` o con los separadores del locale ${locale}` : ''
+    }.`
+  )
+
+  if (locale) {
+    const { group, decimal } = getSeparators(locale)
+    // Los separadores de miles con espacio se escriben también con espacios normales
+    const spacedGroups = /\s/.test(group)
+    const [integerPart, ...rest] = text.split(decimal)
+    const groups = spacedGroups
+      ? integerPart.split(/\s/)
+      : integerPart.split(group)
+
+    // Con separadores de miles, los grupos deben tener hasta 3 cifras (2 o 3 los intermedios) y
+    // el último 3, para no confundirlos con el separador decimal de otro locale (ej: "1,5" en
+    // 'en-US')
+    if (
+      rest.length > 1 ||
+      (groups.length > 1 &&
+        (!/^\+?\d{1,3}$/.test(groups[0]) ||
+          groups.slice(1, -1).some(digits => !/^\d{2,3}$/.test(digits)) ||
+          !/^\d{3}$/.test(groups[groups.length - 1])))
+    ) {
+      throw invalidAmount
+    }
+
+    text = [groups.join(''), ...rest].join('.')
+  }
+
+  const match = /^\+?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text)
+  if (!match || (!match[1] && !match[2])) {
+    throw invalidAmount
+  }
+
+  const [, integerDigits = '', fractionDigits = '', exponentText] = match
+  const exponent = exponentText ? Number(exponentText) : 0
+
+  if (Math.abs(exponent) > MAX_DECIMALS * 2) {
+    throw new AmountConversionError(
+      `El exponente de la cantidad "${amount}" está fuera de rango.`
+    )
+  }
+
+  let units = BigInt(`${integerDigits}${fractionDigits}` || '0')
+  let scale = fractionDigits.length - exponent
+
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale)
+    scale = 0
+  }
+
+  return { units, scale }
+}
+
+/**
+ * @description Separa una cantidad escalada en su parte entera y sus decimales (con ceros a la
+ * izquierda)
+ */
+function splitUnits (
+  units: bigint,
+  scale: number
+): { integer: bigint; fraction: string } {
+  if (scale === 0) return { integer: units, fraction: '' }
+
+  const base = 10n ** BigInt(scale)
+  return {
+    integer: units / base,
+    fraction: (units % base).toString().padStart(scale, '0')
+  }
+}
+
+/**
+ * @description Divide una cantidad no negativa redondeando el cociente con el modo indicado
+ */
+function roundQuotient (
+  dividend: bigint,
+  divisor: bigint,
+  rounding: RoundingMode
+): bigint {
+  const quotient = dividend / divisor
+  const remainder = dividend % divisor
+  if (remainder === 0n) return quotient
+
+  const double = remainder * 2n
+  const roundUp =
+    rounding === 'up' ||
+    (rounding === 'halfUp' && double >= divisor) ||
+    (rounding === 'halfDown' && double > divisor) ||
+    (rounding === 'halfEven' &&
+      (double > divisor || (double === divisor && quotient % 2n === 1n)))
+
+  return roundUp ? quotient + 1n : quotient
+}
+
+/**
+ * @description Obtiene los separadores de miles y decimales de un locale
+ */
+function getSeparators (locale: string): { group: string; decimal: string } {
+  let parts: Intl.NumberFormatPart[]
+
+  try {
+    parts = new Intl.NumberFormat(locale).formatToParts(12345.6)
+  } catch {
+    throw new AmountConversionError(
+      `Locale no válido: "${locale}". Usa una etiqueta BCP 47, por ejemplo "en-US" o "es-ES".`
+    )
+  }
+
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+  }
+}
+
+/**
+ * @description Escribe una secuencia de cifras con el sistema de numeración del locale (ej: cifras
+ * arábigo-índicas en 'ar-EG'), el mismo que usa Intl.NumberFormat para la parte entera
+ */
+function localizeDigits (digits: string, locale: string): string {
+  const numberFormat = new Intl.NumberFormat(locale, { useGrouping: false })
+  const localDigits = Array.from({ length: 10 }, (_, digit) =>
+    numberFormat.format(digit)
+  )
+
+  return digits.replace(/\d/g, digit => localDigits[Number(digit)])
+}
+
+/**
+ * @description Comprueba que el número de decimales sea el de una lista de tokens válida
+ */
+function assertDecimals (decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new AmountConversionError(
+      `Decimales no válidos: ${decimals}. Deben ser un entero entre 0 y ${MAX_DECIMALS}.`
+    )
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * @description Sufijos públicos de varios niveles más comunes. Los dominios bajo
+ * estos sufijos se registran un nivel por debajo (ej: "ejemplo.co.uk").
+ * También incluye plataformas de hosting donde cada subdominio pertenece a un tercero.
+ */
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'ac.uk',
+  'gov.uk',
+  'com.au',
+  'net.au',
+  'org.au',
+  'co.jp',
+  'co.nz',
+  'co.in',
+  'co.za',
+  'com.ar',
+  'com.br',
+  'com.mx',
+  'com.cn',
+  'com.tr',
+  'vercel.app',
+  'netlify.app',
+  'github.io',
+  'pages.dev',
+  'workers.dev',
+  'herokuapp.com'
+])
+
+/**
+ * @description Caracteres de otros alfabetos visualmente idénticos a letras latinas,
+ * utilizados habitualmente en ataques de homógrafos IDN
+ */
+const CONFUSABLE_CHARACTERS: Record<string, string> = {
+  // Cirílico
+  а: 'a',
+  в: 'b',
+  е: 'e',
+  ё: 'e',
+  һ: 'h',
+  і: 'i',
+  ї: 'i',
+  ј: 'j',
+  к: 'k',
+  ӏ: 'l',
+  м: 'm',
+  н: 'h',
+  о: 'o',
+  р: 'p',
+  с: 'c',
+  т: 't',
+  у: 'y',
+  х: 'x',
+  ѕ: 's',
+  ԁ: 'd',
+  ԛ: 'q',
+  ԝ: 'w',
+  // Griego
+  α: 'a',
+  β: 'b',
+  ε: 'e',
+  η: 'n',
+  ι: 'i',
+  κ: 'k',
+  ν: 'v',
+  ο: 'o',
+  ρ: 'p',
+  τ: 't',
+  υ: 'u',
+  χ: 'x',
+  // Latín extendido y otros
+  ı: 'i',
+  ɡ: 'g',
+  ɑ: 'a',
+  ɩ: 'i',
+  ß: 'ss'
+}
+
+/**
+ * @description Parámetros del algoritmo Punycode (RFC 3492)
+ */
+const PUNYCODE_BASE = 36
+const PUNYCODE_TMIN = 1
+const PUNYCODE_TMAX = 26
+const PUNYCODE_SKEW = 38
+const PUNYCODE_DAMP = 700
+const PUNYCODE_INITIAL_BIAS = 72
+const PUNYCODE_INITIAL_N = 128
+const PUNYCODE_PREFIX = 'xn--'
+
+/**
+ * @function extractHostname
+ * @description Extrae el hostname normalizado (ASCII, en minúsculas y sin punto final)
+ * de una URL completa o de un hostname. Los nombres Unicode se convierten a Punycode.
+ * @param {string} input - URL o hostname a analizar
+ * @returns {string} Hostname normalizado
+ * @throws {Error} Si la entrada no contiene un hostname válido
+ */
+export function extractHostname (input: string): string {
+  const trimmedInput = input.trim()
+
+  if (!trimmedInput) {
+    throw new Error('Se requiere una URL o un hostname')
+  }
+
+  // Añadir un esquema si no lo tiene para que URL pueda interpretarlo
+  const candidate = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmedInput)
+    ? trimmedInput
+    : `https://${trimmedInput}`
+
+  let hostname: string
+  try {
+    hostname = new URL(candidate).hostname
+  } catch {
+    throw new Error(`URL o hostname inválido: ${input}`)
+  }
+
+  hostname = hostname.toLowerCase().replace(/\.$/, '')
+
+  if (!hostname || !hostname.includes('.')) {
+    throw new Error(`URL o hostname inválido: ${input}`)
+  }
+
+  return hostname
+}
+
+/**
+ * @function normalizeDomain
+ * @description Normaliza un dominio del repositorio para poder compararlo con un hostname
+ * @param {string} domain - Dominio o URL tal como aparece en el repositorio
+ * @returns {string} Dominio normalizado, o el valor original en minúsculas si no es analizable
+ */
+export function normalizeDomain (domain: string): string {
+  try {
+    return extractHostname(domain)
+  } catch {
+    return domain.trim().toLowerCase()
+  }
+}
+
+/**
+ * @function getRegistrableDomain
+ * @description Obtiene el dominio registrable (sufijo público más una etiqueta) de un hostname.
+ * Ejemplo: "app.sherry.social" → "sherry.social", "a.b.co.uk" → "b.co.uk"
+ * @param {string} hostname - Hostname normalizado
+ * @returns {string} Dominio registrable
+ */
+export function getRegistrableDomain (hostname: string): string {
+  const labels = hostname.split('.')
+
+  if (labels.length <= 2) {
+    return hostname
+  }
+
+  const lastTwoLabels = labels.slice(-2).join('.')
+  const suffixLength = MULTI_LABEL_SUFFIXES.has(lastTwoLabels) ? 2 : 1
+
+  return labels.slice(-(suffixLength + 1)).join('.')
+}
+
+/**
+ * @function getDomainLabel
+ * @description Obtiene la etiqueta principal de un dominio registrable, sin el sufijo público.
+ * Ejemplo: "sherry.social" → "sherry"
+ * @param {string} registrableDomain - Dominio registrable
+ * @returns {string} Etiqueta principal del dominio
+ */
+export function getDomainLabel (registrableDomain: string): string {
+  return registrableDomain.split('.')[0]
+}
+
+/**
+ * @function isSameOrSubdomain
+ * @description Indica si un hostname es igual a un dominio o es un subdominio de este
+ * @param {string} hostname - Hostname a evaluar
+ * @param {string} domain - Dominio de referencia
+ * @returns {boolean} true si coincide exactamente o es un subdominio
+ */
+export function isSameOrSubdomain (hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`)
+}
+
+/**
+ * @function adaptPunycodeBias
+ * @description Función de adaptación del bias del algoritmo Punycode (RFC 3492, sección 6.1)
+ */
+function adaptPunycodeBias (
+  delta: number,
+  numPoints: number,
+  firstTime: boolean
+): number {
+  let scaledDelta = firstTime
+    ? Math.floor(delta / PUNYCODE_DAMP)
+    : Math.floor(delta / 2)
+  scaledDelta += Math.floor(scaledDelta / numPoints)
+
+  let k = 0
+  while (
+    scaledDelta >
+    ((PUNYCODE_BASE - PUNYCODE_TMIN) * PUNYCODE_TMAX) >> 1
+  ) {
+    scaledDelta = Math.floor(scaledDelta / (PUNYCODE_BASE - PUNYCODE_TMIN))
+    k += PUNYCODE_BASE
+  }
+
+  return (
+    k +
+    Math.floor(
+      ((PUNYCODE_BASE - PUNYCODE_TMIN + 1) * scaledDelta) /
+        (scaledDelta + PUNYCODE_SKEW)
+    )
+  )
+}
+
+/**
+ * @function decodePunycodeDigit
+ * @description Convierte un carácter Punycode en su valor numérico
+ */
+function decodePunycodeDigit (codePoint: number): number {
+  if (codePoint >= 48 && codePoint <= 57) return codePoint - 22 // 0-9
+  if (codePoint >= 65 && codePoint <= 90) return codePoint - 65 // A-Z
+  if (codePoint >= 97 && codePoint <= 122) return codePoint - 97 // a-z
+  return PUNYCODE_BASE
+}
+
+/**
+ * @function decodePunycode
+ * @description Decodifica una etiqueta Punycode (sin el prefijo "xn--") a Unicode
+ * @param {string} input - Etiqueta codificada
+ * @returns {string} Etiqueta decodificada
+ * @throws {Error} Si la etiqueta no es Punycode válido
+ */
+function decodePunycode (input: string): string {
+  const output: number[] = []
+  let n = PUNYCODE_INITIAL_N
+  let bias = PUNYCODE_INITIAL_BIAS
+  let i = 0
+
+  // Los caracteres básicos (ASCII) preceden al último guion
+  const basicLength = Math.max(input.lastIndexOf('-'), 0)
+  for (let j = 0; j < basicLength; j++) {
+    output.push(input.charCodeAt(j))
+  }
+
+  let index = basicLength > 0 ? basicLength + 1 : 0
+  while (index < input.length) {
+    const previousI = i
+
+    for (let weight = 1, k = PUNYCODE_BASE; ; k += PUNYCODE_BASE) {
+      if (index >= input.length) {
+        throw new Error(`Etiqueta Punycode inválida: ${input}`)
+      }
+
+      const digit = decodePunycodeDigit(input.charCodeAt(index++))
+      if (digit >= PUNYCODE_BASE) {
+        throw new Error(`Etiqueta Punycode inválida: ${input}`)
+      }
+
+      i += digit * weight
+      const threshold =
+        k <= bias
+          ? PUNYCODE_TMIN
+          : k >= bias + PUNYCODE_TMAX
+          ? PUNYCODE_TMAX
+          : k - bias
+
+      if (digit < threshold) break
+      weight *= PUNYCODE_BASE - threshold
+    }
+
+    const outputLength = output.length + 1
+    bias = adaptPunycodeBias(i - previousI, outputLength, previousI === 0)
+    n += Math.floor(i / outputLength)
+    i %= outputLength
+    output.splice(i++, 0, n)
+  }
+
+  return String.fromCodePoint(...output)
+}
+
+/**
+ * @function toUnicodeHostname
+ * @description Convierte un hostname ASCII con etiquetas Punycode ("xn--") a su forma Unicode.
+ * Las etiquetas que no pueden decodificarse se mantienen sin cambios.
+ * @param {string} hostname - Hostname normalizado
+ * @returns {string} Hostname en Unicode
+ */
+export function toUnicodeHostname (hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label => {
+      if (!label.startsWith(PUNYCODE_PREFIX)) return label
+
+      try {
+        return decodePunycode(label.slice(PUNYCODE_PREFIX.length))
+      } catch {
+        return label
+      }
+    })
+    .join('.')
+}
+
+/**
+ * @function isInternationalizedHostname
+ * @description Indica si un hostname contiene etiquetas internacionalizadas (IDN)
+ * @param {string} hostname - Hostname normalizado
+ * @returns {boolean} true si alguna etiqueta está codificada en Punycode
+ */
+export function isInternationalizedHostname (hostname: string): boolean {
+  return hostname.split('.').some(label => label.startsWith(PUNYCODE_PREFIX))
+}
+
+/**
+ * @function getHostnameSkeleton
+ * @description Obtiene el "esqueleto" ASCII de un hostname Unicode, sustituyendo los caracteres
+ * confundibles por sus equivalentes latinos y eliminando diacríticos. Dos hostnames con el
+ * mismo esqueleto son visualmente indistinguibles para un usuario.
+ * @param {string} unicodeHostname - Hostname en Unicode
+ * @returns {string} Esqueleto ASCII del hostname
+ */
+export function getHostnameSkeleton (unicodeHostname: string): string {
+  return Array.from(unicodeHostname.normalize('NFKC').toLowerCase())
+    .map(char => CONFUSABLE_CHARACTERS[char] ?? char)
+    .join('')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * @function getHostnameScripts
+ * @description Obtiene los sistemas de escritura presentes en un hostname Unicode
+ * @param {string} unicodeHostname - Hostname en Unicode
+ * @returns {string[]} Sistemas de escritura detectados (ej: ["Latin", "Cyrillic"])
+ */
+export function getHostnameScripts (unicodeHostname: string): string[] {
+  const scripts = new Set<string>()
+
+  for (const char of unicodeHostname) {
+    if (/[a-z]/i.test(char) || /\p{Script=Latin}/u.test(char)) {
+      scripts.add('Latin')
+    } else if (/\p{Script=Cyrillic}/u.test(char)) {
+      scripts.add('Cyrillic')
+    } else if (/\p{Script=Greek}/u.test(char)) {
+      scripts.add('Greek')
+    } else if (/\p{L}/u.test(char)) {
+      scripts.add('Other')
+    }
+  }
+
+  return Array.from(scripts)
+}
@@ -0,0 +1,17 @@
+/**
+ * @function hashString
+ * @description Calcula un hash FNV-1a de 32 bits de una cadena. No es criptográfico:
+ * sirve para detectar cambios de contenido y generar identificadores de versión.
+ * @param {string} value - Cadena a resumir
+ * @returns {string} Hash en hexadecimal de 8 caracteres
+ */
+export function hashString (value: string): string {
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
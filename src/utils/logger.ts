@@ -36,9 +36,9 @@ export type LogFormatter = (entry: LogEntry) => string
  */
 export class Logger {
   private static instance: Logger
-  private minLevel: LogLevel = ENV.isProduction()
-    ? LogLevel.INFO
-    : LogLevel.DEBUG
+  // Se resuelve al registrar el primer log: environment importa este módulo,
+  // así que ENV puede no estar inicializado todavía al crear la instancia
+  private minLevel?: LogLevel
 
   private constructor () {}
 
@@ -93,6 +93,10 @@ export class Logger {
    * @returns {boolean} true si el nivel debe ser registrado
    */
   private shouldLog (level: LogLevel): boolean {
+    if (this.minLevel === undefined) {
+      this.minLevel = ENV.isProduction() ? LogLevel.INFO : LogLevel.DEBUG
+    }
+
     const levels = Object.values(LogLevel)
     return levels.indexOf(level) >= levels.indexOf(this.minLevel)
   }
@@ -0,0 +1,234 @@
+import { hashString } from './hash'
+
+/**
+ * @description Versión del formato de los cursores. Cambiarla invalida los cursores emitidos.
+ */
+const CURSOR_FORMAT_VERSION = 1
+
+/**
+ * @description Número máximo de versiones de datos fijadas simultáneamente
+ */
+const MAX_PINNED_SNAPSHOTS = 20
+
+/**
+ * @description Tiempo durante el que se conserva una versión fijada desde su último uso (30 minutos)
+ */
+const PINNED_SNAPSHOT_TTL_MS = 30 * 60 * 1000
+
+/**
+ * Clase de error para cursores inválidos, de otra herramienta o con datos ya no disponibles
+ */
+export class InvalidCursorError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'InvalidCursorError'
+  }
+}
+
+/**
+ * @interface CursorPayload
+ * @description Contenido de un cursor de paginación
+ * @property {number} format - Versión del formato del cursor
+ * @property {string} tool - Herramienta que emitió el cursor
+ * @property {Record<string, unknown>} filter - Filtros de la consulta original
+ * @property {string} [sort] - Criterio de ordenación de la consulta original
+ * @property {number} offset - Posición del primer elemento de la página
+ * @property {string} version - Versión de los datos sobre la que se pagina
+ */
+export interface CursorPayload<F extends object = Record<string, unknown>> {
+  format: number
+  tool: string
+  filter: F
+  sort?: string
+  offset: number
+  version: string
+}
+
+/**
+ * @interface Page
+ * @description Página de resultados
+ * @property {T[]} items - Elementos de la página
+ * @property {number} offset - Posición del primer elemento
+ * @property {number} total - Total de elementos disponibles
+ * @property {number | null} nextOffset - Posición de la página siguiente o null si es la última
+ */
+export interface Page<T> {
+  items: T[]
+  offset: number
+  total: number
+  nextOffset: number | null
+}
+
+const pinnedSnapshots = new Map<string, { data: unknown; usedAt: number }>()
+const dataVersions = new WeakMap<object, string>()
+
+/**
+ * @function encodeCursor
+ * @description Codifica un cursor opaco (JSON en base64url)
+ * @param {Omit<CursorPayload, 'format'>} payload - Contenido del cursor
+ * @returns {string} Cursor opaco
+ */
+export function encodeCursor<F extends object> (
+  payload: Omit<CursorPayload<F>, 'format'>
+): string {
+  return Buffer.from(
+    JSON.stringify({ format: CURSOR_FORMAT_VERSION, ...payload })
+  ).toString('base64url')
+}
+
+/**
+ * @function decodeCursor
+ * @description Decodifica y valida un cursor emitido por una herramienta
+ * @param {string} cursor - Cursor opaco
+ * @param {string} tool - Herramienta que recibe el cursor
+ * @returns {CursorPayload} Contenido del cursor
+ * @throws {InvalidCursorError} Si el cursor está malformado o pertenece a otra herramienta
+ */
+export function decodeCursor<F extends object> (
+  cursor: string,
+  tool: string
+): CursorPayload<F> {
+  let payload: CursorPayload<F>
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new InvalidCursorError(
+      'Cursor inválido. Usa el valor de nextCursor de una respuesta anterior sin modificarlo.'
+    )
+  }
+
+  if (
+    payload?.format !== CURSOR_FORMAT_VERSION ||
+    typeof payload.offset !== 'number' ||
+    payload.offset < 0 ||
+    typeof payload.version !== 'string' ||
+    typeof payload.filter !== 'object' ||
+    payload.filter === null
+  ) {
+    throw new InvalidCursorError(
+      'Cursor inválido o de una versión anterior del servidor. Repite la consulta sin cursor.'
+    )
+  }
+
+  if (payload.tool !== tool) {
+    throw new InvalidCursorError(
+      `El cursor pertenece a la herramienta ${payload.tool} y no puede usarse con ${tool}.`
+    )
+  }
+
+  return payload
+}
+
+/**
+ * @function paginate
+ * @description Obtiene una página de una lista
+ * @param {T[]} items - Lista completa
+ * @param {number} offset - Posición del primer elemento
+ * @param {number} limit - Tamaño de la página
+ * @returns {Page<T>} Página de resultados
+ */
+export function paginate<T> (
+  items: T[],
+  offset: number,
+  limit: number
+): Page<T> {
+  const pageItems = items.slice(offset, offset + limit)
+  const nextOffset = offset + limit < items.length ? offset + limit : null
+
+  return { items: pageItems, offset, total: items.length, nextOffset }
+}
+
+/**
+ * @function getDataVersion
+ * @description Calcula un identificador de versión a partir del contenido de los datos.
+ * El resultado se memoriza por objeto, por lo que los datos cacheados no se vuelven a resumir.
+ * @param {object} data - Datos de los que calcular la versión
+ * @returns {string} Identificador de versión
+ */
+export function getDataVersion (data: object): string {
+  let version = dataVersions.get(data)
+
+  if (!version) {
+    version = hashString(JSON.stringify(data))
+    dataVersions.set(data, version)
+  }
+
+  return version
+}
+
+/**
+ * @function loadPinnedData
+ * @description Obtiene los datos sobre los que paginar fijando su versión. Sin versión se cargan
+ * los datos actuales y se fijan; con la versión de un cursor se devuelven los datos fijados,
+ * aunque el caché se haya refrescado entre páginas.
+ * @param {string} key - Clave del conjunto de datos (ej: "repository", "tokens:lfj:43114")
+ * @param {Function} load - Función que obtiene los datos actuales
+ * @param {Function} getVersion - Función que calcula la versión de los datos
+ * @param {string} [pinnedVersion] - Versión indicada por el cursor
+ * @returns {Promise<{data: T, version: string}>} Datos y su versión
+ * @throws {InvalidCursorError} Si la versión del cursor ya no está disponible
+ */
+export async function loadPinnedData<T> (
+  key: string,
+  load: () => Promise<T>,
+  getVersion: (data: T) => string,
+  pinnedVersion?: string
+): Promise<{ data: T; version: string }> {
+  evictExpiredSnapshots()
+
+  if (pinnedVersion) {
+    const snapshotKey = `${key}@${pinnedVersion}`
+    const snapshot = pinnedSnapshots.get(snapshotKey)
+
+    if (snapshot) {
+      // Reinsertar para mantener el orden de uso (LRU)
+      pinnedSnapshots.delete(snapshotKey)
+      pinnedSnapshots.set(snapshotKey, {
+        data: snapshot.data,
+        usedAt: Date.now()
+      })
+      return { data: snapshot.data as T, version: pinnedVersion }
+    }
+  }
+
+  const data = await load()
+  const version = getVersion(data)
+
+  if (pinnedVersion && version !== pinnedVersion) {
+    throw new InvalidCursorError(
+      'Los datos cambiaron desde que se emitió el cursor y su versión ya no está disponible. Repite la consulta sin cursor para empezar desde la primera página.'
+    )
+  }
+
+  pinSnapshot(`${key}@${version}`, data)
+
+  return { data, version }
+}
+
+/**
+ * @description Fija una versión de datos, descartando la menos usada si se supera el máximo
+ */
+function pinSnapshot (snapshotKey: string, data: unknown): void {
+  pinnedSnapshots.delete(snapshotKey)
+  pinnedSnapshots.set(snapshotKey, { data, usedAt: Date.now() })
+
+  while (pinnedSnapshots.size > MAX_PINNED_SNAPSHOTS) {
+    const oldestKey = pinnedSnapshots.keys().next().value
+    if (oldestKey === undefined) break
+    pinnedSnapshots.delete(oldestKey)
+  }
+}
+
+/**
+ * @description Elimina las versiones fijadas que no se han usado dentro del TTL
+ */
+function evictExpiredSnapshots (): void {
+  const now = Date.now()
+
+  for (const [snapshotKey, snapshot] of pinnedSnapshots) {
+    if (now - snapshot.usedAt > PINNED_SNAPSHOT_TTL_MS) {
+      pinnedSnapshots.delete(snapshotKey)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type { PriceQuote } from '../types/prices'
+
+/**
+ * @description Formato de las claves del feed: "<chainId>:<dirección>"
+ */
+const PRICE_KEY_PATTERN = /^\d+:0x[0-9a-fA-F]{40}$/
+
+/**
+ * @function getPriceKey
+ * @description Obtiene la clave "<chainId>:<dirección en minúsculas>" del precio de un token
+ * @param {string} chainId - ID de la cadena
+ * @param {string} address - Dirección del token
+ * @returns {string} Clave del precio
+ */
+export function getPriceKey (chainId: string, address: string): string {
+  return `${chainId}:${address.trim().toLowerCase()}`
+}
+
+/**
+ * @function parsePriceFeed
+ * @description Valida un feed de precios con el formato
+ * { "updatedAt": "<ISO 8601>", "prices": { "<chainId>:<dirección>": usd | { usd, lastUpdated } } }.
+ * Los precios sin lastUpdated toman la fecha updatedAt del feed. Las entradas con clave, precio
+ * o fecha inválidos se descartan.
+ * @param {unknown} data - Feed a validar
+ * @param {string} origin - Procedencia del feed, para los mensajes de error
+ * @returns {{quotes: Map<string, PriceQuote>, discarded: number}} Precios por clave y número de
+ * entradas descartadas
+ * @throws {Error} Si el feed no tiene el formato esperado
+ */
+export function parsePriceFeed (
+  data: unknown,
+  origin: string
+): { quotes: Map<string, PriceQuote>; discarded: number } {
+  const feed =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, any>)
+      : null
+
+  if (!feed?.prices || typeof feed.prices !== 'object') {
+    throw new Error(
+      `Feed de precios inválido (${origin}): se esperaba un objeto { "prices": { "<chainId>:<dirección>": precio } }`
+    )
+  }
+
+  const feedUpdatedAt = parseTimestamp(feed.updatedAt)
+  const quotes = new Map<string, PriceQuote>()
+  let discarded = 0
+
+  for (const [key, value] of Object.entries(feed.prices as Record<string, any>)) {
+    const entry =
+      typeof value === 'number' ? { usd: value } : (value as Record<string, any>)
+    const usd = entry?.usd
+    const lastUpdated = parseTimestamp(entry?.lastUpdated) ?? feedUpdatedAt
+
+    // Sin fecha no se puede saber si el precio está desactualizado
+    if (
+      !PRICE_KEY_PATTERN.test(key.trim()) ||
+      typeof usd !== 'number' ||
+      !Number.isFinite(usd) ||
+      usd < 0 ||
+      !lastUpdated
+    ) {
+      discarded++
+      continue
+    }
+
+    const [chainId, address] = key.trim().split(':')
+    quotes.set(getPriceKey(chainId, address), { usd, lastUpdated })
+  }
+
+  return { quotes, discarded }
+}
+
+/**
+ * @description Convierte una fecha a ISO 8601, o undefined si no es una fecha válida
+ */
+function parseTimestamp (value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
@@ -0,0 +1,101 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import type { ResourceChange } from '../types/mcp'
+
+/**
+ * @interface ResourceSubscriptionHandlers
+ * @description Callbacks invocados cuando un cliente se suscribe o cancela la suscripción a un recurso
+ */
+export interface ResourceSubscriptionHandlers {
+  onSubscribe: (uri: string, sessionId?: string) => void
+  onUnsubscribe: (uri: string, sessionId?: string) => void
+}
+
+/**
+ * @function enableResourceSubscriptions
+ * @description Declara la capacidad de suscripción a recursos y registra los handlers de
+ * resources/subscribe y resources/unsubscribe. Debe llamarse antes de conectar el transporte.
+ * @param {McpServer} server - Servidor MCP
+ * @param {ResourceSubscriptionHandlers} handlers - Callbacks de suscripción
+ */
+export function enableResourceSubscriptions (
+  server: McpServer,
+  handlers: ResourceSubscriptionHandlers
+): void {
+  server.server.registerCapabilities({
+    resources: {
+      subscribe: true,
+      listChanged: true
+    }
+  })
+
+  server.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, extra) => {
+      handlers.onSubscribe(request.params.uri, extra.sessionId)
+      return {}
+    }
+  )
+
+  server.server.setRequestHandler(
+    UnsubscribeRequestSchema,
+    async (request, extra) => {
+      handlers.onUnsubscribe(request.params.uri, extra.sessionId)
+      return {}
+    }
+  )
+}
+
+/**
+ * @function isUriAffected
+ * @description Indica si un recurso suscrito se ve afectado por un cambio. Un URI modificado
+ * afecta al propio recurso y a todos los recursos que cuelgan de él
+ * (ej: "blockchain://tokens/lfj" afecta a "blockchain://tokens/lfj/43114").
+ * @param {string} subscribedUri - URI del recurso suscrito
+ * @param {ResourceChange} change - Cambio detectado
+ * @returns {boolean} true si el recurso suscrito debe notificarse
+ */
+export function isUriAffected (
+  subscribedUri: string,
+  change: ResourceChange
+): boolean {
+  return change.uris.some(
+    uri => subscribedUri === uri || subscribedUri.startsWith(`${uri}/`)
+  )
+}
+
+/**
+ * @function notifyResourceChange
+ * @description Envía a un servidor las notificaciones correspondientes a un cambio:
+ * notifications/resources/updated por cada recurso suscrito afectado y
+ * notifications/resources/list_changed si cambió el conjunto de recursos
+ * @param {McpServer} server - Servidor MCP conectado
+ * @param {Iterable<string>} subscribedUris - URIs a los que está suscrito el cliente
+ * @param {ResourceChange} change - Cambio detectado
+ * @returns {Promise<number>} Número de notificaciones de actualización enviadas
+ */
+export async function notifyResourceChange (
+  server: McpServer,
+  subscribedUris: Iterable<string>,
+  change: ResourceChange
+): Promise<number> {
+  if (!server.isConnected()) return 0
+
+  let sent = 0
+
+  for (const uri of subscribedUris) {
+    if (isUriAffected(uri, change)) {
+      await server.server.sendResourceUpdated({ uri })
+      sent++
+    }
+  }
+
+  if (change.listChanged) {
+    server.sendResourceListChanged()
+  }
+
+  return sent
+}
@@ -1,6 +1,8 @@
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { logger } from './logger'
-import { SessionStore } from '../types/mcp'
+import { notifyResourceChange } from './resource.subscriptions'
+import { ResourceChange, SessionStore } from '../types/mcp'
 
 /**
  * @class SessionManager
@@ -11,6 +13,8 @@ export class SessionManager {
   private static instance: SessionManager
   private sessions: SessionStore = {}
   private sessionTimeouts: Record<string, NodeJS.Timeout> = {}
+  private servers: Record<string, McpServer> = {}
+  private subscriptions: Record<string, Set<string>> = {}
   private readonly DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000 // 30 minutos por defecto
 
   /**
@@ -82,6 +86,8 @@ export class SessionManager {
   public removeTransport (sessionId: string): void {
     if (this.sessions[sessionId]) {
       delete this.sessions[sessionId]
+      delete this.servers[sessionId]
+      delete this.subscriptions[sessionId]
       logger.debug('Sesión eliminada', { sessionId })
 
       // Limpiar el timeout si existe
@@ -92,6 +98,65 @@ export class SessionManager {
     }
   }
 
+  /**
+   * @method addServer
+   * @description Asocia el servidor MCP de una sesión para poder enviarle notificaciones
+   * @param {string} sessionId - ID de la sesión
+   * @param {McpServer} server - Servidor MCP de la sesión
+   */
+  public addServer (sessionId: string, server: McpServer): void {
+    this.servers[sessionId] = server
+  }
+
+  /**
+   * @method subscribe
+   * @description Registra la suscripción de una sesión a un recurso
+   * @param {string} sessionId - ID de la sesión
+   * @param {string} uri - URI del recurso
+   */
+  public subscribe (sessionId: string, uri: string): void {
+    if (!this.subscriptions[sessionId]) {
+      this.subscriptions[sessionId] = new Set()
+    }
+    this.subscriptions[sessionId].add(uri)
+    logger.debug('Suscripción a recurso añadida', { sessionId, uri })
+  }
+
+  /**
+   * @method unsubscribe
+   * @description Elimina la suscripción de una sesión a un recurso
+   * @param {string} sessionId - ID de la sesión
+   * @param {string} uri - URI del recurso
+   */
+  public unsubscribe (sessionId: string, uri: string): void {
+    this.subscriptions[sessionId]?.delete(uri)
+    logger.debug('Suscripción a recurso eliminada', { sessionId, uri })
+  }
+
+  /**
+   * @method notifyResourceChange
+   * @description Notifica un cambio de recursos a todas las sesiones con servidor asociado.
+   * Cada sesión recibe solo las actualizaciones de los recursos a los que está suscrita.
+   * @param {ResourceChange} change - Cambio detectado
+   */
+  public async notifyResourceChange (change: ResourceChange): Promise<void> {
+    for (const [sessionId, server] of Object.entries(this.servers)) {
+      try {
+        const sent = await notifyResourceChange(
+          server,
+          this.subscriptions[sessionId] ?? [],
+          change
+        )
+        logger.debug('Cambio de recursos notificado', { sessionId, sent })
+      } catch (error) {
+        logger.error('Error al notificar cambio de recursos', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+  }
+
   /**
    * @method getActiveSessions
    * @description Obtiene el número de sesiones activas
@@ -123,6 +188,8 @@ export class SessionManager {
     // Reiniciar mapa de sesiones y timeouts
     this.sessions = {}
     this.sessionTimeouts = {}
+    this.servers = {}
+    this.subscriptions = {}
     logger.info('Todas las sesiones han sido eliminadas')
   }
 
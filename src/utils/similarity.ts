@@ -0,0 +1,101 @@
+/**
+ * @function levenshteinDistance
+ * @description Calcula la distancia de edición (Levenshtein) entre dos cadenas:
+ * el número mínimo de inserciones, eliminaciones o sustituciones necesarias
+ * para transformar una cadena en la otra.
+ * @param {string} a - Primera cadena
+ * @param {string} b - Segunda cadena
+ * @returns {number} Distancia de edición entre ambas cadenas
+ */
+export function levenshteinDistance (a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  // Solo se necesita la fila anterior para calcular la actual
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i]
+
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      )
+    }
+
+    previousRow = currentRow
+  }
+
+  return previousRow[b.length]
+}
+
+/**
+ * @function typoDistance
+ * @description Calcula la distancia de edición considerando también la transposición de
+ * caracteres adyacentes como una sola operación (Optimal String Alignment). Refleja mejor
+ * los errores de escritura habituales, como "swpa" en lugar de "swap".
+ * @param {string} a - Primera cadena
+ * @param {string} b - Segunda cadena
+ * @returns {number} Distancia de edición con transposiciones
+ */
+export function typoDistance (a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let twoRowsBack: number[] = []
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i]
+
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      )
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        currentRow[j] = Math.min(currentRow[j], twoRowsBack[j - 2] + 1)
+      }
+    }
+
+    twoRowsBack = previousRow
+    previousRow = currentRow
+  }
+
+  return previousRow[b.length]
+}
+
+/**
+ * @function getMaxTypoDistance
+ * @description Obtiene la distancia de edición máxima tolerada para considerar
+ * que una cadena es una variante con errores tipográficos de otra
+ * @param {string} value - Cadena de referencia
+ * @returns {number} Distancia máxima tolerada: 0 para cadenas de hasta 3 caracteres (una sola
+ * edición las convierte en otra palabra, así que solo se acepta la coincidencia exacta), 1 para
+ * cadenas de hasta 6 caracteres y 2 para las más largas
+ */
+export function getMaxTypoDistance (value: string): number {
+  if (value.length <= 3) return 0
+  return value.length <= 6 ? 1 : 2
+}
+
+/**
+ * @function isTypoOf
+ * @description Indica si una cadena es una variante con errores tipográficos de otra
+ * (distinta pero dentro de la distancia de edición tolerada)
+ * @param {string} candidate - Cadena a evaluar
+ * @param {string} reference - Cadena de referencia
+ * @returns {boolean} true si el candidato es una variante cercana de la referencia
+ */
+export function isTypoOf (candidate: string, reference: string): boolean {
+  if (candidate === reference) return false
+  return typoDistance(candidate, reference) <= getMaxTypoDistance(reference)
+}
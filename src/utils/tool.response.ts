@@ -0,0 +1,36 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * @description Anotaciones de las herramientas de consulta: no modifican ningún estado,
+ * repetir la llamada con los mismos argumentos no tiene efectos adicionales y trabajan
+ * sobre datos externos (repositorio, listas de tokens y metadatos remotos)
+ */
+export const READ_ONLY_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true
+}
+
+/**
+ * @function createStructuredResponse
+ * @description Crea la respuesta de una herramienta con salida estructurada. El resumen
+ * legible va en el primer bloque de texto y los datos en structuredContent, validados
+ * contra el outputSchema de la herramienta. Los datos se repiten serializados en un
+ * segundo bloque de texto para los clientes que aún no leen structuredContent.
+ * @param {string} summary - Resumen legible del resultado
+ * @param {T} data - Datos estructurados de la respuesta
+ * @returns Respuesta de la herramienta
+ */
+export function createStructuredResponse<T extends Record<string, unknown>> (
+  summary: string,
+  data: T
+) {
+  return {
+    content: [
+      { type: 'text' as const, text: summary.trim() },
+      { type: 'text' as const, text: JSON.stringify(data, null, 2) }
+    ],
+    structuredContent: data
+  }
+}
@@ -1,4 +1,15 @@
 // Generated by Wrangler
 // After adding bindings to `wrangler.jsonc`, regenerate this interface via `npm run cf-typegen`
 interface CloudflareBindings {
+  // Opcional: KV para el almacenamiento persistente del caché
+  CACHE?: KVNamespace
+  // Opcional: configuración de orígenes de datos (ver config/sources.ts)
+  SOURCES_CONFIG?: string
+  REPOSITORY_URL?: string
+  TEMPLATES_BASE_URL?: string
+  TOKEN_LISTS?: string
+  POPULAR_TOKEN_LISTS?: string
+  TOKEN_CURATED_RANKS?: string
+  TEMPLATES_FALLBACK_URL?: string
+  TEMPLATES_FALLBACK_ENABLED?: string
 }